@@ -1,16 +1,84 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { FractalType, ControlParams, RenderParams, ColorPalette } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  Camera3D,
+  CameraMode,
+  DualViewMode,
+  FractalType,
+  ControlParams,
+  RenderParams,
+  ColorPalette,
+  PrecisePan,
+  ViewState,
+  RendererPreference,
+  ColoringAlgorithm,
+  OrbitTrapShape,
+  IFSTransform,
+} from './types';
 import FractalCanvas from './components/FractalCanvas';
 import Controls from './components/Controls';
+import ExportDialog from './components/ExportDialog';
+import MeshExportDialog from './components/MeshExportDialog';
+import BookmarkPanel from './components/BookmarkPanel';
+import AnimationPanel from './components/AnimationPanel';
+import CameraControls from './components/CameraControls';
+import DualViewControls from './components/DualViewControls';
+import JuliaPreview from './components/JuliaPreview';
+import OrbitOverlay from './components/OrbitOverlay';
+import OrbitInspector from './components/OrbitInspector';
+import ExplorePanel from './components/ExplorePanel';
+import RenderStatsPanel from './components/RenderStatsPanel';
+import { AnimationFrame } from './services/animationService';
+import { offsetPrecisePan, precisePanDifference, precisePanFromNumbers, precisePanToPoint } from './services/deepZoom';
+import {
+  DEFAULT_CAMERA,
+  fromSavedSettings,
+  parseView,
+  SavedView,
+  toSavedSettings,
+} from './services/settingsService';
+import { createOrbitCamera } from './services/cameraService';
+import { decodeViewHash, encodeViewHash } from './services/viewHashService';
+import { getJuliaCounterpart, isEscapeTimeFractal } from './services/escapeTimeFormulas';
+import { DEFAULT_CUSTOM_BAILOUT, DEFAULT_CUSTOM_FORMULA } from './services/formulaParser';
+import { DEFAULT_NEWTON_POLYNOMIAL } from './services/polynomial';
+import { DEFAULT_IFS_TRANSFORMS } from './services/ifsService';
+import { DEFAULT_FLAME } from './services/flameService';
+import { DEFAULT_LSYSTEM } from './services/lsystemService';
+import { DEFAULT_FRACTAL_3D, DISTANCE_ESTIMATORS, is3DFractal } from './services/distanceEstimators';
+import { DEFAULT_LIGHTING_3D } from './services/lightingService';
+import { DEFAULT_RENDER_3D } from './services/mandelbulbRenderer';
+import { FlameDocument, serializeFlameXml } from './services/flameXml';
+import { downloadText } from './services/downloadService';
+import { readPngTextChunks } from './services/pngService';
+import { PNG_VIEW_KEYWORD } from './services/exportService';
+import { canTraceOrbit, OrbitOverlays, traceOrbit } from './services/orbitService';
+import { getZoomIterations, raiseAutoIterations, RenderStats } from './services/fractalService';
+import {
+  analyseFrame,
+  AnalysisField,
+  canAnalyseFrame,
+  canSearchNuclei,
+  chooseExploreTarget,
+  computeAnalysisField,
+  EXPLORE_ZOOM_FACTOR,
+  ExploreSuggestion,
+  getMaxExploreZoom,
+  getPointOffset,
+  isSearchPrecise,
+  NucleusSearchResult,
+  NucleusSearchSettings,
+  searchNear,
+  toSuggestions,
+} from './services/exploreService';
 
 const CANVAS_WIDTH = 800;
 const CANVAS_HEIGHT = 600;
-
-interface SavedSettings extends Omit<ControlParams, 'zoom'> {
-  zoom: number;
-  panX: number;
-  panY: number;
-}
+// Auto-explore lingers this long on each finished frame before moving on.
+const EXPLORE_PAUSE = 400; // ms
+// Suggestions are opened this much closer than the view they were found in.
+const SUGGESTION_ZOOM_FACTOR = 4;
+// How long the view must stay put before it becomes a browser history entry, so drags and zoom animations add one entry.
+const HISTORY_SETTLE_DELAY = 500; // ms
 
 const initialControlParams: ControlParams = {
   fractalType: FractalType.Mandelbrot,
@@ -18,52 +86,124 @@ const initialControlParams: ControlParams = {
   iterations: 200,
   cReal: 0.285,
   cImag: 0.01,
+  exponent: 2,
+  customFormula: DEFAULT_CUSTOM_FORMULA,
+  customBailout: DEFAULT_CUSTOM_BAILOUT,
+  newtonPolynomial: DEFAULT_NEWTON_POLYNOMIAL,
+  relaxation: 1,
+  ifsTransforms: DEFAULT_IFS_TRANSFORMS,
+  flame: DEFAULT_FLAME,
+  lSystem: DEFAULT_LSYSTEM,
+  fractal3D: DEFAULT_FRACTAL_3D,
+  lighting3D: DEFAULT_LIGHTING_3D,
+  render3D: DEFAULT_RENDER_3D,
   colorPalette: ColorPalette.Viridis,
   mandelbulbIterations: 500,
+  autoIterations: false,
+  deepZoom: false,
+  renderer: RendererPreference.Auto,
+  coloringAlgorithm: ColoringAlgorithm.Smooth,
+  orbitTrapShape: OrbitTrapShape.Point,
+  customPalette: null,
+  paletteOffset: 0,
+  paletteRepeat: 1,
+  paletteDensity: 1,
+  paletteCycleSpeed: 0,
 };
 
-const getInitialPan = (type: FractalType): { panX: number, panY: number } => {
+const getInitialPan = (type: FractalType): { panX: number, panY: number, precisePan: PrecisePan } => {
   switch (type) {
     case FractalType.Mandelbrot:
-      return { panX: 0.5, panY: 0 };
+    case FractalType.Celtic:
+    case FractalType.PerpendicularBurningShip:
+    case FractalType.Nova:
+      return { panX: 0.5, panY: 0, precisePan: precisePanFromNumbers(0.5, 0) };
     case FractalType.BurningShip:
-      return { panX: 0.5, panY: -0.5 };
+    case FractalType.Buffalo:
+      return { panX: 0.5, panY: -0.5, precisePan: precisePanFromNumbers(0.5, -0.5) };
+    // The Magnet parameter planes lie mostly to the right of the origin, around the fixed point 1.
+    case FractalType.MagnetI:
+      return { panX: -1.5, panY: 0, precisePan: precisePanFromNumbers(-1.5, 0) };
+    case FractalType.MagnetII:
+      return { panX: -1, panY: 0, precisePan: precisePanFromNumbers(-1, 0) };
+    // Higher powers of z (and the Tricorn) are centred on the origin, as are all the Julia sets, custom formulas
+    // and Newton fractals.
+    case FractalType.Multibrot:
+    case FractalType.Tricorn:
+    case FractalType.CustomFormula:
+    case FractalType.Newton:
     case FractalType.Julia:
     case FractalType.Sierpinski:
+    case FractalType.IFS:
+    case FractalType.Flame:
+    case FractalType.LSystem:
     case FractalType.Mandelbulb:
+    case FractalType.Mandelbox:
+    case FractalType.MengerSponge:
+    case FractalType.SierpinskiTetrahedron:
+    case FractalType.KaleidoscopicIFS:
+    case FractalType.QuaternionJulia:
     default:
-      return { panX: 0, panY: 0 };
+      return { panX: 0, panY: 0, precisePan: precisePanFromNumbers(0, 0) };
   }
 };
 
+// Auto iterations start from the zoom depth, whatever limit the params were built or restored with.
+const applyAutoIterations = (params: RenderParams): RenderParams =>
+  params.autoIterations && isEscapeTimeFractal(params.fractalType)
+    ? { ...params, iterations: getZoomIterations(params.zoom) }
+    : params;
+
 const App: React.FC = () => {
-  const [renderParams, setRenderParams] = useState<RenderParams>({
+  // A view link in the URL takes precedence over the defaults.
+  const [linkedView] = useState(() => decodeViewHash(window.location.hash, initialControlParams));
+  const [renderParams, setRenderParams] = useState<RenderParams>(() => applyAutoIterations({
     ...initialControlParams,
     width: CANVAS_WIDTH,
     height: CANVAS_HEIGHT,
-    panX: getInitialPan(initialControlParams.fractalType).panX,
-    panY: getInitialPan(initialControlParams.fractalType).panY,
+    ...getInitialPan(initialControlParams.fractalType),
     zoom: initialControlParams.zoom / 100,
-    cameraDistance: 3.0,
-    cameraTarget: { x: 0, y: 0 },
+    ...(linkedView && fromSavedSettings(linkedView.settings)),
+  }));
+  const [renderProgress, setRenderProgress] = useState(0);
+  const [camera, setCamera] = useState<Camera3D>(linkedView?.camera ?? DEFAULT_CAMERA);
+  const [cameraMode, setCameraMode] = useState(CameraMode.Orbit);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isMeshExportOpen, setIsMeshExportOpen] = useState(false);
+  const [showTransformHandles, setShowTransformHandles] = useState(false);
+  const [dualViewMode, setDualViewMode] = useState(DualViewMode.Off);
+  const [hoveredConstants, setHoveredConstants] = useState<{ cReal: number; cImag: number } | null>(null);
+  const [openJuliaOnPin, setOpenJuliaOnPin] = useState(false);
+  const [isInspectorEnabled, setIsInspectorEnabled] = useState(false);
+  // The last point clicked with the inspector on, kept with the fractal it was clicked on.
+  const [inspectedPoint, setInspectedPoint] = useState<{ fractalType: FractalType; precise: PrecisePan; x: number; y: number } | null>(null);
+  const [orbitOverlays, setOrbitOverlays] = useState<OrbitOverlays>({ axes: false, grid: false, bulbs: false });
+  const [isExploring, setIsExploring] = useState(false);
+  const [explorePath, setExplorePath] = useState<AnimationFrame[]>([]);
+  const [suggestions, setSuggestions] = useState<{ fractalType: FractalType; points: ExploreSuggestion[] }>({
+    fractalType: initialControlParams.fractalType,
+    points: [],
   });
-  const [isRendering, setIsRendering] = useState(true);
-  const [cameraRotation, setCameraRotation] = useState({ x: 0, y: 0 });
+  const [isSearchEnabled, setIsSearchEnabled] = useState(false);
+  const [nucleusSearch, setNucleusSearch] = useState<NucleusSearchSettings>({ kind: 'nucleus', period: 3, preperiod: 2 });
+  const [searchResult, setSearchResult] = useState<NucleusSearchResult | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // The field of the last CPU render, with the parameters it was rendered for.
+  const renderedFieldRef = useRef<{ field: Float32Array; params: RenderParams } | null>(null);
+  const [renderStats, setRenderStats] = useState<{ stats: RenderStats; params: RenderParams; elapsedMs: number } | null>(null);
+  const [renderError, setRenderError] = useState<{ message: string; params: RenderParams } | null>(null);
+  // The view auto iterations last raised the limit for, and how many pixels were unresolved before the raise.
+  const autoRaiseRef = useRef<{ view: string; unresolved: number } | null>(null);
 
   const animationRef = useRef({
     startTime: null as number | null,
-    startView: { panX: 0, panY: 0, zoom: 1 },
-    targetView: { panX: 0, panY: 0, zoom: 1 },
+    startView: { panX: 0, panY: 0, zoom: 1, precisePan: precisePanFromNumbers(0, 0) } as ViewState,
+    targetView: { panX: 0, panY: 0, zoom: 1, precisePan: precisePanFromNumbers(0, 0) } as ViewState,
     animationFrameId: null as number | null,
   });
 
   const ANIMATION_DURATION = 300; // ms
 
-  const is2DInteractive = (type: FractalType) =>
-    type === FractalType.Mandelbrot ||
-    type === FractalType.Julia ||
-    type === FractalType.BurningShip;
-
   const easeInOutQuad = (t: number) => t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
 
   const animateView = useCallback((timestamp: number) => {
@@ -80,20 +220,22 @@ const App: React.FC = () => {
     const nextPanX = startView.panX + (targetView.panX - startView.panX) * easedProgress;
     const nextPanY = startView.panY + (targetView.panY - startView.panY) * easedProgress;
     const nextZoom = startView.zoom + (targetView.zoom - startView.zoom) * easedProgress;
+    // Interpolate the precise pan as an offset from the start so deep-zoom views keep their precision.
+    const panDelta = precisePanDifference(targetView.precisePan, startView.precisePan);
+    const nextPrecisePan = offsetPrecisePan(startView.precisePan, panDelta.x * easedProgress, panDelta.y * easedProgress);
 
-    setRenderParams(prev => ({ ...prev, panX: nextPanX, panY: nextPanY, zoom: nextZoom }));
+    setRenderParams(prev => ({ ...prev, panX: nextPanX, panY: nextPanY, zoom: nextZoom, precisePan: nextPrecisePan }));
 
     if (progress < 1) {
       animationRef.current.animationFrameId = requestAnimationFrame(animateView);
     } else {
       animationRef.current.startTime = null;
       animationRef.current.animationFrameId = null;
-      setIsRendering(false);
     }
   }, []);
 
   const handleRender = useCallback((newParams: ControlParams) => {
-    setIsRendering(true);
+    setRenderProgress(0);
     if (animationRef.current.animationFrameId) {
       cancelAnimationFrame(animationRef.current.animationFrameId);
       animationRef.current.animationFrameId = null;
@@ -103,66 +245,62 @@ const App: React.FC = () => {
         const isTypeChange = prevParams.fractalType !== newParams.fractalType;
         const initialPan = getInitialPan(newParams.fractalType);
         
-        let cameraUpdates = {};
-        if (isTypeChange && newParams.fractalType === FractalType.Mandelbulb) {
-            setCameraRotation({ x: 0, y: 0 });
-            cameraUpdates = {
-                cameraDistance: 3.0,
-                cameraTarget: { x: 0, y: 0 },
-            };
+        if (isTypeChange && is3DFractal(newParams.fractalType)) {
+            setCamera(createOrbitCamera([0, 0, 0], DISTANCE_ESTIMATORS[newParams.fractalType].cameraDistance));
         }
 
-        return {
+        return applyAutoIterations({
             ...prevParams,
             ...newParams,
-            ...cameraUpdates,
             width: CANVAS_WIDTH,
             height: CANVAS_HEIGHT,
             zoom: newParams.zoom / 100,
             panX: isTypeChange ? initialPan.panX : prevParams.panX,
             panY: isTypeChange ? initialPan.panY : prevParams.panY,
-        };
+            precisePan: isTypeChange ? initialPan.precisePan : prevParams.precisePan,
+        });
     });
   }, []);
 
   const handleRenderComplete = useCallback(() => {
     if (!animationRef.current.animationFrameId) {
-      setIsRendering(false);
+      setRenderProgress(1);
     }
   }, []);
 
-  const handleViewChange = useCallback((view: { panX: number; panY: number; zoom: number }) => {
-    if (!is2DInteractive(renderParams.fractalType)) {
-      setIsRendering(true);
-      setRenderParams(prevParams => ({ ...prevParams, ...view }));
-      return;
-    }
+  const handleRenderProgress = useCallback((progress: number) => {
+    setRenderProgress(progress);
+  }, []);
+
+  const handleViewChange = useCallback((view: ViewState, immediate = false) => {
     if (animationRef.current.animationFrameId) {
       cancelAnimationFrame(animationRef.current.animationFrameId);
+      animationRef.current.animationFrameId = null;
     }
-    
-    setIsRendering(true);
+    setRenderProgress(0);
+    if (immediate || !isEscapeTimeFractal(renderParams.fractalType)) {
+      setRenderParams(prevParams => ({ ...prevParams, ...view }));
+      return;
+    }
+
     animationRef.current.startTime = null;
-    animationRef.current.startView = { panX: renderParams.panX, panY: renderParams.panY, zoom: renderParams.zoom };
+    animationRef.current.startView = {
+      panX: renderParams.panX,
+      panY: renderParams.panY,
+      zoom: renderParams.zoom,
+      precisePan: renderParams.precisePan,
+    };
     animationRef.current.targetView = view;
     animationRef.current.animationFrameId = requestAnimationFrame(animateView);
   }, [renderParams, animateView]);
 
-  const handleCameraChange = useCallback((changes: { rotation?: { x: number; y: number }; distance?: number; target?: { x: number; y: number } }) => {
-    if (changes.rotation) {
-        setCameraRotation(changes.rotation);
-    }
-    if (changes.distance || changes.target) {
-        setRenderParams(prev => ({
-            ...prev,
-            cameraDistance: changes.distance ?? prev.cameraDistance,
-            cameraTarget: changes.target ?? prev.cameraTarget,
-        }));
-    }
-  }, []);
+  const handleCameraReset = useCallback(() => {
+    if (!is3DFractal(renderParams.fractalType)) return;
+    setCamera(createOrbitCamera([0, 0, 0], DISTANCE_ESTIMATORS[renderParams.fractalType].cameraDistance, camera.fov));
+  }, [renderParams.fractalType, camera.fov]);
   
   const handleJuliaConstantChange = useCallback((constants: { cReal: number; cImag: number }) => {
-    setIsRendering(true);
+    setRenderProgress(0);
     setRenderParams(prevParams => ({
       ...prevParams,
       cReal: constants.cReal,
@@ -170,68 +308,394 @@ const App: React.FC = () => {
     }));
   }, []);
 
-  const handleSaveSettings = useCallback(() => {
-    const settingsToSave: SavedSettings = {
-      fractalType: renderParams.fractalType,
-      zoom: renderParams.zoom * 100,
-      iterations: renderParams.iterations,
-      cReal: renderParams.cReal,
-      cImag: renderParams.cImag,
-      colorPalette: renderParams.colorPalette,
-      panX: renderParams.panX,
-      panY: renderParams.panY,
-      mandelbulbIterations: renderParams.mandelbulbIterations,
-    };
-    localStorage.setItem('fractalExplorerSettings', JSON.stringify(settingsToSave));
-    alert('Current settings have been saved!');
+  // Swaps the view to the Julia set of the pinned c, or of the given one.
+  const openJuliaSet = useCallback((constants?: { cReal: number; cImag: number }) => {
+    const juliaType = getJuliaCounterpart(renderParams.fractalType);
+    if (!juliaType) return;
+    if (animationRef.current.animationFrameId) {
+      cancelAnimationFrame(animationRef.current.animationFrameId);
+      animationRef.current.animationFrameId = null;
+    }
+    setRenderProgress(0);
+    setHoveredConstants(null);
+    setRenderParams(prev => ({
+      ...prev,
+      ...constants,
+      fractalType: juliaType,
+      ...getInitialPan(juliaType),
+      zoom: initialControlParams.zoom / 100,
+    }));
+  }, [renderParams.fractalType]);
+
+  const handlePointPin = useCallback((constants: { cReal: number; cImag: number }) => {
+    if (openJuliaOnPin) {
+      openJuliaSet(constants);
+    } else {
+      handleJuliaConstantChange(constants);
+    }
+  }, [openJuliaOnPin, openJuliaSet, handleJuliaConstantChange]);
+
+  const handleIFSTransformsChange = useCallback((ifsTransforms: IFSTransform[]) => {
+    setRenderProgress(0);
+    setRenderParams(prevParams => ({ ...prevParams, ifsTransforms }));
+  }, []);
+
+  // Imported flames bring their own palette and camera; the palette's colours are used as they are in the file.
+  const handleFlameImport = useCallback((document: FlameDocument) => {
+    setRenderProgress(0);
+    setRenderParams(prev => ({
+      ...prev,
+      fractalType: FractalType.Flame,
+      flame: document.flame,
+      ...(document.palette && { customPalette: document.palette, paletteOffset: 0, paletteRepeat: 1, paletteDensity: 1 }),
+      ...(document.view && {
+        ...document.view,
+        precisePan: precisePanFromNumbers(document.view.panX, document.view.panY),
+      }),
+    }));
+  }, []);
+
+  const handleFlameExport = useCallback(() => {
+    downloadText(serializeFlameXml(renderParams, 'Fractal Explorer flame'), 'fractal-flame.flame', 'application/xml');
   }, [renderParams]);
 
-  const handleLoadSettings = useCallback(() => {
-    const savedSettingsJSON = localStorage.getItem('fractalExplorerSettings');
-    if (savedSettingsJSON) {
-      const savedSettings: SavedSettings = JSON.parse(savedSettingsJSON);
-      if (animationRef.current.animationFrameId) {
-        cancelAnimationFrame(animationRef.current.animationFrameId);
+  const restoreView = useCallback((view: SavedView) => {
+    if (animationRef.current.animationFrameId) {
+      cancelAnimationFrame(animationRef.current.animationFrameId);
+      animationRef.current.animationFrameId = null;
+    }
+    setRenderProgress(0);
+    setCamera(view.camera);
+    setRenderParams(prev => applyAutoIterations({ ...prev, ...fromSavedSettings(view.settings) }));
+  }, []);
+
+  // Shows a frame of the animation timeline as is, without the pan/zoom easing.
+  const handleShowFrame = useCallback((frame: AnimationFrame) => {
+    if (animationRef.current.animationFrameId) {
+      cancelAnimationFrame(animationRef.current.animationFrameId);
+      animationRef.current.animationFrameId = null;
+    }
+    setRenderProgress(0);
+    setCamera(frame.camera);
+    setRenderParams(frame.params);
+  }, []);
+
+  const juliaType = getJuliaCounterpart(renderParams.fractalType);
+  const isDualView = juliaType !== null && dualViewMode !== DualViewMode.Off;
+  const isSplitView = isDualView && dualViewMode === DualViewMode.Split;
+
+  const canExplore = canAnalyseFrame(renderParams.fractalType);
+  const canSearch = canSearchNuclei(renderParams.fractalType, renderParams.exponent);
+  const visibleSuggestions = suggestions.fractalType === renderParams.fractalType ? suggestions.points : [];
+
+  const handlePointClick = useCallback((constants: { cReal: number; cImag: number }, precise: PrecisePan) => {
+    if (isInspectorEnabled) {
+      setInspectedPoint({ fractalType: renderParams.fractalType, precise, x: constants.cReal, y: constants.cImag });
+    }
+    if (isSearchEnabled && canSearch) {
+      const result = searchNear(renderParams, nucleusSearch, constants.cReal, constants.cImag);
+      setSearchResult(result);
+      if (!result) {
+        const name = nucleusSearch.kind === 'nucleus' ? 'nucleus' : 'Misiurewicz point';
+        setSearchError(`No ${name} of period ${nucleusSearch.period} was found near that point.`);
+      } else if (!isSearchPrecise(renderParams, result.x, result.y)) {
+        setSearchError('The search works in double precision, which is too coarse for this zoom; the point may be off.');
+      } else {
+        setSearchError(null);
       }
-      setIsRendering(true);
-      // Reset camera when loading settings for simplicity
-      setCameraRotation({ x: 0, y: 0 });
-      setRenderParams(prev => ({
-        ...prev,
-        ...savedSettings,
-        zoom: savedSettings.zoom / 100,
-        cameraDistance: 3.0,
-        cameraTarget: { x: 0, y: 0 },
-      }));
-    } else {
-      alert('No saved settings found.');
     }
+    if (isDualView) handlePointPin(constants);
+  }, [isInspectorEnabled, isSearchEnabled, canSearch, nucleusSearch, renderParams, isDualView, handlePointPin]);
+
+  const handleFieldRendered = useCallback((field: Float32Array, params: RenderParams) => {
+    renderedFieldRef.current = { field, params };
+  }, []);
+
+  const handleRenderError = useCallback((message: string, params: RenderParams) => {
+    setRenderError({ message, params });
+  }, []);
+
+  const handleRenderStats = useCallback((stats: RenderStats, params: RenderParams, elapsedMs: number) => {
+    setRenderStats({ stats, params, elapsedMs });
+    if (!params.autoIterations) return;
+    const view = `${params.fractalType} ${params.zoom} ${params.precisePan.x} ${params.precisePan.y}`;
+    const previous = autoRaiseRef.current?.view === view ? autoRaiseRef.current.unresolved : null;
+    const iterations = raiseAutoIterations(params.iterations, stats, previous);
+    if (iterations === null) return;
+    autoRaiseRef.current = { view, unresolved: stats.unresolved };
+    // A view that has moved on in the meantime keeps its own limit.
+    setRenderParams(prev => (prev === params ? { ...prev, iterations } : prev));
+  }, []);
+
+  // Auto iterations start over from the zoom depth whenever the view crosses into another decade of zoom.
+  const zoomIterations = getZoomIterations(renderParams.zoom);
+  const isAutoIterating = renderParams.autoIterations && isEscapeTimeFractal(renderParams.fractalType);
+  useEffect(() => {
+    if (!isAutoIterating) return;
+    setRenderParams(prev => (prev.iterations === zoomIterations ? prev : { ...prev, iterations: zoomIterations }));
+  }, [isAutoIterating, zoomIterations]);
+
+  // The field of the frame on screen, or of a smaller copy of it when the frame was drawn on the GPU.
+  const getAnalysisField = useCallback((): AnalysisField => {
+    const rendered = renderedFieldRef.current;
+    return rendered && rendered.params === renderParams
+      ? { field: rendered.field, width: renderParams.width, height: renderParams.height }
+      : computeAnalysisField(renderParams);
+  }, [renderParams]);
+
+  const handleFindPoints = useCallback(() => {
+    const field = getAnalysisField();
+    setSuggestions({ fractalType: renderParams.fractalType, points: toSuggestions(analyseFrame(field), field, renderParams) });
+  }, [getAnalysisField, renderParams]);
+
+  const centreViewOn = useCallback((x: number, y: number, precise: PrecisePan, zoom: number) => {
+    handleViewChange({
+      panX: -x,
+      panY: -y,
+      zoom: Math.min(zoom, getMaxExploreZoom(renderParams)),
+      precisePan: precisePanToPoint(precise),
+    });
+  }, [handleViewChange, renderParams]);
+
+  const handleExploringChange = useCallback((exploring: boolean) => {
+    if (exploring) setExplorePath([]);
+    setIsExploring(exploring);
   }, []);
 
+  // Each finished frame is recorded, then the view moves on toward its most detailed region.
+  useEffect(() => {
+    if (!isExploring || renderProgress < 1) return;
+    const timeout = setTimeout(() => {
+      setExplorePath(prev => [...prev, { params: renderParams, camera }]);
+      const zoom = renderParams.zoom * EXPLORE_ZOOM_FACTOR;
+      const field = canAnalyseFrame(renderParams.fractalType) ? getAnalysisField() : null;
+      const target = field && chooseExploreTarget(analyseFrame(field), field.width, field.height);
+      if (!field || !target || zoom > getMaxExploreZoom(renderParams)) {
+        setIsExploring(false);
+        return;
+      }
+      const { dx, dy } = getPointOffset(target, field, renderParams.zoom);
+      handleViewChange({
+        panX: renderParams.panX - dx,
+        panY: renderParams.panY - dy,
+        zoom,
+        precisePan: offsetPrecisePan(renderParams.precisePan, -dx, -dy),
+      });
+    }, EXPLORE_PAUSE);
+    return () => clearTimeout(timeout);
+  }, [isExploring, renderProgress, renderParams, camera, getAnalysisField, handleViewChange]);
+
+  const canInspect = canTraceOrbit(renderParams.fractalType);
+  const orbitTrace = useMemo(() => (
+    isInspectorEnabled && inspectedPoint?.fractalType === renderParams.fractalType
+      ? traceOrbit(renderParams, inspectedPoint.x, inspectedPoint.y)
+      : null
+  ), [isInspectorEnabled, inspectedPoint, renderParams]);
+  const visibleOverlays = useMemo(() => ({
+    ...orbitOverlays,
+    bulbs: orbitOverlays.bulbs && renderParams.fractalType === FractalType.Mandelbrot,
+  }), [orbitOverlays, renderParams.fractalType]);
+
+  const currentHash = encodeViewHash({
+    settings: toSavedSettings(renderParams),
+    camera,
+  });
+
+  // Keep the URL in sync with the view. The first view replaces the entry the page was opened with.
+  useEffect(() => {
+    if (currentHash === window.location.hash) return;
+    if (!window.location.hash) {
+      history.replaceState(null, '', currentHash);
+      return;
+    }
+    const timeout = setTimeout(() => history.pushState(null, '', currentHash), HISTORY_SETTLE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [currentHash]);
+
+  // Back/forward and hand-edited URLs change the hash; follow them.
+  useEffect(() => {
+    const handleHashChange = () => {
+      const view = decodeViewHash(window.location.hash, initialControlParams);
+      if (view) restoreView(view);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [restoreView]);
+
+  const handleCopyLink = useCallback(async () => {
+    const url = `${window.location.origin}${window.location.pathname}${currentHash}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      alert('A link to this view has been copied to the clipboard.');
+    } catch {
+      window.prompt('Copy this link to share the view:', url);
+    }
+  }, [currentHash]);
+
+  // Exported PNGs carry their view settings, so dropping one onto the page restores it.
+  const handleDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    try {
+      const text = readPngTextChunks(await file.arrayBuffer())[PNG_VIEW_KEYWORD];
+      if (!text) {
+        throw new Error('This image was not exported from Fractal Explorer.');
+      }
+      restoreView(parseView(text));
+    } catch (error) {
+      alert(`Could not restore the view: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [restoreView]);
+
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4 space-y-8">
+    <div
+      className="min-h-screen flex flex-col items-center justify-center p-4 space-y-8"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+    >
       <header className="text-center">
         <h1 className="text-4xl font-bold tracking-tight text-white sm:text-6xl">Fractal Explorer</h1>
         <p className="mt-4 text-lg text-gray-400">Explore the infinite complexity of mathematical beauty.</p>
       </header>
       <main className="w-full max-w-4xl flex flex-col items-center space-y-8">
-        <FractalCanvas
-          params={renderParams}
-          onRenderComplete={handleRenderComplete}
-          onViewChange={handleViewChange}
-          cameraRotation={cameraRotation}
-          onCameraChange={handleCameraChange}
-          onJuliaConstantChange={handleJuliaConstantChange}
-        />
+        <div className={isSplitView ? 'flex flex-wrap justify-center items-start gap-4 w-[calc(100vw-2rem)]' : 'relative flex'}>
+          <div className="relative flex">
+            <FractalCanvas
+              params={renderParams}
+              onRenderComplete={handleRenderComplete}
+              onRenderProgress={handleRenderProgress}
+              onViewChange={handleViewChange}
+              camera={camera}
+              cameraMode={cameraMode}
+              onCameraChange={setCamera}
+              onJuliaConstantChange={handleJuliaConstantChange}
+              onPointHover={isDualView ? setHoveredConstants : undefined}
+              onPointClick={isDualView || (canInspect && isInspectorEnabled) || (canSearch && isSearchEnabled) ? handlePointClick : undefined}
+              onFieldRendered={handleFieldRendered}
+              onRenderStats={handleRenderStats}
+              onRenderError={handleRenderError}
+              showTransformHandles={showTransformHandles && renderParams.fractalType === FractalType.IFS}
+              onIFSTransformsChange={handleIFSTransformsChange}
+            />
+            {(orbitTrace || visibleSuggestions.length > 0 || (canInspect && Object.values(visibleOverlays).some(Boolean))) && (
+              <OrbitOverlay
+                params={renderParams}
+                trace={orbitTrace}
+                overlays={canInspect ? visibleOverlays : { axes: false, grid: false, bulbs: false }}
+                markers={visibleSuggestions}
+              />
+            )}
+          </div>
+          {isDualView && (
+            <JuliaPreview
+              params={renderParams}
+              juliaType={juliaType}
+              constants={hoveredConstants ?? { cReal: renderParams.cReal, cImag: renderParams.cImag }}
+              width={isSplitView ? CANVAS_WIDTH / 2 : CANVAS_WIDTH / 4}
+              height={isSplitView ? CANVAS_HEIGHT / 2 : CANVAS_HEIGHT / 4}
+              className={isSplitView ? '' : 'absolute bottom-3 right-3 border border-gray-500 pointer-events-none'}
+            />
+          )}
+        </div>
+        {renderError?.params === renderParams && (
+          <p className="text-sm text-red-400">The render failed: {renderError.message}</p>
+        )}
+        {juliaType && (
+          <DualViewControls
+            mode={dualViewMode}
+            constants={{ cReal: renderParams.cReal, cImag: renderParams.cImag }}
+            openOnPin={openJuliaOnPin}
+            onModeChange={setDualViewMode}
+            onOpenOnPinChange={setOpenJuliaOnPin}
+            onOpenJulia={() => openJuliaSet()}
+          />
+        )}
+        {isEscapeTimeFractal(renderParams.fractalType) && (
+          <RenderStatsPanel
+            stats={renderStats && (renderStats.params === renderParams || renderProgress < 1) ? renderStats.stats : null}
+            elapsedMs={renderStats?.elapsedMs ?? 0}
+            iterations={renderParams.iterations}
+            autoIterations={isAutoIterating}
+          />
+        )}
+        {canInspect && (
+          <OrbitInspector
+            enabled={isInspectorEnabled}
+            overlays={orbitOverlays}
+            canShowBulbs={renderParams.fractalType === FractalType.Mandelbrot}
+            point={orbitTrace && inspectedPoint ? inspectedPoint.precise : null}
+            trace={orbitTrace}
+            maxIterations={renderParams.iterations}
+            onEnabledChange={setIsInspectorEnabled}
+            onOverlaysChange={setOrbitOverlays}
+          />
+        )}
+        {canExplore && (
+          <ExplorePanel
+            isExploring={isExploring}
+            pathLength={explorePath.length}
+            suggestions={visibleSuggestions}
+            canSearch={canSearch}
+            isSearchEnabled={isSearchEnabled}
+            search={nucleusSearch}
+            searchResult={canSearch ? searchResult : null}
+            searchError={canSearch ? searchError : null}
+            onExploringChange={handleExploringChange}
+            onClearPath={() => setExplorePath([])}
+            onFindPoints={handleFindPoints}
+            onGoTo={(suggestion) => centreViewOn(suggestion.x, suggestion.y, suggestion.precise, renderParams.zoom * SUGGESTION_ZOOM_FACTOR)}
+            onSearchEnabledChange={setIsSearchEnabled}
+            onSearchChange={setNucleusSearch}
+            onZoomToResult={() => searchResult && centreViewOn(
+              searchResult.x,
+              searchResult.y,
+              precisePanFromNumbers(searchResult.x, searchResult.y),
+              searchResult.zoom ?? renderParams.zoom * SUGGESTION_ZOOM_FACTOR,
+            )}
+          />
+        )}
+        {is3DFractal(renderParams.fractalType) && (
+          <CameraControls
+            camera={camera}
+            mode={cameraMode}
+            onCameraChange={setCamera}
+            onModeChange={setCameraMode}
+            onReset={handleCameraReset}
+          />
+        )}
         <Controls
           initialParams={initialControlParams}
           currentParams={renderParams}
           onRender={handleRender}
-          isRendering={isRendering}
-          onSaveSettings={handleSaveSettings}
-          onLoadSettings={handleLoadSettings}
+          renderProgress={renderProgress}
+          onExport={() => setIsExportOpen(true)}
+          onMeshExport={() => setIsMeshExportOpen(true)}
+          onCopyLink={handleCopyLink}
+          showTransformHandles={showTransformHandles}
+          onShowTransformHandlesChange={setShowTransformHandles}
+          onFlameImport={handleFlameImport}
+          onFlameExport={handleFlameExport}
+        />
+        <AnimationPanel
+          params={renderParams}
+          camera={camera}
+          isRendering={renderProgress < 1}
+          onShowFrame={handleShowFrame}
+          explorePath={explorePath}
         />
+        <BookmarkPanel params={renderParams} camera={camera} onOpen={restoreView} explorePath={explorePath} />
       </main>
+      {isExportOpen && (
+        <ExportDialog
+          params={renderParams}
+          camera={camera}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {isMeshExportOpen && (
+        <MeshExportDialog params={renderParams} onClose={() => setIsMeshExportOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera3D, KeyframeInterpolation, RenderParams } from '../types';
+import {
+  AnimationFormat,
+  AnimationFrame,
+  exportAnimation,
+  getFrameCount,
+  getTimelineDuration,
+  isWebmExportSupported,
+  Keyframe,
+  sampleTimeline,
+} from '../services/animationService';
+import { ExportJob } from '../services/exportService';
+import { downloadBlob } from '../services/downloadService';
+
+interface AnimationPanelProps {
+  params: RenderParams;
+  camera: Camera3D;
+  isRendering: boolean;
+  onShowFrame: (frame: AnimationFrame) => void;
+  // The views recorded by auto-explore, which can replace the timeline as one exponential dive.
+  explorePath: AnimationFrame[];
+}
+
+const DEFAULT_KEYFRAME_DURATION = 4; // seconds
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+let nextKeyframeId = 1;
+
+// Video encoders work on 2x2 chroma blocks, so frame sizes are kept even.
+const toEvenDimension = (value: number) => Math.max(2, Math.min(7680, 2 * Math.round((value || 2) / 2)));
+
+const AnimationPanel: React.FC<AnimationPanelProps> = ({ params, camera, isRendering, onShowFrame, explorePath }) => {
+  const [keyframes, setKeyframes] = useState<Keyframe[]>([]);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [width, setWidth] = useState(params.width);
+  const [height, setHeight] = useState(params.height);
+  const [frameRate, setFrameRate] = useState(30);
+  const [format, setFormat] = useState(isWebmExportSupported() ? AnimationFormat.WebM : AnimationFormat.PngSequence);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<ExportJob<Blob> | null>(null);
+  // Read by the preview loop, which should only move on once the canvas has caught up.
+  const isRenderingRef = useRef(isRendering);
+  isRenderingRef.current = isRendering;
+
+  const duration = getTimelineDuration(keyframes);
+  const isExporting = exportProgress !== null;
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  // Preview in real time, skipping frames the canvas cannot render quickly enough.
+  useEffect(() => {
+    if (!isPlaying || keyframes.length < 2) return;
+    const startTime = performance.now() - time * 1000;
+    let animationFrameId: number;
+    const step = (now: number) => {
+      const elapsed = Math.min(duration, (now - startTime) / 1000);
+      if (!isRenderingRef.current || elapsed >= duration) {
+        setTime(elapsed);
+        onShowFrame(sampleTimeline(keyframes, elapsed));
+      }
+      if (elapsed >= duration) {
+        setIsPlaying(false);
+        return;
+      }
+      animationFrameId = requestAnimationFrame(step);
+    };
+    animationFrameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(animationFrameId);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPlaying, keyframes]);
+
+  const addKeyframe = () => {
+    setKeyframes((prev) => [...prev, {
+      id: String(nextKeyframeId++),
+      params,
+      camera,
+      duration: DEFAULT_KEYFRAME_DURATION,
+      interpolation: KeyframeInterpolation.Exponential,
+    }]);
+  };
+
+  const loadExplorePath = () => {
+    setIsPlaying(false);
+    setTime(0);
+    setKeyframes(explorePath.map((frame) => ({
+      ...frame,
+      id: String(nextKeyframeId++),
+      duration: DEFAULT_KEYFRAME_DURATION,
+      interpolation: KeyframeInterpolation.Exponential,
+    })));
+  };
+
+  const updateKeyframe = (id: string, changes: Partial<Keyframe>) => {
+    setKeyframes((prev) => prev.map((keyframe) => (keyframe.id === id ? { ...keyframe, ...changes } : keyframe)));
+  };
+
+  const moveKeyframe = (index: number, offset: number) => {
+    setKeyframes((prev) => {
+      const next = [...prev];
+      const [keyframe] = next.splice(index, 1);
+      next.splice(index + offset, 0, keyframe);
+      return next;
+    });
+  };
+
+  const togglePreview = () => {
+    if (!isPlaying && time >= duration) setTime(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleScrub = (value: number) => {
+    setIsPlaying(false);
+    setTime(value);
+    onShowFrame(sampleTimeline(keyframes, value));
+  };
+
+  const handleExport = async () => {
+    setIsPlaying(false);
+    setError(null);
+    setExportProgress(0);
+    const job = exportAnimation(keyframes, { width, height, frameRate, format }, setExportProgress);
+    jobRef.current = job;
+    try {
+      const blob = await job.done;
+      if (blob) {
+        downloadBlob(blob, format === AnimationFormat.WebM ? 'fractal-animation.webm' : 'fractal-animation-frames.zip');
+      }
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    } finally {
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setExportProgress(null);
+      }
+    }
+  };
+
+  return (
+    <div id="animation" className="w-full max-w-4xl mx-auto bg-gray-800 p-6 rounded-lg shadow-xl space-y-4">
+      <h2 className="text-xl font-bold text-white">Animation</h2>
+
+      {keyframes.length === 0 ? (
+        <p className="text-sm text-gray-500">Add keyframes to build a timeline; each one captures the current view.</p>
+      ) : (
+        <ol className="space-y-2">
+          {keyframes.map((keyframe, index) => {
+            const isLast = index === keyframes.length - 1;
+            return (
+              <li key={keyframe.id} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center bg-gray-700 rounded-md p-2 text-sm text-gray-300">
+                <span>
+                  {index + 1}. {keyframe.params.fractalType} ×{keyframe.params.zoom.toExponential(1)}
+                </span>
+                <input type="number" min="0.1" step="0.1" value={keyframe.duration} disabled={isLast}
+                  aria-label="Seconds to next keyframe" title="Seconds to next keyframe"
+                  onChange={(e) => updateKeyframe(keyframe.id, { duration: Math.max(0.1, parseFloat(e.target.value) || 0.1) })}
+                  className={inputClassName} />
+                <select value={keyframe.interpolation} disabled={isLast} aria-label="Interpolation to next keyframe"
+                  onChange={(e) => updateKeyframe(keyframe.id, { interpolation: e.target.value as KeyframeInterpolation })}
+                  className={inputClassName}>
+                  <option value={KeyframeInterpolation.Linear}>Linear</option>
+                  <option value={KeyframeInterpolation.EaseInOut}>Ease in/out</option>
+                  <option value={KeyframeInterpolation.Exponential}>Exponential zoom</option>
+                </select>
+                <button type="button" onClick={() => onShowFrame(keyframe)} className={buttonClassName}>Go To</button>
+                <button type="button" onClick={() => updateKeyframe(keyframe.id, { params, camera })} className={buttonClassName}>
+                  Update
+                </button>
+                <div className="flex gap-1">
+                  <button type="button" aria-label="Move earlier" disabled={index === 0} onClick={() => moveKeyframe(index, -1)} className={buttonClassName}>↑</button>
+                  <button type="button" aria-label="Move later" disabled={isLast} onClick={() => moveKeyframe(index, 1)} className={buttonClassName}>↓</button>
+                  <button type="button" aria-label="Remove keyframe"
+                    onClick={() => setKeyframes((prev) => prev.filter((k) => k.id !== keyframe.id))} className={buttonClassName}>✕</button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={addKeyframe} disabled={isExporting} className={buttonClassName}>Add Keyframe</button>
+        <button type="button" onClick={loadExplorePath} disabled={explorePath.length < 2 || isExporting} className={buttonClassName}>
+          Load Explore Path
+        </button>
+        <button type="button" onClick={togglePreview} disabled={keyframes.length < 2 || isExporting}
+          className={buttonClassName}>
+          {isPlaying ? 'Pause' : 'Preview'}
+        </button>
+        <input type="range" min="0" max={duration} step="0.01" value={Math.min(time, duration)} disabled={keyframes.length < 2 || isExporting}
+          aria-label="Timeline position" onChange={(e) => handleScrub(parseFloat(e.target.value))}
+          className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+        <span className="text-xs text-gray-400">{time.toFixed(2)} / {duration.toFixed(2)} s</span>
+      </div>
+
+      <fieldset disabled={isExporting || keyframes.length < 2} className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end disabled:opacity-50">
+        <label className="block text-xs text-gray-400">
+          Width
+          <input type="number" min="2" step="2" value={width} onChange={(e) => setWidth(toEvenDimension(parseFloat(e.target.value)))}
+            className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Height
+          <input type="number" min="2" step="2" value={height} onChange={(e) => setHeight(toEvenDimension(parseFloat(e.target.value)))}
+            className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Frame rate
+          <select value={frameRate} onChange={(e) => setFrameRate(parseInt(e.target.value, 10))} className={`${inputClassName} mt-1`}>
+            {[24, 25, 30, 50, 60].map((rate) => <option key={rate} value={rate}>{rate} fps</option>)}
+          </select>
+        </label>
+        <label className="block text-xs text-gray-400">
+          Format
+          <select value={format} onChange={(e) => setFormat(e.target.value as AnimationFormat)} className={`${inputClassName} mt-1`}>
+            <option value={AnimationFormat.WebM} disabled={!isWebmExportSupported()}>WebM video</option>
+            <option value={AnimationFormat.PngSequence}>PNG sequence (.zip)</option>
+          </select>
+        </label>
+        <button type="button" onClick={handleExport} className={buttonClassName}>
+          Export {getFrameCount(keyframes, frameRate)} Frames
+        </button>
+      </fieldset>
+
+      {isExporting && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1 h-1 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-accent transition-[width] duration-150 ease-out" style={{ width: `${Math.round(exportProgress * 100)}%` }} />
+          </div>
+          <span className="text-xs text-gray-400">{Math.round(exportProgress * 100)}%</span>
+          <button type="button" onClick={() => jobRef.current?.cancel()} className={buttonClassName}>Cancel</button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default AnimationPanel;
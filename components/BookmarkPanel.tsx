@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera3D, RenderParams } from '../types';
+import {
+  Bookmark,
+  BOOKMARK_SCHEMA_VERSION,
+  createBookmarkId,
+  createThumbnail,
+  deleteBookmark,
+  exportLibraryJson,
+  importLibraryJson,
+  listBookmarks,
+  parseTags,
+  putBookmark,
+  searchBookmarks,
+} from '../services/bookmarkService';
+import { SavedView, toSavedSettings } from '../services/settingsService';
+import { downloadText } from '../services/downloadService';
+import { AnimationFrame } from '../services/animationService';
+
+interface BookmarkPanelProps {
+  params: RenderParams;
+  camera: Camera3D;
+  onOpen: (view: SavedView) => void;
+  // The views recorded by auto-explore, which can be saved as a tagged series.
+  explorePath: AnimationFrame[];
+}
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const EXPLORE_TAG = 'auto-explore';
+
+const toErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const createViewBookmark = async (
+  params: RenderParams,
+  camera: Camera3D,
+  details: Pick<Bookmark, 'name' | 'tags' | 'notes' | 'createdAt'>,
+): Promise<Bookmark> => ({
+  schemaVersion: BOOKMARK_SCHEMA_VERSION,
+  id: createBookmarkId(),
+  ...details,
+  thumbnail: await createThumbnail(params, camera),
+  view: { settings: toSavedSettings(params), camera },
+});
+
+const BookmarkPanel: React.FC<BookmarkPanelProps> = ({ params, camera, onOpen, explorePath }) => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [query, setQuery] = useState('');
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setBookmarks(await listBookmarks());
+    } catch (listError) {
+      setError(`The bookmark library could not be opened: ${toErrorMessage(listError)}`);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await putBookmark(await createViewBookmark(params, camera, {
+        name: name.trim() || `${params.fractalType} ${new Date().toLocaleString()}`,
+        tags: parseTags(tags),
+        notes,
+        createdAt: Date.now(),
+      }));
+      setName('');
+      setTags('');
+      setNotes('');
+      await refresh();
+    } catch (saveError) {
+      setError(`The bookmark could not be saved: ${toErrorMessage(saveError)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Saves the path in order, numbered and tagged so that a search for the tag lists the whole dive.
+  const handleSavePath = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const startedAt = Date.now();
+      for (const [index, frame] of explorePath.entries()) {
+        await putBookmark(await createViewBookmark(frame.params, frame.camera, {
+          name: `Auto-explore ${new Date(startedAt).toLocaleString()} #${index + 1}`,
+          tags: [EXPLORE_TAG],
+          notes: `Zoom ×${frame.params.zoom.toExponential(2)}`,
+          createdAt: startedAt + index,
+        }));
+      }
+      await refresh();
+    } catch (saveError) {
+      setError(`The path could not be saved: ${toErrorMessage(saveError)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async (bookmark: Bookmark, changes: Partial<Bookmark>) => {
+    const updated = { ...bookmark, ...changes };
+    setBookmarks((prev) => prev.map((b) => (b.id === bookmark.id ? updated : b)));
+    try {
+      await putBookmark(updated);
+    } catch (updateError) {
+      setError(`The bookmark could not be updated: ${toErrorMessage(updateError)}`);
+    }
+  };
+
+  const handleDelete = async (bookmark: Bookmark) => {
+    if (!window.confirm(`Delete the bookmark "${bookmark.name}"?`)) return;
+    try {
+      await deleteBookmark(bookmark.id);
+      await refresh();
+    } catch (deleteError) {
+      setError(`The bookmark could not be deleted: ${toErrorMessage(deleteError)}`);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importLibraryJson(await file.text());
+      setError(null);
+      await refresh();
+    } catch (importError) {
+      setError(`The library could not be imported: ${toErrorMessage(importError)}`);
+    }
+  };
+
+  const visibleBookmarks = searchBookmarks(bookmarks, query);
+
+  return (
+    <div id="bookmarks" className="w-full max-w-4xl mx-auto bg-gray-800 p-6 rounded-lg shadow-xl space-y-4">
+      <h2 className="text-xl font-bold text-white">Bookmarks</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <label className="block text-xs text-gray-400">
+          Name
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={params.fractalType}
+            className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Tags (comma separated)
+          <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Notes
+          <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={`${inputClassName} mt-1`} />
+        </label>
+        <button type="button" onClick={handleAdd} disabled={isSaving} className={buttonClassName}>
+          {isSaving ? 'Saving...' : 'Bookmark This View'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search names, tags and notes"
+          aria-label="Search bookmarks" className={`${inputClassName} flex-1 min-w-[12rem]`} />
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClassName}>Import…</button>
+        <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+        <button type="button" onClick={handleSavePath} disabled={isSaving || explorePath.length === 0} className={buttonClassName}>
+          Save Explore Path ({explorePath.length})
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadText(exportLibraryJson(bookmarks), 'fractal-bookmarks.json', 'application/json')}
+          disabled={bookmarks.length === 0}
+          className={buttonClassName}
+        >
+          Export Library
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {visibleBookmarks.length === 0 ? (
+        <p className="text-sm text-gray-500">{bookmarks.length === 0 ? 'No bookmarks yet.' : 'No bookmarks match the search.'}</p>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+          {visibleBookmarks.map((bookmark) => (
+            <li key={bookmark.id} className="bg-gray-700 rounded-md p-3 space-y-2">
+              <button type="button" onClick={() => onOpen(bookmark.view)} className="block w-full" title="Open this view">
+                {bookmark.thumbnail ? (
+                  <img src={bookmark.thumbnail} alt={bookmark.name} className="w-full rounded border border-gray-600" />
+                ) : (
+                  <div className="w-full aspect-[4/3] rounded border border-gray-600 flex items-center justify-center text-xs text-gray-400">
+                    {bookmark.view.settings.fractalType}
+                  </div>
+                )}
+              </button>
+              <input type="text" defaultValue={bookmark.name} aria-label="Bookmark name"
+                onBlur={(e) => e.target.value !== bookmark.name && handleUpdate(bookmark, { name: e.target.value })}
+                className={inputClassName} />
+              <input type="text" defaultValue={bookmark.tags.join(', ')} aria-label="Bookmark tags" placeholder="Tags"
+                onBlur={(e) => e.target.value !== bookmark.tags.join(', ') && handleUpdate(bookmark, { tags: parseTags(e.target.value) })}
+                className={inputClassName} />
+              <textarea defaultValue={bookmark.notes} aria-label="Bookmark notes" placeholder="Notes" rows={2}
+                onBlur={(e) => e.target.value !== bookmark.notes && handleUpdate(bookmark, { notes: e.target.value })}
+                className={inputClassName} />
+              <div className="flex items-center justify-between text-xs text-gray-400">
+                <span>{new Date(bookmark.createdAt).toLocaleDateString()}</span>
+                <button type="button" onClick={() => handleDelete(bookmark)} className={buttonClassName}>Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BookmarkPanel;
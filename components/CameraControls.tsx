@@ -0,0 +1,57 @@
+import React from 'react';
+import { Camera3D, CameraMode } from '../types';
+import { MAX_FOV, MIN_FOV } from '../services/cameraService';
+
+interface CameraControlsProps {
+  camera: Camera3D;
+  mode: CameraMode;
+  onCameraChange: (camera: Camera3D) => void;
+  onModeChange: (mode: CameraMode) => void;
+  onReset: () => void;
+}
+
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out';
+const activeButtonClassName = 'bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out';
+
+const HELP: Record<CameraMode, string> = {
+  [CameraMode.Orbit]: 'Drag to orbit the target, right-drag or drag with two fingers to pan, scroll or pinch to move closer.',
+  [CameraMode.Fly]:
+    'Click the view, then fly with W A S D, Q and E to sink and rise, and Z and C to roll. Drag to look around. ' +
+    'Speed follows the distance to the surface, so you slow down as you close in.',
+};
+
+const CameraControls: React.FC<CameraControlsProps> = ({ camera, mode, onCameraChange, onModeChange, onReset }) => (
+  <div className="w-full max-w-4xl mx-auto bg-gray-800 p-4 rounded-lg shadow-xl space-y-3">
+    <div className="flex flex-wrap items-center gap-4">
+      <div className="flex gap-1" role="group" aria-label="Camera mode">
+        {[CameraMode.Orbit, CameraMode.Fly].map((option) => (
+          <button
+            key={option}
+            type="button"
+            aria-pressed={mode === option}
+            onClick={() => onModeChange(option)}
+            className={mode === option ? activeButtonClassName : buttonClassName}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <label className="flex-1 min-w-[12rem] text-xs text-gray-400">
+        Field of view: {camera.fov.toFixed(0)}°
+        <input
+          type="range"
+          min={MIN_FOV}
+          max={MAX_FOV}
+          step="1"
+          value={camera.fov}
+          onChange={(e) => onCameraChange({ ...camera, fov: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+        />
+      </label>
+      <button type="button" onClick={onReset} className={buttonClassName}>Reset Camera</button>
+    </div>
+    <p className="text-xs text-gray-500">{HELP[mode]}</p>
+  </div>
+);
+
+export default CameraControls;
@@ -1,42 +1,118 @@
 import React, { useState, useEffect } from 'react';
-import { FractalType, ControlParams, ColorPalette } from '../types';
+import {
+  FractalType,
+  ControlParams,
+  ColorPalette,
+  RendererPreference,
+  ColoringAlgorithm,
+  OrbitTrapShape,
+  PaletteGradient,
+  IFSTransform,
+  FlameSettings,
+  LSystemSettings,
+  Fractal3DSettings,
+  Lighting3DSettings,
+  Render3DSettings,
+} from '../types';
+import { MAX_DEEP_ZOOM, supportsDeepZoom } from '../services/deepZoom';
+import {
+  ESCAPE_TIME_FRACTAL_NAMES,
+  isCustomFormula,
+  isEscapeTimeFractal,
+  isJuliaFractal,
+  MAX_EXPONENT,
+  MAX_RELAXATION,
+  MIN_EXPONENT,
+  MIN_RELAXATION,
+  usesExponent,
+  usesPolynomial,
+} from '../services/escapeTimeFormulas';
+import { FORMULA_FUNCTIONS, validateCustomFormula } from '../services/formulaParser';
+import { validatePolynomial } from '../services/polynomial';
+import { isIFSFractal } from '../services/ifsService';
+import { validateLSystem } from '../services/lsystemParser';
+import { MAX_RAYMARCH_STEPS } from '../services/mandelbulbShaders';
+import { MAX_3D_SAMPLES } from '../services/mandelbulbRenderer';
+import { DISTANCE_ESTIMATORS, FRACTAL_3D_TYPES, is3DFractal, resolveParameters } from '../services/distanceEstimators';
+import { resolvePalette } from '../services/paletteService';
+import PaletteEditor, { PaletteMapping } from './PaletteEditor';
+import IFSEditor from './IFSEditor';
+import FlameEditor from './FlameEditor';
+import LSystemEditor from './LSystemEditor';
+import Lighting3DEditor from './Lighting3DEditor';
+import { FlameDocument } from '../services/flameXml';
+
+const CUSTOM_PALETTE_OPTION = 'Custom';
 
 interface ControlsProps {
   initialParams: ControlParams;
   currentParams: ControlParams;
   onRender: (params: ControlParams) => void;
-  isRendering: boolean;
-  onSaveSettings: () => void;
-  onLoadSettings: () => void;
+  renderProgress: number;
+  onExport: () => void;
+  onMeshExport: () => void;
+  onCopyLink: () => void;
+  showTransformHandles: boolean;
+  onShowTransformHandlesChange: (show: boolean) => void;
+  onFlameImport: (document: FlameDocument) => void;
+  onFlameExport: () => void;
 }
 
 const Controls: React.FC<ControlsProps> = ({ 
   initialParams, 
   currentParams,
   onRender, 
-  isRendering, 
-  onSaveSettings,
-  onLoadSettings,
+  renderProgress,
+  onExport,
+  onMeshExport,
+  onCopyLink,
+  showTransformHandles,
+  onShowTransformHandlesChange,
+  onFlameImport,
+  onFlameExport,
  }) => {
   const [fractalType, setFractalType] = useState<FractalType>(currentParams.fractalType);
   const [zoom, setZoom] = useState<number>(currentParams.zoom * 100);
   const [iterations, setIterations] = useState<number>(currentParams.iterations);
   const [cReal, setCReal] = useState<number>(currentParams.cReal);
   const [cImag, setCImag] = useState<number>(currentParams.cImag);
+  const [exponent, setExponent] = useState<number>(currentParams.exponent);
+  const [customFormula, setCustomFormula] = useState<string>(currentParams.customFormula);
+  const [customBailout, setCustomBailout] = useState<string>(currentParams.customBailout);
+  const [newtonPolynomial, setNewtonPolynomial] = useState<string>(currentParams.newtonPolynomial);
+  const [relaxation, setRelaxation] = useState<number>(currentParams.relaxation);
+  const [ifsTransforms, setIFSTransforms] = useState<IFSTransform[]>(currentParams.ifsTransforms);
+  const [flame, setFlame] = useState<FlameSettings>(currentParams.flame);
+  const [lSystem, setLSystem] = useState<LSystemSettings>(currentParams.lSystem);
+  const [fractal3D, setFractal3D] = useState<Fractal3DSettings>(currentParams.fractal3D);
+  const [lighting3D, setLighting3D] = useState<Lighting3DSettings>(currentParams.lighting3D);
+  const [render3D, setRender3D] = useState<Render3DSettings>(currentParams.render3D);
   const [colorPalette, setColorPalette] = useState<ColorPalette>(currentParams.colorPalette);
   const [mandelbulbIterations, setMandelbulbIterations] = useState<number>(currentParams.mandelbulbIterations);
-  const [hasSavedSettings, setHasSavedSettings] = useState(false);
+  const [autoIterations, setAutoIterations] = useState<boolean>(currentParams.autoIterations);
+  const [deepZoom, setDeepZoom] = useState<boolean>(currentParams.deepZoom);
+  const [renderer, setRenderer] = useState<RendererPreference>(currentParams.renderer);
+  const [coloringAlgorithm, setColoringAlgorithm] = useState<ColoringAlgorithm>(currentParams.coloringAlgorithm);
+  const [orbitTrapShape, setOrbitTrapShape] = useState<OrbitTrapShape>(currentParams.orbitTrapShape);
+  const [customPalette, setCustomPalette] = useState<PaletteGradient | null>(currentParams.customPalette);
+  const [paletteMapping, setPaletteMapping] = useState<PaletteMapping>({
+    paletteOffset: currentParams.paletteOffset,
+    paletteRepeat: currentParams.paletteRepeat,
+    paletteDensity: currentParams.paletteDensity,
+    paletteCycleSpeed: currentParams.paletteCycleSpeed,
+  });
 
-  const is2DEscapeTimeFractal =
-    fractalType === FractalType.Mandelbrot ||
-    fractalType === FractalType.Julia ||
-    fractalType === FractalType.BurningShip;
+  const isRendering = renderProgress < 1;
 
-  useEffect(() => {
-    if (localStorage.getItem('fractalExplorerSettings')) {
-      setHasSavedSettings(true);
-    }
-  }, []);
+  const is2DEscapeTimeFractal = isEscapeTimeFractal(fractalType);
+  const isZoomable = is2DEscapeTimeFractal || isIFSFractal(fractalType) || fractalType === FractalType.Flame
+    || fractalType === FractalType.LSystem;
+  const isCustom = isCustomFormula(fractalType);
+  const hasPolynomial = usesPolynomial(fractalType);
+  const formulaError = isCustom
+    ? validateCustomFormula(customFormula, customBailout)
+    : hasPolynomial ? validatePolynomial(newtonPolynomial)
+    : fractalType === FractalType.LSystem ? validateLSystem(lSystem) : null;
 
   useEffect(() => {
     setFractalType(currentParams.fractalType);
@@ -44,26 +120,81 @@ const Controls: React.FC<ControlsProps> = ({
     setIterations(currentParams.iterations);
     setCReal(currentParams.cReal);
     setCImag(currentParams.cImag);
+    setExponent(currentParams.exponent);
+    setCustomFormula(currentParams.customFormula);
+    setCustomBailout(currentParams.customBailout);
+    setNewtonPolynomial(currentParams.newtonPolynomial);
+    setRelaxation(currentParams.relaxation);
+    setIFSTransforms(currentParams.ifsTransforms);
+    setFlame(currentParams.flame);
+    setLSystem(currentParams.lSystem);
+    setFractal3D(currentParams.fractal3D);
+    setLighting3D(currentParams.lighting3D);
+    setRender3D(currentParams.render3D);
     setColorPalette(currentParams.colorPalette);
     setMandelbulbIterations(currentParams.mandelbulbIterations);
+    setAutoIterations(currentParams.autoIterations);
+    setDeepZoom(currentParams.deepZoom);
+    setRenderer(currentParams.renderer);
+    setColoringAlgorithm(currentParams.coloringAlgorithm);
+    setOrbitTrapShape(currentParams.orbitTrapShape);
+    setCustomPalette(currentParams.customPalette);
+    setPaletteMapping({
+      paletteOffset: currentParams.paletteOffset,
+      paletteRepeat: currentParams.paletteRepeat,
+      paletteDensity: currentParams.paletteDensity,
+      paletteCycleSpeed: currentParams.paletteCycleSpeed,
+    });
   }, [currentParams]);
 
+  const canDeepZoom = supportsDeepZoom(fractalType);
+  const isDeepZoomActive = deepZoom && canDeepZoom;
+  // Deep zoom spans hundreds of orders of magnitude, so its slider works on log10 of the magnification.
+  const maxDeepZoomExponent = Math.floor(Math.log10(MAX_DEEP_ZOOM));
+  const zoomLabel = isDeepZoomActive ? (zoom / 100).toExponential(2) : String(zoom);
 
-  const handleRenderClick = () => {
-    onRender({ zoom, iterations, cReal, cImag, fractalType, colorPalette, mandelbulbIterations });
-  };
 
-  const handleResetClick = () => {
-    onRender(initialParams);
+  const handleRenderClick = () => {
+    onRender({
+      zoom,
+      iterations,
+      cReal,
+      cImag,
+      exponent,
+      customFormula,
+      customBailout,
+      newtonPolynomial,
+      relaxation,
+      ifsTransforms,
+      flame,
+      lSystem,
+      fractal3D,
+      lighting3D,
+      render3D,
+      fractalType,
+      colorPalette,
+      mandelbulbIterations,
+      autoIterations,
+      deepZoom,
+      renderer,
+      coloringAlgorithm,
+      orbitTrapShape,
+      customPalette,
+      ...paletteMapping,
+    });
   };
 
-  const handleSaveClick = () => {
-    onSaveSettings();
-    setHasSavedSettings(true);
+  const handlePaletteSelect = (value: string) => {
+    if (value === CUSTOM_PALETTE_OPTION) {
+      setCustomPalette(resolvePalette({ colorPalette, customPalette }));
+      return;
+    }
+    setColorPalette(value as ColorPalette);
+    setCustomPalette(null);
   };
 
-  const handleLoadClick = () => {
-    onLoadSettings();
+  const handleResetClick = () => {
+    onRender(initialParams);
   };
 
   return (
@@ -79,20 +210,24 @@ const Controls: React.FC<ControlsProps> = ({
               onChange={(e) => setFractalType(e.target.value as FractalType)}
               className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-accent focus:border-accent"
             >
-              <option value={FractalType.Mandelbrot}>Mandelbrot</option>
-              <option value={FractalType.Julia}>Julia</option>
-              <option value={FractalType.BurningShip}>Burning Ship</option>
+              {ESCAPE_TIME_FRACTAL_NAMES.map(([type, name]) => (
+                <option key={type} value={type}>{name}</option>
+              ))}
               <option value={FractalType.Sierpinski}>Sierpinski Triangle</option>
-              <option value={FractalType.Mandelbulb}>3D Mandelbulb</option>
+              <option value={FractalType.IFS}>Iterated Function System</option>
+              <option value={FractalType.Flame}>Fractal Flame</option>
+              <option value={FractalType.LSystem}>L-System</option>
+              {FRACTAL_3D_TYPES.map((type) => (
+                <option key={type} value={type}>{DISTANCE_ESTIMATORS[type].name}</option>
+              ))}
             </select>
           </div>
           <div>
             <label htmlFor="colorPalette" className="block text-sm font-medium text-gray-300 mb-2">Color Palette</label>
             <select
               id="colorPalette"
-              value={colorPalette}
-              onChange={(e) => setColorPalette(e.target.value as ColorPalette)}
-              disabled={fractalType === FractalType.Mandelbulb}
+              value={customPalette ? CUSTOM_PALETTE_OPTION : colorPalette}
+              onChange={(e) => handlePaletteSelect(e.target.value)}
               className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-accent focus:border-accent disabled:opacity-50"
             >
               {Object.values(ColorPalette).map((palette) => (
@@ -100,12 +235,59 @@ const Controls: React.FC<ControlsProps> = ({
                   {palette}
                 </option>
               ))}
+              <option value={CUSTOM_PALETTE_OPTION}>{customPalette ? `Custom: ${customPalette.name}` : 'Custom…'}</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="coloringAlgorithm" className="block text-sm font-medium text-gray-300 mb-2">Coloring</label>
+            <select
+              id="coloringAlgorithm"
+              value={coloringAlgorithm}
+              onChange={(e) => setColoringAlgorithm(e.target.value as ColoringAlgorithm)}
+              disabled={!is2DEscapeTimeFractal}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-accent focus:border-accent disabled:opacity-50"
+            >
+              <option value={ColoringAlgorithm.IterationCount}>Iteration Count</option>
+              <option value={ColoringAlgorithm.Smooth}>Smooth (Normalized Iteration Count)</option>
+              <option value={ColoringAlgorithm.Histogram}>Histogram Equalization</option>
+              <option value={ColoringAlgorithm.OrbitTrap}>Orbit Trap</option>
+              <option value={ColoringAlgorithm.DistanceEstimation}>Distance Estimation</option>
+              <option value={ColoringAlgorithm.TriangleInequality}>Triangle Inequality Average</option>
+            </select>
+          </div>
+          {coloringAlgorithm === ColoringAlgorithm.OrbitTrap && is2DEscapeTimeFractal && (
+            <div>
+              <label htmlFor="orbitTrapShape" className="block text-sm font-medium text-gray-300 mb-2">Orbit Trap Shape</label>
+              <select
+                id="orbitTrapShape"
+                value={orbitTrapShape}
+                onChange={(e) => setOrbitTrapShape(e.target.value as OrbitTrapShape)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-accent focus:border-accent"
+              >
+                <option value={OrbitTrapShape.Point}>Point (origin)</option>
+                <option value={OrbitTrapShape.Line}>Line (real axis)</option>
+                <option value={OrbitTrapShape.Circle}>Circle (unit)</option>
+              </select>
+            </div>
+          )}
+          <div>
+            <label htmlFor="renderer" className="block text-sm font-medium text-gray-300 mb-2">Renderer</label>
+            <select
+              id="renderer"
+              value={renderer}
+              onChange={(e) => setRenderer(e.target.value as RendererPreference)}
+              disabled={!is2DEscapeTimeFractal}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-accent focus:border-accent disabled:opacity-50"
+            >
+              <option value={RendererPreference.Auto}>Auto (GPU with CPU fallback)</option>
+              <option value={RendererPreference.GPU}>GPU (WebGL)</option>
+              <option value={RendererPreference.CPU}>CPU (Web Workers)</option>
             </select>
           </div>
         </div>
         
-        <div className="md:col-span-2">
-          <fieldset disabled={fractalType !== FractalType.Julia || isRendering} className="border border-gray-600 rounded-lg p-4 disabled:opacity-50">
+        <div className="md:col-span-2 space-y-4">
+          <fieldset disabled={!isJuliaFractal(fractalType) || isRendering} className="border border-gray-600 rounded-lg p-4 disabled:opacity-50">
             <legend className="text-sm font-medium text-gray-300 px-2">Julia Set Constant (c)</legend>
             <div className="flex space-x-4">
               <div>
@@ -132,40 +314,165 @@ const Controls: React.FC<ControlsProps> = ({
               </div>
             </div>
           </fieldset>
+          <div>
+            <label htmlFor="exponentSlider" className={`block text-sm font-medium mb-2 ${usesExponent(fractalType) ? 'text-gray-300' : 'text-gray-500'}`}>
+              {isCustom ? 'Parameter n' : <>Exponent n (z<sup>n</sup> + c)</>}: {exponent.toFixed(1)}
+            </label>
+            <input
+              id="exponentSlider"
+              type="range"
+              min={MIN_EXPONENT}
+              max={MAX_EXPONENT}
+              step="0.1"
+              value={exponent}
+              disabled={!usesExponent(fractalType) || isRendering}
+              onChange={(e) => setExponent(Math.round(parseFloat(e.target.value) * 10) / 10)}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+            />
+          </div>
+          {isCustom && (
+            <fieldset disabled={isRendering} className="border border-gray-600 rounded-lg p-4 space-y-3 disabled:opacity-50">
+              <legend className="text-sm font-medium text-gray-300 px-2">Custom Formula</legend>
+              <div>
+                <label htmlFor="customFormula" className="block text-xs font-medium text-gray-400">Next z =</label>
+                <input
+                  type="text"
+                  id="customFormula"
+                  value={customFormula}
+                  spellCheck={false}
+                  onChange={(e) => setCustomFormula(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 mt-1 text-white font-mono"
+                />
+              </div>
+              <div>
+                <label htmlFor="customBailout" className="block text-xs font-medium text-gray-400">Escape when</label>
+                <input
+                  type="text"
+                  id="customBailout"
+                  value={customBailout}
+                  spellCheck={false}
+                  onChange={(e) => setCustomBailout(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 mt-1 text-white font-mono"
+                />
+              </div>
+              {formulaError ? (
+                <p className="text-sm text-red-400">{formulaError}</p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  Complex variables z, c and n; constants i, pi and e; operators + - * / ^ and |z|; functions {FORMULA_FUNCTIONS.join(', ')}.
+                </p>
+              )}
+            </fieldset>
+          )}
+          {hasPolynomial && (
+            <fieldset disabled={isRendering} className="border border-gray-600 rounded-lg p-4 space-y-3 disabled:opacity-50">
+              <legend className="text-sm font-medium text-gray-300 px-2">Polynomial</legend>
+              <div>
+                <label htmlFor="newtonPolynomial" className="block text-xs font-medium text-gray-400">p(z) =</label>
+                <input
+                  type="text"
+                  id="newtonPolynomial"
+                  value={newtonPolynomial}
+                  spellCheck={false}
+                  onChange={(e) => setNewtonPolynomial(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 mt-1 text-white font-mono"
+                />
+              </div>
+              <div>
+                <label htmlFor="relaxationSlider" className="block text-xs font-medium text-gray-400 mb-2">
+                  Relaxation a (z − a·p/p′): {relaxation.toFixed(2)}
+                </label>
+                <input
+                  id="relaxationSlider"
+                  type="range"
+                  min={MIN_RELAXATION}
+                  max={MAX_RELAXATION}
+                  step="0.05"
+                  value={relaxation}
+                  onChange={(e) => setRelaxation(Math.round(parseFloat(e.target.value) * 100) / 100)}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                />
+              </div>
+              {formulaError ? (
+                <p className="text-sm text-red-400">{formulaError}</p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  A polynomial in z of degree 2 to 16, such as z^3 - 1 or (z - 1)(z^2 + i). Each root gets its own part of
+                  the palette, shaded by how quickly points reach it.
+                </p>
+              )}
+            </fieldset>
+          )}
         </div>
 
         <div className="md:col-span-3 grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="disabled:opacity-50">
-              <label htmlFor="zoomSlider" className={`block text-sm font-medium mb-2 ${is2DEscapeTimeFractal ? 'text-gray-300' : 'text-gray-500'}`}>Zoom ({zoom})</label>
-              <input
-                id="zoomSlider"
-                type="range"
-                min="1"
-                max="50000"
-                value={zoom}
-                disabled={!is2DEscapeTimeFractal || isRendering}
-                onChange={(e) => setZoom(parseInt(e.target.value, 10))}
-                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
-              />
+              <label htmlFor="zoomSlider" className={`block text-sm font-medium mb-2 ${isZoomable ? 'text-gray-300' : 'text-gray-500'}`}>Zoom ({zoomLabel})</label>
+              {isDeepZoomActive ? (
+                <input
+                  id="zoomSlider"
+                  type="range"
+                  min="0"
+                  max={maxDeepZoomExponent}
+                  step="0.1"
+                  value={Math.log10(Math.max(zoom / 100, 1))}
+                  disabled={isRendering}
+                  onChange={(e) => setZoom(100 * Math.pow(10, parseFloat(e.target.value)))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                />
+              ) : (
+                <input
+                  id="zoomSlider"
+                  type="range"
+                  min="1"
+                  max="50000"
+                  value={zoom}
+                  disabled={!isZoomable || isRendering}
+                  onChange={(e) => setZoom(parseInt(e.target.value, 10))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                />
+              )}
+              <label className={`mt-3 flex items-center space-x-2 text-sm ${canDeepZoom ? 'text-gray-300' : 'text-gray-500'}`}>
+                <input
+                  type="checkbox"
+                  checked={deepZoom}
+                  disabled={!canDeepZoom || isRendering}
+                  onChange={(e) => setDeepZoom(e.target.checked)}
+                  className="rounded bg-gray-700 border-gray-600 text-accent focus:ring-accent"
+                />
+                <span>Deep zoom (arbitrary precision, Mandelbrot and Burning Ship)</span>
+              </label>
             </div>
             <div className="disabled:opacity-50">
-              <label htmlFor="iterationsSlider" className={`block text-sm font-medium mb-2 ${is2DEscapeTimeFractal ? 'text-gray-300' : 'text-gray-500'}`}>Iterations ({iterations})</label>
+              <label htmlFor="iterationsSlider" className={`block text-sm font-medium mb-2 ${is2DEscapeTimeFractal ? 'text-gray-300' : 'text-gray-500'}`}>
+                Iterations ({autoIterations ? `auto, ${iterations}` : iterations})
+              </label>
               <input
                 id="iterationsSlider"
                 type="range"
                 min="50"
                 max="2000"
                 value={iterations}
-                disabled={!is2DEscapeTimeFractal || isRendering}
+                disabled={!is2DEscapeTimeFractal || autoIterations || isRendering}
                 onChange={(e) => setIterations(parseInt(e.target.value, 10))}
                 className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
               />
+              <label className={`mt-3 flex items-center space-x-2 text-sm ${is2DEscapeTimeFractal ? 'text-gray-300' : 'text-gray-500'}`}>
+                <input
+                  type="checkbox"
+                  checked={autoIterations}
+                  disabled={!is2DEscapeTimeFractal || isRendering}
+                  onChange={(e) => setAutoIterations(e.target.checked)}
+                  className="rounded bg-gray-700 border-gray-600 text-accent focus:ring-accent"
+                />
+                <span>Auto iterations (raised with the zoom and while pixels stay unresolved)</span>
+              </label>
             </div>
         </div>
       </div>
 
-      {fractalType === FractalType.Mandelbulb && (
-        <div className="mt-6 border-t border-gray-700 pt-6">
+      {is3DFractal(fractalType) && (
+        <div className="mt-6 border-t border-gray-700 pt-6 space-y-4">
           <div className="max-w-md mx-auto">
             <label htmlFor="mandelbulbIterationsSlider" className="block text-sm font-medium text-gray-300 mb-2">
               3D Render Quality (Steps: {mandelbulbIterations})
@@ -174,7 +481,7 @@ const Controls: React.FC<ControlsProps> = ({
               id="mandelbulbIterationsSlider"
               type="range"
               min="50"
-              max="1000"
+              max={MAX_RAYMARCH_STEPS}
               step="10"
               value={mandelbulbIterations}
               disabled={isRendering}
@@ -182,40 +489,172 @@ const Controls: React.FC<ControlsProps> = ({
               className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
             />
           </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="render3DSamples" className="block text-sm font-medium text-gray-300 mb-2">
+                Samples per pixel: {render3D.samples}
+              </label>
+              <input
+                id="render3DSamples"
+                type="range"
+                min="1"
+                max={MAX_3D_SAMPLES}
+                value={render3D.samples}
+                disabled={isRendering}
+                onChange={(e) => setRender3D((prev) => ({ ...prev, samples: parseInt(e.target.value, 10) }))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+              />
+            </div>
+            <div>
+              <label htmlFor="render3DAperture" className="block text-sm font-medium text-gray-300 mb-2">
+                Aperture: {render3D.aperture}
+              </label>
+              <input
+                id="render3DAperture"
+                type="range"
+                min="0"
+                max="0.2"
+                step="0.005"
+                value={render3D.aperture}
+                disabled={isRendering}
+                onChange={(e) => setRender3D((prev) => ({ ...prev, aperture: parseFloat(e.target.value) }))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+              />
+            </div>
+            <div>
+              <label htmlFor="render3DFocus" className="block text-sm font-medium text-gray-300 mb-2">
+                Focus (× target distance): {render3D.focus}
+              </label>
+              <input
+                id="render3DFocus"
+                type="range"
+                min="0.1"
+                max="2"
+                step="0.01"
+                value={render3D.focus}
+                disabled={isRendering || render3D.aperture === 0}
+                onChange={(e) => setRender3D((prev) => ({ ...prev, focus: parseFloat(e.target.value) }))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {DISTANCE_ESTIMATORS[fractalType].parameters.map(({ name, label, min, max, step }) => {
+              const value = resolveParameters(fractal3D, fractalType)[name];
+              return (
+                <div key={name}>
+                  <label htmlFor={`fractal3D-${name}`} className="block text-sm font-medium text-gray-300 mb-2">
+                    {label}: {value}
+                  </label>
+                  <input
+                    id={`fractal3D-${name}`}
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={value}
+                    disabled={isRendering}
+                    onChange={(e) => {
+                      const changed = parseFloat(e.target.value);
+                      setFractal3D((prev) => ({ ...prev, [fractalType]: { ...resolveParameters(prev, fractalType), [name]: changed } }));
+                    }}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                  />
+                </div>
+              );
+            })}
+          </div>
         </div>
       )}
 
+      {fractalType === FractalType.IFS && (
+        <IFSEditor
+          transforms={ifsTransforms}
+          showHandles={showTransformHandles}
+          disabled={isRendering}
+          onChange={setIFSTransforms}
+          onShowHandlesChange={onShowTransformHandlesChange}
+        />
+      )}
+
+      {fractalType === FractalType.Flame && (
+        <FlameEditor
+          flame={flame}
+          disabled={isRendering}
+          onChange={setFlame}
+          onImport={onFlameImport}
+          onExport={onFlameExport}
+        />
+      )}
+
+      {fractalType === FractalType.LSystem && (
+        <LSystemEditor
+          lSystem={lSystem}
+          error={formulaError}
+          disabled={isRendering}
+          onChange={setLSystem}
+        />
+      )}
+
+      {is3DFractal(fractalType) && (
+        <Lighting3DEditor lighting={lighting3D} disabled={isRendering} onChange={setLighting3D} />
+      )}
+
+      <PaletteEditor
+        gradient={resolvePalette({ colorPalette, customPalette })}
+        isCustom={customPalette !== null}
+        mapping={paletteMapping}
+        disabled={isRendering}
+        onGradientChange={setCustomPalette}
+        onMappingChange={(changes) => setPaletteMapping((prev) => ({ ...prev, ...changes }))}
+      />
+
       <div className="mt-6 flex flex-wrap justify-center items-center gap-4">
         <button
-          onClick={handleSaveClick}
+          onClick={handleResetClick}
           disabled={isRendering}
-          className="bg-sky-600 hover:bg-sky-500 text-white font-bold py-3 px-6 rounded-lg transition duration-300 ease-in-out disabled:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-6 rounded-lg transition duration-300 ease-in-out disabled:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          Save Settings
+          Reset View
         </button>
         <button
-          onClick={handleLoadClick}
-          disabled={isRendering || !hasSavedSettings}
-          className="bg-teal-600 hover:bg-teal-500 text-white font-bold py-3 px-6 rounded-lg transition duration-300 ease-in-out disabled:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={onExport}
+          disabled={isRendering}
+          className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg transition duration-300 ease-in-out disabled:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          Load Settings
+          Export PNG
         </button>
+        {is3DFractal(currentParams.fractalType) && (
+          <button
+            onClick={onMeshExport}
+            disabled={isRendering}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-lg transition duration-300 ease-in-out disabled:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export Mesh
+          </button>
+        )}
         <button
-          onClick={handleResetClick}
-          disabled={isRendering}
-          className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-6 rounded-lg transition duration-300 ease-in-out disabled:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={onCopyLink}
+          className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-6 rounded-lg transition duration-300 ease-in-out"
         >
-          Reset View
+          Copy Link
         </button>
         <button
           id="renderButton"
           onClick={handleRenderClick}
-          disabled={isRendering}
+          disabled={isRendering || formulaError !== null}
           className="bg-accent hover:opacity-90 text-white font-bold py-3 px-8 rounded-lg transition duration-300 ease-in-out disabled:bg-gray-500 disabled:cursor-not-allowed"
         >
-          {isRendering ? 'Rendering...' : 'Render Fractal'}
+          {isRendering ? `Rendering... ${Math.round(renderProgress * 100)}%` : 'Render Fractal'}
         </button>
       </div>
+
+      <div className="mt-4 h-1 w-full bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-accent transition-[width] duration-150 ease-out"
+          style={{ width: `${Math.round(renderProgress * 100)}%`, opacity: isRendering ? 1 : 0 }}
+        />
+      </div>
     </div>
   );
 };
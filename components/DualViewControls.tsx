@@ -0,0 +1,66 @@
+import React from 'react';
+import { DualViewMode } from '../types';
+
+interface DualViewControlsProps {
+  mode: DualViewMode;
+  // The c last pinned by clicking the view.
+  constants: { cReal: number; cImag: number };
+  openOnPin: boolean;
+  onModeChange: (mode: DualViewMode) => void;
+  onOpenOnPinChange: (open: boolean) => void;
+  onOpenJulia: () => void;
+}
+
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out';
+const activeButtonClassName = 'bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out';
+
+const MODES: [DualViewMode, string][] = [
+  [DualViewMode.Off, 'Off'],
+  [DualViewMode.Split, 'Side by side'],
+  [DualViewMode.PictureInPicture, 'Picture in picture'],
+];
+
+const DualViewControls: React.FC<DualViewControlsProps> = ({
+  mode,
+  constants,
+  openOnPin,
+  onModeChange,
+  onOpenOnPinChange,
+  onOpenJulia,
+}) => (
+  <div className="w-full max-w-4xl mx-auto bg-gray-800 p-4 rounded-lg shadow-xl space-y-3">
+    <div className="flex flex-wrap items-center gap-4">
+      <span className="text-sm text-gray-300">Julia preview</span>
+      <div className="flex gap-1" role="group" aria-label="Julia preview">
+        {MODES.map(([option, label]) => (
+          <button
+            key={option}
+            type="button"
+            aria-pressed={mode === option}
+            onClick={() => onModeChange(option)}
+            className={mode === option ? activeButtonClassName : buttonClassName}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <span className="text-xs text-gray-400">
+        Pinned c = {constants.cReal.toFixed(5)} {constants.cImag < 0 ? '−' : '+'} {Math.abs(constants.cImag).toFixed(5)}i
+      </span>
+      <button type="button" onClick={onOpenJulia} className={buttonClassName}>Open Julia Set</button>
+    </div>
+    {mode !== DualViewMode.Off && (
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-xs text-gray-500">
+          The preview follows the cursor; click a point to pin it as c.
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={openOnPin} onChange={(e) => onOpenOnPinChange(e.target.checked)} />
+          Open the Julia set on click
+        </label>
+      </div>
+    )}
+  </div>
+);
+
+export default DualViewControls;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { ExploreSuggestion, NucleusSearchResult, NucleusSearchSettings } from '../services/exploreService';
+
+interface ExplorePanelProps {
+  isExploring: boolean;
+  // Views recorded by auto-explore so far, which the animation and bookmark panels can pick up.
+  pathLength: number;
+  suggestions: ExploreSuggestion[];
+  canSearch: boolean;
+  isSearchEnabled: boolean;
+  search: NucleusSearchSettings;
+  searchResult: NucleusSearchResult | null;
+  searchError: string | null;
+  onExploringChange: (exploring: boolean) => void;
+  onClearPath: () => void;
+  onFindPoints: () => void;
+  onGoTo: (suggestion: ExploreSuggestion) => void;
+  onSearchEnabledChange: (enabled: boolean) => void;
+  onSearchChange: (search: NucleusSearchSettings) => void;
+  onZoomToResult: () => void;
+}
+
+const inputClassName = 'w-20 bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const formatPoint = (x: number, y: number) => `${x.toPrecision(8)} ${y < 0 ? '−' : '+'} ${Math.abs(y).toPrecision(8)}i`;
+
+const ExplorePanel: React.FC<ExplorePanelProps> = ({
+  isExploring,
+  pathLength,
+  suggestions,
+  canSearch,
+  isSearchEnabled,
+  search,
+  searchResult,
+  searchError,
+  onExploringChange,
+  onClearPath,
+  onFindPoints,
+  onGoTo,
+  onSearchEnabledChange,
+  onSearchChange,
+  onZoomToResult,
+}) => (
+  <div className="w-full max-w-4xl mx-auto bg-gray-800 p-6 rounded-lg shadow-xl space-y-4">
+    <h2 className="text-xl font-bold text-white">Explore</h2>
+
+    <div className="flex flex-wrap items-center gap-2">
+      <button type="button" onClick={onFindPoints} disabled={isExploring} className={buttonClassName}>Find Interesting Points</button>
+      <button type="button" onClick={() => onExploringChange(!isExploring)} className={buttonClassName}>
+        {isExploring ? 'Stop Auto-Explore' : 'Auto-Explore'}
+      </button>
+      <span className="text-xs text-gray-400">
+        {pathLength} {pathLength === 1 ? 'view' : 'views'} recorded
+      </span>
+      <button type="button" onClick={onClearPath} disabled={isExploring || pathLength === 0} className={buttonClassName}>Clear Path</button>
+    </div>
+    <p className="text-xs text-gray-500">
+      Auto-explore keeps zooming toward the most detailed part of each frame. The views it passes through can be
+      loaded as animation keyframes or saved as bookmarks below.
+    </p>
+
+    {suggestions.length > 0 && (
+      <ol className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {suggestions.map((suggestion, index) => (
+          <li key={`${suggestion.precise.x},${suggestion.precise.y}`}
+            className="flex items-center justify-between gap-2 bg-gray-700 rounded-md p-2 text-xs text-gray-300">
+            <span>{index + 1}. {formatPoint(suggestion.x, suggestion.y)}</span>
+            <button type="button" onClick={() => onGoTo(suggestion)} disabled={isExploring} className={buttonClassName}>Go To</button>
+          </li>
+        ))}
+      </ol>
+    )}
+
+    {canSearch && (
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={isSearchEnabled} onChange={(e) => onSearchEnabledChange(e.target.checked)} />
+            Search on click for a
+          </label>
+          <select value={search.kind} aria-label="Point to search for"
+            onChange={(e) => onSearchChange({ ...search, kind: e.target.value as NucleusSearchSettings['kind'] })}
+            className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm">
+            <option value="nucleus">minibrot nucleus</option>
+            <option value="misiurewicz">Misiurewicz point</option>
+          </select>
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Period
+            <input type="number" min="1" step="1" value={search.period}
+              onChange={(e) => onSearchChange({ ...search, period: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={inputClassName} />
+          </label>
+          {search.kind === 'misiurewicz' && (
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              Preperiod
+              <input type="number" min="2" step="1" value={search.preperiod}
+                onChange={(e) => onSearchChange({ ...search, preperiod: Math.max(2, parseInt(e.target.value, 10) || 2) })}
+                className={inputClassName} />
+            </label>
+          )}
+        </div>
+        {searchResult && (
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-300">
+            <span>Found {formatPoint(searchResult.x, searchResult.y)}</span>
+            <button type="button" onClick={onZoomToResult} disabled={isExploring} className={buttonClassName}>Zoom To</button>
+          </div>
+        )}
+        {searchError && <p className="text-sm text-red-400">{searchError}</p>}
+      </div>
+    )}
+  </div>
+);
+
+export default ExplorePanel;
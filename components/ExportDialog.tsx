@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera3D, RenderParams } from '../types';
+import { exportImage, ExportJob, MAX_EXPORT_DIMENSION, MAX_SUPERSAMPLING } from '../services/exportService';
+import { downloadBlob, toFileName } from '../services/downloadService';
+
+interface ExportDialogProps {
+  params: RenderParams;
+  camera: Camera3D;
+  onClose: () => void;
+}
+
+const PRESETS = [
+  { label: 'Canvas', width: 800, height: 600 },
+  { label: 'Full HD', width: 1920, height: 1080 },
+  { label: '4K', width: 3840, height: 2160 },
+  { label: '8K', width: 7680, height: 4320 },
+  { label: 'A2 poster (300 dpi)', width: 7016, height: 4961 },
+];
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const clampDimension = (value: number) => Math.max(1, Math.min(MAX_EXPORT_DIMENSION, Math.round(value) || 1));
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ params, camera, onClose }) => {
+  const [width, setWidth] = useState(params.width);
+  const [height, setHeight] = useState(params.height);
+  const [supersampling, setSupersampling] = useState(2);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<ExportJob<Blob> | null>(null);
+
+  const isExporting = progress !== null;
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress(0);
+    const job = exportImage(params, camera, { width, height, supersampling }, setProgress);
+    jobRef.current = job;
+    try {
+      const blob = await job.done;
+      if (blob) {
+        downloadBlob(blob, `${toFileName(`fractal-${params.fractalType}-${width}x${height}`)}.png`);
+      }
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    } finally {
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    if (jobRef.current) {
+      jobRef.current.cancel();
+      return;
+    }
+    onClose();
+  };
+
+  const renderedPixels = width * height * supersampling * supersampling;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-lg bg-gray-800 p-6 rounded-lg shadow-xl space-y-4">
+        <h2 className="text-xl font-bold text-white">Export PNG</h2>
+
+        <fieldset disabled={isExporting} className="space-y-4 disabled:opacity-50">
+          <div className="flex flex-wrap gap-2">
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                type="button"
+                onClick={() => { setWidth(preset.width); setHeight(preset.height); }}
+                className={buttonClassName}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <label className="block text-xs text-gray-400">
+              Width
+              <input type="number" min="1" max={MAX_EXPORT_DIMENSION} value={width}
+                onChange={(e) => setWidth(clampDimension(parseFloat(e.target.value)))} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block text-xs text-gray-400">
+              Height
+              <input type="number" min="1" max={MAX_EXPORT_DIMENSION} value={height}
+                onChange={(e) => setHeight(clampDimension(parseFloat(e.target.value)))} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block text-xs text-gray-400">
+              Supersampling
+              <select value={supersampling} onChange={(e) => setSupersampling(parseInt(e.target.value, 10))} className={`${inputClassName} mt-1`}>
+                {Array.from({ length: MAX_SUPERSAMPLING }, (_, i) => i + 1).map((factor) => (
+                  <option key={factor} value={factor}>{factor === 1 ? 'Off' : `${factor}x${factor}`}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            Renders {(renderedPixels / 1e6).toFixed(1)} million samples. The PNG stores the view settings; drop it onto the page to restore them.
+          </p>
+        </fieldset>
+
+        {isExporting && (
+          <div className="h-1 w-full bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-accent transition-[width] duration-150 ease-out" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={handleCancel} className={buttonClassName}>
+            {isExporting ? 'Cancel Export' : 'Close'}
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-accent hover:opacity-90 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:bg-gray-500 disabled:cursor-not-allowed"
+          >
+            {isExporting ? `Exporting... ${Math.round(progress * 100)}%` : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import { FlameSettings, FlameTransform, FlameVariation } from '../types';
+import {
+  createFlameTransform,
+  FLAME_VARIATIONS,
+  MAX_FLAME_QUALITY,
+  MAX_FLAME_SUPERSAMPLE,
+  MIN_FLAME_QUALITY,
+} from '../services/flameService';
+import { FlameDocument, parseFlameXml } from '../services/flameXml';
+import { MAX_IFS_TRANSFORMS } from '../services/ifsService';
+
+interface FlameEditorProps {
+  flame: FlameSettings;
+  disabled: boolean;
+  onChange: (flame: FlameSettings) => void;
+  onImport: (document: FlameDocument) => void;
+  onExport: () => void;
+}
+
+interface TransformFieldsProps {
+  label: string;
+  transform: FlameTransform;
+  isFinal: boolean;
+  onChange: (transform: FlameTransform) => void;
+  onRemove: (() => void) | null;
+}
+
+const AFFINE_KEYS = ['a', 'b', 'c', 'd', 'e', 'f'] as const;
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-1 text-white text-xs font-mono';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; min?: number; max?: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  step = 0.01,
+  min,
+  max,
+  onChange,
+}) => (
+  <label className="text-xs text-gray-400">
+    {label}
+    <input
+      type="number"
+      step={step}
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (Number.isFinite(parsed)) onChange(parsed);
+      }}
+      className={inputClassName}
+    />
+  </label>
+);
+
+const TransformFields: React.FC<TransformFieldsProps> = ({ label, transform, isFinal, onChange, onRemove }) => {
+  const update = (changes: Partial<FlameTransform>) => onChange({ ...transform, ...changes });
+  const variations = Object.entries(transform.variations) as [FlameVariation, number][];
+  const unused = FLAME_VARIATIONS.filter((name) => !(name in transform.variations));
+
+  const setVariation = (name: FlameVariation, weight: number | null) => {
+    const next = { ...transform.variations };
+    if (weight === null) delete next[name];
+    else next[name] = weight;
+    update({ variations: next });
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-md p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-300">{label}</span>
+        {onRemove && (
+          <button type="button" aria-label={`Remove ${label.toLowerCase()}`} onClick={onRemove} className={buttonClassName}>✕</button>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {!isFinal && (
+          <NumberField label="Weight" value={transform.probability} min={0} onChange={(probability) => update({ probability })} />
+        )}
+        <NumberField label="Color" value={transform.color} min={0} max={1} onChange={(color) => update({ color })} />
+        <NumberField
+          label="Color speed"
+          value={transform.colorSpeed}
+          min={0}
+          max={1}
+          onChange={(colorSpeed) => update({ colorSpeed })}
+        />
+      </div>
+      <div className="grid grid-cols-6 gap-1">
+        {AFFINE_KEYS.map((key) => (
+          <NumberField key={key} label={key} value={transform[key]} onChange={(value) => update({ [key]: value })} />
+        ))}
+      </div>
+      <div className="space-y-1">
+        {variations.map(([name, weight]) => (
+          <div key={name} className="flex items-center gap-2">
+            <span className="w-28 text-xs text-gray-400">{name}</span>
+            <input
+              type="number"
+              step="0.05"
+              value={weight}
+              aria-label={`${label} ${name} weight`}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                if (Number.isFinite(parsed)) setVariation(name, parsed);
+              }}
+              className={`${inputClassName} max-w-[6rem]`}
+            />
+            <button type="button" aria-label={`Remove ${name}`} onClick={() => setVariation(name, null)} className={buttonClassName}>✕</button>
+          </div>
+        ))}
+        <select
+          value=""
+          onChange={(e) => setVariation(e.target.value as FlameVariation, 1)}
+          className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-xs"
+        >
+          <option value="" disabled>Add a variation…</option>
+          {unused.map((name) => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+const FlameEditor: React.FC<FlameEditorProps> = ({ flame, disabled, onChange, onImport, onExport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const update = (changes: Partial<FlameSettings>) => onChange({ ...flame, ...changes });
+
+  const updateTransform = (index: number, transform: FlameTransform) =>
+    update({ transforms: flame.transforms.map((t, i) => (i === index ? transform : t)) });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const document = parseFlameXml(await file.text());
+      onImport(document);
+      setImportMessage(document.unsupportedVariations.length > 0
+        ? `Left out variations this renderer does not have: ${document.unsupportedVariations.join(', ')}.`
+        : null);
+    } catch (error) {
+      setImportMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <fieldset disabled={disabled} className="mt-6 border border-gray-600 rounded-lg p-4 space-y-4 disabled:opacity-50">
+      <legend className="text-sm font-medium text-gray-300 px-2">Fractal Flame</legend>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="text-xs text-gray-400">
+          Gamma: {flame.gamma.toFixed(1)}
+          <input
+            type="range" min="1" max="8" step="0.1" value={flame.gamma}
+            onChange={(e) => update({ gamma: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Brightness: {flame.brightness.toFixed(1)}
+          <input
+            type="range" min="0.5" max="30" step="0.5" value={flame.brightness}
+            onChange={(e) => update({ brightness: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Vibrancy: {flame.vibrancy.toFixed(2)}
+          <input
+            type="range" min="0" max="1" step="0.05" value={flame.vibrancy}
+            onChange={(e) => update({ vibrancy: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Quality (samples per pixel): {flame.quality}
+          <input
+            type="range" min={MIN_FLAME_QUALITY} max={MAX_FLAME_QUALITY} step="5" value={flame.quality}
+            onChange={(e) => update({ quality: parseInt(e.target.value, 10) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Supersampling{' '}
+          <select
+            value={flame.supersample}
+            onChange={(e) => update({ supersample: parseInt(e.target.value, 10) })}
+            className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm"
+          >
+            {Array.from({ length: MAX_FLAME_SUPERSAMPLE }, (_, i) => i + 1).map((factor) => (
+              <option key={factor} value={factor}>{factor}×{factor}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {flame.transforms.map((transform, index) => (
+          <TransformFields
+            key={index}
+            label={`Transform ${index + 1}`}
+            transform={transform}
+            isFinal={false}
+            onChange={(t) => updateTransform(index, t)}
+            onRemove={flame.transforms.length > 1 ? () => update({ transforms: flame.transforms.filter((_, i) => i !== index) }) : null}
+          />
+        ))}
+        {flame.finalTransform && (
+          <TransformFields
+            label="Final transform"
+            transform={flame.finalTransform}
+            isFinal
+            onChange={(finalTransform) => update({ finalTransform })}
+            onRemove={() => update({ finalTransform: null })}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={flame.transforms.length >= MAX_IFS_TRANSFORMS}
+          onClick={() => update({ transforms: [...flame.transforms, createFlameTransform({ a: 0.5, d: 0.5, color: Math.random() })] })}
+          className={buttonClassName}
+        >
+          Add Transform
+        </button>
+        {!flame.finalTransform && (
+          <button type="button" onClick={() => update({ finalTransform: createFlameTransform({ colorSpeed: 0 }) })} className={buttonClassName}>
+            Add Final Transform
+          </button>
+        )}
+        <input ref={fileInputRef} type="file" accept=".flame,.xml" onChange={handleImport} className="hidden" />
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+          Import .flame
+        </button>
+        <button type="button" onClick={onExport} className={buttonClassName}>
+          Export .flame
+        </button>
+      </div>
+      {importMessage && <p className="text-sm text-yellow-400">{importMessage}</p>}
+      <p className="text-xs text-gray-500">
+        Each transform applies its affine map (a x + b y + e, c x + d y + f), then the weighted sum of its variations.
+        Points move towards the transform's palette colour at its colour speed.
+      </p>
+    </fieldset>
+  );
+};
+
+export default FlameEditor;
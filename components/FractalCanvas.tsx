@@ -1,125 +1,342 @@
 import React, { useRef, useEffect } from 'react';
-import { RenderParams, FractalType } from '../types';
-import { drawFractal } from '../services/fractalService';
-import { vertexShaderSource, fragmentShaderSource } from '../services/mandelbulbShaders';
+import { RenderParams, FractalType, ViewState, RendererPreference, IFSTransform, Fractal3DType, Camera3D, CameraMode, Vec3, PrecisePan } from '../types';
+import { colorizeField, colorSamples, createRenderStats, drawFractal, finalizeFrameField, RenderStats, writeTileToFrame } from '../services/fractalService';
+import { isEscapeTimeFractal, isJuliaFractal } from '../services/escapeTimeFormulas';
+import { needsFrameColoring, ORBIT_RECORD_SIZE } from '../services/coloringService';
+import { createPaletteLookup } from '../services/paletteService';
+import { createRenderPool, RenderPool } from '../services/renderPool';
+import { canReuseFrame, getFrameShift, resampleFrame, RetainedFrame, reuseFrame } from '../services/frameReuse';
+import { MAX_DEEP_ZOOM, offsetPrecisePan, precisePointFromPan } from '../services/deepZoom';
+import { createEscapeTimeGLRenderer, EscapeTimeGLRenderer, selectRenderBackend } from '../services/webglEscapeTimeRenderer';
+import { createMandelbulbRenderer, MandelbulbRenderer } from '../services/mandelbulbRenderer';
+import { is3DFractal } from '../services/distanceEstimators';
+import { drawTransformHandles, findHandle, moveHandle, TransformHandle } from '../services/ifsService';
+import { renderFlameProgressively } from '../services/flameService';
+import { getTargetDistance, lookAround, moveCamera, orbitCamera, setTargetDistance } from '../services/cameraService';
+
+// The 3D view first draws at this fraction of the resolution, and starts refining once nothing has changed for
+// IDLE_DELAY milliseconds.
+const PREVIEW_SCALE = 0.25;
+const IDLE_DELAY = 150;
+// Radians per second the fly mode rolls at while Z or C is held.
+const ROLL_SPEED = 1.5;
+const MIN_TARGET_DISTANCE = 1e-4;
+// A press that moves less than this many pixels before it is released is a click rather than a drag.
+const CLICK_TOLERANCE = 4;
 
 interface FractalCanvasProps {
   params: RenderParams;
   onRenderComplete: () => void;
-  onViewChange: (view: { panX: number; panY: number; zoom: number }) => void;
-  cameraRotation: { x: number; y: number };
-  onCameraChange: (changes: { rotation?: { x: number; y: number }; distance?: number; target?: { x: number; y: number } }) => void;
+  onRenderProgress: (progress: number) => void;
+  // Immediate views are applied as they are instead of eased into.
+  onViewChange: (view: ViewState, immediate?: boolean) => void;
+  camera: Camera3D;
+  cameraMode: CameraMode;
+  onCameraChange: (camera: Camera3D) => void;
   onJuliaConstantChange: (constants: { cReal: number; cImag: number }) => void;
+  // The point of the complex plane under the cursor, or null once it leaves, for the Julia preview, and a point
+  // clicked, also to the full precision of a deep zoom.
+  onPointHover?: (constants: { cReal: number; cImag: number } | null) => void;
+  onPointClick?: (constants: { cReal: number; cImag: number }, precise: PrecisePan) => void;
+  // The palette positions of a finished CPU render of an escape-time fractal, for the interesting-point finder.
+  onFieldRendered?: (field: Float32Array, params: RenderParams) => void;
+  // How the pixels of that render were settled, and how long it took.
+  onRenderStats?: (stats: RenderStats, params: RenderParams, elapsedMs: number) => void;
+  // Why a render of those params stopped short, e.g. a custom formula that fails to evaluate.
+  onRenderError?: (message: string, params: RenderParams) => void;
+  // Whether the IFS transforms are drawn over the image and can be dragged.
+  showTransformHandles: boolean;
+  onIFSTransformsChange: (transforms: IFSTransform[]) => void;
 }
 
-const createShader = (gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null => {
-  const shader = gl.createShader(type);
-  if (!shader) return null;
-  gl.shaderSource(shader, source);
-  gl.compileShader(shader);
-  const success = gl.getShaderParameter(shader, gl.COMPILE_STATUS);
-  if (success) return shader;
-  console.error(gl.getShaderInfoLog(shader));
-  gl.deleteShader(shader);
-  return null;
-};
-
-const createProgram = (gl: WebGLRenderingContext, vertexShader: WebGLShader, fragmentShader: WebGLShader): WebGLProgram | null => {
-  const program = gl.createProgram();
-  if (!program) return null;
-  gl.attachShader(program, vertexShader);
-  gl.attachShader(program, fragmentShader);
-  gl.linkProgram(program);
-  const success = gl.getProgramParameter(program, gl.LINK_STATUS);
-  if (success) return program;
-  console.error(gl.getProgramInfoLog(program));
-  gl.deleteProgram(program);
-  return null;
-};
-
-const FractalCanvas: React.FC<FractalCanvasProps> = ({ params, onRenderComplete, onViewChange, cameraRotation, onCameraChange, onJuliaConstantChange }) => {
+const FractalCanvas: React.FC<FractalCanvasProps> = ({
+  params,
+  onRenderComplete,
+  onRenderProgress,
+  onViewChange,
+  camera,
+  cameraMode,
+  onCameraChange,
+  onJuliaConstantChange,
+  onPointHover,
+  onPointClick,
+  onFieldRendered,
+  onRenderStats,
+  onRenderError,
+  showTransformHandles,
+  onIFSTransformsChange,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isDragging2D = useRef(false);
   const dragMode3D = useRef<'none' | 'rotate' | 'pan'>('none');
+  const draggedHandle = useRef<{ index: number; handle: TransformHandle } | null>(null);
   const lastMousePos = useRef({ x: 0, y: 0 });
-  const is3D = params.fractalType === FractalType.Mandelbulb;
-  const isInteractive2D = params.fractalType !== FractalType.Sierpinski && !is3D;
+  const dragDistance = useRef(0);
+  const lastTouches = useRef<{ x: number; y: number }[]>([]);
+  // Held keys, by KeyboardEvent.code, for the fly mode.
+  const pressedKeys = useRef(new Set<string>());
+  // Several changes can be made before the new camera comes back as a prop, so each one starts from the last.
+  const cameraRef = useRef(camera);
+  const renderPoolRef = useRef<RenderPool | null>(null);
+  // undefined until WebGL has been tried; null if it is unavailable.
+  const glRendererRef = useRef<EscapeTimeGLRenderer | null | undefined>(undefined);
+  // Palette positions of the finished CPU frame, kept so palette cycling can recolor it without recomputing.
+  const displayedFieldRef = useRef<Float32Array | null>(null);
+  // The last finished CPU frame, which the next one starts from where it can.
+  const retainedFrameRef = useRef<RetainedFrame | null>(null);
+  // Compiling a raymarcher takes a while, so it is kept for as long as the 3D fractal type stays the same.
+  const mandelbulbRef = useRef<{ type: Fractal3DType; renderer: MandelbulbRenderer } | null>(null);
+  const is3D = is3DFractal(params.fractalType);
+  const isInteractive2D = !is3D;
+  const isFlying = is3D && cameraMode === CameraMode.Fly;
+
+  useEffect(() => {
+    cameraRef.current = camera;
+  }, [camera]);
+
+  const changeCamera = (next: Camera3D) => {
+    cameraRef.current = next;
+    onCameraChange(next);
+  };
+
+  // The distance to the surface from the camera, which sets the pace of the fly mode so that it slows down on the
+  // way in. Without a renderer it falls back to the distance to the target.
+  const getFlySpeed = (current: Camera3D) => {
+    const renderer = mandelbulbRef.current?.renderer;
+    return renderer ? renderer.estimateDistance({ ...params, camera: current }, current.position) : getTargetDistance(current);
+  };
+
+  useEffect(() => {
+    return () => {
+      renderPoolRef.current?.terminate();
+      renderPoolRef.current = null;
+      glRendererRef.current?.dispose();
+      glRendererRef.current = undefined;
+      mandelbulbRef.current?.renderer.dispose();
+      mandelbulbRef.current = null;
+    };
+  }, []);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     let cleanup = () => {};
+    displayedFieldRef.current = null;
 
-    if (is3D) {
-      const gl = canvas.getContext('webgl', { antialias: true });
+    if (is3DFractal(params.fractalType)) {
+      const gl = canvas.getContext('webgl', { antialias: false });
       if (!gl) {
         console.error("WebGL is not supported by your browser.");
         return;
       }
-      const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
-      const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
-      if (!vertexShader || !fragmentShader) return;
-      
-      const program = createProgram(gl, vertexShader, fragmentShader);
-      if (!program) return;
-
-      const positionAttributeLocation = gl.getAttribLocation(program, "a_position");
-      const resolutionUniformLocation = gl.getUniformLocation(program, "u_resolution");
-      const timeUniformLocation = gl.getUniformLocation(program, "u_time");
-      const cameraRotationUniformLocation = gl.getUniformLocation(program, "u_cameraRotation");
-      const cameraDistanceUniformLocation = gl.getUniformLocation(program, "u_cameraDistance");
-      const cameraTargetUniformLocation = gl.getUniformLocation(program, "u_cameraTarget");
-      const maxStepsUniformLocation = gl.getUniformLocation(program, "u_maxSteps");
-
-      const positionBuffer = gl.createBuffer();
-      gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-      const positions = [-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1];
-      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(positions), gl.STATIC_DRAW);
-      
-      gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
-      gl.clearColor(0, 0, 0, 0);
-      gl.clear(gl.COLOR_BUFFER_BIT);
-      gl.useProgram(program);
-      gl.enableVertexAttribArray(positionAttributeLocation);
-      gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-      gl.vertexAttribPointer(positionAttributeLocation, 2, gl.FLOAT, false, 0, 0);
+      if (mandelbulbRef.current?.type !== params.fractalType) {
+        mandelbulbRef.current?.renderer.dispose();
+        const created = createMandelbulbRenderer(gl, params.fractalType);
+        mandelbulbRef.current = created && { type: params.fractalType, renderer: created };
+      }
+      const renderer = mandelbulbRef.current?.renderer;
+      if (!renderer) return;
 
+      const view = { ...params, camera };
+      const frame = { width: gl.canvas.width, height: gl.canvas.height, fragOffset: { x: 0, y: 0 }, time: 0 };
+      const startTime = performance.now();
+      let isRefining = false;
       let animationFrameId: number;
-      const render = (time: number) => {
-        gl.uniform2f(resolutionUniformLocation, gl.canvas.width, gl.canvas.height);
-        gl.uniform1f(timeUniformLocation, time * 0.001);
-        gl.uniform2f(cameraRotationUniformLocation, cameraRotation.x, cameraRotation.y);
-        gl.uniform1f(cameraDistanceUniformLocation, params.cameraDistance);
-        gl.uniform2f(cameraTargetUniformLocation, params.cameraTarget.x, params.cameraTarget.y);
-        gl.uniform1i(maxStepsUniformLocation, params.mandelbulbIterations);
-        gl.drawArrays(gl.TRIANGLES, 0, 6);
-        animationFrameId = requestAnimationFrame(render);
-      };
-      
-      animationFrameId = requestAnimationFrame(render);
-      onRenderComplete();
-      
-      cleanup = () => {
-        cancelAnimationFrame(animationFrameId);
-        gl.deleteProgram(program);
-        gl.deleteShader(vertexShader);
-        gl.deleteShader(fragmentShader);
-        gl.deleteBuffer(positionBuffer);
+
+      onRenderProgress(0);
+      renderer.reset(PREVIEW_SCALE);
+      renderer.addSample(view, frame);
+      renderer.present();
+
+      const refine = (time: number) => {
+        if (time - startTime < IDLE_DELAY) {
+          animationFrameId = requestAnimationFrame(refine);
+          return;
+        }
+        if (params.paletteCycleSpeed) {
+          // The colours change every frame, so there is nothing to accumulate: each frame is a single sample.
+          if (!isRefining) onRenderComplete();
+          isRefining = true;
+          const paletteOffset = params.paletteOffset + ((time - startTime) / 1000) * params.paletteCycleSpeed;
+          renderer.reset();
+          renderer.addSample({ ...view, paletteOffset }, { ...frame, time: time * 0.001 });
+          renderer.present();
+          animationFrameId = requestAnimationFrame(refine);
+          return;
+        }
+        if (!isRefining) renderer.reset();
+        isRefining = true;
+        const sampleCount = renderer.addSample(view, frame);
+        renderer.present();
+        if (sampleCount >= params.render3D.samples) {
+          onRenderComplete();
+          return;
+        }
+        onRenderProgress(sampleCount / params.render3D.samples);
+        animationFrameId = requestAnimationFrame(refine);
       };
+      animationFrameId = requestAnimationFrame(refine);
+
+      cleanup = () => cancelAnimationFrame(animationFrameId);
     } else {
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
-      drawFractal({ ctx, ...params });
-      onRenderComplete();
+      if (isEscapeTimeFractal(params.fractalType)) {
+        if (params.renderer !== RendererPreference.CPU && glRendererRef.current === undefined) {
+          glRendererRef.current = createEscapeTimeGLRenderer();
+        }
+        const glRenderer = glRendererRef.current ?? null;
+        const backend = selectRenderBackend(params, params.renderer, glRenderer !== null);
+        let renderedOnGpu = false;
+        if (backend !== 'cpu' && glRenderer) {
+          try {
+            ctx.drawImage(glRenderer.render(params, backend === 'gpu-double'), 0, 0);
+            renderedOnGpu = true;
+          } catch (error) {
+            console.error('GPU render failed, falling back to the CPU renderer:', error);
+          }
+        }
+
+        if (renderedOnGpu) {
+          onRenderComplete();
+        } else {
+          if (!renderPoolRef.current) {
+            renderPoolRef.current = createRenderPool();
+          }
+          const frameSamples = new Float32Array(params.width * params.height * ORBIT_RECORD_SIZE);
+          const paletteLookup = createPaletteLookup(params);
+          const startTime = performance.now();
+          const retained = retainedFrameRef.current;
+          const shift = retained && getFrameShift(retained, params);
+          const regions = retained && shift
+            ? reuseFrame(retained, shift, frameSamples)
+            : [{ x: 0, y: 0, width: params.width, height: params.height }];
+          const drawSamples = (samples: Float32Array) =>
+            ctx.putImageData(new ImageData(colorizeField(colorSamples(samples, params), paletteLookup), params.width, params.height), 0, 0);
+          if (shift) {
+            drawSamples(frameSamples);
+          } else if (retained && canReuseFrame(retained, params)) {
+            // A preview of the new view until its tiles replace it.
+            drawSamples(resampleFrame(retained, params));
+          }
+
+          const completeFrame = (stats: RenderStats) => {
+            const finalField = finalizeFrameField(colorSamples(frameSamples, params), params);
+            // Whole-frame colorings (histogram equalization) can only be applied once every tile is in.
+            if (needsFrameColoring(params.coloringAlgorithm)) {
+              const pixels = colorizeField(finalField, paletteLookup);
+              ctx.putImageData(new ImageData(pixels, params.width, params.height), 0, 0);
+            }
+            const reused = finalField.length - regions.reduce((sum, region) => sum + region.width * region.height, 0);
+            retainedFrameRef.current = { params, samples: frameSamples };
+            displayedFieldRef.current = finalField;
+            onFieldRendered?.(finalField, params);
+            onRenderStats?.({ ...stats, pixels: stats.pixels + reused, reused }, params, performance.now() - startTime);
+            onRenderComplete();
+          };
+
+          if (regions.length === 0) {
+            completeFrame(createRenderStats());
+          } else {
+            const job = renderPoolRef.current.render(params, {
+              onTile: (tile) => {
+                writeTileToFrame(tile.samples, tile, frameSamples, params.width, ORBIT_RECORD_SIZE);
+                const pixels = colorizeField(colorSamples(tile.samples, params), paletteLookup);
+                ctx.putImageData(new ImageData(pixels, tile.width, tile.height), tile.x, tile.y);
+              },
+              onProgress: onRenderProgress,
+              onComplete: completeFrame,
+              // Leaves what was drawn so far, but lets the progress bar and the controls go again.
+              onError: (message) => {
+                onRenderError?.(message, params);
+                onRenderComplete();
+              },
+            }, regions);
+            cleanup = () => job.cancel();
+          }
+        }
+      } else if (params.fractalType === FractalType.Flame) {
+        const job = renderFlameProgressively(params, {
+          onFrame: (pixels) => ctx.putImageData(new ImageData(pixels, params.width, params.height), 0, 0),
+          onProgress: onRenderProgress,
+          onComplete: onRenderComplete,
+        });
+        cleanup = () => job.cancel();
+      } else {
+        drawFractal({ ctx, ...params });
+        if (showTransformHandles) {
+          drawTransformHandles(ctx, params, params.ifsTransforms);
+        }
+        onRenderComplete();
+      }
     }
 
     return cleanup;
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [params, cameraRotation]);
+  }, [params, camera, showTransformHandles]);
+
+  useEffect(() => {
+    if (!isFlying) return;
+    let lastTime = performance.now();
+    let animationFrameId: number;
+    const fly = (time: number) => {
+      // A long gap (a background tab) should not throw the camera across the scene.
+      const elapsed = Math.min((time - lastTime) / 1000, 0.1);
+      lastTime = time;
+      const keys = pressedKeys.current;
+      const axis = (positive: string, negative: string) => (keys.has(positive) ? 1 : 0) - (keys.has(negative) ? 1 : 0);
+      const direction: Vec3 = [axis('KeyD', 'KeyA'), axis('KeyE', 'KeyQ'), axis('KeyW', 'KeyS')];
+      const roll = axis('KeyZ', 'KeyC');
+      if (roll || direction.some((c) => c !== 0)) {
+        let next = cameraRef.current;
+        if (roll) next = lookAround(next, 0, 0, roll * ROLL_SPEED * elapsed);
+        if (direction.some((c) => c !== 0)) {
+          const step = getFlySpeed(next) * elapsed;
+          next = moveCamera(next, direction.map((c) => c * step) as Vec3);
+        }
+        changeCamera(next);
+      }
+      animationFrameId = requestAnimationFrame(fly);
+    };
+    animationFrameId = requestAnimationFrame(fly);
+    return () => cancelAnimationFrame(animationFrameId);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isFlying, params]);
+
+  useEffect(() => {
+    if (!params.paletteCycleSpeed || !isEscapeTimeFractal(params.fractalType)) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const paletteLookup = createPaletteLookup(params);
+    const startTime = performance.now();
+    let animationFrameId: number;
+    const cycle = (time: number) => {
+      const field = displayedFieldRef.current;
+      if (field) {
+        const offset = paletteLookup.offset + ((time - startTime) / 1000) * params.paletteCycleSpeed;
+        const pixels = colorizeField(field, { ...paletteLookup, offset });
+        ctx.putImageData(new ImageData(pixels, params.width, params.height), 0, 0);
+      }
+      animationFrameId = requestAnimationFrame(cycle);
+    };
+    animationFrameId = requestAnimationFrame(cycle);
+
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [params]);
+
+  const getComplexPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      cReal: ((e.clientX - rect.left - params.width / 2) * 4) / (params.width * params.zoom) - params.panX,
+      cImag: ((e.clientY - rect.top - params.height / 2) * 4) / (params.width * params.zoom) - params.panY,
+    };
+  };
 
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     lastMousePos.current = { x: e.clientX, y: e.clientY };
+    dragDistance.current = 0;
     if (is3D) {
       if (e.button === 0) { // Left click for rotation
         dragMode3D.current = 'rotate';
@@ -129,49 +346,84 @@ const FractalCanvas: React.FC<FractalCanvasProps> = ({ params, onRenderComplete,
         e.currentTarget.style.cursor = 'move';
       }
     } else if (isInteractive2D) {
+      if (showTransformHandles) {
+        const rect = e.currentTarget.getBoundingClientRect();
+        draggedHandle.current = findHandle(params, params.ifsTransforms, e.clientX - rect.left, e.clientY - rect.top);
+      }
       isDragging2D.current = true;
       e.currentTarget.style.cursor = 'grabbing';
     }
   };
 
   const handleMouseUpOrLeave = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.type === 'mouseleave') {
+      onPointHover?.(null);
+    } else if (isDragging2D.current && !draggedHandle.current && dragDistance.current < CLICK_TOLERANCE) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const scale = 4 / (params.width * params.zoom);
+      const dx = (e.clientX - rect.left - params.width / 2) * scale;
+      const dy = (e.clientY - rect.top - params.height / 2) * scale;
+      onPointClick?.(getComplexPoint(e), precisePointFromPan(params.precisePan, dx, dy, params.zoom));
+    }
     isDragging2D.current = false;
+    draggedHandle.current = null;
     dragMode3D.current = 'none';
     if (is3D || isInteractive2D) e.currentTarget.style.cursor = 'grab';
   };
 
+  // Orbits the target, or in the fly mode turns the camera where it stands.
+  const rotateCamera = (dx: number, dy: number) => {
+    const current = cameraRef.current;
+    changeCamera(isFlying ? lookAround(current, -dx * 0.005, -dy * 0.005) : orbitCamera(current, dx * 0.01, -dy * 0.01));
+  };
+
+  const panCamera = (dx: number, dy: number) => {
+    const current = cameraRef.current;
+    const panFactor = 0.003 * getTargetDistance(current);
+    changeCamera(moveCamera(current, [-dx * panFactor, dy * panFactor, 0]));
+  };
+
+  // Moves towards the target by the given factor, or in the fly mode forwards by that fraction of the way to the surface.
+  const dollyCamera = (factor: number) => {
+    const current = cameraRef.current;
+    if (isFlying) {
+      changeCamera(moveCamera(current, [0, 0, (1 - factor) * getFlySpeed(current)]));
+    } else {
+      changeCamera(setTargetDistance(current, Math.max(MIN_TARGET_DISTANCE, getTargetDistance(current) * factor)));
+    }
+  };
+
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const dx = e.clientX - lastMousePos.current.x;
     const dy = e.clientY - lastMousePos.current.y;
     lastMousePos.current = { x: e.clientX, y: e.clientY };
+    if (isInteractive2D) onPointHover?.(getComplexPoint(e));
 
     if (dragMode3D.current === 'rotate') {
-      onCameraChange({
-        rotation: {
-          x: cameraRotation.x - dx * 0.01,
-          y: cameraRotation.y - dy * 0.01,
-        }
-      });
+      rotateCamera(dx, dy);
     } else if (dragMode3D.current === 'pan') {
-      const panFactor = 0.003 * params.cameraDistance;
-      onCameraChange({
-        target: {
-          x: params.cameraTarget.x - dx * panFactor,
-          y: params.cameraTarget.y + dy * panFactor,
-        }
-      });
+      panCamera(dx, dy);
     } else if (isDragging2D.current) {
-        if (params.fractalType === FractalType.Julia) {
+        dragDistance.current += Math.abs(dx) + Math.abs(dy);
+        if (draggedHandle.current) {
+            const { index, handle } = draggedHandle.current;
             const rect = e.currentTarget.getBoundingClientRect();
-            const mouseX = e.clientX - rect.left;
-            const mouseY = e.clientY - rect.top;
-            const newCReal = ((mouseX - params.width / 2) * 4) / (params.width * params.zoom) - params.panX;
-            const newCImag = ((mouseY - params.height / 2) * 4) / (params.width * params.zoom) - params.panY;
-            onJuliaConstantChange({ cReal: newCReal, cImag: newCImag });
+            const x = ((e.clientX - rect.left - params.width / 2) * 4) / (params.width * params.zoom) - params.panX;
+            const y = ((e.clientY - rect.top - params.height / 2) * 4) / (params.width * params.zoom) - params.panY;
+            onIFSTransformsChange(params.ifsTransforms.map((t, i) => (i === index ? moveHandle(t, handle, x, y) : t)));
+        } else if (isJuliaFractal(params.fractalType)) {
+            onJuliaConstantChange(getComplexPoint(e));
         } else {
-            const newPanX = params.panX - (dx * 4) / (params.width * params.zoom);
-            const newPanY = params.panY - (dy * 4) / (params.width * params.zoom);
-            onViewChange({ panX: newPanX, panY: newPanY, zoom: params.zoom });
+            const panDeltaX = -(dx * 4) / (params.width * params.zoom);
+            const panDeltaY = -(dy * 4) / (params.width * params.zoom);
+            // Not eased, so that the view stays a whole number of pixels from the frame on screen and that frame can be
+            // moved rather than computed again.
+            onViewChange({
+              panX: params.panX + panDeltaX,
+              panY: params.panY + panDeltaY,
+              zoom: params.zoom,
+              precisePan: offsetPrecisePan(params.precisePan, panDeltaX, panDeltaY),
+            }, true);
         }
     }
   };
@@ -180,25 +432,66 @@ const FractalCanvas: React.FC<FractalCanvasProps> = ({ params, onRenderComplete,
     e.preventDefault();
     if (is3D) {
       const zoomFactor = 1.1;
-      const newDistance = e.deltaY < 0 ? params.cameraDistance / zoomFactor : params.cameraDistance * zoomFactor;
-      onCameraChange({ distance: Math.max(0.1, newDistance) });
+      dollyCamera(e.deltaY < 0 ? 1 / zoomFactor : zoomFactor);
       return;
     }
 
     if (!isInteractive2D || !canvasRef.current) return;
     const zoomFactor = 1.15;
     const oldZoom = params.zoom;
-    const newZoom = e.deltaY < 0 ? oldZoom * zoomFactor : oldZoom / zoomFactor;
+    const newZoom = Math.min(e.deltaY < 0 ? oldZoom * zoomFactor : oldZoom / zoomFactor, MAX_DEEP_ZOOM);
     const rect = canvasRef.current.getBoundingClientRect();
     const mouseX = e.clientX - rect.left;
     const mouseY = e.clientY - rect.top;
-    const mouseCoordX = ((mouseX - params.width / 2) * 4) / (params.width * oldZoom) - params.panX;
-    const mouseCoordY = ((mouseY - params.height / 2) * 4) / (params.width * oldZoom) - params.panY;
-    const newPanX = ((mouseX - params.width / 2) * 4) / (params.width * newZoom) - mouseCoordX;
-    const newPanY = ((mouseY - params.height / 2) * 4) / (params.width * newZoom) - mouseCoordY;
-    onViewChange({ panX: newPanX, panY: newPanY, zoom: newZoom });
+    // Keep the point under the cursor fixed. Only the pan offset is computed in doubles, so the precise
+    // pan stays accurate at depths where the absolute coordinates no longer fit in a double.
+    const zoomChange = 1 / newZoom - 1 / oldZoom;
+    const panDeltaX = ((mouseX - params.width / 2) * 4 / params.width) * zoomChange;
+    const panDeltaY = ((mouseY - params.height / 2) * 4 / params.width) * zoomChange;
+    onViewChange({
+      panX: params.panX + panDeltaX,
+      panY: params.panY + panDeltaY,
+      zoom: newZoom,
+      precisePan: offsetPrecisePan(params.precisePan, panDeltaX, panDeltaY),
+    });
   };
   
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (!isFlying || !/^Key[WASDQEZC]$/.test(e.code)) return;
+    e.preventDefault();
+    pressedKeys.current.add(e.code);
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    pressedKeys.current.delete(e.code);
+  };
+
+  const getTouchPoints = (e: React.TouchEvent<HTMLCanvasElement>) =>
+    Array.from({ length: e.touches.length }, (_, i) => ({ x: e.touches[i].clientX, y: e.touches[i].clientY }));
+
+  const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    lastTouches.current = getTouchPoints(e);
+  };
+
+  // One finger turns the camera as a left drag does; two pan with their midpoint and dolly as they pinch.
+  const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    const touches = getTouchPoints(e);
+    const previous = lastTouches.current;
+    lastTouches.current = touches;
+    if (touches.length !== previous.length) return;
+    if (touches.length === 1) {
+      rotateCamera(touches[0].x - previous[0].x, touches[0].y - previous[0].y);
+    } else if (touches.length === 2) {
+      const midpoint = (points: { x: number; y: number }[]) => ({ x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 });
+      const spread = (points: { x: number; y: number }[]) => Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
+      const from = midpoint(previous);
+      const to = midpoint(touches);
+      panCamera(to.x - from.x, to.y - from.y);
+      const previousSpread = spread(previous);
+      if (previousSpread > 0 && spread(touches) > 0) dollyCamera(previousSpread / spread(touches));
+    }
+  };
+
   const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (is3D) {
       e.preventDefault();
@@ -222,6 +515,14 @@ const FractalCanvas: React.FC<FractalCanvasProps> = ({ params, onRenderComplete,
     onMouseLeave={handleMouseUpOrLeave}
     onWheel={handleWheel}
     onContextMenu={handleContextMenu}
+    tabIndex={is3D ? 0 : undefined}
+    onKeyDown={handleKeyDown}
+    onKeyUp={handleKeyUp}
+    onBlur={() => pressedKeys.current.clear()}
+    onTouchStart={is3D ? handleTouchStart : undefined}
+    onTouchMove={is3D ? handleTouchMove : undefined}
+    onTouchEnd={is3D ? handleTouchStart : undefined}
+    style={is3D ? { touchAction: 'none' } : undefined}
     />;
 };
 
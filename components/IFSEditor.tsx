@@ -0,0 +1,111 @@
+import React from 'react';
+import { IFSTransform } from '../types';
+import { IFS_PRESETS, MAX_IFS_TRANSFORMS } from '../services/ifsService';
+
+interface IFSEditorProps {
+  transforms: IFSTransform[];
+  showHandles: boolean;
+  disabled: boolean;
+  onChange: (transforms: IFSTransform[]) => void;
+  onShowHandlesChange: (show: boolean) => void;
+}
+
+const COEFFICIENTS: (keyof IFSTransform)[] = ['a', 'b', 'c', 'd', 'e', 'f', 'probability'];
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-1 text-white text-xs font-mono';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const IFSEditor: React.FC<IFSEditorProps> = ({ transforms, showHandles, disabled, onChange, onShowHandlesChange }) => {
+  const updateTransform = (index: number, key: keyof IFSTransform, value: number) => {
+    if (!Number.isFinite(value)) return;
+    onChange(transforms.map((t, i) => (i === index ? { ...t, [key]: value } : t)));
+  };
+
+  // New transforms shrink the plane by half onto the view's centre, weighted like the average existing one.
+  const addTransform = () => {
+    const probability = transforms.length > 0
+      ? transforms.reduce((sum, t) => sum + t.probability, 0) / transforms.length
+      : 1;
+    onChange([...transforms, { a: 0.5, b: 0, c: 0, d: 0.5, e: 0, f: 0, probability }]);
+  };
+
+  return (
+    <fieldset disabled={disabled} className="mt-6 border border-gray-600 rounded-lg p-4 space-y-3 disabled:opacity-50">
+      <legend className="text-sm font-medium text-gray-300 px-2">Iterated Function System</legend>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="text-xs text-gray-400">
+          Preset{' '}
+          <select
+            value=""
+            onChange={(e) => onChange(IFS_PRESETS[Number(e.target.value)].transforms)}
+            className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm"
+          >
+            <option value="" disabled>Load a preset…</option>
+            {IFS_PRESETS.map((preset, index) => (
+              <option key={preset.name} value={index}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={showHandles}
+            onChange={(e) => onShowHandlesChange(e.target.checked)}
+            className="rounded bg-gray-700 border-gray-600 text-accent focus:ring-accent"
+          />
+          <span>Edit on canvas (drag the corners)</span>
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Each row maps (x, y) to (a x + b y + e, c x + d y + f); p is its relative chance of being picked.
+      </p>
+      <table className="w-full text-xs text-gray-400">
+        <thead>
+          <tr>
+            <th className="text-left font-medium">#</th>
+            {COEFFICIENTS.map((key) => (
+              <th key={key} className="font-medium">{key === 'probability' ? 'p' : key}</th>
+            ))}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {transforms.map((transform, index) => (
+            <tr key={index}>
+              <td>{index + 1}</td>
+              {COEFFICIENTS.map((key) => (
+                <td key={key} className="px-0.5">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={key === 'probability' ? 0 : undefined}
+                    value={transform[key]}
+                    aria-label={`Transform ${index + 1} ${key}`}
+                    onChange={(e) => updateTransform(index, key, parseFloat(e.target.value))}
+                    className={inputClassName}
+                  />
+                </td>
+              ))}
+              <td>
+                <button
+                  type="button"
+                  aria-label={`Remove transform ${index + 1}`}
+                  disabled={transforms.length <= 1}
+                  onClick={() => onChange(transforms.filter((_, i) => i !== index))}
+                  className={buttonClassName}
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button type="button" onClick={addTransform} disabled={transforms.length >= MAX_IFS_TRANSFORMS} className={buttonClassName}>
+        Add Transform
+      </button>
+    </fieldset>
+  );
+};
+
+export default IFSEditor;
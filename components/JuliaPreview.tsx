@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { FractalType, RenderParams } from '../types';
+import { colorizeField, computeEscapeTimeTile, finalizeFrameField } from '../services/fractalService';
+import { createPaletteLookup } from '../services/paletteService';
+import { precisePanFromNumbers } from '../services/deepZoom';
+
+// The preview is redrawn on every mouse move, so it is kept small and its iterations capped to stay interactive.
+const MAX_PREVIEW_ITERATIONS = 300;
+
+interface JuliaPreviewProps {
+  params: RenderParams;
+  juliaType: FractalType;
+  constants: { cReal: number; cImag: number };
+  width: number;
+  height: number;
+  className?: string;
+}
+
+const JuliaPreview: React.FC<JuliaPreviewProps> = ({ params, juliaType, constants, width, height, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    // Waits for the next frame, so a burst of mouse moves draws only the last point.
+    const animationFrameId = requestAnimationFrame(() => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const previewParams = {
+        ...params,
+        ...constants,
+        fractalType: juliaType,
+        width,
+        height,
+        zoom: 1,
+        panX: 0,
+        panY: 0,
+        precisePan: precisePanFromNumbers(0, 0),
+        deepZoom: false,
+        iterations: Math.min(params.iterations, MAX_PREVIEW_ITERATIONS),
+      };
+      const field = finalizeFrameField(computeEscapeTimeTile(previewParams, { x: 0, y: 0, width, height }), previewParams);
+      ctx.putImageData(new ImageData(colorizeField(field, createPaletteLookup(previewParams)), width, height), 0, 0);
+    });
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [params, juliaType, constants.cReal, constants.cImag, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      aria-label={`Julia set for c = ${constants.cReal.toFixed(4)} ${constants.cImag < 0 ? '-' : '+'} ${Math.abs(constants.cImag).toFixed(4)}i`}
+      className={`rounded-lg shadow-2xl ${className}`}
+    />
+  );
+};
+
+export default JuliaPreview;
@@ -0,0 +1,174 @@
+import React from 'react';
+import { LSystemRule, LSystemSettings } from '../types';
+import { LSYSTEM_PRESETS, MAX_LSYSTEM_ITERATIONS, MAX_LSYSTEM_MODULES } from '../services/lsystemService';
+
+interface LSystemEditorProps {
+  lSystem: LSystemSettings;
+  error: string | null;
+  disabled: boolean;
+  onChange: (lSystem: LSystemSettings) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm font-mono';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const LSystemEditor: React.FC<LSystemEditorProps> = ({ lSystem, error, disabled, onChange }) => {
+  const update = (changes: Partial<LSystemSettings>) => onChange({ ...lSystem, ...changes });
+
+  const updateRule = (index: number, changes: Partial<LSystemRule>) =>
+    update({ rules: lSystem.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) });
+
+  const updateNumber = (key: 'angle' | 'heading' | 'seed', value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed)) update({ [key]: key === 'seed' ? Math.round(parsed) : parsed });
+  };
+
+  return (
+    <fieldset disabled={disabled} className="mt-6 border border-gray-600 rounded-lg p-4 space-y-3 disabled:opacity-50">
+      <legend className="text-sm font-medium text-gray-300 px-2">L-System</legend>
+      <label className="text-xs text-gray-400">
+        Preset{' '}
+        <select
+          value=""
+          onChange={(e) => onChange(LSYSTEM_PRESETS[Number(e.target.value)].settings)}
+          className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm"
+        >
+          <option value="" disabled>Load a preset…</option>
+          {LSYSTEM_PRESETS.map((preset, index) => (
+            <option key={preset.name} value={index}>{preset.name}</option>
+          ))}
+        </select>
+      </label>
+      <div>
+        <label htmlFor="lSystemAxiom" className="block text-xs font-medium text-gray-400">Axiom</label>
+        <input
+          type="text"
+          id="lSystemAxiom"
+          value={lSystem.axiom}
+          spellCheck={false}
+          onChange={(e) => update({ axiom: e.target.value })}
+          className={`${inputClassName} mt-1`}
+        />
+      </div>
+      <table className="w-full text-xs text-gray-400">
+        <thead>
+          <tr>
+            <th className="text-left font-medium">Predecessor</th>
+            <th className="text-left font-medium">Condition</th>
+            <th className="text-left font-medium">Successor</th>
+            <th className="text-left font-medium">Weight</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {lSystem.rules.map((rule, index) => (
+            <tr key={index}>
+              <td className="px-0.5 w-24">
+                <input
+                  type="text"
+                  value={rule.predecessor}
+                  spellCheck={false}
+                  aria-label={`Rule ${index + 1} predecessor`}
+                  onChange={(e) => updateRule(index, { predecessor: e.target.value })}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="px-0.5 w-24">
+                <input
+                  type="text"
+                  value={rule.condition}
+                  spellCheck={false}
+                  placeholder="always"
+                  aria-label={`Rule ${index + 1} condition`}
+                  onChange={(e) => updateRule(index, { condition: e.target.value })}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="px-0.5">
+                <input
+                  type="text"
+                  value={rule.successor}
+                  spellCheck={false}
+                  aria-label={`Rule ${index + 1} successor`}
+                  onChange={(e) => updateRule(index, { successor: e.target.value })}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="px-0.5 w-16">
+                <input
+                  type="number"
+                  step="0.1"
+                  min={0}
+                  value={rule.weight}
+                  aria-label={`Rule ${index + 1} weight`}
+                  onChange={(e) => {
+                    const weight = parseFloat(e.target.value);
+                    if (Number.isFinite(weight)) updateRule(index, { weight });
+                  }}
+                  className={inputClassName}
+                />
+              </td>
+              <td>
+                <button
+                  type="button"
+                  aria-label={`Remove rule ${index + 1}`}
+                  onClick={() => update({ rules: lSystem.rules.filter((_, i) => i !== index) })}
+                  className={buttonClassName}
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        onClick={() => update({ rules: [...lSystem.rules, { predecessor: 'F', condition: '', successor: 'F', weight: 1 }] })}
+        className={buttonClassName}
+      >
+        Add Rule
+      </button>
+      <div>
+        <label htmlFor="lSystemIterations" className="block text-xs font-medium text-gray-400 mb-2">
+          Iterations: {lSystem.iterations}
+        </label>
+        <input
+          id="lSystemIterations"
+          type="range"
+          min="0"
+          max={MAX_LSYSTEM_ITERATIONS}
+          value={lSystem.iterations}
+          onChange={(e) => update({ iterations: parseInt(e.target.value, 10) })}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <label className="text-xs text-gray-400">
+          Angle (°)
+          <input type="number" step="0.5" value={lSystem.angle} onChange={(e) => updateNumber('angle', e.target.value)} className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="text-xs text-gray-400">
+          Heading (°)
+          <input type="number" step="5" value={lSystem.heading} onChange={(e) => updateNumber('heading', e.target.value)} className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="text-xs text-gray-400">
+          Random seed
+          <input type="number" step="1" value={lSystem.seed} onChange={(e) => updateNumber('seed', e.target.value)} className={`${inputClassName} mt-1`} />
+        </label>
+      </div>
+      {error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          F and G draw a step and f moves without drawing; + and − turn by the angle, | turns around, [ and ] start and
+          end a branch, and ! narrows the line. Parameters override these, as in F(0.5), +(30) or !(4). Predecessors such
+          as A(l, w) name parameters for the condition and successor, and rules for the same symbol are picked at random
+          by weight. Rewriting stops once the string passes {MAX_LSYSTEM_MODULES.toLocaleString()} symbols.
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+export default LSystemEditor;
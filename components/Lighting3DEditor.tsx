@@ -0,0 +1,144 @@
+import React from 'react';
+import { Light3D, Lighting3DSettings } from '../types';
+import { createLight, MAX_LIGHTS } from '../services/lightingService';
+import { hexToRgb, rgbToHex } from '../services/paletteService';
+
+interface Lighting3DEditorProps {
+  lighting: Lighting3DSettings;
+  disabled: boolean;
+  onChange: (lighting: Lighting3DSettings) => void;
+}
+
+type LightingValue = Exclude<keyof Lighting3DSettings, 'lights' | 'glowColor' | 'backgroundTop' | 'backgroundBottom'>;
+type LightingColor = 'glowColor' | 'backgroundTop' | 'backgroundBottom';
+
+const sliderClassName = 'w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed';
+const colorClassName = 'h-7 w-10 bg-gray-700 border border-gray-600 rounded cursor-pointer disabled:cursor-not-allowed';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const SETTINGS: { key: LightingValue; label: string; min: number; max: number; step: number }[] = [
+  { key: 'ambient', label: 'Ambient', min: 0, max: 1, step: 0.01 },
+  { key: 'diffuse', label: 'Diffuse', min: 0, max: 2, step: 0.01 },
+  { key: 'specular', label: 'Specular', min: 0, max: 2, step: 0.01 },
+  { key: 'shininess', label: 'Shininess', min: 1, max: 128, step: 1 },
+  // 0 skips the shadow rays altogether.
+  { key: 'shadowSharpness', label: 'Shadow sharpness', min: 0, max: 64, step: 1 },
+  { key: 'ambientOcclusion', label: 'Ambient occlusion', min: 0, max: 1, step: 0.01 },
+  { key: 'fog', label: 'Fog', min: 0, max: 0.2, step: 0.001 },
+  { key: 'glow', label: 'Glow', min: 0, max: 2, step: 0.01 },
+];
+
+const COLORS: { key: LightingColor; label: string }[] = [
+  { key: 'glowColor', label: 'Glow' },
+  { key: 'backgroundTop', label: 'Sky' },
+  { key: 'backgroundBottom', label: 'Ground' },
+];
+
+const Lighting3DEditor: React.FC<Lighting3DEditorProps> = ({ lighting, disabled, onChange }) => {
+  const update = (changes: Partial<Lighting3DSettings>) => onChange({ ...lighting, ...changes });
+
+  const updateLight = (index: number, changes: Partial<Light3D>) =>
+    update({ lights: lighting.lights.map((light, i) => (i === index ? { ...light, ...changes } : light)) });
+
+  return (
+    <fieldset disabled={disabled} className="mt-6 border border-gray-600 rounded-lg p-4 space-y-4 disabled:opacity-50">
+      <legend className="text-sm font-medium text-gray-300 px-2">Lighting</legend>
+      {lighting.lights.map((light, index) => (
+        <div key={index} className="grid grid-cols-[auto_1fr_1fr_1fr_auto] gap-3 items-end">
+          <input
+            type="color"
+            value={rgbToHex(light.color)}
+            aria-label={`Light ${index + 1} colour`}
+            onChange={(e) => updateLight(index, { color: hexToRgb(e.target.value) })}
+            className={colorClassName}
+          />
+          <label className="text-xs text-gray-400">
+            Azimuth: {light.azimuth}°
+            <input
+              type="range"
+              min="-180"
+              max="180"
+              value={light.azimuth}
+              onChange={(e) => updateLight(index, { azimuth: parseInt(e.target.value, 10) })}
+              className={sliderClassName}
+            />
+          </label>
+          <label className="text-xs text-gray-400">
+            Elevation: {light.elevation}°
+            <input
+              type="range"
+              min="-90"
+              max="90"
+              value={light.elevation}
+              onChange={(e) => updateLight(index, { elevation: parseInt(e.target.value, 10) })}
+              className={sliderClassName}
+            />
+          </label>
+          <label className="text-xs text-gray-400">
+            Intensity: {light.intensity}
+            <input
+              type="range"
+              min="0"
+              max="3"
+              step="0.05"
+              value={light.intensity}
+              onChange={(e) => updateLight(index, { intensity: parseFloat(e.target.value) })}
+              className={sliderClassName}
+            />
+          </label>
+          <button
+            type="button"
+            aria-label={`Remove light ${index + 1}`}
+            onClick={() => update({ lights: lighting.lights.filter((_, i) => i !== index) })}
+            className={buttonClassName}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        disabled={lighting.lights.length >= MAX_LIGHTS}
+        onClick={() => update({ lights: [...lighting.lights, createLight()] })}
+        className={buttonClassName}
+      >
+        Add Light
+      </button>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {SETTINGS.map(({ key, label, min, max, step }) => (
+          <label key={key} className="text-xs text-gray-400">
+            {label}: {lighting[key]}
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={lighting[key]}
+              onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+              className={sliderClassName}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-6">
+        {COLORS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="color"
+              value={rgbToHex(lighting[key])}
+              onChange={(e) => update({ [key]: hexToRgb(e.target.value) })}
+              className={colorClassName}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Lights are fixed to the camera: azimuth turns them to the right of the view and elevation lifts them above it.
+        Surfaces take their colour from the palette by orbit trap.
+      </p>
+    </fieldset>
+  );
+};
+
+export default Lighting3DEditor;
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MeshFormat, RenderParams } from '../types';
+import { ExportJob } from '../services/exportService';
+import { exportMesh } from '../services/meshExport';
+import { MAX_MESH_RESOLUTION, MIN_MESH_RESOLUTION } from '../services/meshService';
+import { DISTANCE_ESTIMATORS, is3DFractal } from '../services/distanceEstimators';
+import { downloadBlob, toFileName } from '../services/downloadService';
+
+interface MeshExportDialogProps {
+  params: RenderParams;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const clampResolution = (value: number) =>
+  Math.max(MIN_MESH_RESOLUTION, Math.min(MAX_MESH_RESOLUTION, Math.round(value) || MIN_MESH_RESOLUTION));
+
+const MeshExportDialog: React.FC<MeshExportDialogProps> = ({ params, onClose }) => {
+  const [format, setFormat] = useState(MeshFormat.STL);
+  const [resolution, setResolution] = useState(128);
+  const [bounds, setBounds] = useState(() =>
+    is3DFractal(params.fractalType) ? DISTANCE_ESTIMATORS[params.fractalType].boundingRadius : 1.5);
+  const [size, setSize] = useState(100);
+  const [detail, setDetail] = useState(1);
+  const [colors, setColors] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<ExportJob<Blob> | null>(null);
+
+  const isExporting = progress !== null;
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress(0);
+    const job = exportMesh(params, { format, resolution, bounds, size, detail, colors }, setProgress);
+    jobRef.current = job;
+    try {
+      const blob = await job.done;
+      if (blob) {
+        downloadBlob(blob, `${toFileName(`fractal-${params.fractalType}-${resolution}`)}.${format.toLowerCase()}`);
+      }
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    } finally {
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    if (jobRef.current) {
+      jobRef.current.cancel();
+      return;
+    }
+    onClose();
+  };
+
+  const samples = Math.pow(resolution + 1, 3);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-lg bg-gray-800 p-6 rounded-lg shadow-xl space-y-4">
+        <h2 className="text-xl font-bold text-white">Export Mesh</h2>
+
+        <fieldset disabled={isExporting} className="space-y-4 disabled:opacity-50">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-xs text-gray-400">
+              Format
+              <select value={format} onChange={(e) => setFormat(e.target.value as MeshFormat)} className={`${inputClassName} mt-1`}>
+                {Object.values(MeshFormat).map((option) => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400">
+              Grid resolution
+              <input type="number" min={MIN_MESH_RESOLUTION} max={MAX_MESH_RESOLUTION} step="16" value={resolution}
+                onChange={(e) => setResolution(clampResolution(parseFloat(e.target.value)))} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block text-xs text-gray-400">
+              Bounding box half-size
+              <input type="number" min="0.1" step="0.1" value={bounds}
+                onChange={(e) => setBounds(Math.max(0.1, parseFloat(e.target.value) || 0.1))} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block text-xs text-gray-400">
+              Box size (mm)
+              <input type="number" min="1" step="1" value={size}
+                onChange={(e) => setSize(Math.max(1, parseFloat(e.target.value) || 1))} className={`${inputClassName} mt-1`} />
+            </label>
+          </div>
+
+          <label className="block text-xs text-gray-400">
+            Keep {Math.round(detail * 100)}% of the triangles
+            <input type="range" min="0.05" max="1" step="0.05" value={detail} onChange={(e) => setDetail(parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={colors && format !== MeshFormat.STL} disabled={format === MeshFormat.STL}
+              onChange={(e) => setColors(e.target.checked)} />
+            Vertex colours from the palette {format === MeshFormat.STL && '(not available in STL)'}
+          </label>
+
+          <p className="text-xs text-gray-500">
+            Samples the distance estimate at {(samples / 1e6).toFixed(1)} million points. The mesh is closed where the box
+            cuts the fractal, so it can be printed as it is.
+          </p>
+        </fieldset>
+
+        {isExporting && (
+          <div className="h-1 w-full bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-accent transition-[width] duration-150 ease-out" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={handleCancel} className={buttonClassName}>
+            {isExporting ? 'Cancel Export' : 'Close'}
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-accent hover:opacity-90 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:bg-gray-500 disabled:cursor-not-allowed"
+          >
+            {isExporting ? `Exporting... ${Math.round(progress * 100)}%` : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MeshExportDialog;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { PrecisePan } from '../types';
+import { OrbitOverlays, OrbitTrace } from '../services/orbitService';
+
+interface OrbitInspectorProps {
+  enabled: boolean;
+  overlays: OrbitOverlays;
+  // Whether the cardioid and bulb outlines apply, which they do only to the Mandelbrot set itself.
+  canShowBulbs: boolean;
+  point: PrecisePan | null;
+  trace: OrbitTrace | null;
+  maxIterations: number;
+  onEnabledChange: (enabled: boolean) => void;
+  onOverlaysChange: (overlays: OrbitOverlays) => void;
+}
+
+const formatComplex = (x: number, y: number, digits: number) =>
+  `${x.toPrecision(digits)} ${y < 0 ? '−' : '+'} ${Math.abs(y).toPrecision(digits)}i`;
+
+const OVERLAY_LABELS: [keyof OrbitOverlays, string][] = [
+  ['axes', 'Axes'],
+  ['grid', 'Grid'],
+  ['bulbs', 'Cardioid and period-2 bulb'],
+];
+
+const OrbitInspector: React.FC<OrbitInspectorProps> = ({
+  enabled,
+  overlays,
+  canShowBulbs,
+  point,
+  trace,
+  maxIterations,
+  onEnabledChange,
+  onOverlaysChange,
+}) => {
+  const multiplierModulus = trace?.multiplier ? Math.hypot(trace.multiplier.x, trace.multiplier.y) : null;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-gray-800 p-4 rounded-lg shadow-xl space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+          Inspect orbits
+        </label>
+        {OVERLAY_LABELS.filter(([key]) => key !== 'bulbs' || canShowBulbs).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={overlays[key]}
+              onChange={(e) => onOverlaysChange({ ...overlays, [key]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+      {enabled && !point && (
+        <p className="text-xs text-gray-500">Click a point of the view to trace its orbit.</p>
+      )}
+      {enabled && point && trace && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+          <dt className="text-gray-400">Point</dt>
+          <dd className="text-gray-200 font-mono break-all select-all">
+            {point.x} {point.y.startsWith('-') ? '−' : '+'} {point.y.replace(/^-/, '')}i
+          </dd>
+          <dt className="text-gray-400">Escape</dt>
+          <dd className="text-gray-200">
+            {trace.escapeIteration !== null
+              ? `after ${trace.escapeIteration} iterations`
+              : `bounded for all ${maxIterations} iterations`}
+          </dd>
+          {trace.distance !== null && (
+            <>
+              <dt className="text-gray-400">Distance to the set</dt>
+              <dd className="text-gray-200">≈ {trace.distance.toExponential(3)}</dd>
+            </>
+          )}
+          {trace.escapeIteration === null && (
+            <>
+              <dt className="text-gray-400">Period</dt>
+              <dd className="text-gray-200">{trace.period ?? 'not found (the orbit has not settled into a cycle)'}</dd>
+            </>
+          )}
+          {trace.multiplier && multiplierModulus !== null && (
+            <>
+              <dt className="text-gray-400">Multiplier</dt>
+              <dd className="text-gray-200">
+                {formatComplex(trace.multiplier.x, trace.multiplier.y, 4)} (|λ| = {multiplierModulus.toPrecision(4)},{' '}
+                {multiplierModulus < 1 ? 'attracting' : 'not attracting'})
+              </dd>
+            </>
+          )}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default OrbitInspector;
@@ -0,0 +1,32 @@
+import React, { useEffect, useRef } from 'react';
+import { RenderParams } from '../types';
+import { drawOrbitOverlay, OrbitOverlays, OrbitTrace } from '../services/orbitService';
+
+interface OrbitOverlayProps {
+  params: RenderParams;
+  trace: OrbitTrace | null;
+  overlays: OrbitOverlays;
+  markers?: { x: number; y: number }[];
+}
+
+// Drawn on a canvas of its own over the fractal, so that the orbit and guides change without a re-render.
+const OrbitOverlay: React.FC<OrbitOverlayProps> = ({ params, trace, overlays, markers }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawOrbitOverlay(ctx, params, trace, overlays, markers);
+  }, [params, trace, overlays, markers]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={params.width}
+      height={params.height}
+      aria-hidden="true"
+      className="absolute inset-0 pointer-events-none"
+    />
+  );
+};
+
+export default OrbitOverlay;
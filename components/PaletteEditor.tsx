@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { GradientInterpolation, GradientStop, PaletteGradient } from '../types';
+import {
+  exportGpl,
+  exportMap,
+  exportPaletteJson,
+  hexToRgb,
+  hslToRgb,
+  importPaletteFile,
+  paletteToCssGradient,
+  rgbToHex,
+  rgbToHsl,
+  samplePalette,
+} from '../services/paletteService';
+import { downloadText, toFileName } from '../services/downloadService';
+
+export interface PaletteMapping {
+  paletteOffset: number;
+  paletteRepeat: number;
+  paletteDensity: number;
+  paletteCycleSpeed: number;
+}
+
+interface PaletteEditorProps {
+  gradient: PaletteGradient;
+  isCustom: boolean;
+  mapping: PaletteMapping;
+  disabled: boolean;
+  onGradientChange: (gradient: PaletteGradient) => void;
+  onMappingChange: (changes: Partial<PaletteMapping>) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm';
+const buttonClassName = 'bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed';
+
+const PaletteEditor: React.FC<PaletteEditorProps> = ({
+  gradient,
+  isCustom,
+  mapping,
+  disabled,
+  onGradientChange,
+  onMappingChange,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateStop = (index: number, changes: Partial<GradientStop>) => {
+    const stops = gradient.stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop));
+    onGradientChange({ ...gradient, stops });
+  };
+
+  const updateStopHsl = (index: number, channel: 0 | 1 | 2, value: number) => {
+    const hsl = rgbToHsl(gradient.stops[index].color);
+    hsl[channel] = value;
+    updateStop(index, { color: hslToRgb(hsl) });
+  };
+
+  const addStop = () => {
+    // Insert halfway into the widest gap so the gradient does not visibly change until the stop is edited.
+    const sorted = [...gradient.stops].sort((a, b) => a.position - b.position);
+    let gapStart = 0, gapWidth = 0;
+    for (let i = 1; i < sorted.length; i++) {
+      const width = sorted[i].position - sorted[i - 1].position;
+      if (width > gapWidth) {
+        gapWidth = width;
+        gapStart = sorted[i - 1].position;
+      }
+    }
+    const position = gapStart + gapWidth / 2;
+    onGradientChange({ ...gradient, stops: [...gradient.stops, { position, color: samplePalette(gradient, position) }] });
+  };
+
+  const removeStop = (index: number) => {
+    if (gradient.stops.length <= 2) return;
+    onGradientChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== index) });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onGradientChange(importPaletteFile(file.name, await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const fileName = toFileName(gradient.name);
+
+  return (
+    <details className="mt-6 border-t border-gray-700 pt-6">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">Palette Editor</summary>
+      <fieldset disabled={disabled} className="mt-4 space-y-4 disabled:opacity-50">
+        <div className="h-6 rounded-md border border-gray-600" style={{ background: paletteToCssGradient(gradient) }} />
+
+        {isCustom ? (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="text-xs text-gray-400">
+                Name
+                <input
+                  type="text"
+                  value={gradient.name}
+                  onChange={(e) => onGradientChange({ ...gradient, name: e.target.value })}
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Interpolation
+                <select
+                  value={gradient.interpolation}
+                  onChange={(e) => onGradientChange({ ...gradient, interpolation: e.target.value as GradientInterpolation })}
+                  className={`${inputClassName} mt-1`}
+                >
+                  <option value={GradientInterpolation.RGB}>RGB</option>
+                  <option value={GradientInterpolation.HSL}>HSL</option>
+                  <option value={GradientInterpolation.Step}>Step</option>
+                </select>
+              </label>
+            </div>
+            {gradient.stops.map((stop, index) => {
+              const [h, s, l] = rgbToHsl(stop.color);
+              return (
+                <div key={index} className="grid grid-cols-7 gap-2 items-center">
+                  <input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    aria-label="Stop position"
+                    value={stop.position}
+                    onChange={(e) => updateStop(index, { position: Math.max(0, Math.min(1, parseFloat(e.target.value) || 0)) })}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="color"
+                    aria-label="Stop color"
+                    value={rgbToHex(stop.color)}
+                    onChange={(e) => updateStop(index, { color: hexToRgb(e.target.value) })}
+                    className="w-full h-8 bg-gray-700 border border-gray-600 rounded-md"
+                  />
+                  <input type="number" min="0" max="360" aria-label="Hue" value={Math.round(h)}
+                    onChange={(e) => updateStopHsl(index, 0, parseFloat(e.target.value) || 0)} className={inputClassName} />
+                  <input type="number" min="0" max="100" aria-label="Saturation" value={Math.round(s)}
+                    onChange={(e) => updateStopHsl(index, 1, parseFloat(e.target.value) || 0)} className={inputClassName} />
+                  <input type="number" min="0" max="100" aria-label="Lightness" value={Math.round(l)}
+                    onChange={(e) => updateStopHsl(index, 2, parseFloat(e.target.value) || 0)} className={inputClassName} />
+                  <span className="text-xs text-gray-400">{rgbToHex(stop.color)}</span>
+                  <button type="button" onClick={() => removeStop(index)} disabled={gradient.stops.length <= 2} className={buttonClassName}>
+                    Remove
+                  </button>
+                </div>
+              );
+            })}
+            <p className="text-xs text-gray-500">Columns: position, color, hue, saturation, lightness.</p>
+            <button type="button" onClick={addStop} className={buttonClassName}>Add Stop</button>
+          </div>
+        ) : (
+          <button type="button" onClick={() => onGradientChange({ ...gradient, name: `${gradient.name} (custom)` })} className={buttonClassName}>
+            Customize {gradient.name}
+          </button>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="block text-xs text-gray-400">
+            Offset ({mapping.paletteOffset.toFixed(2)})
+            <input type="range" min="0" max="1" step="0.01" value={mapping.paletteOffset}
+              onChange={(e) => onMappingChange({ paletteOffset: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          </label>
+          <label className="block text-xs text-gray-400">
+            Repeat ({mapping.paletteRepeat})
+            <input type="range" min="1" max="20" step="1" value={mapping.paletteRepeat}
+              onChange={(e) => onMappingChange({ paletteRepeat: parseInt(e.target.value, 10) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          </label>
+          <label className="block text-xs text-gray-400">
+            Density ({mapping.paletteDensity.toFixed(1)})
+            <input type="range" min="0.2" max="5" step="0.1" value={mapping.paletteDensity}
+              onChange={(e) => onMappingChange({ paletteDensity: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          </label>
+          <label className="block text-xs text-gray-400">
+            Cycling ({mapping.paletteCycleSpeed.toFixed(2)} / s)
+            <input type="range" min="0" max="1" step="0.05" value={mapping.paletteCycleSpeed}
+              onChange={(e) => onMappingChange({ paletteCycleSpeed: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClassName}>Import…</button>
+          <input ref={fileInputRef} type="file" accept=".json,.gpl,.map" onChange={handleImport} className="hidden" />
+          <button type="button" onClick={() => downloadText(exportPaletteJson(gradient), `${fileName}.json`, 'application/json')} className={buttonClassName}>
+            Export JSON
+          </button>
+          <button type="button" onClick={() => downloadText(exportGpl(gradient), `${fileName}.gpl`)} className={buttonClassName}>
+            Export .gpl
+          </button>
+          <button type="button" onClick={() => downloadText(exportMap(gradient), `${fileName}.map`)} className={buttonClassName}>
+            Export .map
+          </button>
+        </div>
+        {importError && <p className="text-sm text-red-400">{importError}</p>}
+      </fieldset>
+    </details>
+  );
+};
+
+export default PaletteEditor;
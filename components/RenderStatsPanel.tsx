@@ -0,0 +1,49 @@
+import React from 'react';
+import { RenderStats } from '../services/fractalService';
+
+interface RenderStatsPanelProps {
+  // The statistics of the frame on screen, or null when it was not drawn by the CPU renderer.
+  stats: RenderStats | null;
+  elapsedMs: number;
+  iterations: number;
+  autoIterations: boolean;
+}
+
+const STAT_LABELS: [keyof RenderStats, string][] = [
+  ['escaped', 'Escaped'],
+  ['bulbs', 'Cardioid and bulb'],
+  ['periodic', 'Periodic'],
+  ['filled', 'Filled by subdivision'],
+  ['unresolved', 'Unresolved'],
+  ['reused', 'Reused'],
+];
+
+const formatShare = (count: number, total: number) => `${((100 * count) / total).toFixed(1)}%`;
+
+const RenderStatsPanel: React.FC<RenderStatsPanelProps> = ({ stats, elapsedMs, iterations, autoIterations }) => (
+  <div className="w-full max-w-4xl mx-auto bg-gray-800 p-4 rounded-lg shadow-xl space-y-2">
+    <div className="flex flex-wrap items-baseline justify-between gap-2">
+      <h2 className="text-sm font-bold text-white">Render statistics</h2>
+      <span className="text-xs text-gray-400">
+        {iterations} iterations{autoIterations ? ' (auto)' : ''}
+        {stats && `, ${stats.pixels.toLocaleString()} pixels in ${Math.round(elapsedMs)} ms`}
+      </span>
+    </div>
+    {stats && stats.pixels > 0 ? (
+      <dl className="grid grid-cols-2 md:grid-cols-6 gap-2 text-xs">
+        {STAT_LABELS.map(([key, label]) => (
+          <div key={key} className="bg-gray-700 rounded-md p-2">
+            <dt className="text-gray-400">{label}</dt>
+            <dd className="text-gray-200">
+              {stats[key].toLocaleString()} ({formatShare(stats[key], stats.pixels)})
+            </dd>
+          </div>
+        ))}
+      </dl>
+    ) : (
+      <p className="text-xs text-gray-500">Statistics are only gathered when the frame is drawn on the CPU.</p>
+    )}
+  </div>
+);
+
+export default RenderStatsPanel;
@@ -0,0 +1,319 @@
+import {
+  AffineCoefficients,
+  Camera3D,
+  FlameSettings,
+  FlameTransform,
+  Fractal3DSettings,
+  Fractal3DType,
+  Lighting3DSettings,
+  IFSTransform,
+  KeyframeInterpolation,
+  LSystemSettings,
+  RenderParams,
+  Vec3,
+} from '../types';
+import { createCameraAround, getTargetDistance, slerpQuaternion } from './cameraService';
+import { offsetPrecisePan, precisePanDifference } from './deepZoom';
+import { FRACTAL_3D_TYPES, resolveParameters } from './distanceEstimators';
+import { Cancellation, createExportResources, createJob, ExportJob, ExportResources, renderImageData, exportImage } from './exportService';
+import { createZip, ZipEntry } from './zipService';
+import { createWebm, EncodedFrame } from './webmMuxer';
+
+export interface AnimationFrame {
+  params: RenderParams;
+  camera: Camera3D;
+}
+
+export interface Keyframe extends AnimationFrame {
+  id: string;
+  // Seconds from this keyframe to the next, and how the view moves in between. Unused on the last keyframe.
+  duration: number;
+  interpolation: KeyframeInterpolation;
+}
+
+export enum AnimationFormat {
+  PngSequence = 'PngSequence',
+  WebM = 'WebM',
+}
+
+export interface AnimationExportOptions {
+  width: number;
+  height: number;
+  frameRate: number;
+  format: AnimationFormat;
+}
+
+// Codecs to try for WebM, best first.
+const WEBM_CODECS = ['vp09.00.10.08', 'vp8'];
+const KEY_FRAME_INTERVAL_SECONDS = 2;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+const geometricLerp = (a: number, b: number, t: number) => (a > 0 && b > 0 ? a * Math.pow(b / a, t) : lerp(a, b, t));
+
+const lerpAffine = (from: AffineCoefficients, to: AffineCoefficients, t: number): AffineCoefficients => ({
+  a: lerp(from.a, to.a, t),
+  b: lerp(from.b, to.b, t),
+  c: lerp(from.c, to.c, t),
+  d: lerp(from.d, to.d, t),
+  e: lerp(from.e, to.e, t),
+  f: lerp(from.f, to.f, t),
+});
+
+// IFS transforms morph coefficient by coefficient, which needs the same number on both sides; otherwise they switch at the end.
+const lerpTransforms = (a: IFSTransform[], b: IFSTransform[], t: number): IFSTransform[] =>
+  a.length !== b.length
+    ? (t < 1 ? a : b)
+    : a.map((from, i) => ({ ...lerpAffine(from, b[i], t), probability: lerp(from.probability, b[i].probability, t) }));
+
+// A variation missing on one side has weight 0 there, so it fades in or out.
+const lerpFlameTransform = (from: FlameTransform, to: FlameTransform, t: number): FlameTransform => {
+  const names = new Set([...Object.keys(from.variations), ...Object.keys(to.variations)]) as Set<keyof FlameTransform['variations']>;
+  return {
+    ...lerpAffine(from, to, t),
+    probability: lerp(from.probability, to.probability, t),
+    color: lerp(from.color, to.color, t),
+    colorSpeed: lerp(from.colorSpeed, to.colorSpeed, t),
+    variations: Object.fromEntries([...names].map((name) => [name, lerp(from.variations[name] ?? 0, to.variations[name] ?? 0, t)])),
+    post: from.post && to.post ? lerpAffine(from.post, to.post, t) : (t < 1 ? from.post : to.post),
+  };
+};
+
+const lerpFlame = (a: FlameSettings, b: FlameSettings, t: number): FlameSettings => ({
+  transforms: a.transforms.length !== b.transforms.length
+    ? (t < 1 ? a.transforms : b.transforms)
+    : a.transforms.map((from, i) => lerpFlameTransform(from, b.transforms[i], t)),
+  finalTransform: a.finalTransform && b.finalTransform
+    ? lerpFlameTransform(a.finalTransform, b.finalTransform, t)
+    : (t < 1 ? a.finalTransform : b.finalTransform),
+  gamma: lerp(a.gamma, b.gamma, t),
+  brightness: lerp(a.brightness, b.brightness, t),
+  vibrancy: lerp(a.vibrancy, b.vibrancy, t),
+  supersample: t < 1 ? a.supersample : b.supersample,
+  quality: lerp(a.quality, b.quality, t),
+});
+
+// Only the turtle's angles can morph; the rules and iteration count switch at the end.
+const lerpLSystem = (a: LSystemSettings, b: LSystemSettings, t: number): LSystemSettings => ({
+  ...(t < 1 ? a : b),
+  angle: lerp(a.angle, b.angle, t),
+  heading: lerp(a.heading, b.heading, t),
+});
+
+// Every distance estimator parameter morphs; the shader rounds the iteration count up.
+const lerpFractal3D = (a: Fractal3DSettings, b: Fractal3DSettings, t: number): Fractal3DSettings =>
+  Object.fromEntries(FRACTAL_3D_TYPES.map((type: Fractal3DType) => {
+    const from = resolveParameters(a, type);
+    const to = resolveParameters(b, type);
+    return [type, Object.fromEntries(Object.keys(from).map((name) => [name, lerp(from[name], to[name], t)]))];
+  })) as Fractal3DSettings;
+
+const lerpColor = (a: [number, number, number], b: [number, number, number], t: number) =>
+  a.map((channel, i) => Math.round(lerp(channel, b[i], t))) as [number, number, number];
+
+// Lights move and fade between keyframes with the same number of lights; otherwise they switch at the end.
+const lerpLighting = (a: Lighting3DSettings, b: Lighting3DSettings, t: number): Lighting3DSettings => ({
+  lights: a.lights.length === b.lights.length
+    ? a.lights.map((light, i) => ({
+      azimuth: lerp(light.azimuth, b.lights[i].azimuth, t),
+      elevation: lerp(light.elevation, b.lights[i].elevation, t),
+      color: lerpColor(light.color, b.lights[i].color, t),
+      intensity: lerp(light.intensity, b.lights[i].intensity, t),
+    }))
+    : (t < 1 ? a : b).lights,
+  ambient: lerp(a.ambient, b.ambient, t),
+  diffuse: lerp(a.diffuse, b.diffuse, t),
+  specular: lerp(a.specular, b.specular, t),
+  shininess: lerp(a.shininess, b.shininess, t),
+  shadowSharpness: lerp(a.shadowSharpness, b.shadowSharpness, t),
+  ambientOcclusion: lerp(a.ambientOcclusion, b.ambientOcclusion, t),
+  fog: lerp(a.fog, b.fog, t),
+  glow: lerp(a.glow, b.glow, t),
+  glowColor: lerpColor(a.glowColor, b.glowColor, t),
+  backgroundTop: lerpColor(a.backgroundTop, b.backgroundTop, t),
+  backgroundBottom: lerpColor(a.backgroundBottom, b.backgroundBottom, t),
+});
+
+export const getTimelineDuration = (keyframes: Keyframe[]) =>
+  keyframes.slice(0, -1).reduce((total, keyframe) => total + keyframe.duration, 0);
+
+export const getFrameCount = (keyframes: Keyframe[], frameRate: number) =>
+  Math.floor(getTimelineDuration(keyframes) * frameRate) + 1;
+
+// Interpolates between two keyframes; t runs from 0 to 1 over the segment.
+export const interpolateKeyframes = (from: Keyframe, to: Keyframe, t: number): AnimationFrame => {
+  const a = from.params;
+  const b = to.params;
+  const isExponential = from.interpolation === KeyframeInterpolation.Exponential;
+  const progress = from.interpolation === KeyframeInterpolation.EaseInOut ? smoothstep(t) : t;
+
+  // Exponential segments zoom at a constant rate, so deep dives look like constant-speed flight. The pan then
+  // follows 1/zoom, which keeps the destination's centre fixed on screen instead of sliding across it.
+  let zoom = lerp(a.zoom, b.zoom, progress);
+  let panWeight = progress;
+  if (isExponential && a.zoom !== b.zoom) {
+    zoom = geometricLerp(a.zoom, b.zoom, t);
+    panWeight = (1 / zoom - 1 / a.zoom) / (1 / b.zoom - 1 / a.zoom);
+  }
+
+  // Offset from whichever end is nearer, so the precision of a deep-zoom keyframe is kept as the view approaches it.
+  const panDelta = precisePanDifference(b.precisePan, a.precisePan);
+  const precisePan = panWeight < 0.5
+    ? offsetPrecisePan(a.precisePan, panDelta.x * panWeight, panDelta.y * panWeight)
+    : offsetPrecisePan(b.precisePan, -panDelta.x * (1 - panWeight), -panDelta.y * (1 - panWeight));
+
+  const params: RenderParams = {
+    ...(t < 1 ? a : b),
+    zoom,
+    panX: lerp(a.panX, b.panX, panWeight),
+    panY: lerp(a.panY, b.panY, panWeight),
+    precisePan,
+    iterations: Math.round(lerp(a.iterations, b.iterations, progress)),
+    cReal: lerp(a.cReal, b.cReal, progress),
+    cImag: lerp(a.cImag, b.cImag, progress),
+    exponent: lerp(a.exponent, b.exponent, progress),
+    relaxation: lerp(a.relaxation, b.relaxation, progress),
+    ifsTransforms: lerpTransforms(a.ifsTransforms, b.ifsTransforms, progress),
+    flame: lerpFlame(a.flame, b.flame, progress),
+    lSystem: lerpLSystem(a.lSystem, b.lSystem, progress),
+    fractal3D: lerpFractal3D(a.fractal3D, b.fractal3D, progress),
+    lighting3D: lerpLighting(a.lighting3D, b.lighting3D, progress),
+    render3D: {
+      ...(t < 1 ? a : b).render3D,
+      aperture: lerp(a.render3D.aperture, b.render3D.aperture, progress),
+      focus: lerp(a.render3D.focus, b.render3D.focus, progress),
+    },
+    paletteOffset: lerp(a.paletteOffset, b.paletteOffset, progress),
+  };
+
+  // The camera turns about a target gliding between the two, so a flight past the fractal keeps it in view.
+  const fromDistance = getTargetDistance(from.camera);
+  const toDistance = getTargetDistance(to.camera);
+  const camera = createCameraAround(
+    from.camera.target.map((value, i) => lerp(value, to.camera.target[i], progress)) as Vec3,
+    slerpQuaternion(from.camera.orientation, to.camera.orientation, progress),
+    isExponential ? geometricLerp(fromDistance, toDistance, t) : lerp(fromDistance, toDistance, progress),
+    lerp(from.camera.fov, to.camera.fov, progress),
+  );
+
+  return { params, camera };
+};
+
+// Returns the view at a time in seconds from the start of the timeline.
+export const sampleTimeline = (keyframes: Keyframe[], time: number): AnimationFrame => {
+  if (keyframes.length === 0) {
+    throw new Error('The timeline has no keyframes.');
+  }
+  let start = 0;
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const keyframe = keyframes[i];
+    if (time < start + keyframe.duration) {
+      const t = keyframe.duration > 0 ? Math.max(0, time - start) / keyframe.duration : 1;
+      return interpolateKeyframes(keyframe, keyframes[i + 1], t);
+    }
+    start += keyframe.duration;
+  }
+  const last = keyframes[keyframes.length - 1];
+  return { params: last.params, camera: last.camera };
+};
+
+export const isWebmExportSupported = () => typeof VideoEncoder !== 'undefined';
+
+const findWebmCodec = async (width: number, height: number, frameRate: number): Promise<VideoEncoderConfig> => {
+  for (const codec of WEBM_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, framerate: frameRate, bitrate: width * height * frameRate * 0.2 };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  throw new Error('This browser cannot encode WebM video.');
+};
+
+const renderAnimation = async (
+  keyframes: Keyframe[],
+  options: AnimationExportOptions,
+  onProgress: (progress: number) => void,
+  cancellation: Cancellation,
+  resources: ExportResources,
+): Promise<Blob | null> => {
+  const { width, height, frameRate } = options;
+  const frameCount = getFrameCount(keyframes, frameRate);
+  const frameDuration = 1e6 / frameRate; // microseconds
+  const imageOptions = { width, height, supersampling: 1 };
+
+  const frameAt = (index: number) => sampleTimeline(keyframes, index / frameRate);
+  const frameProgress = (index: number) => (progress: number) => onProgress((index + progress) / frameCount);
+  // Each frame is its own render job; cancelling the animation cancels the frame in progress.
+  const track = <T>(job: ExportJob<T>) => {
+    cancellation.onCancel = job.cancel;
+    return job.done;
+  };
+
+  if (options.format === AnimationFormat.PngSequence) {
+    const entries: ZipEntry[] = [];
+    const digits = String(frameCount - 1).length;
+    for (let i = 0; i < frameCount; i++) {
+      const { params, camera } = frameAt(i);
+      const png = await track(exportImage(params, camera, imageOptions, frameProgress(i), resources));
+      if (!png || cancellation.cancelled) return null;
+      entries.push({ name: `frame-${String(i).padStart(digits, '0')}.png`, data: new Uint8Array(await png.arrayBuffer()) });
+    }
+    return createZip(entries);
+  }
+
+  const config = await findWebmCodec(width, height, frameRate);
+  const encodedFrames: EncodedFrame[] = [];
+  let encoderError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      encodedFrames.push({ data, timestamp: chunk.timestamp, isKeyFrame: chunk.type === 'key' });
+    },
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+  encoder.configure(config);
+  const keyFrameInterval = Math.max(1, Math.round(frameRate * KEY_FRAME_INTERVAL_SECONDS));
+
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      const { params, camera } = frameAt(i);
+      const image = await track(renderImageData(params, camera, imageOptions, frameProgress(i), resources));
+      if (!image || cancellation.cancelled) return null;
+      if (encoderError) throw encoderError;
+      const frame = new VideoFrame(image.data, {
+        format: 'RGBA',
+        codedWidth: width,
+        codedHeight: height,
+        timestamp: Math.round(i * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(frame, { keyFrame: i % keyFrameInterval === 0 });
+      frame.close();
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (encoderError) throw encoderError;
+
+  return createWebm(encodedFrames, { codec: config.codec, width, height, duration: frameCount / frameRate });
+};
+
+// Renders every frame of the timeline at a fixed frame rate. Frames are timestamped by their index rather than by
+// when they finish rendering, so the result is the same however long each frame takes.
+export const exportAnimation = (
+  keyframes: Keyframe[],
+  options: AnimationExportOptions,
+  onProgress: (progress: number) => void,
+): ExportJob<Blob> => createJob(async (cancellation) => {
+  // Every frame renders with the same workers and WebGL context.
+  const resources = createExportResources();
+  try {
+    return await renderAnimation(keyframes, options, onProgress, cancellation, resources);
+  } finally {
+    resources.dispose();
+  }
+});
+
@@ -0,0 +1,170 @@
+import { Camera3D, RenderParams } from '../types';
+import { DEFAULT_CAMERA, readStoredView, SavedView } from './settingsService';
+import { readCamera } from './cameraService';
+import { exportImage } from './exportService';
+
+const DATABASE_NAME = 'fractal-explorer';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'bookmarks';
+const LIBRARY_FORMAT = 'fractal-explorer-bookmarks';
+// The single save slot the library replaced; its contents become the first bookmark.
+const LEGACY_SETTINGS_KEY = 'fractalExplorerSettings';
+const THUMBNAIL_WIDTH = 160;
+
+// Version of the bookmark record layout. Records and library files from older versions are
+// upgraded on read by the migrations below, so saves keep loading as the layout evolves.
+export const BOOKMARK_SCHEMA_VERSION = 2;
+
+export interface Bookmark {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  tags: string[];
+  notes: string;
+  createdAt: number;
+  // PNG data URL, or '' when none could be rendered.
+  thumbnail: string;
+  view: SavedView;
+}
+
+export const createBookmarkId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Version 0 is the contents of the old save slot.
+type StoredRecord = Record<string, unknown> & { schemaVersion?: number };
+
+// migrations[n] upgrades a record from version n to n + 1.
+const migrations: ((record: StoredRecord) => StoredRecord)[] = [
+  (slot) => ({
+    schemaVersion: 1,
+    id: createBookmarkId(),
+    name: 'Saved settings',
+    tags: [],
+    notes: '',
+    createdAt: Date.now(),
+    thumbnail: '',
+    view: readStoredView(slot),
+  }),
+  // Version 2 stores the camera's position and orientation rather than its orbit angles.
+  (bookmark) => {
+    const view = bookmark.view as SavedView;
+    return { ...bookmark, schemaVersion: 2, view: { ...view, camera: readCamera(view.camera, DEFAULT_CAMERA) } };
+  },
+];
+
+export const migrateBookmark = (record: StoredRecord): Bookmark => {
+  let current = record;
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  if (version > BOOKMARK_SCHEMA_VERSION) {
+    throw new Error('This bookmark was saved by a newer version of Fractal Explorer.');
+  }
+  while (version < BOOKMARK_SCHEMA_VERSION) {
+    current = migrations[version](current);
+    version++;
+  }
+  return current as unknown as Bookmark;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = (e) => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        if (e.oldVersion === 0) {
+          const legacy = localStorage.getItem(LEGACY_SETTINGS_KEY);
+          if (legacy) {
+            try {
+              store.put(migrateBookmark(JSON.parse(legacy)));
+            } catch (error) {
+              console.error('Could not migrate the saved settings into the bookmark library:', error);
+            }
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  return requestToPromise(action(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+// Newest first.
+export const listBookmarks = async (): Promise<Bookmark[]> => {
+  const records = await withStore('readonly', (store) => store.getAll());
+  return (records as StoredRecord[]).map(migrateBookmark).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const putBookmark = async (bookmark: Bookmark): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(bookmark));
+};
+
+export const deleteBookmark = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
+
+export const searchBookmarks = (bookmarks: Bookmark[], query: string): Bookmark[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return bookmarks.filter((bookmark) => {
+    const haystack = [bookmark.name, bookmark.notes, ...bookmark.tags, bookmark.view.settings.fractalType].join(' ').toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map((tag) => tag.trim()).filter(Boolean)));
+
+export const exportLibraryJson = (bookmarks: Bookmark[]): string =>
+  JSON.stringify({ format: LIBRARY_FORMAT, version: BOOKMARK_SCHEMA_VERSION, bookmarks }, null, 2);
+
+// Bookmarks keep their ids, so importing a library twice updates the entries instead of duplicating them.
+export const importLibraryJson = async (text: string): Promise<number> => {
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== LIBRARY_FORMAT || !Array.isArray(parsed.bookmarks)) {
+    throw new Error('The file is not a Fractal Explorer bookmark library.');
+  }
+  const bookmarks = (parsed.bookmarks as StoredRecord[]).map((record) =>
+    migrateBookmark({ schemaVersion: parsed.version, ...record }));
+  const database = await openDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  bookmarks.forEach((bookmark) => store.put(bookmark));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  return bookmarks.length;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Renders a small PNG of the view with the same renderers as full-size exports.
+export const createThumbnail = async (params: RenderParams, camera: Camera3D): Promise<string> => {
+  const height = Math.max(1, Math.round((THUMBNAIL_WIDTH * params.height) / params.width));
+  const blob = await exportImage(params, camera, { width: THUMBNAIL_WIDTH, height, supersampling: 2 }, () => {}).done;
+  return blob ? blobToDataUrl(blob) : '';
+};
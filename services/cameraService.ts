@@ -0,0 +1,176 @@
+import { Camera3D, Quaternion, Vec3 } from '../types';
+
+export const MIN_FOV = 10;
+export const MAX_FOV = 150;
+// The field of view of the fixed lens the 3D view used to have, so older saves keep their framing.
+export const DEFAULT_FOV = (2 * Math.atan(1 / 1.5) * 180) / Math.PI;
+
+// The camera before it could move freely: two angles about a target on the z = 0 plane.
+export interface LegacyCamera {
+  rotation: { x: number; y: number };
+  distance: number;
+  target: { x: number; y: number };
+}
+
+const IDENTITY: Quaternion = [0, 0, 0, 1];
+const WORLD_UP: Vec3 = [0, 1, 0];
+
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const subtract = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const scale = (v: Vec3, s: number): Vec3 => [v[0] * s, v[1] * s, v[2] * s];
+const length = (v: Vec3) => Math.hypot(v[0], v[1], v[2]);
+const normalize = (v: Vec3): Vec3 => scale(v, 1 / (length(v) || 1));
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+const normalizeQuaternion = (q: Quaternion): Quaternion => {
+  const norm = Math.hypot(...q) || 1;
+  return [q[0] / norm, q[1] / norm, q[2] / norm, q[3] / norm];
+};
+
+const multiply = ([ax, ay, az, aw]: Quaternion, [bx, by, bz, bw]: Quaternion): Quaternion => [
+  aw * bx + ax * bw + ay * bz - az * by,
+  aw * by - ax * bz + ay * bw + az * bx,
+  aw * bz + ax * by - ay * bx + az * bw,
+  aw * bw - ax * bx - ay * by - az * bz,
+];
+
+const axisAngle = (axis: Vec3, angle: number): Quaternion => {
+  const s = Math.sin(angle / 2);
+  return [axis[0] * s, axis[1] * s, axis[2] * s, Math.cos(angle / 2)];
+};
+
+export const rotateVector = (q: Quaternion, v: Vec3): Vec3 => {
+  const u: Vec3 = [q[0], q[1], q[2]];
+  const t = scale(cross(u, v), 2);
+  return add(add(v, scale(t, q[3])), cross(u, t));
+};
+
+// The rotation whose columns are the given orthonormal axes.
+const fromBasis = (right: Vec3, up: Vec3, back: Vec3): Quaternion => {
+  const [m00, m10, m20] = right;
+  const [m01, m11, m21] = up;
+  const [m02, m12, m22] = back;
+  const trace = m00 + m11 + m22;
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    return normalizeQuaternion([(m21 - m12) * s, (m02 - m20) * s, (m10 - m01) * s, 0.25 / s]);
+  }
+  if (m00 > m11 && m00 > m22) {
+    const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+    return normalizeQuaternion([0.25 * s, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s]);
+  }
+  if (m11 > m22) {
+    const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+    return normalizeQuaternion([(m01 + m10) / s, 0.25 * s, (m12 + m21) / s, (m02 - m20) / s]);
+  }
+  const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+  return normalizeQuaternion([(m02 + m20) / s, (m12 + m21) / s, 0.25 * s, (m10 - m01) / s]);
+};
+
+export const slerpQuaternion = (a: Quaternion, b: Quaternion, t: number): Quaternion => {
+  let dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+  // q and -q are the same rotation; taking the nearer one turns the short way round.
+  const to = dot < 0 ? (b.map((c) => -c) as Quaternion) : b;
+  dot = Math.abs(dot);
+  if (dot > 0.9995) {
+    return normalizeQuaternion(a.map((c, i) => c + (to[i] - c) * t) as Quaternion);
+  }
+  const theta = Math.acos(dot);
+  const wa = Math.sin((1 - t) * theta) / Math.sin(theta);
+  const wb = Math.sin(t * theta) / Math.sin(theta);
+  return a.map((c, i) => c * wa + to[i] * wb) as Quaternion;
+};
+
+export const getCameraAxes = ({ orientation }: Camera3D) => ({
+  right: rotateVector(orientation, [1, 0, 0]),
+  up: rotateVector(orientation, [0, 1, 0]),
+  forward: rotateVector(orientation, [0, 0, -1]),
+});
+
+// Columns right, up and forward: the shader's camera frame has z along the view direction.
+export const getCameraMatrix = (camera: Camera3D): Float32Array => {
+  const { right, up, forward } = getCameraAxes(camera);
+  return new Float32Array([...right, ...up, ...forward]);
+};
+
+export const getFocalLength = (fov: number) => 1 / Math.tan((fov * Math.PI) / 360);
+
+export const getTargetDistance = (camera: Camera3D) => length(subtract(camera.target, camera.position));
+
+// Looks at the target from the given distance, turned by the orientation from the view down -z.
+export const createCameraAround = (target: Vec3, orientation: Quaternion, distance: number, fov = DEFAULT_FOV): Camera3D => ({
+  position: add(target, rotateVector(orientation, [0, 0, distance])),
+  orientation,
+  target,
+  fov,
+});
+
+export const createOrbitCamera = (target: Vec3, distance: number, fov = DEFAULT_FOV) =>
+  createCameraAround(target, IDENTITY, distance, fov);
+
+// Points the camera at the target with the world's up direction at the top of the image.
+export const lookAt = (position: Vec3, target: Vec3, fov = DEFAULT_FOV): Camera3D => {
+  const back = normalize(subtract(position, target));
+  const side = cross(WORLD_UP, back);
+  const right = length(side) > 1e-9 ? normalize(side) : [1, 0, 0] as Vec3;
+  return { position, orientation: fromBasis(right, cross(back, right), back), target, fov };
+};
+
+// The old shader turned the offset from the target about y and then about x before looking back at the target.
+export const fromLegacyCamera = ({ rotation, distance, target }: LegacyCamera): Camera3D => {
+  const center: Vec3 = [target.x, target.y, 0];
+  const offset: Vec3 = [
+    -distance * Math.sin(rotation.x),
+    -distance * Math.cos(rotation.x) * Math.sin(rotation.y),
+    distance * Math.cos(rotation.x) * Math.cos(rotation.y),
+  ];
+  return lookAt(add(center, offset), center);
+};
+
+const isNumbers = (value: unknown, count: number): value is number[] =>
+  Array.isArray(value) && value.length === count && value.every(Number.isFinite);
+
+// Reads a saved camera in either layout, or returns the fallback if it is neither.
+export const readCamera = (value: unknown, fallback: Camera3D): Camera3D => {
+  const camera = value as Partial<Camera3D> & Partial<LegacyCamera>;
+  if (isNumbers(camera?.position, 3) && isNumbers(camera.orientation, 4) && isNumbers(camera.target, 3)) {
+    return {
+      position: camera.position as Vec3,
+      orientation: normalizeQuaternion(camera.orientation as Quaternion),
+      target: camera.target as Vec3,
+      fov: Number.isFinite(camera.fov) ? Math.max(MIN_FOV, Math.min(MAX_FOV, camera.fov as number)) : DEFAULT_FOV,
+    };
+  }
+  const { rotation, distance, target } = camera ?? {};
+  if (rotation && target && [rotation.x, rotation.y, distance, target.x, target.y].every(Number.isFinite)) {
+    return fromLegacyCamera({ rotation, distance: distance as number, target });
+  }
+  return fallback;
+};
+
+// Turns the camera about the target: yaw about the world's vertical keeps the horizon level, pitch is about the
+// camera's own horizontal axis.
+export const orbitCamera = (camera: Camera3D, yaw: number, pitch: number): Camera3D => {
+  const orientation = normalizeQuaternion(multiply(multiply(axisAngle(WORLD_UP, yaw), camera.orientation), axisAngle([1, 0, 0], pitch)));
+  return createCameraAround(camera.target, orientation, getTargetDistance(camera), camera.fov);
+};
+
+// Turns the camera where it stands, about its own axes, carrying the target round with the view.
+export const lookAround = (camera: Camera3D, yaw: number, pitch: number, roll = 0): Camera3D => {
+  const turn = multiply(multiply(axisAngle([0, 1, 0], yaw), axisAngle([1, 0, 0], pitch)), axisAngle([0, 0, 1], roll));
+  const orientation = normalizeQuaternion(multiply(camera.orientation, turn));
+  return {
+    ...camera,
+    orientation,
+    target: add(camera.position, rotateVector(orientation, [0, 0, -getTargetDistance(camera)])),
+  };
+};
+
+// Moves the camera and its target together, by an offset given along the camera's right, up and forward axes.
+export const moveCamera = (camera: Camera3D, [right, up, forward]: Vec3): Camera3D => {
+  const offset = rotateVector(camera.orientation, [right, up, -forward]);
+  return { ...camera, position: add(camera.position, offset), target: add(camera.target, offset) };
+};
+
+export const setTargetDistance = (camera: Camera3D, distance: number): Camera3D =>
+  createCameraAround(camera.target, camera.orientation, distance, camera.fov);
@@ -0,0 +1,266 @@
+import { ColoringAlgorithm, OrbitTrapShape } from '../types';
+
+// Escape radius of the plain iteration count and the orbit traps.
+const ESCAPE_RADIUS = 2;
+// Escape radius for algorithms that read |z| at escape; a large radius makes the smoothing continuous.
+const SMOOTH_BAILOUT = 256;
+// Distances (in pixels) from the set that map onto the top of the palette for distance-estimation shading.
+const DISTANCE_SHADING_RANGE = 256;
+const CIRCLE_TRAP_RADIUS = 1;
+
+export interface ColoringParams {
+  coloringAlgorithm: ColoringAlgorithm;
+  orbitTrapShape: OrbitTrapShape;
+  iterations: number;
+  // Power of z in the iteration; escaping orbits grow like |z|^degree.
+  degree: number;
+}
+
+// What the samplers keep of each pixel's orbit: enough for every coloring, so that switching between them only
+// recolours the frame. Orbits are followed out to SMOOTH_BAILOUT; escape is when they first passed ESCAPE_RADIUS.
+// The Newton, Nova and Magnet fractals keep their plain and smoothed palette positions in the first two slots instead.
+export const ORBIT_RECORD = {
+  escape: 0,
+  iteration: 1,
+  zx: 2,
+  zy: 3,
+  // Estimated distance to the set, in pixels.
+  distance: 4,
+  pointTrap: 5,
+  lineTrap: 6,
+  circleTrap: 7,
+  // The triangle inequality averages with and without the last term.
+  average: 8,
+  previousAverage: 9,
+};
+export const ORBIT_RECORD_SIZE = 10;
+
+// Follows one orbit at a time. The samplers call begin() once per pixel, observe() after every iteration, and
+// record() when the orbit escapes or runs out, which writes the pixel's record into samples at offset.
+export interface OrbitRecorder {
+  bailout: number;
+  begin: (cx: number, cy: number, zx: number, zy: number) => void;
+  observe: (zx: number, zy: number) => void;
+  record: (iteration: number, zx: number, zy: number, derivative: number, samples: Float32Array, offset: number) => void;
+}
+
+// Turns the records of an orbit into a palette position in [0, 1], or -1 for points painted as inside the set.
+export interface OrbitColoring {
+  // The escape radius the coloring reads orbits at.
+  bailout: number;
+  color: (samples: Float32Array, offset: number) => number;
+}
+
+// Continuous iteration count: removes the banding of the integer count by using how far past the bailout |z| got.
+const smoothIteration = (iteration: number, zx: number, zy: number, degree: number) => {
+  const logModulus = Math.log(zx * zx + zy * zy) / 2;
+  return Math.max(0, iteration + 1 - Math.log(logModulus) / Math.log(degree));
+};
+
+const TRAP_SLOTS: Record<OrbitTrapShape, number> = {
+  [OrbitTrapShape.Point]: ORBIT_RECORD.pointTrap,
+  [OrbitTrapShape.Line]: ORBIT_RECORD.lineTrap,
+  [OrbitTrapShape.Circle]: ORBIT_RECORD.circleTrap,
+};
+
+// The triangle inequality sums take more time than the rest of the record together, so only frames colored with
+// them keep them (see canRecolor). escapeRadius is where the escape is taken to happen; custom formulas, which bring
+// their own bailout, pass Infinity and have the escape at the iteration they stop at.
+export const createOrbitRecorder = (
+  algorithm: ColoringAlgorithm,
+  degree: number,
+  pixelSize: number,
+  escapeRadius = ESCAPE_RADIUS,
+): OrbitRecorder => {
+  const escapeSquared = escapeRadius * escapeRadius;
+  const averagesTriangles = algorithm === ColoringAlgorithm.TriangleInequality;
+  let count = 0;
+  let escape = -1;
+  // The traps are compared by squared modulus, taking a square root only where the circle trap could improve.
+  let pointTrapSquared = Infinity;
+  let lineTrap = Infinity;
+  let circleTrap = Infinity;
+  let circleInner = 0;
+  let circleOuter = Infinity;
+  let cModulus = 0;
+  let previousPower = 0;
+  let sum = 0;
+  let lastTerm = 0;
+  let terms = 0;
+
+  return {
+    bailout: SMOOTH_BAILOUT,
+    begin: (cx, cy, zx, zy) => {
+      const modulusSquared = zx * zx + zy * zy;
+      count = 0;
+      escape = modulusSquared > escapeSquared ? 0 : -1;
+      pointTrapSquared = Infinity;
+      lineTrap = Infinity;
+      circleTrap = Infinity;
+      circleInner = 0;
+      circleOuter = Infinity;
+      cModulus = Math.hypot(cx, cy);
+      previousPower = Math.pow(modulusSquared, degree / 2);
+      sum = 0;
+      lastTerm = 0;
+      terms = 0;
+    },
+    observe: (zx, zy) => {
+      count++;
+      const modulusSquared = zx * zx + zy * zy;
+      // Traps only see the orbit up to its escape, the first point past the radius included.
+      if (escape < 0) {
+        if (modulusSquared < pointTrapSquared) pointTrapSquared = modulusSquared;
+        if (Math.abs(zy) < lineTrap) lineTrap = Math.abs(zy);
+        if (modulusSquared > circleInner && modulusSquared < circleOuter) {
+          circleTrap = Math.abs(Math.sqrt(modulusSquared) - CIRCLE_TRAP_RADIUS);
+          const inner = Math.max(0, CIRCLE_TRAP_RADIUS - circleTrap);
+          circleInner = inner * inner;
+          circleOuter = (CIRCLE_TRAP_RADIUS + circleTrap) * (CIRCLE_TRAP_RADIUS + circleTrap);
+        }
+        if (modulusSquared > escapeSquared) escape = count;
+      }
+      if (!averagesTriangles) return;
+      // Where |z_n| sits between the triangle-inequality bounds | |z_{n-1}|^d - |c| | and |z_{n-1}|^d + |c|.
+      const lower = Math.abs(previousPower - cModulus);
+      const upper = previousPower + cModulus;
+      if (upper > lower) {
+        lastTerm = (Math.sqrt(modulusSquared) - lower) / (upper - lower);
+        sum += lastTerm;
+        terms++;
+      }
+      previousPower = degree === 2 ? modulusSquared : Math.pow(modulusSquared, degree / 2);
+    },
+    record: (iteration, zx, zy, derivative, samples, offset) => {
+      const modulus = Math.hypot(zx, zy);
+      samples[offset + ORBIT_RECORD.escape] = escape < 0 ? iteration : escape;
+      samples[offset + ORBIT_RECORD.iteration] = iteration;
+      samples[offset + ORBIT_RECORD.zx] = zx;
+      samples[offset + ORBIT_RECORD.zy] = zy;
+      samples[offset + ORBIT_RECORD.distance] = (0.5 * modulus * Math.log(modulus)) / derivative / pixelSize;
+      samples[offset + ORBIT_RECORD.pointTrap] = Math.sqrt(pointTrapSquared);
+      samples[offset + ORBIT_RECORD.lineTrap] = lineTrap;
+      samples[offset + ORBIT_RECORD.circleTrap] = circleTrap;
+      samples[offset + ORBIT_RECORD.average] = terms > 0 ? sum / terms : NaN;
+      samples[offset + ORBIT_RECORD.previousAverage] = terms > 1 ? (sum - lastTerm) / (terms - 1) : NaN;
+    },
+  };
+};
+
+// The record of a point settled as inside without following its orbit, which leaves nothing for the traps.
+export const recordInside = (samples: Float32Array, offset: number, iterations: number) => {
+  samples.fill(NaN, offset, offset + ORBIT_RECORD_SIZE);
+  samples[offset + ORBIT_RECORD.escape] = iterations;
+  samples[offset + ORBIT_RECORD.iteration] = iterations;
+};
+
+export const createOrbitColoring = (params: ColoringParams): OrbitColoring => {
+  const { coloringAlgorithm, orbitTrapShape, iterations: maxIterations, degree } = params;
+
+  switch (coloringAlgorithm) {
+    case ColoringAlgorithm.Smooth:
+      return {
+        bailout: SMOOTH_BAILOUT,
+        color: (samples, offset) => {
+          const iteration = samples[offset + ORBIT_RECORD.iteration];
+          if (iteration >= maxIterations) return -1;
+          return smoothIteration(iteration, samples[offset + ORBIT_RECORD.zx], samples[offset + ORBIT_RECORD.zy], degree) / maxIterations;
+        },
+      };
+
+    case ColoringAlgorithm.OrbitTrap: {
+      const slot = TRAP_SLOTS[orbitTrapShape] ?? ORBIT_RECORD.pointTrap;
+      return {
+        bailout: ESCAPE_RADIUS,
+        // Traps colour the interior too, which is where the characteristic stalks appear.
+        color: (samples, offset) => {
+          const distance = samples[offset + slot];
+          return Number.isNaN(distance) ? -1 : Math.min(1, Math.sqrt(distance));
+        },
+      };
+    }
+
+    case ColoringAlgorithm.DistanceEstimation:
+      return {
+        bailout: SMOOTH_BAILOUT,
+        color: (samples, offset) => {
+          if (samples[offset + ORBIT_RECORD.iteration] >= maxIterations) return -1;
+          const distance = samples[offset + ORBIT_RECORD.distance];
+          return Math.min(1, Math.log2(1 + distance) / Math.log2(1 + DISTANCE_SHADING_RANGE));
+        },
+      };
+
+    case ColoringAlgorithm.TriangleInequality:
+      return {
+        bailout: SMOOTH_BAILOUT,
+        color: (samples, offset) => {
+          const iteration = samples[offset + ORBIT_RECORD.iteration];
+          const average = samples[offset + ORBIT_RECORD.average];
+          const previousAverage = samples[offset + ORBIT_RECORD.previousAverage];
+          if (iteration >= maxIterations || Number.isNaN(previousAverage)) return -1;
+          // Blend the averages with and without the last term by the smooth-iteration fraction.
+          const zx = samples[offset + ORBIT_RECORD.zx];
+          const zy = samples[offset + ORBIT_RECORD.zy];
+          const fraction = smoothIteration(iteration, zx, zy, degree) - iteration;
+          return Math.min(1, Math.max(0, previousAverage + (average - previousAverage) * fraction));
+        },
+      };
+
+    case ColoringAlgorithm.Histogram:
+    case ColoringAlgorithm.IterationCount:
+    default:
+      // Histogram frames start out like the plain iteration count and are equalised once the frame is complete.
+      return {
+        bailout: ESCAPE_RADIUS,
+        color: (samples, offset) => {
+          const escape = samples[offset + ORBIT_RECORD.escape];
+          return escape >= maxIterations ? -1 : escape / maxIterations;
+        },
+      };
+  }
+};
+
+// Whether records made for a frame of one coloring hold everything another needs. Only frames colored by the
+// triangle inequality have its sums, and frames for colorings that leave the interior black skip the orbits of points
+// known to be inside, which leaves the traps nothing there.
+export const canRecolor = (from: ColoringAlgorithm, to: ColoringAlgorithm) =>
+  (to !== ColoringAlgorithm.TriangleInequality || from === ColoringAlgorithm.TriangleInequality)
+  && (!coloursInterior(to) || coloursInterior(from));
+
+// Whether the colouring depends on the whole frame and must be redone after the last tile arrives.
+export const needsFrameColoring = (algorithm: ColoringAlgorithm) => algorithm === ColoringAlgorithm.Histogram;
+
+// Whether points that never escape get colours of their own. The others all paint the interior -1, which lets the
+// renderer stop iterating as soon as it can tell a point is inside.
+export const coloursInterior = (algorithm: ColoringAlgorithm) => algorithm === ColoringAlgorithm.OrbitTrap;
+
+// Cumulative share of escaped pixels at or below each iteration count; equalizeHistogram maps values through it.
+export const buildHistogramCdf = (field: Float32Array, maxIterations: number): Float32Array => {
+  const counts = new Uint32Array(maxIterations + 1);
+  let total = 0;
+  for (let i = 0; i < field.length; i++) {
+    if (field[i] < 0) continue;
+    counts[Math.round(field[i] * maxIterations)]++;
+    total++;
+  }
+
+  const cumulative = new Float32Array(maxIterations + 1);
+  let running = 0;
+  for (let i = 0; i <= maxIterations; i++) {
+    running += counts[i];
+    cumulative[i] = total > 0 ? running / total : 0;
+  }
+  return cumulative;
+};
+
+export const applyHistogramCdf = (field: Float32Array, cdf: Float32Array, maxIterations: number): Float32Array => {
+  const equalized = new Float32Array(field.length);
+  for (let i = 0; i < field.length; i++) {
+    equalized[i] = field[i] < 0 ? -1 : cdf[Math.round(field[i] * maxIterations)];
+  }
+  return equalized;
+};
+
+// Replaces each iteration count with its rank in the frame, so every palette colour covers an equal share of pixels.
+export const equalizeHistogram = (field: Float32Array, maxIterations: number): Float32Array =>
+  applyHistogramCdf(field, buildHistogramCdf(field, maxIterations), maxIterations);
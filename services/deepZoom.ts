@@ -0,0 +1,220 @@
+import { FractalType, PrecisePan } from '../types';
+import type { OrbitRecorder } from './coloringService';
+
+// Decimal digits kept after the point when offsetting a precise pan; enough for MAX_DEEP_ZOOM.
+const PAN_DIGITS = 320;
+// Extra binary digits carried by the reference orbit beyond the pixel spacing.
+const GUARD_BITS = 80;
+// Pauldelbrot's criterion: |z|^2 collapsing far below |Z|^2 means the deltas have lost their precision.
+const GLITCH_TOLERANCE = 1e-6;
+
+// Perturbation deltas are plain doubles, so the pixel spacing must stay above the double underflow limit.
+export const MAX_DEEP_ZOOM = 1e290;
+
+export interface PerturbationParams {
+  width: number;
+  height: number;
+  fractalType: FractalType;
+  zoom: number;
+  iterations: number;
+  precisePan: PrecisePan;
+  panX: number;
+  panY: number;
+}
+
+export interface ReferenceOrbit {
+  key: string;
+  orbit: Float64Array;
+  length: number;
+}
+
+// The render pool computes the orbit once per job and hands it to its workers, which find it here.
+let cachedOrbit: ReferenceOrbit | null = null;
+
+export const primeReferenceOrbit = (orbit: ReferenceOrbit) => {
+  cachedOrbit = orbit;
+};
+
+export const supportsDeepZoom = (type: FractalType) =>
+  type === FractalType.Mandelbrot || type === FractalType.BurningShip;
+
+const parseDecimal = (value: string): { mantissa: bigint; exponent: number } => {
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal value: "${value}"`);
+  }
+  const [, sign, intPart, fracPart = '', exponent = '0'] = match;
+  const mantissa = BigInt(intPart + fracPart || '0');
+  return {
+    mantissa: sign === '-' ? -mantissa : mantissa,
+    exponent: parseInt(exponent, 10) - fracPart.length,
+  };
+};
+
+const toScaledDecimal = (value: string): bigint => {
+  const { mantissa, exponent } = parseDecimal(value);
+  const shift = PAN_DIGITS + exponent;
+  return shift >= 0 ? mantissa * 10n ** BigInt(shift) : mantissa / 10n ** BigInt(-shift);
+};
+
+const fromScaledDecimal = (value: bigint): string => {
+  const sign = value < 0n ? '-' : '';
+  const digits = (value < 0n ? -value : value).toString().padStart(PAN_DIGITS + 1, '0');
+  const intPart = digits.slice(0, digits.length - PAN_DIGITS);
+  const fracPart = digits.slice(digits.length - PAN_DIGITS).replace(/0+$/, '');
+  return fracPart ? `${sign}${intPart}.${fracPart}` : `${sign}${intPart}`;
+};
+
+const toBinaryFixed = (value: string, bits: number): bigint => {
+  const { mantissa, exponent } = parseDecimal(value);
+  return exponent >= 0
+    ? (mantissa * 10n ** BigInt(exponent)) << BigInt(bits)
+    : (mantissa << BigInt(bits)) / 10n ** BigInt(-exponent);
+};
+
+const binaryFixedToNumber = (value: bigint, bits: number): number => {
+  const shift = bits - 60;
+  return shift > 0 ? Number(value >> BigInt(shift)) / 2 ** 60 : Number(value) / 2 ** bits;
+};
+
+export const precisePanFromNumbers = (x: number, y: number): PrecisePan => ({ x: String(x), y: String(y) });
+
+export const offsetPrecisePan = (pan: PrecisePan, dx: number, dy: number): PrecisePan => ({
+  x: fromScaledDecimal(toScaledDecimal(pan.x) + toScaledDecimal(dx.toExponential(16))),
+  y: fromScaledDecimal(toScaledDecimal(pan.y) + toScaledDecimal(dy.toExponential(16))),
+});
+
+// Rounds a pan to the digits that matter at this zoom (plus a few guard digits), e.g. for sharing it in a URL.
+export const roundPrecisePan = (pan: PrecisePan, zoom: number): PrecisePan => {
+  const digits = Math.min(PAN_DIGITS, Math.max(0, Math.ceil(Math.log10(zoom))) + 8);
+  const divisor = 10n ** BigInt(PAN_DIGITS - digits);
+  const round = (value: string) => {
+    const scaled = toScaledDecimal(value);
+    const half = scaled < 0n ? -divisor / 2n : divisor / 2n;
+    return fromScaledDecimal(((scaled + half) / divisor) * divisor);
+  };
+  return { x: round(pan.x), y: round(pan.y) };
+};
+
+const negateDecimal = (value: string) => (value.startsWith('-') ? value.slice(1) : value === '0' ? value : `-${value}`);
+
+// The pan that centres the view on a point; pan and point are each other's negations.
+export const precisePanToPoint = (point: PrecisePan): PrecisePan => ({ x: negateDecimal(point.x), y: negateDecimal(point.y) });
+
+// The point (dx, dy) away from the view centre, which is -pan, to the digits that matter at this zoom.
+export const precisePointFromPan = (pan: PrecisePan, dx: number, dy: number, zoom: number): PrecisePan =>
+  precisePanToPoint(roundPrecisePan(offsetPrecisePan(pan, -dx, -dy), zoom));
+
+// Returns a - b as doubles. The difference of two nearby deep-zoom pans is small, so a double holds it exactly enough.
+export const precisePanDifference = (a: PrecisePan, b: PrecisePan): { x: number; y: number } => ({
+  x: Number(`${toScaledDecimal(a.x) - toScaledDecimal(b.x)}e-${PAN_DIGITS}`),
+  y: Number(`${toScaledDecimal(a.y) - toScaledDecimal(b.y)}e-${PAN_DIGITS}`),
+});
+
+// Iterates the view centre in arbitrary-precision fixed point and keeps the orbit as doubles.
+export const computeReferenceOrbit = (params: PerturbationParams): ReferenceOrbit => {
+  const { fractalType, zoom, iterations: maxIterations, precisePan } = params;
+  const key = `${fractalType}|${zoom}|${maxIterations}|${precisePan.x}|${precisePan.y}`;
+  if (cachedOrbit && cachedOrbit.key === key) {
+    return cachedOrbit;
+  }
+
+  const bits = Math.max(64, Math.ceil(Math.log2(zoom)) + GUARD_BITS);
+  const shift = BigInt(bits);
+  const escapeRadiusSquared = 4n << shift;
+  // The view centre is -pan, matching the pixel mapping in fractalService.
+  const cx = -toBinaryFixed(precisePan.x, bits);
+  const cy = -toBinaryFixed(precisePan.y, bits);
+
+  const orbit = new Float64Array(2 * (maxIterations + 1));
+  let length = 1;
+  let x = 0n, y = 0n;
+  for (let i = 0; i < maxIterations; i++) {
+    const x2 = (x * x) >> shift;
+    const y2 = (y * y) >> shift;
+    const xy = (x * y) >> shift;
+    const nextX = x2 - y2 + cx;
+    const nextY = fractalType === FractalType.BurningShip
+      ? 2n * (xy < 0n ? -xy : xy) + cy
+      : 2n * xy + cy;
+    x = nextX;
+    y = nextY;
+    orbit[2 * length] = binaryFixedToNumber(x, bits);
+    orbit[2 * length + 1] = binaryFixedToNumber(y, bits);
+    length++;
+    if (((x * x + y * y) >> shift) > escapeRadiusSquared) break;
+  }
+
+  cachedOrbit = { key, orbit, length };
+  return cachedOrbit;
+};
+
+// |c + d| - |c| without the cancellation error of computing it directly.
+const diffAbs = (c: number, d: number) => {
+  const cd = c + d;
+  if (c >= 0) {
+    return cd >= 0 ? d : -d - 2 * c;
+  }
+  return cd > 0 ? d + 2 * c : -d;
+};
+
+// Records the orbit of a pixel, iterating only its double-precision offset from the reference orbit, and returns
+// whether it stayed inside.
+export const createPerturbationSampler = (params: PerturbationParams, recorder: OrbitRecorder) => {
+  const { width, height, fractalType, zoom, iterations: maxIterations } = params;
+  const { orbit, length } = computeReferenceOrbit(params);
+  const isBurningShip = fractalType === FractalType.BurningShip;
+  const pixelSize = 4 / (width * zoom);
+  const bailoutSquared = recorder.bailout * recorder.bailout;
+
+  return (px: number, py: number, samples: Float32Array, offset: number): boolean => {
+    const dcx = (px - width / 2) * pixelSize;
+    const dcy = (py - height / 2) * pixelSize;
+    let dx = 0, dy = 0;
+    // Full z and dz/dc, which colorings read in double precision.
+    let zx = 0, zy = 0;
+    let derivativeX = 0, derivativeY = 0;
+    let n = 0;
+    let iteration = 0;
+    // The absolute c only feeds colorings, so a double approximation of it is enough.
+    recorder.begin(dcx - params.panX, dcy - params.panY, 0, 0);
+
+    while (iteration < maxIterations) {
+      const refX = orbit[2 * n];
+      const refY = orbit[2 * n + 1];
+      const nextDerivativeX = 2 * (zx * derivativeX - zy * derivativeY) + 1;
+      derivativeY = 2 * (zx * derivativeY + zy * derivativeX);
+      derivativeX = nextDerivativeX;
+      let nextDx, nextDy;
+      if (isBurningShip) {
+        nextDx = 2 * refX * dx + dx * dx - 2 * refY * dy - dy * dy + dcx;
+        nextDy = 2 * diffAbs(refX * refY, refX * dy + dx * refY + dx * dy) + dcy;
+      } else {
+        nextDx = 2 * (refX * dx - refY * dy) + dx * dx - dy * dy + dcx;
+        nextDy = 2 * (refX * dy + refY * dx) + 2 * dx * dy + dcy;
+      }
+      dx = nextDx;
+      dy = nextDy;
+      n++;
+      iteration++;
+
+      zx = orbit[2 * n] + dx;
+      zy = orbit[2 * n + 1] + dy;
+      recorder.observe(zx, zy);
+      const magnitude = zx * zx + zy * zy;
+      if (magnitude > bailoutSquared) break;
+
+      // Rebase onto the start of the reference orbit when the pixel's orbit passes closer to zero than the
+      // reference does (which also catches glitches), or when the reference orbit runs out.
+      const refMagnitude = orbit[2 * n] * orbit[2 * n] + orbit[2 * n + 1] * orbit[2 * n + 1];
+      if (magnitude < dx * dx + dy * dy || magnitude < GLITCH_TOLERANCE * refMagnitude || n === length - 1) {
+        dx = zx;
+        dy = zy;
+        n = 0;
+      }
+    }
+
+    recorder.record(iteration, zx, zy, Math.hypot(derivativeX, derivativeY), samples, offset);
+    return iteration >= maxIterations;
+  };
+};
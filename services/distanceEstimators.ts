@@ -0,0 +1,395 @@
+// Distance estimators for the raymarched 3D fractals. Each is a GLSL function
+//   vec2 estimateDistance(vec3 pos)
+// returning a lower bound on the distance from pos to the surface and an orbit trap, roughly between 0 and 1, that
+// picks the surface's palette colour. Its parameters are passed to the shader as float uniforms named u_<name>.
+// Each also has a JavaScript port of the same function, which the mesh export samples on a grid.
+import { Fractal3DSettings, Fractal3DType, FractalType } from '../types';
+
+export interface EstimatorParameter {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+export interface DistanceEstimator {
+  name: string;
+  parameters: EstimatorParameter[];
+  source: string;
+  // The GLSL estimate at (x, y, z) as [distance, trap], given the parameter values by name.
+  estimate: (x: number, y: number, z: number, parameters: Record<string, number>) => [number, number];
+  // Camera distance from the origin that frames the whole fractal.
+  cameraDistance: number;
+  // Half the side of a cube about the origin that holds the fractal at its default parameters.
+  boundingRadius: number;
+}
+
+// WebGL 1 loops need a constant bound, so the estimators loop this many times and break after u_iterations.
+export const MAX_ESTIMATOR_ITERATIONS = 30;
+
+const parameter = (name: string, label: string, min: number, max: number, step: number, defaultValue: number): EstimatorParameter =>
+  ({ name, label, min, max, step, defaultValue });
+
+const iterations = (defaultValue: number) => parameter('iterations', 'Iterations', 1, MAX_ESTIMATOR_ITERATIONS, 1, defaultValue);
+
+const mandelbulb: DistanceEstimator = {
+  name: '3D Mandelbulb',
+  parameters: [parameter('power', 'Power', 2, 16, 0.1, 8), iterations(10)],
+  cameraDistance: 3,
+  boundingRadius: 1.3,
+  source: `
+  vec2 estimateDistance(vec3 pos) {
+      vec3 z = pos;
+      float dr = 1.0;
+      float r = 0.0;
+      float trap = 1e10;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (float(i) >= u_iterations) break;
+          r = length(z);
+          if (r > 2.0) break;
+          trap = min(trap, r);
+
+          float theta = acos(z.z / r) * u_power;
+          float phi = atan(z.y, z.x) * u_power;
+          dr = pow(r, u_power - 1.0) * u_power * dr + 1.0;
+
+          z = pow(r, u_power) * vec3(sin(theta) * cos(phi), sin(theta) * sin(phi), cos(theta));
+          z += pos;
+      }
+      return vec2(0.5 * r * log(r) / dr, trap);
+  }
+`,
+  estimate: (x, y, z, { power, iterations }) => {
+    let zx = x;
+    let zy = y;
+    let zz = z;
+    let dr = 1;
+    let r = 0;
+    let trap = 1e10;
+    for (let i = 0; i < iterations; i++) {
+      r = Math.hypot(zx, zy, zz);
+      if (r > 2) break;
+      trap = Math.min(trap, r);
+      // At the origin the shader's acos(0 / 0) is undefined, and any angle will do.
+      const theta = Math.acos(r > 0 ? zz / r : 1) * power;
+      const phi = Math.atan2(zy, zx) * power;
+      dr = Math.pow(r, power - 1) * power * dr + 1;
+      const zr = Math.pow(r, power);
+      zx = zr * Math.sin(theta) * Math.cos(phi) + x;
+      zy = zr * Math.sin(theta) * Math.sin(phi) + y;
+      zz = zr * Math.cos(theta) + z;
+    }
+    // A point that never leaves the origin is inside, where log(0) would make the estimate NaN.
+    return [r > 0 ? (0.5 * r * Math.log(r)) / dr : -1, trap];
+  },
+};
+
+// Tglad's Mandelbox: a box fold, then a sphere fold that inverts the shell between the minimum and fixed radii.
+const mandelbox: DistanceEstimator = {
+  name: 'Mandelbox',
+  parameters: [
+    parameter('scale', 'Scale', -3, 3, 0.05, -1.5),
+    parameter('foldingLimit', 'Folding limit', 0.1, 2, 0.05, 1),
+    parameter('minRadius', 'Minimum radius', 0.05, 1, 0.05, 0.5),
+    parameter('fixedRadius', 'Fixed radius', 0.1, 2, 0.05, 1),
+    iterations(15),
+  ],
+  cameraDistance: 6,
+  boundingRadius: 2.2,
+  source: `
+  vec2 estimateDistance(vec3 pos) {
+      vec3 z = pos;
+      float dr = 1.0;
+      float trap = 1e10;
+      float minRadius2 = u_minRadius * u_minRadius;
+      float fixedRadius2 = u_fixedRadius * u_fixedRadius;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (float(i) >= u_iterations) break;
+          z = clamp(z, -u_foldingLimit, u_foldingLimit) * 2.0 - z;
+
+          float r2 = dot(z, z);
+          float fold = max(fixedRadius2 / max(r2, minRadius2), 1.0);
+          z *= fold;
+          dr *= fold;
+
+          z = z * u_scale + pos;
+          dr = dr * abs(u_scale) + 1.0;
+          trap = min(trap, r2);
+      }
+      return vec2(length(z) / abs(dr), sqrt(trap));
+  }
+`,
+  estimate: (x, y, z, { scale, foldingLimit, minRadius, fixedRadius, iterations }) => {
+    const fold = (c: number) => Math.max(-foldingLimit, Math.min(foldingLimit, c)) * 2 - c;
+    let zx = x;
+    let zy = y;
+    let zz = z;
+    let dr = 1;
+    let trap = 1e10;
+    for (let i = 0; i < iterations; i++) {
+      zx = fold(zx);
+      zy = fold(zy);
+      zz = fold(zz);
+      const r2 = zx * zx + zy * zy + zz * zz;
+      const sphereFold = Math.max((fixedRadius * fixedRadius) / Math.max(r2, minRadius * minRadius), 1);
+      zx = zx * sphereFold * scale + x;
+      zy = zy * sphereFold * scale + y;
+      zz = zz * sphereFold * scale + z;
+      dr = dr * sphereFold * Math.abs(scale) + 1;
+      trap = Math.min(trap, r2);
+    }
+    return [Math.hypot(zx, zy, zz) / Math.abs(dr), Math.sqrt(trap)];
+  },
+};
+
+// The exact distance to a cube with the crosses of each level cut out of it, after Inigo Quilez.
+const mengerSponge: DistanceEstimator = {
+  name: 'Menger Sponge',
+  parameters: [iterations(5)],
+  cameraDistance: 3.5,
+  boundingRadius: 1.05,
+  source: `
+  vec2 estimateDistance(vec3 pos) {
+      vec3 q = abs(pos) - 1.0;
+      float d = length(max(q, 0.0)) + min(max(q.x, max(q.y, q.z)), 0.0);
+      float s = 1.0;
+      float level = 0.0;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (float(i) >= u_iterations) break;
+          vec3 a = mod(pos * s, 2.0) - 1.0;
+          s *= 3.0;
+          vec3 r = abs(1.0 - 3.0 * abs(a));
+          float hole = (min(max(r.x, r.y), min(max(r.y, r.z), max(r.z, r.x))) - 1.0) / s;
+          if (hole > d) {
+              d = hole;
+              level = float(i) + 1.0;
+          }
+      }
+      return vec2(d, level / u_iterations);
+  }
+`,
+  estimate: (x, y, z, { iterations }) => {
+    const qx = Math.abs(x) - 1;
+    const qy = Math.abs(y) - 1;
+    const qz = Math.abs(z) - 1;
+    let d = Math.hypot(Math.max(qx, 0), Math.max(qy, 0), Math.max(qz, 0)) + Math.min(Math.max(qx, qy, qz), 0);
+    // GLSL's mod, which unlike % is never negative.
+    const mod2 = (c: number) => c - 2 * Math.floor(c / 2);
+    let s = 1;
+    let level = 0;
+    for (let i = 0; i < iterations; i++) {
+      const rx = Math.abs(1 - 3 * Math.abs(mod2(x * s) - 1));
+      const ry = Math.abs(1 - 3 * Math.abs(mod2(y * s) - 1));
+      const rz = Math.abs(1 - 3 * Math.abs(mod2(z * s) - 1));
+      s *= 3;
+      const hole = (Math.min(Math.max(rx, ry), Math.max(ry, rz), Math.max(rz, rx)) - 1) / s;
+      if (hole > d) {
+        d = hole;
+        level = i + 1;
+      }
+    }
+    return [d, level / iterations];
+  },
+};
+
+// Folds space across the tetrahedron's planes of symmetry and scales it about the vertex (1, 1, 1) each iteration,
+// then measures the distance to the smallest tetrahedron, whose faces are the planes |x + y + z| = 1 and so on.
+const sierpinskiTetrahedron: DistanceEstimator = {
+  name: 'Sierpinski Tetrahedron',
+  parameters: [parameter('scale', 'Scale', 1.5, 3, 0.05, 2), iterations(12)],
+  cameraDistance: 3,
+  boundingRadius: 1.05,
+  source: `
+  vec2 estimateDistance(vec3 pos) {
+      vec3 z = pos;
+      float n = 0.0;
+      float trap = 1e10;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (float(i) >= u_iterations) break;
+          if (z.x + z.y < 0.0) z.xy = -z.yx;
+          if (z.x + z.z < 0.0) z.xz = -z.zx;
+          if (z.y + z.z < 0.0) z.zy = -z.yz;
+          z = z * u_scale - (u_scale - 1.0);
+          trap = min(trap, dot(z, z));
+          n += 1.0;
+      }
+      float d = max(max(-z.x - z.y - z.z, z.x + z.y - z.z), max(-z.x + z.y + z.z, z.x - z.y + z.z)) - 1.0;
+      return vec2(d / sqrt(3.0) * pow(u_scale, -n), sqrt(trap / 3.0));
+  }
+`,
+  estimate: (x, y, z, { scale, iterations }) => {
+    let zx = x;
+    let zy = y;
+    let zz = z;
+    let n = 0;
+    let trap = 1e10;
+    for (let i = 0; i < iterations; i++) {
+      if (zx + zy < 0) [zx, zy] = [-zy, -zx];
+      if (zx + zz < 0) [zx, zz] = [-zz, -zx];
+      if (zy + zz < 0) [zy, zz] = [-zz, -zy];
+      zx = zx * scale - (scale - 1);
+      zy = zy * scale - (scale - 1);
+      zz = zz * scale - (scale - 1);
+      trap = Math.min(trap, zx * zx + zy * zy + zz * zz);
+      n++;
+    }
+    const d = Math.max(-zx - zy - zz, zx + zy - zz, -zx + zy + zz, zx - zy + zz) - 1;
+    return [(d / Math.sqrt(3)) * Math.pow(scale, -n), Math.sqrt(trap / 3)];
+  },
+};
+
+// Knighty's kaleidoscopic IFS: octahedral folds and a rotation, then a scale about the offset point.
+const kaleidoscopicIFS: DistanceEstimator = {
+  name: 'Kaleidoscopic IFS',
+  parameters: [
+    parameter('scale', 'Scale', 1.2, 4, 0.05, 2),
+    parameter('angleX', 'Rotation about x (°)', -180, 180, 1, 20),
+    parameter('angleZ', 'Rotation about z (°)', -180, 180, 1, 10),
+    parameter('offsetX', 'Offset x', 0, 2, 0.05, 1),
+    parameter('offsetY', 'Offset y', 0, 2, 0.05, 1),
+    parameter('offsetZ', 'Offset z', 0, 2, 0.05, 1),
+    iterations(12),
+  ],
+  cameraDistance: 4,
+  boundingRadius: 1.5,
+  source: `
+  vec2 estimateDistance(vec3 pos) {
+      float ax = radians(u_angleX);
+      float az = radians(u_angleZ);
+      mat3 rotation = mat3(1.0, 0.0, 0.0, 0.0, cos(ax), sin(ax), 0.0, -sin(ax), cos(ax))
+          * mat3(cos(az), sin(az), 0.0, -sin(az), cos(az), 0.0, 0.0, 0.0, 1.0);
+      vec3 offset = vec3(u_offsetX, u_offsetY, u_offsetZ);
+      vec3 z = pos;
+      float n = 0.0;
+      float trap = 1e10;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (float(i) >= u_iterations) break;
+          z = abs(z);
+          if (z.x < z.y) z.xy = z.yx;
+          if (z.x < z.z) z.xz = z.zx;
+          if (z.y < z.z) z.yz = z.zy;
+          z = rotation * z;
+          z = z * u_scale - offset * (u_scale - 1.0);
+          trap = min(trap, dot(z, z));
+          n += 1.0;
+      }
+      return vec2((length(z) - 1.0) * pow(u_scale, -n), sqrt(trap / 3.0));
+  }
+`,
+  estimate: (x, y, z, { scale, angleX, angleZ, offsetX, offsetY, offsetZ, iterations }) => {
+    const ax = (angleX * Math.PI) / 180;
+    const az = (angleZ * Math.PI) / 180;
+    let zx = x;
+    let zy = y;
+    let zz = z;
+    let n = 0;
+    let trap = 1e10;
+    for (let i = 0; i < iterations; i++) {
+      zx = Math.abs(zx);
+      zy = Math.abs(zy);
+      zz = Math.abs(zz);
+      if (zx < zy) [zx, zy] = [zy, zx];
+      if (zx < zz) [zx, zz] = [zz, zx];
+      if (zy < zz) [zy, zz] = [zz, zy];
+      // The rotation about z, then the one about x.
+      const rx = Math.cos(az) * zx - Math.sin(az) * zy;
+      const ry = Math.sin(az) * zx + Math.cos(az) * zy;
+      zx = rx;
+      zy = Math.cos(ax) * ry - Math.sin(ax) * zz;
+      zz = Math.sin(ax) * ry + Math.cos(ax) * zz;
+      zx = zx * scale - offsetX * (scale - 1);
+      zy = zy * scale - offsetY * (scale - 1);
+      zz = zz * scale - offsetZ * (scale - 1);
+      trap = Math.min(trap, zx * zx + zy * zy + zz * zz);
+      n++;
+    }
+    return [(Math.hypot(zx, zy, zz) - 1) * Math.pow(scale, -n), Math.sqrt(trap / 3)];
+  },
+};
+
+// The Julia set of z^2 + c over the quaternions, cut by the 3D slice at the given fourth coordinate.
+const quaternionJulia: DistanceEstimator = {
+  name: 'Quaternion Julia',
+  parameters: [
+    parameter('cX', 'c (real)', -2, 2, 0.01, -0.2),
+    parameter('cY', 'c (i)', -2, 2, 0.01, 0.6),
+    parameter('cZ', 'c (j)', -2, 2, 0.01, 0.2),
+    parameter('cW', 'c (k)', -2, 2, 0.01, 0.2),
+    parameter('slice', 'Slice (k)', -1.5, 1.5, 0.01, 0),
+    iterations(12),
+  ],
+  cameraDistance: 3,
+  boundingRadius: 1.3,
+  source: `
+  vec2 estimateDistance(vec3 pos) {
+      vec4 c = vec4(u_cX, u_cY, u_cZ, u_cW);
+      vec4 z = vec4(pos, u_slice);
+      vec4 dz = vec4(1.0, 0.0, 0.0, 0.0);
+      float r2 = dot(z, z);
+      float trap = r2;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (float(i) >= u_iterations) break;
+          // dz <- 2 z dz and z <- z^2 + c, as quaternion products.
+          dz = 2.0 * vec4(z.x * dz.x - dot(z.yzw, dz.yzw), z.x * dz.yzw + dz.x * z.yzw + cross(z.yzw, dz.yzw));
+          z = vec4(z.x * z.x - dot(z.yzw, z.yzw), 2.0 * z.x * z.yzw) + c;
+          r2 = dot(z, z);
+          if (r2 > 16.0) break;
+          trap = min(trap, r2);
+      }
+      float r = sqrt(r2);
+      return vec2(0.5 * r * log(r) / length(dz), sqrt(trap));
+  }
+`,
+  estimate: (x, y, z, { cX, cY, cZ, cW, slice, iterations }) => {
+    let [zx, zy, zz, zw] = [x, y, z, slice];
+    let [dx, dy, dz, dw] = [1, 0, 0, 0];
+    let r2 = zx * zx + zy * zy + zz * zz + zw * zw;
+    let trap = r2;
+    for (let i = 0; i < iterations; i++) {
+      [dx, dy, dz, dw] = [
+        2 * (zx * dx - zy * dy - zz * dz - zw * dw),
+        2 * (zx * dy + dx * zy + zz * dw - zw * dz),
+        2 * (zx * dz + dx * zz + zw * dy - zy * dw),
+        2 * (zx * dw + dx * zw + zy * dz - zz * dy),
+      ];
+      [zx, zy, zz, zw] = [zx * zx - zy * zy - zz * zz - zw * zw + cX, 2 * zx * zy + cY, 2 * zx * zz + cZ, 2 * zx * zw + cW];
+      r2 = zx * zx + zy * zy + zz * zz + zw * zw;
+      if (r2 > 16) break;
+      trap = Math.min(trap, r2);
+    }
+    const r = Math.sqrt(r2);
+    return [(0.5 * r * Math.log(r)) / Math.hypot(dx, dy, dz, dw), Math.sqrt(trap)];
+  },
+};
+
+export const DISTANCE_ESTIMATORS: Record<Fractal3DType, DistanceEstimator> = {
+  [FractalType.Mandelbulb]: mandelbulb,
+  [FractalType.Mandelbox]: mandelbox,
+  [FractalType.MengerSponge]: mengerSponge,
+  [FractalType.SierpinskiTetrahedron]: sierpinskiTetrahedron,
+  [FractalType.KaleidoscopicIFS]: kaleidoscopicIFS,
+  [FractalType.QuaternionJulia]: quaternionJulia,
+};
+
+export const FRACTAL_3D_TYPES = Object.keys(DISTANCE_ESTIMATORS) as Fractal3DType[];
+
+export const is3DFractal = (type: FractalType): type is Fractal3DType => FRACTAL_3D_TYPES.includes(type as Fractal3DType);
+
+export const getDefaultParameters = (type: Fractal3DType): Record<string, number> =>
+  Object.fromEntries(DISTANCE_ESTIMATORS[type].parameters.map(({ name, defaultValue }) => [name, defaultValue]));
+
+export const DEFAULT_FRACTAL_3D = Object.fromEntries(
+  FRACTAL_3D_TYPES.map((type) => [type, getDefaultParameters(type)]),
+) as Fractal3DSettings;
+
+// The estimator's parameter values, with defaults for any the settings lack (saved before the parameter existed) and
+// the rest clamped to their ranges.
+export const resolveParameters = (settings: Fractal3DSettings, type: Fractal3DType): Record<string, number> => {
+  const values = settings[type] ?? {};
+  return Object.fromEntries(DISTANCE_ESTIMATORS[type].parameters.map(({ name, min, max, defaultValue }) => {
+    const value = values[name];
+    return [name, Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : defaultValue];
+  }));
+};
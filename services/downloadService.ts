@@ -0,0 +1,16 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke on the next tick so the browser has started the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (text: string, fileName: string, mimeType = 'text/plain') => {
+  downloadBlob(new Blob([text], { type: mimeType }), fileName);
+};
+
+// File names derived from user-entered names (palettes, bookmarks) should not contain path separators and the like.
+export const toFileName = (name: string) => name.trim().replace(/[^a-z0-9-_]+/gi, '_') || 'untitled';
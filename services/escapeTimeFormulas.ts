@@ -0,0 +1,120 @@
+import { FractalType } from '../types';
+
+// The iteration z -> f(z) + c behind each escape-time fractal type.
+export type EscapeTimeFormula =
+  | 'mandelbrot' // z^2
+  | 'burningShip' // (|x| + i|y|)^2
+  | 'multibrot' // z^n
+  | 'multicorn' // conj(z)^n; the Tricorn (Mandelbar) when n = 2
+  | 'celtic' // |Re(z^2)| + i Im(z^2)
+  | 'buffalo' // |Re(z^2)| + i |Im(z^2)|
+  | 'perpendicularBurningShip' // x^2 - y^2 - 2ix|y|
+  | 'custom' // typed in by the user; see formulaParser
+  // The rest iterate until the orbit settles on an attractor rather than until it escapes.
+  | 'newton' // z - a p(z)/p'(z)
+  | 'nova' // z - a p(z)/p'(z) + c
+  | 'magnet1' // ((z^2 + c - 1) / (2z + c - 2))^2
+  | 'magnet2'; // ((z^3 + 3(c - 1)z + (c - 1)(c - 2)) / (3z^2 + 3(c - 2)z + (c - 1)(c - 2) + 1))^2
+
+export interface EscapeTimeVariant {
+  formula: EscapeTimeFormula;
+  // Julia sets iterate from the pixel with a fixed c; the others iterate from 0 with c at the pixel.
+  isJulia: boolean;
+}
+
+const VARIANTS: Partial<Record<FractalType, EscapeTimeVariant>> = {
+  [FractalType.Mandelbrot]: { formula: 'mandelbrot', isJulia: false },
+  [FractalType.Julia]: { formula: 'mandelbrot', isJulia: true },
+  [FractalType.BurningShip]: { formula: 'burningShip', isJulia: false },
+  [FractalType.BurningShipJulia]: { formula: 'burningShip', isJulia: true },
+  [FractalType.Multibrot]: { formula: 'multibrot', isJulia: false },
+  [FractalType.MultibrotJulia]: { formula: 'multibrot', isJulia: true },
+  [FractalType.Tricorn]: { formula: 'multicorn', isJulia: false },
+  [FractalType.TricornJulia]: { formula: 'multicorn', isJulia: true },
+  [FractalType.Celtic]: { formula: 'celtic', isJulia: false },
+  [FractalType.CelticJulia]: { formula: 'celtic', isJulia: true },
+  [FractalType.Buffalo]: { formula: 'buffalo', isJulia: false },
+  [FractalType.BuffaloJulia]: { formula: 'buffalo', isJulia: true },
+  [FractalType.PerpendicularBurningShip]: { formula: 'perpendicularBurningShip', isJulia: false },
+  [FractalType.PerpendicularBurningShipJulia]: { formula: 'perpendicularBurningShip', isJulia: true },
+  [FractalType.CustomFormula]: { formula: 'custom', isJulia: false },
+  [FractalType.CustomFormulaJulia]: { formula: 'custom', isJulia: true },
+  // Newton fractals have no c and always iterate from the pixel.
+  [FractalType.Newton]: { formula: 'newton', isJulia: false },
+  [FractalType.Nova]: { formula: 'nova', isJulia: false },
+  [FractalType.NovaJulia]: { formula: 'nova', isJulia: true },
+  [FractalType.MagnetI]: { formula: 'magnet1', isJulia: false },
+  [FractalType.MagnetIJulia]: { formula: 'magnet1', isJulia: true },
+  [FractalType.MagnetII]: { formula: 'magnet2', isJulia: false },
+  [FractalType.MagnetIIJulia]: { formula: 'magnet2', isJulia: true },
+};
+
+// Display names, in the order the fractal type menu lists them.
+export const ESCAPE_TIME_FRACTAL_NAMES: [FractalType, string][] = [
+  [FractalType.Mandelbrot, 'Mandelbrot'],
+  [FractalType.Julia, 'Julia'],
+  [FractalType.BurningShip, 'Burning Ship'],
+  [FractalType.BurningShipJulia, 'Burning Ship Julia'],
+  [FractalType.Multibrot, 'Multibrot (zⁿ + c)'],
+  [FractalType.MultibrotJulia, 'Multibrot Julia'],
+  [FractalType.Tricorn, 'Tricorn / Multicorn'],
+  [FractalType.TricornJulia, 'Tricorn Julia'],
+  [FractalType.Celtic, 'Celtic'],
+  [FractalType.CelticJulia, 'Celtic Julia'],
+  [FractalType.Buffalo, 'Buffalo'],
+  [FractalType.BuffaloJulia, 'Buffalo Julia'],
+  [FractalType.PerpendicularBurningShip, 'Perpendicular Burning Ship'],
+  [FractalType.PerpendicularBurningShipJulia, 'Perpendicular Burning Ship Julia'],
+  [FractalType.CustomFormula, 'Custom Formula'],
+  [FractalType.CustomFormulaJulia, 'Custom Formula Julia'],
+  [FractalType.Newton, 'Newton'],
+  [FractalType.Nova, 'Nova'],
+  [FractalType.NovaJulia, 'Nova Julia'],
+  [FractalType.MagnetI, 'Magnet Type I'],
+  [FractalType.MagnetIJulia, 'Magnet Type I Julia'],
+  [FractalType.MagnetII, 'Magnet Type II'],
+  [FractalType.MagnetIIJulia, 'Magnet Type II Julia'],
+];
+
+export const MIN_EXPONENT = 1.5;
+export const MAX_EXPONENT = 10;
+// Step size a of the relaxed Newton iteration; 1 is Newton's method proper.
+export const MIN_RELAXATION = 0.1;
+export const MAX_RELAXATION = 2;
+
+export const getEscapeTimeVariant = (type: FractalType): EscapeTimeVariant | null => VARIANTS[type] ?? null;
+
+export const isEscapeTimeFractal = (type: FractalType) => type in VARIANTS;
+
+export const isJuliaFractal = (type: FractalType) => VARIANTS[type]?.isJulia ?? false;
+
+// The Julia sets of a parameter-plane fractal, whose c is a point picked in it. Null for the Julia types themselves
+// and for formulas without a c (Newton).
+export const getJuliaCounterpart = (type: FractalType): FractalType | null => {
+  const variant = VARIANTS[type];
+  if (!variant || variant.isJulia) return null;
+  const types = Object.keys(VARIANTS) as FractalType[];
+  return types.find((other) => VARIANTS[other]?.isJulia && VARIANTS[other]?.formula === variant.formula) ?? null;
+};
+
+export const isCustomFormula = (type: FractalType) => VARIANTS[type]?.formula === 'custom';
+
+export const isConvergentFormula = (formula: EscapeTimeFormula) =>
+  formula === 'newton' || formula === 'nova' || formula === 'magnet1' || formula === 'magnet2';
+
+// Newton and Nova iterate a polynomial the user types in.
+export const usesPolynomial = (type: FractalType) => {
+  const formula = VARIANTS[type]?.formula;
+  return formula === 'newton' || formula === 'nova';
+};
+
+const isPowerFormula = (type: FractalType) => {
+  const formula = VARIANTS[type]?.formula;
+  return formula === 'multibrot' || formula === 'multicorn';
+};
+
+// Custom formulas read the exponent slider as their parameter n.
+export const usesExponent = (type: FractalType) => isPowerFormula(type) || isCustomFormula(type);
+
+// The power of z in the iteration, which sets how fast escaping orbits grow. Custom formulas are assumed quadratic.
+export const getFormulaDegree = (type: FractalType, exponent: number) => (isPowerFormula(type) ? exponent : 2);
@@ -0,0 +1,168 @@
+// Fragment shaders for the 2D escape-time fractals. The vertex shader is the full-screen quad from mandelbulbShaders.
+import { createFormulaGlsl, GLSL_COMPLEX_LIBRARY } from './formulaCompiler';
+
+// WebGL 1 loops need a constant bound; the real limit comes from u_maxIterations.
+export const GPU_MAX_ITERATIONS = 10000;
+
+const header = `
+  precision highp float;
+
+  uniform vec2 u_resolution;
+  uniform int u_formula; // 0 = Mandelbrot, 1 = Burning Ship, 2 = Tricorn, 3 = Celtic, 4 = Buffalo, 5 = Perpendicular Burning Ship
+  uniform int u_julia; // 1 to iterate from the pixel with c = u_juliaC
+  uniform int u_maxIterations;
+  uniform vec4 u_center; // (x hi, x lo, y hi, y lo)
+  uniform float u_pixelSize;
+  uniform vec2 u_juliaC;
+  uniform sampler2D u_palette;
+  uniform float u_paletteSize;
+  uniform int u_coloring; // 0 = iteration count, 1 = smooth
+  uniform float u_bailout;
+  uniform vec3 u_paletteMapping; // (offset, repeat, density), as in mapPalettePosition
+  uniform float u_exponent; // parameter n of custom formulas
+
+  const int MAX_ITERATIONS = ${GPU_MAX_ITERATIONS};
+
+  // Mirrors createOrbitColoring in coloringService for the algorithms the GPU supports.
+  vec4 shade(int iteration, vec2 z) {
+      if (iteration >= u_maxIterations) {
+          return vec4(0.0, 0.0, 0.0, 1.0);
+      }
+      float n = float(iteration);
+      if (u_coloring == 1) {
+          n = max(0.0, n + 1.0 - log(0.5 * log(dot(z, z))) / log(2.0));
+      }
+      float t = pow(n / float(u_maxIterations), 1.0 / u_paletteMapping.z) * u_paletteMapping.y + u_paletteMapping.x;
+      t = (u_paletteMapping.y == 1.0 && u_paletteMapping.x == 0.0) ? min(t, 1.0) : fract(t);
+      float u = (t * (u_paletteSize - 1.0) + 0.5) / u_paletteSize;
+      return texture2D(u_palette, vec2(u, 0.5));
+  }
+
+  // Offset of this fragment from the view centre, using the same top-left pixel origin as the CPU renderer.
+  vec2 pixelOffset() {
+      vec2 px = vec2(gl_FragCoord.x - 0.5, u_resolution.y - gl_FragCoord.y - 0.5);
+      return (px - u_resolution * 0.5) * u_pixelSize;
+  }
+`;
+
+const singleFloatMain = `
+  void main() {
+      vec2 c = u_center.xz + pixelOffset();
+      vec2 z = vec2(0.0);
+      if (u_julia == 1) {
+          z = c;
+          c = u_juliaC;
+      }
+
+      int iteration = 0;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (i >= u_maxIterations || dot(z, z) > u_bailout * u_bailout) break;
+          float re = z.x * z.x - z.y * z.y;
+          float im = 2.0 * z.x * z.y;
+          if (u_formula == 1) {
+              im = abs(im);
+          } else if (u_formula == 2) {
+              im = -im;
+          } else if (u_formula == 3) {
+              re = abs(re);
+          } else if (u_formula == 4) {
+              re = abs(re);
+              im = abs(im);
+          } else if (u_formula == 5) {
+              im = -2.0 * z.x * abs(z.y);
+          }
+          z = vec2(re, im) + c;
+          iteration++;
+      }
+
+      gl_FragColor = shade(iteration, z);
+  }
+`;
+
+// Double-float arithmetic: each value is an unevaluated sum hi + lo of two floats, giving ~48 bits of mantissa.
+const doubleFloatMain = `
+  vec2 dsAdd(vec2 a, vec2 b) {
+      float t1 = a.x + b.x;
+      float e = t1 - a.x;
+      float t2 = ((b.x - e) + (a.x - (t1 - e))) + a.y + b.y;
+      float hi = t1 + t2;
+      return vec2(hi, t2 - (hi - t1));
+  }
+
+  vec2 dsMul(vec2 a, vec2 b) {
+      const float split = 8193.0;
+      float c11 = a.x * b.x;
+      float cona = a.x * split;
+      float conb = b.x * split;
+      float a1 = cona - (cona - a.x);
+      float b1 = conb - (conb - b.x);
+      float a2 = a.x - a1;
+      float b2 = b.x - b1;
+      float c21 = a2 * b2 + (a2 * b1 + (a1 * b2 + (a1 * b1 - c11)));
+      float c2 = a.x * b.y + a.y * b.x;
+      float t1 = c11 + c2;
+      float e = t1 - c11;
+      float t2 = a.y * b.y + ((c2 - e) + (c11 - (t1 - e))) + c21;
+      float hi = t1 + t2;
+      return vec2(hi, t2 - (hi - t1));
+  }
+
+  void main() {
+      vec2 offset = pixelOffset();
+      vec2 cx = dsAdd(u_center.xy, vec2(offset.x, 0.0));
+      vec2 cy = dsAdd(u_center.zw, vec2(offset.y, 0.0));
+      vec2 x = vec2(0.0);
+      vec2 y = vec2(0.0);
+      if (u_julia == 1) {
+          x = cx;
+          y = cy;
+          cx = vec2(u_juliaC.x, 0.0);
+          cy = vec2(u_juliaC.y, 0.0);
+      }
+
+      int iteration = 0;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (i >= u_maxIterations) break;
+          vec2 x2 = dsMul(x, x);
+          vec2 y2 = dsMul(y, y);
+          if (x2.x + y2.x > u_bailout * u_bailout) break;
+          vec2 re = dsAdd(x2, -y2);
+          vec2 xy = u_formula == 5 ? -dsMul(x, y.x < 0.0 ? -y : y) : dsMul(x, y);
+          if ((u_formula == 1 || u_formula == 4) && xy.x < 0.0) xy = -xy;
+          if (u_formula == 2) xy = -xy;
+          if ((u_formula == 3 || u_formula == 4) && re.x < 0.0) re = -re;
+          y = dsAdd(dsAdd(xy, xy), cy);
+          x = dsAdd(re, cx);
+          iteration++;
+      }
+
+      gl_FragColor = shade(iteration, vec2(x.x, y.x));
+  }
+`;
+
+// User-defined formulas run in single precision only.
+const customFormulaMain = `
+  void main() {
+      vec2 c = u_center.xz + pixelOffset();
+      vec2 z = vec2(0.0);
+      if (u_julia == 1) {
+          z = c;
+          c = u_juliaC;
+      }
+
+      int iteration = 0;
+      for (int i = 0; i < MAX_ITERATIONS; i++) {
+          if (i >= u_maxIterations || customEscaped(z, c, u_exponent)) break;
+          z = customFormula(z, c, u_exponent);
+          iteration++;
+      }
+
+      gl_FragColor = shade(iteration, z);
+  }
+`;
+
+export const createEscapeTimeFragmentShader = (emulateDouble: boolean) =>
+  header + (emulateDouble ? doubleFloatMain : singleFloatMain);
+
+export const createCustomFormulaFragmentShader = (formula: string, bailout: string) =>
+  header + GLSL_COMPLEX_LIBRARY + createFormulaGlsl(formula, bailout) + customFormulaMain;
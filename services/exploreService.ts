@@ -0,0 +1,322 @@
+// Finds places worth zooming into: detailed regions of a rendered frame, and the nuclei of minibrots and the
+// Misiurewicz points near a point of the Mandelbrot and Multibrot sets, found by Newton's method.
+import { FractalType, PrecisePan } from '../types';
+import { computeEscapeTimeTile, EscapeTimeParams, finalizeFrameField, getPixelSize } from './fractalService';
+import { getEscapeTimeVariant, getFormulaDegree } from './escapeTimeFormulas';
+import { MAX_DEEP_ZOOM, precisePointFromPan, supportsDeepZoom } from './deepZoom';
+
+// The frame is scored in square cells, about this many across.
+const CELLS_ACROSS = 32;
+const HISTOGRAM_BINS = 16;
+// How much a cell's share of inside/outside boundary adds to the spread of its colours.
+const BOUNDARY_WEIGHT = 0.5;
+const MIN_SCORE = 0.05;
+export const MAX_SUGGESTIONS = 8;
+// Frames rendered on the GPU leave no field behind, so they are sampled again on the CPU at this width.
+const ANALYSIS_WIDTH = 240;
+// Auto-explore prefers targets near the centre, so the path reads as one dive rather than a zig-zag.
+const CENTRE_BIAS = 0.5;
+export const EXPLORE_ZOOM_FACTOR = 2;
+// Without deep zoom, doubles run out of digits for the pan a little past this magnification.
+const MAX_DOUBLE_ZOOM = 1e13;
+
+const MAX_NEWTON_STEPS = 64;
+const NEWTON_TOLERANCE = 1e-15;
+
+// A spot in the frame, in pixels, and how much detail surrounds it.
+export interface InterestingPoint {
+  px: number;
+  py: number;
+  score: number;
+}
+
+// A suggested point of the plane, kept to the precision of the view it was found in.
+export interface ExploreSuggestion {
+  x: number;
+  y: number;
+  precise: PrecisePan;
+  score: number;
+}
+
+export interface AnalysisField {
+  field: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface NucleusSearchSettings {
+  kind: 'nucleus' | 'misiurewicz';
+  period: number;
+  // Steps before the orbit of a Misiurewicz point reaches its cycle; 2 is the least that is not a nucleus.
+  preperiod: number;
+}
+
+export interface NucleusSearchResult {
+  x: number;
+  y: number;
+  // Magnification that frames the minibrot of a nucleus, or null for Misiurewicz points, which have none.
+  zoom: number | null;
+}
+
+export const canAnalyseFrame = (type: FractalType) => getEscapeTimeVariant(type) !== null;
+
+// The field of a view at a reduced size; the mapping scales with the width, so the view itself stays the same.
+export const computeAnalysisField = (params: EscapeTimeParams): AnalysisField => {
+  const width = Math.min(ANALYSIS_WIDTH, params.width);
+  const height = Math.max(1, Math.round((params.height * width) / params.width));
+  const scaled = { ...params, width, height };
+  return { field: finalizeFrameField(computeEscapeTimeTile(scaled, { x: 0, y: 0, width, height }), scaled), width, height };
+};
+
+// Scores every cell by the entropy and spread of its palette positions plus the density of the boundary between
+// escaping and inside points, and returns the best cells, no two adjacent, strongest first.
+export const analyseFrame = ({ field, width, height }: AnalysisField, maxPoints = MAX_SUGGESTIONS): InterestingPoint[] => {
+  const cell = Math.max(4, Math.round(width / CELLS_ACROSS));
+  const columns = Math.floor(width / cell);
+  const rows = Math.floor(height / cell);
+  const candidates: (InterestingPoint & { column: number; row: number })[] = [];
+  const histogram = new Uint32Array(HISTOGRAM_BINS);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      histogram.fill(0);
+      let escaped = 0;
+      let sum = 0;
+      let sumOfSquares = 0;
+      let boundary = 0;
+      let boundaryX = 0;
+      let boundaryY = 0;
+      for (let py = row * cell; py < (row + 1) * cell; py++) {
+        for (let px = column * cell; px < (column + 1) * cell; px++) {
+          const index = py * width + px;
+          const value = field[index];
+          const isInside = value < 0;
+          if (!isInside) {
+            escaped++;
+            sum += value;
+            sumOfSquares += value * value;
+            histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(value * HISTOGRAM_BINS))]++;
+          }
+          if ((px + 1 < width && field[index + 1] < 0 !== isInside) || (py + 1 < height && field[index + width] < 0 !== isInside)) {
+            boundary++;
+            boundaryX += px;
+            boundaryY += py;
+          }
+        }
+      }
+      if (escaped === 0) continue;
+
+      let entropy = 0;
+      histogram.forEach((count) => {
+        if (count > 0) entropy -= (count / escaped) * Math.log(count / escaped);
+      });
+      const mean = sum / escaped;
+      const spread = Math.sqrt(Math.max(0, sumOfSquares / escaped - mean * mean));
+      // A boundary crossing the cell once is about one cell long, so this is near 1 for a simple edge.
+      const boundaryDensity = boundary / cell;
+      const score = (entropy / Math.log(HISTOGRAM_BINS)) * (1 + BOUNDARY_WEIGHT * boundaryDensity) + spread;
+      if (score < MIN_SCORE) continue;
+      candidates.push({
+        px: boundary > 0 ? boundaryX / boundary : (column + 0.5) * cell,
+        py: boundary > 0 ? boundaryY / boundary : (row + 0.5) * cell,
+        score,
+        column,
+        row,
+      });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const chosen: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (chosen.length >= maxPoints) break;
+    if (chosen.some((other) => Math.abs(other.column - candidate.column) <= 1 && Math.abs(other.row - candidate.row) <= 1)) continue;
+    chosen.push(candidate);
+  }
+  return chosen.map(({ px, py, score }) => ({ px, py, score }));
+};
+
+// The offset in the plane of a pixel of the analysis field from the view centre.
+export const getPointOffset = (point: InterestingPoint, field: AnalysisField, zoom: number) => ({
+  dx: ((point.px - field.width / 2) * 4) / (field.width * zoom),
+  dy: ((point.py - field.height / 2) * 4) / (field.width * zoom),
+});
+
+export const toSuggestions = (
+  points: InterestingPoint[],
+  field: AnalysisField,
+  params: Pick<EscapeTimeParams, 'zoom' | 'panX' | 'panY' | 'precisePan'>,
+): ExploreSuggestion[] =>
+  points.map((point) => {
+    const { dx, dy } = getPointOffset(point, field, params.zoom);
+    return {
+      x: dx - params.panX,
+      y: dy - params.panY,
+      precise: precisePointFromPan(params.precisePan, dx, dy, params.zoom),
+      score: point.score,
+    };
+  });
+
+// The next point for auto-explore to zoom into, or null if the frame has nothing left to find.
+export const chooseExploreTarget = (points: InterestingPoint[], width: number, height: number): InterestingPoint | null => {
+  const halfDiagonal = Math.hypot(width, height) / 2;
+  let best: InterestingPoint | null = null;
+  let bestWeight = 0;
+  for (const point of points) {
+    const weight = point.score * (1 - (CENTRE_BIAS * Math.hypot(point.px - width / 2, point.py - height / 2)) / halfDiagonal);
+    if (weight > bestWeight) {
+      best = point;
+      bestWeight = weight;
+    }
+  }
+  return best;
+};
+
+// How deep auto-explore can go before the view would need more precision than it has.
+export const getMaxExploreZoom = (params: { fractalType: FractalType; deepZoom: boolean }) =>
+  params.deepZoom && supportsDeepZoom(params.fractalType) ? MAX_DEEP_ZOOM : MAX_DOUBLE_ZOOM;
+
+// Nuclei and Misiurewicz points are roots of polynomials in c, so the search works on the parameter planes of
+// z^d + c with a whole d.
+export const canSearchNuclei = (type: FractalType, exponent: number) => {
+  const variant = getEscapeTimeVariant(type);
+  if (!variant || variant.isJulia || (variant.formula !== 'mandelbrot' && variant.formula !== 'multibrot')) return false;
+  const degree = getFormulaDegree(type, exponent);
+  return Number.isInteger(degree) && degree >= 2;
+};
+
+// Whether a point found in doubles is still precise at this zoom.
+export const isSearchPrecise = (params: { width: number; zoom: number }, x: number, y: number) =>
+  getPixelSize(params) > Math.max(1, Math.hypot(x, y)) * 1e-14;
+
+// Iterates z -> z^degree + c from 0, returning f^n(0) and its derivative with respect to c after each step.
+const iterateFromZero = (degree: number, cx: number, cy: number, steps: number, onStep: (n: number, zx: number, zy: number, dx: number, dy: number) => void) => {
+  let zx = 0;
+  let zy = 0;
+  let dx = 0;
+  let dy = 0;
+  for (let n = 1; n <= steps; n++) {
+    // z^(degree - 1), then dz = degree z^(degree - 1) dz + 1 and z = z^degree + c.
+    let px = 1;
+    let py = 0;
+    for (let k = 1; k < degree; k++) {
+      const product = px * zx - py * zy;
+      py = px * zy + py * zx;
+      px = product;
+    }
+    const nextDx = degree * (px * dx - py * dy) + 1;
+    dy = degree * (px * dy + py * dx);
+    dx = nextDx;
+    const nextZx = px * zx - py * zy + cx;
+    zy = px * zy + py * zx + cy;
+    zx = nextZx;
+    onStep(n, zx, zy, dx, dy);
+  }
+};
+
+// Newton's method on g(c), given g and g' at c; stops once the step falls below the precision of doubles.
+const solve = (
+  x: number,
+  y: number,
+  evaluate: (cx: number, cy: number) => { gx: number; gy: number; dx: number; dy: number },
+): { x: number; y: number } | null => {
+  let cx = x;
+  let cy = y;
+  for (let step = 0; step < MAX_NEWTON_STEPS; step++) {
+    const { gx, gy, dx, dy } = evaluate(cx, cy);
+    const denominator = dx * dx + dy * dy;
+    if (!(denominator > 0)) return null;
+    const stepX = (gx * dx + gy * dy) / denominator;
+    const stepY = (gy * dx - gx * dy) / denominator;
+    cx -= stepX;
+    cy -= stepY;
+    if (!Number.isFinite(cx) || !Number.isFinite(cy)) return null;
+    if (Math.hypot(stepX, stepY) <= NEWTON_TOLERANCE * Math.max(1, Math.hypot(cx, cy))) return { x: cx, y: cy };
+  }
+  return null;
+};
+
+// The exact period of c's orbit of 0, if it comes back to 0 within maxPeriod steps.
+const findNucleusPeriod = (degree: number, cx: number, cy: number, maxPeriod: number, tolerance: number) => {
+  let found: number | null = null;
+  iterateFromZero(degree, cx, cy, maxPeriod, (n, zx, zy) => {
+    if (found === null && Math.hypot(zx, zy) < tolerance) found = n;
+  });
+  return found;
+};
+
+// The magnification at which the minibrot of a degree-2 nucleus fills the view like the whole set does at zoom 1,
+// from the size estimate b l^2 of its atom domain. Higher degrees fall back to a fixed step in.
+const estimateNucleusZoom = (degree: number, cx: number, cy: number, period: number, currentZoom: number) => {
+  if (degree !== 2) return currentZoom * 100;
+  let zx = 0;
+  let zy = 0;
+  let lx = 1;
+  let ly = 0;
+  let bx = 1;
+  let by = 0;
+  for (let n = 1; n < period; n++) {
+    const nextZx = zx * zx - zy * zy + cx;
+    zy = 2 * zx * zy + cy;
+    zx = nextZx;
+    const nextLx = 2 * (zx * lx - zy * ly);
+    ly = 2 * (zx * ly + zy * lx);
+    lx = nextLx;
+    const modulus = lx * lx + ly * ly;
+    bx += lx / modulus;
+    by -= ly / modulus;
+  }
+  const size = 1 / (Math.hypot(bx, by) * (lx * lx + ly * ly));
+  return Number.isFinite(size) && size > 0 ? 1 / size : currentZoom * 100;
+};
+
+// The nucleus of the period-p minibrot or bulb nearest (x, y): the root of f^p(0) = 0. Returns null if Newton's
+// method does not converge, or lands on a nucleus of a lower period that divides p.
+export const findNucleus = (params: EscapeTimeParams, x: number, y: number, period: number): NucleusSearchResult | null => {
+  const degree = getFormulaDegree(params.fractalType, params.exponent);
+  const root = solve(x, y, (cx, cy) => {
+    const result = { gx: 0, gy: 0, dx: 0, dy: 0 };
+    iterateFromZero(degree, cx, cy, period, (n, zx, zy, dx, dy) => {
+      if (n === period) Object.assign(result, { gx: zx, gy: zy, dx, dy });
+    });
+    return result;
+  });
+  if (!root) return null;
+  const tolerance = Math.sqrt(NEWTON_TOLERANCE) * Math.max(1, Math.hypot(root.x, root.y));
+  if (findNucleusPeriod(degree, root.x, root.y, period, tolerance) !== period) return null;
+  return { ...root, zoom: estimateNucleusZoom(degree, root.x, root.y, period, params.zoom) };
+};
+
+// The Misiurewicz point nearest (x, y) whose orbit of 0 lands, after preperiod steps, on a cycle of the given
+// period: a root of f^(preperiod + period)(0) - f^preperiod(0) = 0. Nuclei solve that too, so they are rejected.
+export const findMisiurewiczPoint = (
+  params: EscapeTimeParams,
+  x: number,
+  y: number,
+  preperiod: number,
+  period: number,
+): NucleusSearchResult | null => {
+  const degree = getFormulaDegree(params.fractalType, params.exponent);
+  const root = solve(x, y, (cx, cy) => {
+    const result = { gx: 0, gy: 0, dx: 0, dy: 0 };
+    iterateFromZero(degree, cx, cy, preperiod + period, (n, zx, zy, dx, dy) => {
+      const sign = n === preperiod ? -1 : 1;
+      if (n === preperiod || n === preperiod + period) {
+        result.gx += sign * zx;
+        result.gy += sign * zy;
+        result.dx += sign * dx;
+        result.dy += sign * dy;
+      }
+    });
+    return result;
+  });
+  if (!root) return null;
+  const tolerance = Math.sqrt(NEWTON_TOLERANCE) * Math.max(1, Math.hypot(root.x, root.y));
+  if (findNucleusPeriod(degree, root.x, root.y, preperiod + period, tolerance) !== null) return null;
+  return { ...root, zoom: null };
+};
+
+export const searchNear = (params: EscapeTimeParams, settings: NucleusSearchSettings, x: number, y: number) =>
+  settings.kind === 'nucleus'
+    ? findNucleus(params, x, y, settings.period)
+    : findMisiurewiczPoint(params, x, y, settings.preperiod, settings.period);
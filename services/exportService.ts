@@ -0,0 +1,449 @@
+import { Camera3D, Fractal3DType, FractalType, RenderParams } from '../types';
+import {
+  colorizeField,
+  colorSamples,
+  EscapeTimeParams,
+  TileRect,
+  writeTileToFrame,
+} from './fractalService';
+import { isEscapeTimeFractal } from './escapeTimeFormulas';
+import { accumulateIFS, colorizeIFS, getMaxCount } from './ifsService';
+import { renderFlameRegion } from './flameService';
+import { drawLSystem } from './lsystemService';
+import { applyHistogramCdf, buildHistogramCdf, needsFrameColoring } from './coloringService';
+import { createPaletteLookup } from './paletteService';
+import { createRenderPool, RenderJob, RenderPool } from './renderPool';
+import { createMandelbulbRenderer, MandelbulbRenderer } from './mandelbulbRenderer';
+import { is3DFractal } from './distanceEstimators';
+import { createPngEncoder } from './pngService';
+import { serializeView, toSavedSettings } from './settingsService';
+
+export const MAX_EXPORT_DIMENSION = 32768;
+export const MAX_SUPERSAMPLING = 4;
+export const PNG_VIEW_KEYWORD = 'fractal-explorer';
+
+// Supersampled pixels held in memory per band; the chaos game replays every point for each band, so it gets fewer, larger bands.
+const BAND_PIXEL_BUDGET = 1 << 22;
+const IFS_BAND_PIXEL_BUDGET = 1 << 24;
+// Flame histogram cells per band, at 16 bytes each.
+const FLAME_BAND_CELL_BUDGET = 1 << 23;
+const GL_MAX_TILE_SIZE = 2048;
+const CANVAS_TILE_SIZE = 4096;
+
+export interface ExportOptions {
+  width: number;
+  height: number;
+  supersampling: number;
+}
+
+export interface ExportJob<T> {
+  // Resolves with the result, or null if the export was cancelled.
+  done: Promise<T | null>;
+  cancel: () => void;
+}
+
+// Renders horizontal bands of the supersampled image as RGBA rows. Resolves null when cancelled.
+interface BandRenderer {
+  bandRows: number;
+  renderBand: (y: number, rows: number, onProgress: (progress: number) => void) => Promise<Uint8ClampedArray | null>;
+  dispose: () => void;
+}
+
+export interface Cancellation {
+  cancelled: boolean;
+  onCancel: (() => void) | null;
+}
+
+// The render workers and the raymarcher's WebGL context, which a run of exports (the frames of an animation) can
+// share rather than each setting up and tearing down its own. Browsers only allow a handful of live WebGL contexts.
+export interface ExportResources {
+  getPool: () => RenderPool;
+  // A raymarcher drawing to a canvas of the given size, or null if WebGL is unavailable.
+  getMandelbulb: (type: Fractal3DType, width: number, height: number) => { gl: WebGLRenderingContext; renderer: MandelbulbRenderer } | null;
+  dispose: () => void;
+}
+
+export const createExportResources = (): ExportResources => {
+  let pool: RenderPool | null = null;
+  let mandelbulb: { type: Fractal3DType; gl: WebGLRenderingContext; renderer: MandelbulbRenderer } | null = null;
+
+  const releaseMandelbulb = () => {
+    mandelbulb?.renderer.dispose();
+    mandelbulb?.gl.getExtension('WEBGL_lose_context')?.loseContext();
+    mandelbulb = null;
+  };
+
+  return {
+    getPool: () => {
+      if (!pool) pool = createRenderPool();
+      return pool;
+    },
+    getMandelbulb: (type, width, height) => {
+      if (mandelbulb?.type === type && mandelbulb.gl.canvas.width === width && mandelbulb.gl.canvas.height === height) {
+        return mandelbulb;
+      }
+      releaseMandelbulb();
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const gl = canvas.getContext('webgl');
+      if (!gl) return null;
+      const renderer = createMandelbulbRenderer(gl, type);
+      if (!renderer) {
+        gl.getExtension('WEBGL_lose_context')?.loseContext();
+        return null;
+      }
+      mandelbulb = { type, gl, renderer };
+      return mandelbulb;
+    },
+    dispose: () => {
+      pool?.terminate();
+      pool = null;
+      releaseMandelbulb();
+    },
+  };
+};
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// Averages each factor x factor block of pixels into one.
+const downsample = (pixels: Uint8ClampedArray, width: number, height: number, factor: number): Uint8ClampedArray => {
+  if (factor === 1) return pixels;
+  const outWidth = width / factor;
+  const outHeight = height / factor;
+  const out = new Uint8ClampedArray(outWidth * outHeight * 4);
+  const samples = factor * factor;
+  for (let oy = 0; oy < outHeight; oy++) {
+    for (let ox = 0; ox < outWidth; ox++) {
+      let r = 0, g = 0, b = 0;
+      for (let sy = 0; sy < factor; sy++) {
+        let index = ((oy * factor + sy) * width + ox * factor) * 4;
+        for (let sx = 0; sx < factor; sx++, index += 4) {
+          r += pixels[index];
+          g += pixels[index + 1];
+          b += pixels[index + 2];
+        }
+      }
+      const outIndex = (oy * outWidth + ox) * 4;
+      out[outIndex] = r / samples;
+      out[outIndex + 1] = g / samples;
+      out[outIndex + 2] = b / samples;
+      out[outIndex + 3] = 255;
+    }
+  }
+  return out;
+};
+
+// Renders a region through the pool into a field the size of the region.
+const renderRegion = (
+  pool: RenderPool,
+  params: EscapeTimeParams,
+  region: TileRect,
+  cancellation: Cancellation,
+  onProgress: (progress: number) => void,
+): Promise<Float32Array | null> =>
+  new Promise((resolve, reject) => {
+    if (cancellation.cancelled) {
+      resolve(null);
+      return;
+    }
+    const field = new Float32Array(region.width * region.height);
+    let job: RenderJob | null = null;
+    cancellation.onCancel = () => {
+      job?.cancel();
+      resolve(null);
+    };
+    job = pool.render(params, {
+      onTile: (tile) =>
+        writeTileToFrame(colorSamples(tile.samples, params), { ...tile, x: tile.x - region.x, y: tile.y - region.y }, field, region.width),
+      onProgress,
+      onComplete: () => {
+        cancellation.onCancel = null;
+        resolve(field);
+      },
+      onError: (message) => {
+        cancellation.onCancel = null;
+        reject(new Error(message));
+      },
+    }, [region]);
+  });
+
+const createEscapeTimeBandRenderer = async (
+  params: RenderParams,
+  options: ExportOptions,
+  cancellation: Cancellation,
+  resources: ExportResources,
+): Promise<BandRenderer | null> => {
+  const { supersampling } = options;
+  const width = options.width * supersampling;
+  // The view's scale follows the image width, so scaling the width keeps the framing of the on-screen canvas.
+  const exportParams: EscapeTimeParams = { ...params, width, height: options.height * supersampling };
+  const paletteLookup = createPaletteLookup(params);
+  const pool = resources.getPool();
+
+  // Histogram equalization needs the whole frame, which is never in memory here, so the
+  // distribution is taken from a canvas-sized preview of the same framing.
+  let cdf: Float32Array | null = null;
+  if (needsFrameColoring(params.coloringAlgorithm)) {
+    const previewWidth = Math.min(params.width, options.width);
+    const previewHeight = Math.max(1, Math.round((previewWidth * options.height) / options.width));
+    const previewParams = { ...exportParams, width: previewWidth, height: previewHeight };
+    const preview = await renderRegion(pool, previewParams, { x: 0, y: 0, width: previewWidth, height: previewHeight }, cancellation, () => {});
+    if (!preview) return null;
+    cdf = buildHistogramCdf(preview, params.iterations);
+  }
+
+  return {
+    bandRows: Math.max(1, Math.floor(BAND_PIXEL_BUDGET / (width * supersampling))),
+    renderBand: async (y, rows, onProgress) => {
+      const region = { x: 0, y: y * supersampling, width, height: rows * supersampling };
+      const field = await renderRegion(pool, exportParams, region, cancellation, onProgress);
+      if (!field) return null;
+      return colorizeField(cdf ? applyHistogramCdf(field, cdf, params.iterations) : field, paletteLookup);
+    },
+    // The pool belongs to the resources.
+    dispose: () => {},
+  };
+};
+
+const createIFSBandRenderer = (params: RenderParams, options: ExportOptions): BandRenderer => {
+  const { supersampling } = options;
+  const width = options.width * supersampling;
+  const height = options.height * supersampling;
+  const paletteLookup = createPaletteLookup(params);
+  // As with histogram colouring, the brightest pixel is taken from a canvas-sized preview, since no band sees the
+  // whole frame. The chaos game aims for the same hits per pixel at any size, so the counts are comparable.
+  const previewWidth = Math.min(params.width, options.width);
+  const previewHeight = Math.max(1, Math.round((previewWidth * options.height) / options.width));
+  const maxCount = getMaxCount(accumulateIFS(
+    { ...params, width: previewWidth, height: previewHeight },
+    { x: 0, y: 0, width: previewWidth, height: previewHeight },
+  ));
+
+  return {
+    bandRows: Math.max(1, Math.floor(IFS_BAND_PIXEL_BUDGET / (width * supersampling))),
+    renderBand: async (y, rows) => {
+      const region = { x: 0, y: y * supersampling, width, height: rows * supersampling };
+      return colorizeIFS(accumulateIFS({ ...params, width, height }, region), paletteLookup, maxCount);
+    },
+    dispose: () => {},
+  };
+};
+
+const createFlameBandRenderer = (params: RenderParams, options: ExportOptions): BandRenderer => {
+  const { supersampling } = options;
+  const width = options.width * supersampling;
+  const height = options.height * supersampling;
+  // The flame's quality counts samples per exported pixel, so supersampling spreads them over more pixels.
+  const flame = { ...params.flame, quality: params.flame.quality / (supersampling * supersampling) };
+  const cellsPerRow = width * supersampling * params.flame.supersample * params.flame.supersample;
+
+  return {
+    bandRows: Math.max(1, Math.floor(FLAME_BAND_CELL_BUDGET / cellsPerRow)),
+    renderBand: async (y, rows) =>
+      renderFlameRegion({ ...params, width, height, flame }, { x: 0, y: y * supersampling, width, height: rows * supersampling }),
+    dispose: () => {},
+  };
+};
+
+// L-systems are drawn with the 2D canvas, a tile at a time; every tile draws all the lines and the canvas clips them.
+const createLSystemBandRenderer = (
+  params: RenderParams,
+  options: ExportOptions,
+  cancellation: Cancellation,
+): BandRenderer | null => {
+  const { supersampling } = options;
+  const width = options.width * supersampling;
+  const height = options.height * supersampling;
+  const bandRows = Math.max(1, Math.min(
+    Math.floor(CANVAS_TILE_SIZE / supersampling),
+    Math.floor(BAND_PIXEL_BUDGET / (width * supersampling)),
+  ));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.min(width, CANVAS_TILE_SIZE);
+  canvas.height = Math.min(options.height, bandRows) * supersampling;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  return {
+    bandRows,
+    renderBand: async (y, rows, onProgress) => {
+      const bandTop = y * supersampling;
+      const bandHeight = rows * supersampling;
+      const band = new Uint8ClampedArray(width * bandHeight * 4);
+      for (let x = 0; x < width; x += canvas.width) {
+        if (cancellation.cancelled) return null;
+        ctx.setTransform(1, 0, 0, 1, -x, -bandTop);
+        drawLSystem(ctx, { ...params, width, height });
+        const tileWidth = Math.min(canvas.width, width - x);
+        const tile = ctx.getImageData(0, 0, tileWidth, bandHeight).data;
+        for (let row = 0; row < bandHeight; row++) {
+          band.set(tile.subarray(row * tileWidth * 4, (row + 1) * tileWidth * 4), (row * width + x) * 4);
+        }
+        onProgress((x + tileWidth) / width);
+        await nextTask();
+      }
+      return band;
+    },
+    dispose: () => {},
+  };
+};
+
+const createMandelbulbBandRenderer = (
+  params: RenderParams,
+  type: Fractal3DType,
+  camera: Camera3D,
+  options: ExportOptions,
+  cancellation: Cancellation,
+  resources: ExportResources,
+): BandRenderer | null => {
+  const { supersampling } = options;
+  const fullWidth = options.width * supersampling;
+  const fullHeight = options.height * supersampling;
+  const bandRows = Math.max(1, Math.min(
+    Math.floor(GL_MAX_TILE_SIZE / supersampling),
+    Math.floor(BAND_PIXEL_BUDGET / (fullWidth * supersampling)),
+  ));
+
+  const mandelbulb = resources.getMandelbulb(type, Math.min(fullWidth, GL_MAX_TILE_SIZE), Math.min(options.height, bandRows) * supersampling);
+  if (!mandelbulb) return null;
+  const { gl, renderer } = mandelbulb;
+  const { canvas } = gl;
+
+  const view = { ...params, camera };
+  const samples = Math.max(1, params.render3D.samples);
+  const tilePixels = new Uint8Array(canvas.width * canvas.height * 4);
+
+  return {
+    bandRows,
+    renderBand: async (y, rows, onProgress) => {
+      const bandTop = y * supersampling;
+      const bandHeight = rows * supersampling;
+      const band = new Uint8ClampedArray(fullWidth * bandHeight * 4);
+      for (let x = 0; x < fullWidth; x += canvas.width) {
+        const tileWidth = Math.min(canvas.width, fullWidth - x);
+        // Each tile averages as many samples as the view refines to, so exports keep its depth of field.
+        renderer.reset();
+        for (let sample = 0; sample < samples; sample++) {
+          if (cancellation.cancelled) return null;
+          // GL's origin is bottom-left: the canvas's bottom row is the image row just below its top row plus its height.
+          renderer.addSample(view, {
+            width: fullWidth,
+            height: fullHeight,
+            fragOffset: { x, y: fullHeight - bandTop - canvas.height },
+            time: 0,
+          });
+          onProgress((x + (tileWidth * sample) / samples) / fullWidth);
+          await nextTask();
+        }
+        renderer.present();
+        gl.readPixels(0, 0, canvas.width, canvas.height, gl.RGBA, gl.UNSIGNED_BYTE, tilePixels);
+        for (let row = 0; row < bandHeight; row++) {
+          const glRow = canvas.height - 1 - row;
+          const source = tilePixels.subarray(glRow * canvas.width * 4, (glRow * canvas.width + tileWidth) * 4);
+          band.set(source, (row * fullWidth + x) * 4);
+        }
+        onProgress((x + tileWidth) / fullWidth);
+        await nextTask();
+      }
+      return band;
+    },
+    // The context belongs to the resources.
+    dispose: () => {},
+  };
+};
+
+// Renders the image band by band, passing each band of finished rows to onRows. Returns false if cancelled.
+const renderRows = async (
+  params: RenderParams,
+  camera: Camera3D,
+  options: ExportOptions,
+  cancellation: Cancellation,
+  resources: ExportResources,
+  onProgress: (progress: number) => void,
+  onRows: (rows: Uint8ClampedArray) => Promise<void> | void,
+): Promise<boolean> => {
+  const { width, height, supersampling } = options;
+  let bandRenderer: BandRenderer | null;
+  if (is3DFractal(params.fractalType)) {
+    bandRenderer = createMandelbulbBandRenderer(params, params.fractalType, camera, options, cancellation, resources);
+  } else if (isEscapeTimeFractal(params.fractalType)) {
+    bandRenderer = await createEscapeTimeBandRenderer(params, options, cancellation, resources);
+  } else if (params.fractalType === FractalType.LSystem) {
+    bandRenderer = createLSystemBandRenderer(params, options, cancellation);
+  } else if (params.fractalType === FractalType.Flame) {
+    bandRenderer = createFlameBandRenderer(params, options);
+  } else {
+    bandRenderer = createIFSBandRenderer(params, options);
+  }
+  if (!bandRenderer) {
+    if (cancellation.cancelled) return false;
+    throw new Error('This browser cannot render the image offscreen.');
+  }
+
+  try {
+    for (let y = 0; y < height; y += bandRenderer.bandRows) {
+      const rows = Math.min(bandRenderer.bandRows, height - y);
+      const bandProgress = (progress: number) => onProgress((y + rows * progress) / height);
+      const pixels = await bandRenderer.renderBand(y, rows, bandProgress);
+      if (!pixels || cancellation.cancelled) return false;
+      await onRows(downsample(pixels, width * supersampling, rows * supersampling, supersampling));
+      onProgress((y + rows) / height);
+    }
+    return true;
+  } finally {
+    bandRenderer.dispose();
+  }
+};
+
+export const createJob = <T>(run: (cancellation: Cancellation) => Promise<T | null>): ExportJob<T> => {
+  const cancellation: Cancellation = { cancelled: false, onCancel: null };
+  return {
+    done: run(cancellation),
+    cancel: () => {
+      cancellation.cancelled = true;
+      cancellation.onCancel?.();
+    },
+  };
+};
+
+// Runs an export with the given resources, or with resources of its own that it disposes of afterwards.
+const withResources = async <T>(resources: ExportResources | undefined, run: (resources: ExportResources) => Promise<T>) => {
+  const used = resources ?? createExportResources();
+  try {
+    return await run(used);
+  } finally {
+    if (!resources) used.dispose();
+  }
+};
+
+// Renders the current view at an arbitrary size, band by band, and streams it into a PNG that embeds the view settings.
+export const exportImage = (
+  params: RenderParams,
+  camera: Camera3D,
+  options: ExportOptions,
+  onProgress: (progress: number) => void,
+  resources?: ExportResources,
+): ExportJob<Blob> => createJob((cancellation) => withResources(resources, async (used) => {
+  const view = serializeView({ settings: toSavedSettings(params), camera: camera });
+  const encoder = createPngEncoder(options.width, options.height, { Software: 'Fractal Explorer', [PNG_VIEW_KEYWORD]: view });
+  const completed = await renderRows(params, camera, options, cancellation, used, onProgress, encoder.writeRows);
+  return completed ? encoder.finish() : null;
+}));
+
+// Renders the current view into memory, e.g. as a video frame. Meant for sizes a canvas could hold.
+export const renderImageData = (
+  params: RenderParams,
+  camera: Camera3D,
+  options: ExportOptions,
+  onProgress: (progress: number) => void,
+  resources?: ExportResources,
+): ExportJob<ImageData> => createJob((cancellation) => withResources(resources, async (used) => {
+  const pixels = new Uint8ClampedArray(options.width * options.height * 4);
+  let offset = 0;
+  const completed = await renderRows(params, camera, options, cancellation, used, onProgress, (rows) => {
+    pixels.set(rows, offset);
+    offset += rows.length;
+  });
+  return completed ? new ImageData(pixels, options.width, options.height) : null;
+}));
@@ -0,0 +1,417 @@
+import { AffineCoefficients, FlameSettings, FlameTransform, FlameVariation } from '../types';
+import type { TileRect } from './fractalService';
+import { createRandom, createTransformPicker, IFSView } from './ifsService';
+import { createPaletteLookup, lookupPaletteColor, PaletteLookup, PaletteSettings } from './paletteService';
+
+export interface FlameParams extends IFSView, PaletteSettings {
+  flame: FlameSettings;
+}
+
+export interface FlameRenderHandlers {
+  // Called with the tone-mapped image every so often while samples accumulate, and once more at the end.
+  onFrame: (pixels: Uint8ClampedArray) => void;
+  onProgress: (progress: number) => void;
+  onComplete: () => void;
+}
+
+export interface FlameRenderJob {
+  cancel: () => void;
+}
+
+export const MAX_FLAME_SUPERSAMPLE = 3;
+export const MIN_FLAME_QUALITY = 5;
+export const MAX_FLAME_QUALITY = 500;
+
+const EPSILON = 1e-10;
+// Each orbit starts from a random point and runs this many unplotted iterations before plotting BATCH_SIZE points.
+const FUSE_ITERATIONS = 20;
+const BATCH_SIZE = 10000;
+// A pixel's opacity is brightness * log10(1 + hits / (DENSITY_SCALE * samples per pixel)), as in flam3.
+const DENSITY_SCALE = 16;
+const BRIGHTNESS_SCALE = 268 / 256;
+const GAMMA_THRESHOLD = 0.01;
+// Progressive rendering works in slices of about this long, and redraws the canvas at most this often.
+const SLICE_DURATION = 30; // ms
+const FRAME_INTERVAL = 250; // ms
+
+type VariationFunction = (x: number, y: number, weight: number, out: Float64Array, random: () => number) => void;
+
+// The variations as defined by flam3. Like flam3, several use the angle atan2(x, y) measured from the y axis.
+const VARIATIONS: Record<FlameVariation, VariationFunction> = {
+  [FlameVariation.Linear]: (x, y, w, out) => {
+    out[0] += w * x;
+    out[1] += w * y;
+  },
+  [FlameVariation.Sinusoidal]: (x, y, w, out) => {
+    out[0] += w * Math.sin(x);
+    out[1] += w * Math.sin(y);
+  },
+  [FlameVariation.Spherical]: (x, y, w, out) => {
+    const r2 = w / (x * x + y * y + EPSILON);
+    out[0] += r2 * x;
+    out[1] += r2 * y;
+  },
+  [FlameVariation.Swirl]: (x, y, w, out) => {
+    const r2 = x * x + y * y;
+    const s = Math.sin(r2);
+    const c = Math.cos(r2);
+    out[0] += w * (x * s - y * c);
+    out[1] += w * (x * c + y * s);
+  },
+  [FlameVariation.Horseshoe]: (x, y, w, out) => {
+    const r = w / (Math.hypot(x, y) + EPSILON);
+    out[0] += r * (x - y) * (x + y);
+    out[1] += r * 2 * x * y;
+  },
+  [FlameVariation.Polar]: (x, y, w, out) => {
+    out[0] += w * Math.atan2(x, y) / Math.PI;
+    out[1] += w * (Math.hypot(x, y) - 1);
+  },
+  [FlameVariation.Handkerchief]: (x, y, w, out) => {
+    const r = Math.hypot(x, y);
+    const a = Math.atan2(x, y);
+    out[0] += w * r * Math.sin(a + r);
+    out[1] += w * r * Math.cos(a - r);
+  },
+  [FlameVariation.Heart]: (x, y, w, out) => {
+    const r = Math.hypot(x, y);
+    const a = Math.atan2(x, y) * r;
+    out[0] += w * r * Math.sin(a);
+    out[1] -= w * r * Math.cos(a);
+  },
+  [FlameVariation.Disc]: (x, y, w, out) => {
+    const a = (w * Math.atan2(x, y)) / Math.PI;
+    const r = Math.PI * Math.hypot(x, y);
+    out[0] += a * Math.sin(r);
+    out[1] += a * Math.cos(r);
+  },
+  [FlameVariation.Spiral]: (x, y, w, out) => {
+    const r = Math.hypot(x, y) + EPSILON;
+    out[0] += (w * (y / r + Math.sin(r))) / r;
+    out[1] += (w * (x / r - Math.cos(r))) / r;
+  },
+  [FlameVariation.Hyperbolic]: (x, y, w, out) => {
+    const r = Math.hypot(x, y) + EPSILON;
+    out[0] += (w * x) / (r * r);
+    out[1] += w * y;
+  },
+  [FlameVariation.Diamond]: (x, y, w, out) => {
+    const r = Math.hypot(x, y) + EPSILON;
+    out[0] += w * (x / r) * Math.cos(r);
+    out[1] += w * (y / r) * Math.sin(r);
+  },
+  [FlameVariation.Ex]: (x, y, w, out) => {
+    const r = Math.hypot(x, y);
+    const a = Math.atan2(x, y);
+    const n0 = Math.sin(a + r) ** 3;
+    const n1 = Math.cos(a - r) ** 3;
+    out[0] += w * r * (n0 + n1);
+    out[1] += w * r * (n0 - n1);
+  },
+  // Picks one of the two square roots at random.
+  [FlameVariation.Julia]: (x, y, w, out, random) => {
+    const a = Math.atan2(y, x) / 2 + (random() < 0.5 ? 0 : Math.PI);
+    const r = w * Math.sqrt(Math.hypot(x, y));
+    out[0] += r * Math.cos(a);
+    out[1] += r * Math.sin(a);
+  },
+  [FlameVariation.Bent]: (x, y, w, out) => {
+    out[0] += w * (x < 0 ? 2 * x : x);
+    out[1] += w * (y < 0 ? y / 2 : y);
+  },
+  [FlameVariation.Fisheye]: (x, y, w, out) => {
+    const r = (2 * w) / (Math.hypot(x, y) + 1);
+    out[0] += r * y;
+    out[1] += r * x;
+  },
+  [FlameVariation.Exponential]: (x, y, w, out) => {
+    const d = w * Math.exp(x - 1);
+    out[0] += d * Math.cos(Math.PI * y);
+    out[1] += d * Math.sin(Math.PI * y);
+  },
+  [FlameVariation.Power]: (x, y, w, out) => {
+    const r = Math.hypot(x, y) + EPSILON;
+    const sina = x / r;
+    const s = w * Math.pow(r, sina);
+    out[0] += s * (y / r);
+    out[1] += s * sina;
+  },
+  [FlameVariation.Cosine]: (x, y, w, out) => {
+    const a = Math.PI * x;
+    out[0] += w * Math.cos(a) * Math.cosh(y);
+    out[1] -= w * Math.sin(a) * Math.sinh(y);
+  },
+  [FlameVariation.Bubble]: (x, y, w, out) => {
+    const r = w / ((x * x + y * y) / 4 + 1);
+    out[0] += r * x;
+    out[1] += r * y;
+  },
+  [FlameVariation.Cylinder]: (x, y, w, out) => {
+    out[0] += w * Math.sin(x);
+    out[1] += w * y;
+  },
+  [FlameVariation.Eyefish]: (x, y, w, out) => {
+    const r = (2 * w) / (Math.hypot(x, y) + 1);
+    out[0] += r * x;
+    out[1] += r * y;
+  },
+  [FlameVariation.Tangent]: (x, y, w, out) => {
+    out[0] += (w * Math.sin(x)) / Math.cos(y);
+    out[1] += w * Math.tan(y);
+  },
+  [FlameVariation.Cross]: (x, y, w, out) => {
+    const s = w * Math.sqrt(1 / ((x * x - y * y) ** 2 + EPSILON));
+    out[0] += s * x;
+    out[1] += s * y;
+  },
+};
+
+export const FLAME_VARIATIONS = Object.values(FlameVariation);
+
+const transform = (
+  t: FlameTransform,
+  x: number,
+  y: number,
+  out: Float64Array,
+  random: () => number,
+  variations: [VariationFunction, number][],
+) => {
+  const ax = t.a * x + t.b * y + t.e;
+  const ay = t.c * x + t.d * y + t.f;
+  out[0] = 0;
+  out[1] = 0;
+  for (const [variation, weight] of variations) variation(ax, ay, weight, out, random);
+  if (t.post) {
+    const px = out[0];
+    out[0] = t.post.a * px + t.post.b * out[1] + t.post.e;
+    out[1] = t.post.c * px + t.post.d * out[1] + t.post.f;
+  }
+};
+
+const compileVariations = (t: FlameTransform): [VariationFunction, number][] =>
+  (Object.entries(t.variations) as [FlameVariation, number][])
+    .filter(([name, weight]) => weight !== 0 && name in VARIATIONS)
+    .map(([name, weight]) => [VARIATIONS[name], weight]);
+
+// Histogram of the supersampled region: a hit count and the summed palette colour of the points in each cell.
+interface FlameHistogram {
+  cells: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Returns a function that plays the next n samples of the flame's chaos game, recording those that land in the
+// region. The random sequence is seeded, so rendering the frame in separate regions gives matching results.
+const createFlameAccumulator = (params: FlameParams, region: TileRect, lookup: PaletteLookup) => {
+  const { width, height, zoom, panX, panY, flame } = params;
+  const { transforms, finalTransform } = flame;
+  const supersample = Math.max(1, Math.min(MAX_FLAME_SUPERSAMPLE, Math.round(flame.supersample)));
+  const histogram: FlameHistogram = {
+    cells: new Float32Array(region.width * supersample * region.height * supersample * 4),
+    width: region.width * supersample,
+    height: region.height * supersample,
+  };
+  const random = createRandom(1);
+  const pick = createTransformPicker(transforms);
+  const variations = transforms.map(compileVariations);
+  const finalVariations = finalTransform && compileVariations(finalTransform);
+  const scale = ((width * zoom) / 4) * supersample;
+  const offsetX = (width / 2 - region.x) * supersample;
+  const offsetY = (height / 2 - region.y) * supersample;
+  const point = new Float64Array(2);
+  const plotted = new Float64Array(2);
+
+  let x = 0;
+  let y = 0;
+  let color = 0;
+  let remainingInBatch = 0;
+
+  return {
+    histogram,
+    run: (samples: number) => {
+      if (transforms.length === 0) return;
+      for (let i = 0; i < samples; i++) {
+        if (remainingInBatch === 0) {
+          x = random() * 2 - 1;
+          y = random() * 2 - 1;
+          color = random();
+          for (let j = 0; j < FUSE_ITERATIONS; j++) {
+            const index = pick(random());
+            transform(transforms[index], x, y, point, random, variations[index]);
+            x = point[0];
+            y = point[1];
+            color += (transforms[index].color - color) * transforms[index].colorSpeed;
+          }
+          remainingInBatch = BATCH_SIZE;
+        }
+        remainingInBatch--;
+
+        const index = pick(random());
+        const t = transforms[index];
+        transform(t, x, y, point, random, variations[index]);
+        // An orbit that blows up is abandoned; the next batch starts a fresh one.
+        if (!Number.isFinite(point[0]) || !Number.isFinite(point[1])) {
+          remainingInBatch = 0;
+          continue;
+        }
+        x = point[0];
+        y = point[1];
+        color += (t.color - color) * t.colorSpeed;
+
+        let plotX = x;
+        let plotY = y;
+        let plotColor = color;
+        if (finalTransform && finalVariations) {
+          transform(finalTransform, x, y, plotted, random, finalVariations);
+          plotX = plotted[0];
+          plotY = plotted[1];
+          plotColor += (finalTransform.color - plotColor) * finalTransform.colorSpeed;
+        }
+
+        const cx = Math.floor((plotX + panX) * scale + offsetX);
+        const cy = Math.floor((plotY + panY) * scale + offsetY);
+        if (cx < 0 || cy < 0 || cx >= histogram.width || cy >= histogram.height) continue;
+        const [r, g, b] = lookupPaletteColor(lookup, plotColor);
+        const cell = (cy * histogram.width + cx) * 4;
+        histogram.cells[cell] += r;
+        histogram.cells[cell + 1] += g;
+        histogram.cells[cell + 2] += b;
+        histogram.cells[cell + 3]++;
+      }
+    },
+  };
+};
+
+const getTotalSamples = (params: FlameParams) => Math.max(1, Math.round(params.flame.quality * params.width * params.height));
+
+// Log-density tone mapping as in flam3. samplesPerPixel is over the whole frame, so separately rendered regions
+// are exposed alike.
+const toneMap = (histogram: FlameHistogram, supersample: number, flame: FlameSettings, samplesPerPixel: number) => {
+  const outWidth = histogram.width / supersample;
+  const outHeight = histogram.height / supersample;
+  const pixels = new Uint8ClampedArray(outWidth * outHeight * 4);
+  const k2 = 1 / (DENSITY_SCALE * Math.max(samplesPerPixel, EPSILON));
+  const inverseGamma = 1 / Math.max(flame.gamma, EPSILON);
+  const vibrancy = Math.max(0, Math.min(1, flame.vibrancy));
+  const { cells } = histogram;
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    for (let ox = 0; ox < outWidth; ox++) {
+      let r = 0, g = 0, b = 0, count = 0;
+      for (let sy = 0; sy < supersample; sy++) {
+        let cell = ((oy * supersample + sy) * histogram.width + ox * supersample) * 4;
+        for (let sx = 0; sx < supersample; sx++, cell += 4) {
+          r += cells[cell];
+          g += cells[cell + 1];
+          b += cells[cell + 2];
+          count += cells[cell + 3];
+        }
+      }
+      const pixel = (oy * outWidth + ox) * 4;
+      pixels[pixel + 3] = 255;
+      if (count === 0) continue;
+
+      const alpha = flame.brightness * BRIGHTNESS_SCALE * Math.log10(1 + count * k2);
+      // Below the threshold, blend towards a linear response so sparse pixels are not amplified into noise.
+      let scale = Math.pow(alpha, inverseGamma);
+      if (alpha < GAMMA_THRESHOLD) {
+        const fraction = alpha / GAMMA_THRESHOLD;
+        scale = (1 - fraction) * alpha * (Math.pow(GAMMA_THRESHOLD, inverseGamma) / GAMMA_THRESHOLD) + fraction * scale;
+      }
+      [r / count, g / count, b / count].forEach((channel, i) => {
+        const perChannel = 255 * Math.pow((alpha * channel) / 255, inverseGamma);
+        pixels[pixel + i] = vibrancy * scale * channel + (1 - vibrancy) * perChannel;
+      });
+    }
+  }
+  return pixels;
+};
+
+// Renders a region of the frame in one go, as RGBA rows.
+export const renderFlameRegion = (params: FlameParams, region: TileRect): Uint8ClampedArray => {
+  const accumulator = createFlameAccumulator(params, region, createPaletteLookup(params));
+  const totalSamples = getTotalSamples(params);
+  accumulator.run(totalSamples);
+  const supersample = accumulator.histogram.width / region.width;
+  return toneMap(accumulator.histogram, supersample, params.flame, totalSamples / (params.width * params.height));
+};
+
+// Renders the whole frame in slices between browser tasks, showing the image as it sharpens.
+export const renderFlameProgressively = (params: FlameParams, handlers: FlameRenderHandlers): FlameRenderJob => {
+  const { width, height } = params;
+  const accumulator = createFlameAccumulator(params, { x: 0, y: 0, width, height }, createPaletteLookup(params));
+  const supersample = accumulator.histogram.width / width;
+  const totalSamples = getTotalSamples(params);
+  let samplesDone = 0;
+  let samplesPerSlice = 20000;
+  // The first slice is shown straight away, so dragging the view gives immediate feedback.
+  let lastFrameTime = -Infinity;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const showFrame = () =>
+    handlers.onFrame(toneMap(accumulator.histogram, supersample, params.flame, samplesDone / (width * height)));
+
+  const step = () => {
+    const start = performance.now();
+    const samples = Math.min(samplesPerSlice, totalSamples - samplesDone);
+    accumulator.run(samples);
+    samplesDone += samples;
+    // Aim the next slice at the target duration.
+    const elapsed = performance.now() - start;
+    samplesPerSlice = Math.max(1000, Math.round(samplesPerSlice * Math.min(4, SLICE_DURATION / Math.max(elapsed, 1))));
+
+    if (samplesDone >= totalSamples) {
+      timeout = null;
+      showFrame();
+      handlers.onComplete();
+      return;
+    }
+    handlers.onProgress(samplesDone / totalSamples);
+    if (performance.now() - lastFrameTime >= FRAME_INTERVAL) {
+      showFrame();
+      lastFrameTime = performance.now();
+    }
+    timeout = setTimeout(step, 0);
+  };
+
+  handlers.onProgress(0);
+  timeout = setTimeout(step, 0);
+  return {
+    cancel: () => {
+      if (timeout !== null) clearTimeout(timeout);
+      timeout = null;
+    },
+  };
+};
+
+const identity = (): AffineCoefficients => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 });
+
+export const createFlameTransform = (changes: Partial<FlameTransform> = {}): FlameTransform => ({
+  ...identity(),
+  probability: 1,
+  color: 0,
+  colorSpeed: 0.5,
+  variations: { [FlameVariation.Linear]: 1 },
+  post: null,
+  ...changes,
+});
+
+// Three swirled Sierpinski maps and a rotating spherical/julia map.
+export const DEFAULT_FLAME: FlameSettings = {
+  transforms: [
+    ...[[-0.6, -0.45, 0], [0.6, -0.45, 0.5], [0, 0.6, 1]].map(([e, f, color]) => createFlameTransform({
+      a: 0.5, d: 0.5, e, f, color,
+      variations: { [FlameVariation.Linear]: 0.6, [FlameVariation.Swirl]: 0.4 },
+    })),
+    createFlameTransform({
+      a: 0.6, b: -0.8, c: 0.8, d: 0.6, probability: 0.4, color: 0.3,
+      variations: { [FlameVariation.Spherical]: 0.5, [FlameVariation.Julia]: 0.5 },
+    }),
+  ],
+  finalTransform: null,
+  gamma: 4,
+  brightness: 4,
+  vibrancy: 1,
+  supersample: 2,
+  quality: 50,
+};
@@ -0,0 +1,189 @@
+import { AffineCoefficients, FlameSettings, FlameTransform, FlameVariation, GradientInterpolation, PaletteGradient } from '../types';
+import { createFlameTransform, DEFAULT_FLAME, FlameParams, MAX_FLAME_QUALITY, MAX_FLAME_SUPERSAMPLE, MIN_FLAME_QUALITY } from './flameService';
+import { MAX_IFS_TRANSFORMS } from './ifsService';
+import { createPaletteLookup, lookupPaletteColor } from './paletteService';
+
+// A flame read from a .flame file (the XML written by flam3, Apophysis and JWildfire).
+export interface FlameDocument {
+  name: string;
+  flame: FlameSettings;
+  palette: PaletteGradient | null;
+  view: { panX: number; panY: number; zoom: number } | null;
+  // Variations in the file that this renderer does not have; transforms still render with the rest.
+  unsupportedVariations: string[];
+}
+
+const PALETTE_SIZE = 256;
+const VARIATION_NAMES = new Set<string>(Object.values(FlameVariation));
+// Attributes of <xform> that are not variation weights.
+const XFORM_ATTRIBUTES = new Set([
+  'weight', 'color', 'color_speed', 'symmetry', 'coefs', 'post', 'opacity', 'animate', 'name', 'var_color',
+  'motion_frequency', 'motion_function', 'chaos', 'plotmode', 'var', 'var1',
+]);
+
+const readNumbers = (element: Element, name: string): number[] | null => {
+  const value = element.getAttribute(name);
+  if (value === null) return null;
+  const numbers = value.trim().split(/\s+/).map(Number);
+  return numbers.every(Number.isFinite) ? numbers : null;
+};
+
+const readNumber = (element: Element, name: string, fallback: number) => readNumbers(element, name)?.[0] ?? fallback;
+
+// flam3 lists the coefficients column by column: x' = c0 x + c2 y + c4, y' = c1 x + c3 y + c5.
+const readAffine = (element: Element, name: string): AffineCoefficients | null => {
+  const coefs = readNumbers(element, name);
+  if (!coefs || coefs.length !== 6) return null;
+  const [a, c, b, d, e, f] = coefs;
+  return { a, b, c, d, e, f };
+};
+
+const formatAffine = ({ a, b, c, d, e, f }: AffineCoefficients) => [a, c, b, d, e, f].map(formatNumber).join(' ');
+
+const formatNumber = (value: number) => String(Number(value.toPrecision(8)));
+
+const isIdentity = ({ a, b, c, d, e, f }: AffineCoefficients) => a === 1 && b === 0 && c === 0 && d === 1 && e === 0 && f === 0;
+
+const readTransform = (element: Element, unsupported: Set<string>): FlameTransform => {
+  const variations: FlameTransform['variations'] = {};
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    if (XFORM_ATTRIBUTES.has(name)) return;
+    if (VARIATION_NAMES.has(name)) {
+      const weight = Number(value);
+      if (Number.isFinite(weight) && weight !== 0) variations[name as FlameVariation] = weight;
+    } else if (!name.includes('_')) {
+      // Parametric variations carry their parameters as name_param attributes, which are not reported separately.
+      unsupported.add(name);
+    }
+  });
+  // Older files give a symmetry instead, where 0 means the classic halfway blend and 1 leaves the colour alone.
+  const symmetry = readNumbers(element, 'symmetry')?.[0];
+  const colorSpeed = readNumbers(element, 'color_speed')?.[0] ?? (symmetry !== undefined ? (1 - symmetry) / 2 : 0.5);
+  const post = readAffine(element, 'post');
+  return createFlameTransform({
+    ...(readAffine(element, 'coefs') ?? {}),
+    probability: Math.max(0, readNumber(element, 'weight', 1)),
+    color: Math.max(0, Math.min(1, readNumber(element, 'color', 0))),
+    colorSpeed: Math.max(0, Math.min(1, colorSpeed)),
+    variations,
+    post: post && !isIdentity(post) ? post : null,
+  });
+};
+
+// Palettes come either as <color index="i" rgb="r g b"/> entries or as a <palette> block of hex digits.
+const readPalette = (flameElement: Element, name: string): PaletteGradient | null => {
+  const colors: [number, number, number][] = [];
+  flameElement.querySelectorAll('color').forEach((element) => {
+    const index = readNumber(element, 'index', colors.length);
+    const rgb = readNumbers(element, 'rgb');
+    if (rgb?.length === 3 && index >= 0 && index < PALETTE_SIZE) {
+      colors[index] = rgb.map((channel) => Math.max(0, Math.min(255, Math.round(channel)))) as [number, number, number];
+    }
+  });
+  const block = flameElement.querySelector('palette');
+  if (colors.length === 0 && block) {
+    const hex = (block.textContent ?? '').replace(/[^0-9a-f]/gi, '');
+    const count = readNumber(block, 'count', PALETTE_SIZE);
+    // Some writers prefix every colour with an alpha byte.
+    const digits = hex.length >= count * 8 ? 8 : 6;
+    for (let i = 0; i < count && (i + 1) * digits <= hex.length; i++) {
+      const entry = hex.slice(i * digits + digits - 6, (i + 1) * digits);
+      colors.push([0, 2, 4].map((offset) => parseInt(entry.slice(offset, offset + 2), 16)) as [number, number, number]);
+    }
+  }
+  const filled = colors.filter(Boolean);
+  if (filled.length < 2) return null;
+  return {
+    name,
+    stops: filled.map((color, i) => ({ position: i / (filled.length - 1), color })),
+    interpolation: GradientInterpolation.RGB,
+  };
+};
+
+export const parseFlameXml = (text: string): FlameDocument => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const flameElement = document.querySelector('flame');
+  if (document.querySelector('parsererror') || !flameElement) {
+    throw new Error('The file is not a .flame file: no <flame> element was found.');
+  }
+  const unsupported = new Set<string>();
+  const transforms = Array.from(flameElement.querySelectorAll('xform'))
+    .slice(0, MAX_IFS_TRANSFORMS)
+    .map((element) => readTransform(element, unsupported));
+  if (transforms.length === 0) {
+    throw new Error('The flame has no transforms.');
+  }
+  const finalElement = flameElement.querySelector('finalxform');
+  const name = flameElement.getAttribute('name') || 'Imported flame';
+
+  // The camera: size in pixels, the centre in flame coordinates, and pixels per unit as scale * 2^zoom. The view keeps
+  // the file's horizontal framing.
+  const size = readNumbers(flameElement, 'size');
+  const center = readNumbers(flameElement, 'center');
+  const scale = readNumber(flameElement, 'scale', 0) * Math.pow(2, readNumber(flameElement, 'zoom', 0));
+  const view = size && size[0] > 0 && scale > 0
+    ? { panX: -(center?.[0] ?? 0), panY: -(center?.[1] ?? 0), zoom: (4 * scale) / size[0] }
+    : null;
+
+  return {
+    name,
+    flame: {
+      transforms,
+      finalTransform: finalElement ? { ...readTransform(finalElement, unsupported), probability: 1 } : null,
+      gamma: Math.max(0.1, readNumber(flameElement, 'gamma', DEFAULT_FLAME.gamma)),
+      brightness: Math.max(0, readNumber(flameElement, 'brightness', DEFAULT_FLAME.brightness)),
+      vibrancy: Math.max(0, Math.min(1, readNumber(flameElement, 'vibrancy', DEFAULT_FLAME.vibrancy))),
+      supersample: Math.max(1, Math.min(MAX_FLAME_SUPERSAMPLE, Math.round(readNumber(flameElement, 'oversample', DEFAULT_FLAME.supersample)))),
+      quality: Math.max(MIN_FLAME_QUALITY, Math.min(MAX_FLAME_QUALITY, readNumber(flameElement, 'quality', DEFAULT_FLAME.quality))),
+    },
+    palette: readPalette(flameElement, name),
+    view,
+    unsupportedVariations: [...unsupported],
+  };
+};
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const serializeTransform = (tag: string, t: FlameTransform) => {
+  const attributes = [
+    tag === 'xform' ? `weight="${formatNumber(t.probability)}"` : '',
+    `color="${formatNumber(t.color)}"`,
+    `color_speed="${formatNumber(t.colorSpeed)}"`,
+    ...Object.entries(t.variations).map(([name, weight]) => `${name}="${formatNumber(weight ?? 0)}"`),
+    `coefs="${formatAffine(t)}"`,
+    t.post ? `post="${formatAffine(t.post)}"` : '',
+  ].filter(Boolean);
+  return `  <${tag} ${attributes.join(' ')}/>`;
+};
+
+// Writes the flame with the current view and palette. The palette mapping (offset, repeat, density) is baked into
+// the 256 colours, so other programs show the same colours.
+export const serializeFlameXml = (params: FlameParams, name: string): string => {
+  const { flame, width, height, zoom, panX, panY } = params;
+  const lookup = createPaletteLookup(params);
+  const colors = Array.from({ length: PALETTE_SIZE }, (_, i) => {
+    const [r, g, b] = lookupPaletteColor(lookup, i / (PALETTE_SIZE - 1));
+    return `  <color index="${i}" rgb="${r} ${g} ${b}"/>`;
+  });
+  const attributes = [
+    `name="${escapeAttribute(name)}"`,
+    `size="${width} ${height}"`,
+    `center="${formatNumber(-panX)} ${formatNumber(-panY)}"`,
+    `scale="${formatNumber((width * zoom) / 4)}"`,
+    `oversample="${flame.supersample}"`,
+    `quality="${formatNumber(flame.quality)}"`,
+    `brightness="${formatNumber(flame.brightness)}"`,
+    `gamma="${formatNumber(flame.gamma)}"`,
+    `vibrancy="${formatNumber(flame.vibrancy)}"`,
+    'background="0 0 0"',
+  ];
+  return [
+    `<flame ${attributes.join(' ')}>`,
+    ...flame.transforms.map((t) => serializeTransform('xform', t)),
+    ...(flame.finalTransform ? [serializeTransform('finalxform', flame.finalTransform)] : []),
+    ...colors,
+    '</flame>',
+    '',
+  ].join('\n');
+};
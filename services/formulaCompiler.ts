@@ -0,0 +1,412 @@
+import { BailoutCondition, FormulaFunction, FormulaNode, FormulaVariable, parseBailout, parseFormula } from './formulaParser';
+
+// Integer powers up to this size are unrolled into multiplications, which is faster and exact at z = 0.
+const MAX_UNROLLED_POWER = 32;
+
+// Complex arithmetic for one code generator. Values are the generated expressions (JS number pairs or GLSL vec2s);
+// every operation emits its statements into the generator and returns the expression holding the result.
+interface ComplexOps<T> {
+  constant: (re: number, im: number) => T;
+  add: (a: T, b: T) => T;
+  subtract: (a: T, b: T) => T;
+  multiply: (a: T, b: T) => T;
+  divide: (a: T, b: T) => T;
+  negate: (a: T) => T;
+  call: (name: FormulaFunction, a: T) => T;
+  realPower: (a: T, exponent: number) => T;
+  power: (a: T, b: T) => T;
+}
+
+// A value and its derivative along the orbit; a null derivative is identically zero.
+interface Dual<T> {
+  value: T;
+  derivative: T | null;
+}
+
+const constantNodeValue = (node: FormulaNode): number | null => {
+  if (node.kind === 'number') return node.value;
+  if (node.kind === 'negate') {
+    const value = constantNodeValue(node.operand);
+    return value === null ? null : -value;
+  }
+  return null;
+};
+
+// Walks the tree, applying the chain rule alongside each operation when derivatives are wanted.
+const emitNode = <T>(ops: ComplexOps<T>, node: FormulaNode, inputs: Record<FormulaVariable, Dual<T>>): Dual<T> => {
+  const emit = (child: FormulaNode) => emitNode(ops, child, inputs);
+  const chain = (factor: () => T, derivative: T | null) => (derivative === null ? null : ops.multiply(factor(), derivative));
+
+  switch (node.kind) {
+    case 'number':
+      return { value: ops.constant(node.value, 0), derivative: null };
+    case 'constant':
+      switch (node.name) {
+        case 'i':
+          return { value: ops.constant(0, 1), derivative: null };
+        case 'pi':
+          return { value: ops.constant(Math.PI, 0), derivative: null };
+        case 'e':
+        default:
+          return { value: ops.constant(Math.E, 0), derivative: null };
+      }
+    case 'variable':
+      return inputs[node.name];
+    case 'negate': {
+      const operand = emit(node.operand);
+      return { value: ops.negate(operand.value), derivative: operand.derivative && ops.negate(operand.derivative) };
+    }
+    case 'binary': {
+      const exponent = node.operator === '^' ? constantNodeValue(node.right) : null;
+      if (exponent !== null) {
+        return emitRealPower(ops, emit(node.left), exponent);
+      }
+      const a = emit(node.left);
+      const b = emit(node.right);
+      const da = a.derivative;
+      const db = b.derivative;
+      switch (node.operator) {
+        case '+':
+          return { value: ops.add(a.value, b.value), derivative: da && db ? ops.add(da, db) : da ?? db };
+        case '-':
+          return {
+            value: ops.subtract(a.value, b.value),
+            derivative: da && db ? ops.subtract(da, db) : da ?? (db && ops.negate(db)),
+          };
+        case '*': {
+          const left = chain(() => b.value, da);
+          const right = chain(() => a.value, db);
+          return { value: ops.multiply(a.value, b.value), derivative: left && right ? ops.add(left, right) : left ?? right };
+        }
+        case '/': {
+          const value = ops.divide(a.value, b.value);
+          // (a/b)' = (a' - (a/b) b') / b
+          const numerator = da && db
+            ? ops.subtract(da, ops.multiply(value, db))
+            : da ?? (db && ops.negate(ops.multiply(value, db)));
+          return { value, derivative: numerator && ops.divide(numerator, b.value) };
+        }
+        case '^':
+        default: {
+          // (a^b)' = b a^(b - 1) a' + a^b log(a) b', written so that it stays finite at a = 0 when b > 1.
+          const value = ops.power(a.value, b.value);
+          const baseTerm = da && ops.multiply(
+            ops.multiply(b.value, ops.power(a.value, ops.subtract(b.value, ops.constant(1, 0)))), da);
+          const logTerm = chain(() => ops.multiply(value, ops.call('log', a.value)), db);
+          return { value, derivative: baseTerm && logTerm ? ops.add(baseTerm, logTerm) : baseTerm ?? logTerm };
+        }
+      }
+    }
+    case 'call':
+    default:
+      return emitCall(ops, node.name, emit(node.argument));
+  }
+};
+
+const emitRealPower = <T>(ops: ComplexOps<T>, base: Dual<T>, exponent: number): Dual<T> => {
+  const powerOf = (k: number): T => {
+    if (!Number.isInteger(k) || Math.abs(k) > MAX_UNROLLED_POWER) return ops.realPower(base.value, k);
+    if (k < 0) return ops.divide(ops.constant(1, 0), powerOf(-k));
+    // Square-and-multiply.
+    let result: T | null = null;
+    let square = base.value;
+    for (let remaining = k; remaining > 0; remaining >>= 1) {
+      if (remaining & 1) result = result === null ? square : ops.multiply(result, square);
+      if (remaining > 1) square = ops.multiply(square, square);
+    }
+    return result ?? ops.constant(1, 0);
+  };
+  return {
+    value: powerOf(exponent),
+    derivative: exponent === 0 || base.derivative === null
+      ? null
+      : ops.multiply(ops.multiply(ops.constant(exponent, 0), powerOf(exponent - 1)), base.derivative),
+  };
+};
+
+const emitCall = <T>(ops: ComplexOps<T>, name: FormulaFunction, argument: Dual<T>): Dual<T> => {
+  const a = argument.value;
+  const da = argument.derivative;
+  const value = ops.call(name, a);
+  if (da === null) return { value, derivative: null };
+  const one = () => ops.constant(1, 0);
+
+  let derivative: T;
+  switch (name) {
+    case 'sin':
+      derivative = ops.multiply(ops.call('cos', a), da);
+      break;
+    case 'cos':
+      derivative = ops.negate(ops.multiply(ops.call('sin', a), da));
+      break;
+    case 'tan':
+      derivative = ops.multiply(ops.add(one(), ops.multiply(value, value)), da);
+      break;
+    case 'sinh':
+      derivative = ops.multiply(ops.call('cosh', a), da);
+      break;
+    case 'cosh':
+      derivative = ops.multiply(ops.call('sinh', a), da);
+      break;
+    case 'tanh':
+      derivative = ops.multiply(ops.subtract(one(), ops.multiply(value, value)), da);
+      break;
+    case 'exp':
+      derivative = ops.multiply(value, da);
+      break;
+    case 'log':
+      derivative = ops.divide(da, a);
+      break;
+    case 'sqrt':
+      derivative = ops.divide(da, ops.multiply(ops.constant(2, 0), value));
+      break;
+    // The rest are not holomorphic; these are the derivatives along the direction the orbit moves.
+    case 'abs':
+      derivative = ops.divide(ops.call('re', ops.multiply(ops.call('conj', a), da)), value);
+      break;
+    case 'arg':
+      derivative = ops.divide(ops.call('im', ops.multiply(ops.call('conj', a), da)), ops.multiply(ops.call('abs', a), ops.call('abs', a)));
+      break;
+    case 're':
+      derivative = ops.call('re', da);
+      break;
+    case 'im':
+      derivative = ops.call('im', da);
+      break;
+    case 'conj':
+    default:
+      derivative = ops.call('conj', da);
+  }
+  return { value, derivative };
+};
+
+interface JsPair {
+  re: string;
+  im: string;
+}
+
+const createJsOps = (lines: string[]): ComplexOps<JsPair> => {
+  let count = 0;
+  const temp = (expression: string) => {
+    const name = `t${count++}`;
+    lines.push(`const ${name} = ${expression};`);
+    return name;
+  };
+  const pair = (re: string, im: string): JsPair => ({ re: temp(re), im: temp(im) });
+  const polar = (modulus: string, angle: string) => {
+    const m = temp(modulus);
+    const t = temp(angle);
+    return pair(`${m} * Math.cos(${t})`, `${m} * Math.sin(${t})`);
+  };
+  const literal = (value: number) => `(${value})`;
+
+  return {
+    constant: (re, im) => ({ re: literal(re), im: literal(im) }),
+    add: (a, b) => pair(`${a.re} + ${b.re}`, `${a.im} + ${b.im}`),
+    subtract: (a, b) => pair(`${a.re} - ${b.re}`, `${a.im} - ${b.im}`),
+    multiply: (a, b) => pair(`${a.re} * ${b.re} - ${a.im} * ${b.im}`, `${a.re} * ${b.im} + ${a.im} * ${b.re}`),
+    divide: (a, b) => {
+      const d = temp(`${b.re} * ${b.re} + ${b.im} * ${b.im}`);
+      return pair(`(${a.re} * ${b.re} + ${a.im} * ${b.im}) / ${d}`, `(${a.im} * ${b.re} - ${a.re} * ${b.im}) / ${d}`);
+    },
+    negate: (a) => pair(`-${a.re}`, `-${a.im}`),
+    realPower: (a, exponent) =>
+      polar(`Math.pow(Math.hypot(${a.re}, ${a.im}), ${literal(exponent)})`, `${literal(exponent)} * Math.atan2(${a.im}, ${a.re})`),
+    power: (a, b) => {
+      // exp(b log a), with 0^b = 0.
+      const isZero = temp(`${a.re} === 0 && ${a.im} === 0`);
+      const logRe = temp(`Math.log(Math.hypot(${a.re}, ${a.im}))`);
+      const logIm = temp(`Math.atan2(${a.im}, ${a.re})`);
+      const m = temp(`${isZero} ? 0 : Math.exp(${b.re} * ${logRe} - ${b.im} * ${logIm})`);
+      const t = temp(`${isZero} ? 0 : ${b.re} * ${logIm} + ${b.im} * ${logRe}`);
+      return pair(`${m} * Math.cos(${t})`, `${m} * Math.sin(${t})`);
+    },
+    call: (name, a) => {
+      switch (name) {
+        case 'sin':
+          return pair(`Math.sin(${a.re}) * Math.cosh(${a.im})`, `Math.cos(${a.re}) * Math.sinh(${a.im})`);
+        case 'cos':
+          return pair(`Math.cos(${a.re}) * Math.cosh(${a.im})`, `-Math.sin(${a.re}) * Math.sinh(${a.im})`);
+        case 'tan': {
+          const d = temp(`Math.cos(2 * ${a.re}) + Math.cosh(2 * ${a.im})`);
+          return pair(`Math.sin(2 * ${a.re}) / ${d}`, `Math.sinh(2 * ${a.im}) / ${d}`);
+        }
+        case 'sinh':
+          return pair(`Math.sinh(${a.re}) * Math.cos(${a.im})`, `Math.cosh(${a.re}) * Math.sin(${a.im})`);
+        case 'cosh':
+          return pair(`Math.cosh(${a.re}) * Math.cos(${a.im})`, `Math.sinh(${a.re}) * Math.sin(${a.im})`);
+        case 'tanh': {
+          const d = temp(`Math.cosh(2 * ${a.re}) + Math.cos(2 * ${a.im})`);
+          return pair(`Math.sinh(2 * ${a.re}) / ${d}`, `Math.sin(2 * ${a.im}) / ${d}`);
+        }
+        case 'exp':
+          return polar(`Math.exp(${a.re})`, a.im);
+        case 'log':
+          return pair(`Math.log(Math.hypot(${a.re}, ${a.im}))`, `Math.atan2(${a.im}, ${a.re})`);
+        case 'sqrt':
+          return polar(`Math.sqrt(Math.hypot(${a.re}, ${a.im}))`, `Math.atan2(${a.im}, ${a.re}) / 2`);
+        case 'abs':
+          return { re: temp(`Math.hypot(${a.re}, ${a.im})`), im: '0' };
+        case 'arg':
+          return { re: temp(`Math.atan2(${a.im}, ${a.re})`), im: '0' };
+        case 're':
+          return { re: a.re, im: '0' };
+        case 'im':
+          return { re: a.im, im: '0' };
+        case 'conj':
+        default:
+          return { re: a.re, im: temp(`-${a.im}`) };
+      }
+    },
+  };
+};
+
+// Advances (z, dz) by one iteration; writes z into out[0..1] and dz/dc (or dz/dz0) into out[2..3].
+export type FormulaStep = (
+  zr: number, zi: number, cr: number, ci: number, n: number, dzr: number, dzi: number, dc: number, out: Float64Array,
+) => void;
+
+export type BailoutTest = (zr: number, zi: number, cr: number, ci: number, n: number) => boolean;
+
+export interface CompiledFormula {
+  step: FormulaStep;
+  escaped: BailoutTest;
+}
+
+const compileJsStep = (node: FormulaNode, withDerivative: boolean): FormulaStep => {
+  const lines: string[] = [];
+  const ops = createJsOps(lines);
+  const result = emitNode(ops, node, {
+    z: { value: { re: 'zr', im: 'zi' }, derivative: withDerivative ? { re: 'dzr', im: 'dzi' } : null },
+    c: { value: { re: 'cr', im: 'ci' }, derivative: withDerivative ? { re: 'dc', im: '0' } : null },
+    n: { value: { re: 'n', im: '0' }, derivative: null },
+  });
+  const derivative = result.derivative ?? { re: '0', im: '0' };
+  lines.push(`out[0] = ${result.value.re};`, `out[1] = ${result.value.im};`);
+  lines.push(`out[2] = ${derivative.re};`, `out[3] = ${derivative.im};`);
+  return new Function('zr', 'zi', 'cr', 'ci', 'n', 'dzr', 'dzi', 'dc', 'out', lines.join('\n')) as FormulaStep;
+};
+
+const compileJsBailout = (condition: BailoutCondition): BailoutTest => {
+  const lines: string[] = [];
+  const ops = createJsOps(lines);
+  const inputs = {
+    z: { value: { re: 'zr', im: 'zi' }, derivative: null },
+    c: { value: { re: 'cr', im: 'ci' }, derivative: null },
+    n: { value: { re: 'n', im: '0' }, derivative: null },
+  };
+  const left = emitNode(ops, condition.left, inputs).value;
+  const right = emitNode(ops, condition.right, inputs).value;
+  lines.push(`return ${left.re} ${condition.operator} ${right.re};`);
+  return new Function('zr', 'zi', 'cr', 'ci', 'n', lines.join('\n')) as BailoutTest;
+};
+
+let cachedFormula: { key: string; compiled: CompiledFormula } | null = null;
+
+// Compiles a formula and bailout condition (which must already be valid) into JavaScript for the CPU renderer.
+export const compileFormula = (formula: string, bailout: string, withDerivative: boolean): CompiledFormula => {
+  const key = `${withDerivative}|${formula}|${bailout}`;
+  if (!cachedFormula || cachedFormula.key !== key) {
+    cachedFormula = {
+      key,
+      compiled: {
+        step: compileJsStep(parseFormula(formula), withDerivative),
+        escaped: compileJsBailout(parseBailout(bailout)),
+      },
+    };
+  }
+  return cachedFormula.compiled;
+};
+
+const glslFloat = (value: number) => {
+  const text = String(value);
+  return /[.e]/.test(text) ? text : `${text}.0`;
+};
+
+// Helpers the generated GLSL calls. GLSL ES 1.0 has no hyperbolic functions, so they are built from exp().
+export const GLSL_COMPLEX_LIBRARY = `
+  float fsinh(float x) { return 0.5 * (exp(x) - exp(-x)); }
+  float fcosh(float x) { return 0.5 * (exp(x) + exp(-x)); }
+  vec2 cmul(vec2 a, vec2 b) { return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x); }
+  vec2 cdiv(vec2 a, vec2 b) { return vec2(a.x * b.x + a.y * b.y, a.y * b.x - a.x * b.y) / dot(b, b); }
+  float carg(vec2 a) { return dot(a, a) == 0.0 ? 0.0 : atan(a.y, a.x); }
+  vec2 cpolar(float m, float t) { return m * vec2(cos(t), sin(t)); }
+  vec2 cexp(vec2 a) { return cpolar(exp(a.x), a.y); }
+  vec2 clog(vec2 a) { return vec2(log(length(a)), carg(a)); }
+  vec2 csqrt(vec2 a) { return cpolar(sqrt(length(a)), 0.5 * carg(a)); }
+  vec2 csin(vec2 a) { return vec2(sin(a.x) * fcosh(a.y), cos(a.x) * fsinh(a.y)); }
+  vec2 ccos(vec2 a) { return vec2(cos(a.x) * fcosh(a.y), -sin(a.x) * fsinh(a.y)); }
+  vec2 ctan(vec2 a) { return vec2(sin(2.0 * a.x), fsinh(2.0 * a.y)) / (cos(2.0 * a.x) + fcosh(2.0 * a.y)); }
+  vec2 csinh(vec2 a) { return vec2(fsinh(a.x) * cos(a.y), fcosh(a.x) * sin(a.y)); }
+  vec2 ccosh(vec2 a) { return vec2(fcosh(a.x) * cos(a.y), fsinh(a.x) * sin(a.y)); }
+  vec2 ctanh(vec2 a) { return vec2(fsinh(2.0 * a.x), sin(2.0 * a.y)) / (fcosh(2.0 * a.x) + cos(2.0 * a.y)); }
+  vec2 crealpow(vec2 a, float k) { return dot(a, a) == 0.0 ? vec2(0.0) : cpolar(pow(length(a), k), k * carg(a)); }
+  vec2 cpow(vec2 a, vec2 b) { return dot(a, a) == 0.0 ? vec2(0.0) : cexp(cmul(b, clog(a))); }
+`;
+
+const createGlslOps = (lines: string[]): ComplexOps<string> => {
+  let count = 0;
+  const temp = (expression: string) => {
+    const name = `t${count++}`;
+    lines.push(`vec2 ${name} = ${expression};`);
+    return name;
+  };
+  const functionNames: Record<FormulaFunction, (a: string) => string> = {
+    sin: (a) => `csin(${a})`,
+    cos: (a) => `ccos(${a})`,
+    tan: (a) => `ctan(${a})`,
+    sinh: (a) => `csinh(${a})`,
+    cosh: (a) => `ccosh(${a})`,
+    tanh: (a) => `ctanh(${a})`,
+    exp: (a) => `cexp(${a})`,
+    log: (a) => `clog(${a})`,
+    sqrt: (a) => `csqrt(${a})`,
+    abs: (a) => `vec2(length(${a}), 0.0)`,
+    arg: (a) => `vec2(carg(${a}), 0.0)`,
+    re: (a) => `vec2(${a}.x, 0.0)`,
+    im: (a) => `vec2(${a}.y, 0.0)`,
+    conj: (a) => `vec2(${a}.x, -${a}.y)`,
+  };
+
+  return {
+    constant: (re, im) => `vec2(${glslFloat(re)}, ${glslFloat(im)})`,
+    add: (a, b) => temp(`${a} + ${b}`),
+    subtract: (a, b) => temp(`${a} - ${b}`),
+    multiply: (a, b) => temp(`cmul(${a}, ${b})`),
+    divide: (a, b) => temp(`cdiv(${a}, ${b})`),
+    negate: (a) => temp(`-${a}`),
+    realPower: (a, exponent) => temp(`crealpow(${a}, ${glslFloat(exponent)})`),
+    power: (a, b) => temp(`cpow(${a}, ${b})`),
+    call: (name, a) => temp(functionNames[name](a)),
+  };
+};
+
+// Generates customFormula(z, c, n) and customEscaped(z, c, n) for the escape-time shader; needs GLSL_COMPLEX_LIBRARY.
+export const createFormulaGlsl = (formula: string, bailout: string): string => {
+  const inputs = {
+    z: { value: 'z', derivative: null },
+    c: { value: 'c', derivative: null },
+    n: { value: 'vec2(n, 0.0)', derivative: null },
+  };
+
+  const formulaLines: string[] = [];
+  const value = emitNode(createGlslOps(formulaLines), parseFormula(formula), inputs).value;
+
+  const condition = parseBailout(bailout);
+  const bailoutLines: string[] = [];
+  const bailoutOps = createGlslOps(bailoutLines);
+  const left = emitNode(bailoutOps, condition.left, inputs).value;
+  const right = emitNode(bailoutOps, condition.right, inputs).value;
+
+  return `
+  vec2 customFormula(vec2 z, vec2 c, float n) {
+      ${formulaLines.join('\n      ')}
+      return ${value};
+  }
+
+  bool customEscaped(vec2 z, vec2 c, float n) {
+      ${bailoutLines.join('\n      ')}
+      return (${left}).x ${condition.operator} (${right}).x;
+  }
+`;
+};
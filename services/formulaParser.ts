@@ -0,0 +1,236 @@
+// Parser for user-defined iteration formulas such as "z^3 + sin(z) + c". Expressions are complex-valued;
+// formulaCompiler turns the parsed tree into JavaScript for the CPU workers and GLSL for the GPU.
+
+export const DEFAULT_CUSTOM_FORMULA = 'z^2 + c';
+export const DEFAULT_CUSTOM_BAILOUT = '|z| > 2';
+
+// z is the current value, c the pixel (or the Julia constant) and n the value of the exponent slider.
+export const FORMULA_VARIABLES = ['z', 'c', 'n'] as const;
+export const FORMULA_CONSTANTS = ['i', 'pi', 'e'] as const;
+export const FORMULA_FUNCTIONS = [
+  'sin', 'cos', 'tan', 'sinh', 'cosh', 'tanh', 'exp', 'log', 'sqrt', 'abs', 'arg', 're', 'im', 'conj',
+] as const;
+
+export type FormulaVariable = typeof FORMULA_VARIABLES[number];
+export type FormulaConstant = typeof FORMULA_CONSTANTS[number];
+export type FormulaFunction = typeof FORMULA_FUNCTIONS[number];
+export type ComparisonOperator = '<' | '<=' | '>' | '>=';
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: FormulaVariable }
+  | { kind: 'constant'; name: FormulaConstant }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: FormulaFunction; argument: FormulaNode };
+
+// Escape test: the real parts of the two sides are compared, so "|z| > 2" and "re(z) > 10" both work.
+export interface BailoutCondition {
+  operator: ComparisonOperator;
+  left: FormulaNode;
+  right: FormulaNode;
+}
+
+interface Token {
+  type: 'number' | 'name' | 'symbol' | 'end';
+  text: string;
+  position: number;
+}
+
+const SYMBOLS = ['<=', '>=', '<', '>', '+', '-', '*', '/', '^', '(', ')', '|', ','];
+const COMPARISONS: string[] = ['<', '<=', '>', '>='];
+
+const includes = <T extends string>(list: readonly T[], value: string): value is T => (list as readonly string[]).includes(value);
+
+// Positions in messages are 1-based, as a user counts characters.
+const fail = (message: string, position: number): never => {
+  throw new Error(`${message} (at character ${position + 1})`);
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+    // "2e" is two times e; only "2e5" and the like are exponent notation.
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+    const name = /^[a-z_][a-z0-9_]*/i.exec(rest);
+    if (name) {
+      tokens.push({ type: 'name', text: name[0].toLowerCase(), position });
+      position += name[0].length;
+      continue;
+    }
+    const symbol = SYMBOLS.find((candidate) => rest.startsWith(candidate));
+    if (!symbol) {
+      fail(`Unexpected character "${rest[0]}"`, position);
+    }
+    tokens.push({ type: 'symbol', text: symbol!, position });
+    position += symbol!.length;
+  }
+  tokens.push({ type: 'end', text: '', position });
+  return tokens;
+};
+
+const describe = (token: Token) => (token.type === 'end' ? 'the end of the formula' : `"${token.text}"`);
+
+// Recursive descent over the usual precedence: comparison < sum < product < unary minus < power < call / group.
+// Juxtaposition multiplies, so "2z" and "(z + 1)(z - 1)" read as expected; "^" is right-associative.
+const createParser = (source: string) => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isSymbol = (text: string) => peek().type === 'symbol' && peek().text === text;
+  const expect = (text: string, context: string) => {
+    if (!isSymbol(text)) {
+      fail(`Expected "${text}" ${context} but found ${describe(peek())}`, peek().position);
+    }
+    next();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    if (token.type === 'number') {
+      return { kind: 'number', value: Number(token.text) };
+    }
+    if (token.type === 'name') {
+      if (includes(FORMULA_FUNCTIONS, token.text)) {
+        expect('(', `after ${token.text}`);
+        const argument = parseSum();
+        if (isSymbol(',')) {
+          fail(`${token.text}() takes a single argument`, peek().position);
+        }
+        expect(')', `to close ${token.text}(`);
+        return { kind: 'call', name: token.text, argument };
+      }
+      if (includes(FORMULA_VARIABLES, token.text)) return { kind: 'variable', name: token.text };
+      if (includes(FORMULA_CONSTANTS, token.text)) return { kind: 'constant', name: token.text };
+      return fail(
+        `Unknown name "${token.text}". Use the variables ${FORMULA_VARIABLES.join(', ')}, the constants ` +
+          `${FORMULA_CONSTANTS.join(', ')} or the functions ${FORMULA_FUNCTIONS.join(', ')}`,
+        token.position,
+      );
+    }
+    if (token.type === 'symbol' && token.text === '(') {
+      const inner = parseSum();
+      expect(')', 'to close the parenthesis');
+      return inner;
+    }
+    if (token.type === 'symbol' && token.text === '|') {
+      const inner = parseSum();
+      expect('|', 'to close the absolute value');
+      return { kind: 'call', name: 'abs', argument: inner };
+    }
+    return fail(`Expected a number, variable or function but found ${describe(token)}`, token.position);
+  };
+
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (!isSymbol('^')) return base;
+    next();
+    return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isSymbol('-')) {
+      next();
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    if (isSymbol('+')) {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const startsOperand = () => {
+    const token = peek();
+    return token.type === 'number' || token.type === 'name' || (token.type === 'symbol' && token.text === '(');
+  };
+
+  const parseProduct = (): FormulaNode => {
+    let left = parseUnary();
+    for (;;) {
+      if (isSymbol('*') || isSymbol('/')) {
+        const operator = next().text as '*' | '/';
+        left = { kind: 'binary', operator, left, right: parseUnary() };
+      } else if (startsOperand()) {
+        left = { kind: 'binary', operator: '*', left, right: parsePower() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseSum = (): FormulaNode => {
+    let left = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = next().text as '+' | '-';
+      left = { kind: 'binary', operator, left, right: parseProduct() };
+    }
+    return left;
+  };
+
+  const expectEnd = () => {
+    if (peek().type !== 'end') {
+      fail(`Unexpected ${describe(peek())}`, peek().position);
+    }
+  };
+
+  return { peek, next, parseSum, expectEnd };
+};
+
+export const parseFormula = (source: string): FormulaNode => {
+  if (!source.trim()) {
+    throw new Error('The formula is empty.');
+  }
+  const parser = createParser(source);
+  const node = parser.parseSum();
+  if (COMPARISONS.includes(parser.peek().text)) {
+    fail('Comparisons belong in the bailout condition, not the formula', parser.peek().position);
+  }
+  parser.expectEnd();
+  return node;
+};
+
+export const parseBailout = (source: string): BailoutCondition => {
+  if (!source.trim()) {
+    throw new Error('The bailout condition is empty.');
+  }
+  const parser = createParser(source);
+  const left = parser.parseSum();
+  const token = parser.peek();
+  if (!COMPARISONS.includes(token.text)) {
+    fail(`Expected a comparison such as "|z| > 2" but found ${describe(token)}`, token.position);
+  }
+  parser.next();
+  const right = parser.parseSum();
+  parser.expectEnd();
+  return { operator: token.text as ComparisonOperator, left, right };
+};
+
+// Returns a message describing the first problem with the formula or bailout condition, or null when both parse.
+export const validateCustomFormula = (formula: string, bailout: string): string | null => {
+  try {
+    parseFormula(formula);
+  } catch (error) {
+    return `Formula: ${(error as Error).message}`;
+  }
+  try {
+    parseBailout(bailout);
+  } catch (error) {
+    return `Bailout: ${(error as Error).message}`;
+  }
+  return null;
+};
@@ -1,6 +1,25 @@
-import { FractalType, ColorPalette } from '../types';
+import { FractalType, PrecisePan, ColoringAlgorithm, OrbitTrapShape, IFSTransform, FlameSettings, LSystemSettings } from '../types';
+import { createPerturbationSampler, supportsDeepZoom } from './deepZoom';
+import { EscapeTimeFormula, getEscapeTimeVariant, getFormulaDegree, isConvergentFormula } from './escapeTimeFormulas';
+import { compileFormula } from './formulaCompiler';
+import { differentiate, findRoots, getDegree, parsePolynomial, Polynomial } from './polynomial';
+import { accumulateIFS, colorizeIFS, getMaxCount, isIFSFractal } from './ifsService';
+import { renderFlameRegion } from './flameService';
+import { drawLSystem } from './lsystemService';
+import {
+  coloursInterior,
+  createOrbitColoring,
+  createOrbitRecorder,
+  equalizeHistogram,
+  needsFrameColoring,
+  ORBIT_RECORD,
+  ORBIT_RECORD_SIZE,
+  OrbitRecorder,
+  recordInside,
+} from './coloringService';
+import { createPaletteLookup, lookupPaletteColor, PaletteLookup, PaletteSettings } from './paletteService';
 
-interface DrawParams {
+interface DrawParams extends PaletteSettings {
   ctx: CanvasRenderingContext2D;
   width: number;
   height: number;
@@ -9,170 +28,603 @@ interface DrawParams {
   iterations: number;
   cReal: number;
   cImag: number;
+  exponent: number;
+  customFormula: string;
+  customBailout: string;
+  newtonPolynomial: string;
+  relaxation: number;
+  ifsTransforms: IFSTransform[];
+  flame: FlameSettings;
+  lSystem: LSystemSettings;
   panX: number;
   panY: number;
-  colorPalette: ColorPalette;
+  deepZoom: boolean;
+  precisePan: PrecisePan;
+  coloringAlgorithm: ColoringAlgorithm;
+  orbitTrapShape: OrbitTrapShape;
 }
 
-// Helper to convert HSL color strings to an RGB array for canvas ImageData
-const hslToRgb = (hsl: string): [number, number, number] => {
-  const result = /^hsl\((\d+),\s*(\d+)%,\s*(\d+)%\)$/.exec(hsl);
-  if (!result) return [0, 0, 0];
-  const h = parseInt(result[1], 10);
-  const s = parseInt(result[2], 10) / 100;
-  const l = parseInt(result[3], 10) / 100;
-
-  const c = (1 - Math.abs(2 * l - 1)) * s;
-  const x = c * (1 - Math.abs((h / 60) % 2 - 1));
-  const m = l - c / 2;
-  let r = 0, g = 0, b = 0;
-
-  if (h >= 0 && h < 60) { [r, g, b] = [c, x, 0]; }
-  else if (h >= 60 && h < 120) { [r, g, b] = [x, c, 0]; }
-  else if (h >= 120 && h < 180) { [r, g, b] = [0, c, x]; }
-  else if (h >= 180 && h < 240) { [r, g, b] = [0, x, c]; }
-  else if (h >= 240 && h < 300) { [r, g, b] = [x, 0, c]; }
-  else { [r, g, b] = [c, 0, x]; }
-
-  r = Math.round((r + m) * 255);
-  g = Math.round((g + m) * 255);
-  b = Math.round((b + m) * 255);
-
-  return [r, g, b];
-};
-
-// FIX: Explicitly type the palettes to ensure colors are treated as [R, G, B] tuples.
-const palettes: { [key: string]: [number, number, number][] } = {
-  [ColorPalette.Viridis]: [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]],
-  [ColorPalette.Plasma]: [[13, 8, 135], [110, 0, 168], [177, 42, 144], [225, 100, 98], [252, 166, 54], [240, 249, 33]],
-  [ColorPalette.Magma]: [[0, 0, 4], [59, 15, 112], [140, 41, 129], [221, 73, 104], [253, 154, 108], [252, 253, 191]],
-  [ColorPalette.Inferno]: [[0, 0, 4], [88, 16, 110], [172, 37, 104], [239, 100, 58], [251, 179, 31], [252, 254, 177]],
-  [ColorPalette.Sunset]: [[35, 7, 77], [106, 2, 93], [188, 59, 73], [248, 146, 56], [249, 248, 113]],
-  [ColorPalette.Ocean]: [[0, 2, 67], [0, 41, 114], [0, 83, 140], [0, 138, 168], [145, 205, 194]],
-  [ColorPalette.Forest]: [[1, 22, 12], [10, 50, 20], [45, 87, 44], [102, 124, 61], [179, 162, 93]],
-};
-
-// Maps an iteration count to a smooth color from the selected palette
-const getColor = (iterations: number, maxIterations: number, palette: ColorPalette): [number, number, number] => {
-  if (iterations >= maxIterations) {
-    return [0, 0, 0]; // Black for points within the set
-  }
-
-  if (palette === ColorPalette.Rainbow) {
-    const hue = Math.floor(360 * iterations / maxIterations);
-    return hslToRgb(`hsl(${hue}, 100%, 50%)`);
-  }
+const drawIFS = (params: DrawParams) => {
+  const { ctx, width, height } = params;
+  const density = accumulateIFS(params, { x: 0, y: 0, width, height });
+  const pixels = colorizeIFS(density, createPaletteLookup(params), getMaxCount(density));
+  ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+};
 
-  const selectedPalette = palettes[palette];
-  if (!selectedPalette) {
-    // Fallback to rainbow if palette is not found
-    const hue = Math.floor(360 * iterations / maxIterations);
-    return hslToRgb(`hsl(${hue}, 100%, 50%)`);
-  }
+export type EscapeTimeParams = Omit<DrawParams, 'ctx'>;
 
-  const value = iterations / maxIterations;
-  const colorIndex = value * (selectedPalette.length - 1);
-  const idx1 = Math.floor(colorIndex);
-  const idx2 = Math.ceil(colorIndex);
-  const frac = colorIndex - idx1;
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
-  if (idx2 >= selectedPalette.length) {
-    return selectedPalette[selectedPalette.length - 1];
-  }
+export const getPixelSize = (params: { width: number; zoom: number }) => 4 / (params.width * params.zoom);
 
-  const c1 = selectedPalette[idx1];
-  const c2 = selectedPalette[idx2];
+// How the pixels of a render were settled, summed over its tiles.
+export interface RenderStats {
+  pixels: number;
+  // Orbits that escaped, or for the Newton, Nova and Magnet fractals reached an attractor.
+  escaped: number;
+  // Interior points recognised without iterating to the limit: inside the main cardioid or the period-2 bulb,
+  // caught repeating themselves by the periodicity check, or filled in by subdivision.
+  bulbs: number;
+  periodic: number;
+  filled: number;
+  // Points that used up every iteration without being shown to be inside; many of them call for a higher limit.
+  unresolved: number;
+  // Points carried over from the previous frame (see frameReuse.ts) rather than computed.
+  reused: number;
+}
 
-  const r = Math.round(c1[0] + (c2[0] - c1[0]) * frac);
-  const g = Math.round(c1[1] + (c2[1] - c1[1]) * frac);
-  const b = Math.round(c1[2] + (c2[2] - c1[2]) * frac);
+export const createRenderStats = (): RenderStats =>
+  ({ pixels: 0, escaped: 0, bulbs: 0, periodic: 0, filled: 0, unresolved: 0, reused: 0 });
 
-  return [r, g, b];
+export const addRenderStats = (total: RenderStats, part: RenderStats) => {
+  total.pixels += part.pixels;
+  total.escaped += part.escaped;
+  total.bulbs += part.bulbs;
+  total.periodic += part.periodic;
+  total.filled += part.filled;
+  total.unresolved += part.unresolved;
+  total.reused += part.reused;
 };
 
-const drawSierpinskiTriangle = (params: DrawParams) => {
-  const { ctx, width, height, colorPalette } = params;
+// The periodicity check counts an orbit as cycling once it comes back within this fraction of a pixel of a point it
+// visited before; the saved point moves on after 8, 16, 32, ... iterations (Brent's method), so any cycle is caught.
+const PERIODICITY_TOLERANCE = 1e-4;
+const FIRST_PERIODICITY_WINDOW = 8;
+// Rectangles smaller than this across are sampled pixel by pixel rather than split again.
+const MIN_SUBDIVISION_SIZE = 6;
+
+// Auto iterations start each view at AUTO_BASE_ITERATIONS, plus as many again per whole decade of zoom, and raise the limit by
+// AUTO_ITERATION_GROWTH while more than AUTO_UNRESOLVED_RATIO of the frame is unresolved and each raise still helps.
+const AUTO_BASE_ITERATIONS = 200;
+const AUTO_UNRESOLVED_RATIO = 0.002;
+const AUTO_ITERATION_GROWTH = 1.5;
+// A raise that leaves more than this share of the unresolved points unresolved is not worth another.
+const AUTO_MIN_IMPROVEMENT = 0.9;
+export const MAX_AUTO_ITERATIONS = 200000;
+
+export const getZoomIterations = (zoom: number) =>
+  Math.min(MAX_AUTO_ITERATIONS, AUTO_BASE_ITERATIONS * (1 + Math.max(0, Math.floor(Math.log10(zoom)))));
 
-  ctx.fillStyle = 'black';
-  ctx.fillRect(0, 0, width, height);
+// The limit to render the same view with next, or null to keep the current one. previousUnresolved is the count of
+// the render before the last raise for this view, if there was one.
+export const raiseAutoIterations = (iterations: number, stats: RenderStats, previousUnresolved: number | null): number | null => {
+  // Reused points were judged when they were computed.
+  const computed = stats.pixels - stats.reused;
+  if (computed === 0 || stats.unresolved / computed <= AUTO_UNRESOLVED_RATIO) return null;
+  if (previousUnresolved !== null && stats.unresolved > previousUnresolved * AUTO_MIN_IMPROVEMENT) return null;
+  return iterations < MAX_AUTO_ITERATIONS ? Math.min(MAX_AUTO_ITERATIONS, Math.round(iterations * AUTO_ITERATION_GROWTH)) : null;
+};
+
+// Writes the record of pixel (px, py) into samples at offset, and returns whether the point counts as inside.
+type PixelSampler = (px: number, py: number, samples: Float32Array, offset: number) => boolean;
 
-  const vertices = [
-    { x: width / 2, y: 10 },
-    { x: 10, y: height - 10 },
-    { x: width - 10, y: height - 10 },
-  ];
-  
-  const palette = palettes[colorPalette] || palettes[ColorPalette.Viridis];
-  const midColorIndex = Math.floor(palette.length / 2);
-  const [r, g, b] = palette[midColorIndex];
-  ctx.fillStyle = `rgb(${r},${g},${b})`;
+// Samples a user-defined formula, compiled to JavaScript, which also supplies the escape test.
+const createCustomFormulaSampler = (params: EscapeTimeParams, recorder: OrbitRecorder, isJulia: boolean): PixelSampler => {
+  const { width, height, zoom, iterations: maxIterations, cReal, cImag, panX, panY, exponent } = params;
+  const { step, escaped } = compileFormula(params.customFormula, params.customBailout, true);
+  const next = new Float64Array(4);
 
-  let p = { x: Math.random() * width, y: Math.random() * height };
-  const numPoints = 75000;
+  return (px, py, samples, offset) => {
+    const x0 = ((px - width / 2) * 4) / (width * zoom) - panX;
+    const y0 = ((py - height / 2) * 4) / (width * zoom) - panY;
+    const cx = isJulia ? cReal : x0;
+    const cy = isJulia ? cImag : y0;
+    let x = isJulia ? x0 : 0;
+    let y = isJulia ? y0 : 0;
+    let dx = isJulia ? 1 : 0;
+    let dy = 0;
+    recorder.begin(cx, cy, x, y);
 
-  for (let i = 0; i < numPoints; i++) {
-    const targetVertex = vertices[Math.floor(Math.random() * 3)];
-    p.x = (p.x + targetVertex.x) / 2;
-    p.y = (p.y + targetVertex.y) / 2;
-    
-    if (i > 20) { // Let the first few points settle
-        ctx.fillRect(p.x, p.y, 1, 1);
+    let iteration = 0;
+    while (iteration < maxIterations && !escaped(x, y, cx, cy, exponent)) {
+      step(x, y, cx, cy, exponent, dx, dy, isJulia ? 0 : 1, next);
+      iteration++;
+      // An orbit that overflows (or hits a singularity such as log(0)) has escaped, whatever the bailout says.
+      if (!Number.isFinite(next[0]) || !Number.isFinite(next[1])) break;
+      x = next[0];
+      y = next[1];
+      dx = next[2];
+      dy = next[3];
+      recorder.observe(x, y);
     }
+
+    recorder.record(iteration, x, y, Math.hypot(dx, dy), samples, offset);
+    return iteration >= maxIterations;
+  };
+};
+
+// Orbits count as settled once a step moves z by less than this (squared).
+const CONVERGENCE_TOLERANCE = 1e-12;
+const MAGNET_BAILOUT = 100;
+
+// p(z) and p'(z) together by Horner's method, written into out as [p re, p im, p' re, p' im].
+const evaluatePolynomial = (polynomial: Polynomial, derivative: Polynomial, x: number, y: number, out: Float64Array) => {
+  let pr = 0;
+  let pi = 0;
+  for (let k = getDegree(polynomial); k >= 0; k--) {
+    const next = pr * x - pi * y + polynomial[2 * k];
+    pi = pr * y + pi * x + polynomial[2 * k + 1];
+    pr = next;
   }
+  let dr = 0;
+  let di = 0;
+  for (let k = getDegree(derivative); k >= 0; k--) {
+    const next = dr * x - di * y + derivative[2 * k];
+    di = dr * y + di * x + derivative[2 * k + 1];
+    dr = next;
+  }
+  out[0] = pr;
+  out[1] = pi;
+  out[2] = dr;
+  out[3] = di;
+};
+
+const nearestIndex = (points: [number, number][], x: number, y: number) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  points.forEach(([px, py], index) => {
+    const distance = (x - px) * (x - px) + (y - py) * (y - py);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  });
+  return best;
 };
 
+// Samples the fractals coloured by where orbits end up rather than how fast they escape. Each attractor (a root of
+// the polynomial, or for Magnet fractals the fixed point 1 and infinity) owns an equal slice of the palette, and the
+// position within the slice shows how many iterations the orbit took to get there. Both the plain and the smoothed
+// position are kept, for the colorings to choose from.
+const createConvergentSampler = (params: EscapeTimeParams, formula: EscapeTimeFormula, isJulia: boolean): PixelSampler => {
+  const { width, height, zoom, iterations: maxIterations, cReal, cImag, panX, panY, relaxation } = params;
+  const isNewtonMethod = formula === 'newton' || formula === 'nova';
+  const polynomial = isNewtonMethod ? parsePolynomial(params.newtonPolynomial) : null;
+  const derivative = polynomial && differentiate(polynomial);
+  const roots = polynomial ? findRoots(polynomial) : [];
+  // The Mandelbrot form of Nova starts each orbit from the root nearest 1, the classic z0 = 1 for z^3 - 1.
+  const [novaStartX, novaStartY] = roots.length > 0 ? roots[nearestIndex(roots, 1, 0)] : [0, 0];
+  const attractorCount = formula === 'newton' ? roots.length : formula === 'nova' ? 1 : 2;
+  const logTolerance = Math.log(CONVERGENCE_TOLERANCE);
+  const values = new Float64Array(4);
 
-export const drawFractal = (params: DrawParams) => {
-  if (params.fractalType === FractalType.Sierpinski) {
-    drawSierpinskiTriangle(params);
-    return;
+  const shade = (attractor: number, count: number) =>
+    (attractor + Math.min(0.999, Math.log1p(Math.max(0, count)) / Math.log1p(maxIterations))) / attractorCount;
+
+  // Records an orbit that reached an attractor; lastStep and step are the squared sizes of its final two moves,
+  // which interpolate the iteration count for smooth shading.
+  const settle = (samples: Float32Array, offset: number, attractor: number, iteration: number, lastStep: number, step: number) => {
+    let count = iteration;
+    if (Number.isFinite(lastStep) && lastStep > step && step > 0) {
+      count += Math.min(1, Math.max(0, (logTolerance - Math.log(lastStep)) / (Math.log(step) - Math.log(lastStep)))) - 1;
+    }
+    samples[offset] = shade(attractor, iteration);
+    samples[offset + 1] = shade(attractor, count);
+    return false;
+  };
+  const settleInside = (samples: Float32Array, offset: number) => {
+    samples[offset] = -1;
+    samples[offset + 1] = -1;
+    return true;
+  };
+
+  return (px, py, samples, offset) => {
+    const x0 = ((px - width / 2) * 4) / (width * zoom) - panX;
+    const y0 = ((py - height / 2) * 4) / (width * zoom) - panY;
+    const cx = isJulia ? cReal : x0;
+    const cy = isJulia ? cImag : y0;
+    let x: number;
+    let y: number;
+    if (isJulia || formula === 'newton') {
+      x = x0;
+      y = y0;
+    } else if (formula === 'nova') {
+      x = novaStartX;
+      y = novaStartY;
+    } else {
+      x = 0;
+      y = 0;
+    }
+
+    let lastStep = Infinity;
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      let nextX: number;
+      let nextY: number;
+      if (polynomial && derivative) {
+        // z - a p(z)/p'(z), plus c for Nova.
+        evaluatePolynomial(polynomial, derivative, x, y, values);
+        const [pr, pi, dr, di] = values;
+        const scale = relaxation / (dr * dr + di * di);
+        nextX = x - (pr * dr + pi * di) * scale + (formula === 'nova' ? cx : 0);
+        nextY = y - (pi * dr - pr * di) * scale + (formula === 'nova' ? cy : 0);
+      } else {
+        let numX: number;
+        let numY: number;
+        let denX: number;
+        let denY: number;
+        if (formula === 'magnet1') {
+          numX = x * x - y * y + cx - 1;
+          numY = 2 * x * y + cy;
+          denX = 2 * x + cx - 2;
+          denY = 2 * y + cy;
+        } else {
+          // (c - 1)(c - 2) appears in both the numerator and the denominator.
+          const kx = (cx - 1) * (cx - 2) - cy * cy;
+          const ky = cy * (2 * cx - 3);
+          const x2 = x * x - y * y;
+          const y2 = 2 * x * y;
+          numX = x2 * x - y2 * y + 3 * ((cx - 1) * x - cy * y) + kx;
+          numY = x2 * y + y2 * x + 3 * ((cx - 1) * y + cy * x) + ky;
+          denX = 3 * x2 + 3 * ((cx - 2) * x - cy * y) + kx + 1;
+          denY = 3 * y2 + 3 * ((cx - 2) * y + cy * x) + ky;
+        }
+        const denominator = denX * denX + denY * denY;
+        const qx = (numX * denX + numY * denY) / denominator;
+        const qy = (numY * denX - numX * denY) / denominator;
+        nextX = qx * qx - qy * qy;
+        nextY = 2 * qx * qy;
+      }
+
+      if (!Number.isFinite(nextX) || !Number.isFinite(nextY)) {
+        // Magnet orbits that blow up have escaped; Newton steps that hit p'(z) = 0 go nowhere.
+        return isNewtonMethod ? settleInside(samples, offset) : settle(samples, offset, 0, iteration + 1, 0, 0);
+      }
+      const step = (nextX - x) * (nextX - x) + (nextY - y) * (nextY - y);
+      x = nextX;
+      y = nextY;
+
+      if (isNewtonMethod) {
+        if (step < CONVERGENCE_TOLERANCE) {
+          return settle(samples, offset, formula === 'newton' ? nearestIndex(roots, x, y) : 0, iteration + 1, lastStep, step);
+        }
+      } else if (x * x + y * y > MAGNET_BAILOUT * MAGNET_BAILOUT) {
+        return settle(samples, offset, 0, iteration + 1, 0, 0);
+      } else if ((x - 1) * (x - 1) + y * y < CONVERGENCE_TOLERANCE) {
+        return settle(samples, offset, 1, iteration + 1, lastStep, step);
+      }
+      lastStep = step;
+    }
+    return settleInside(samples, offset);
+  };
+};
+
+// Tallies the samplers that do not report their own statistics, by whether they found the point inside.
+const countOutcomes = (sample: PixelSampler, stats: RenderStats): PixelSampler => (px, py, samples, offset) => {
+  const isInside = sample(px, py, samples, offset);
+  if (isInside) stats.unresolved++;
+  else stats.escaped++;
+  return isInside;
+};
+
+// Returns a function recording the orbit of a pixel, using perturbation for deep-zoom views.
+const createPixelSampler = (params: EscapeTimeParams, stats: RenderStats): PixelSampler => {
+  const { width, height, fractalType, zoom, iterations: maxIterations, cReal, cImag, panX, panY } = params;
+  const variant = getEscapeTimeVariant(fractalType);
+  if (!variant) {
+    throw new Error(`${fractalType} is not an escape-time fractal.`);
+  }
+  const { formula, isJulia } = variant;
+  if (isConvergentFormula(formula)) {
+    return countOutcomes(createConvergentSampler(params, formula, isJulia), stats);
   }
 
-  const { ctx, width, height, fractalType, zoom, iterations: maxIterations, cReal, cImag, panX, panY, colorPalette } = params;
-  const imageData = ctx.createImageData(width, height);
-
-  for (let px = 0; px < width; px++) {
-    for (let py = 0; py < height; py++) {
-      const x0 = ((px - width / 2) * 4) / (width * zoom) - panX;
-      const y0 = ((py - height / 2) * 4) / (width * zoom) - panY;
-
-      let iteration = 0;
-      if (fractalType === FractalType.Mandelbrot) {
-        let x = 0, y = 0;
-        while (x * x + y * y <= 4 && iteration < maxIterations) {
-          const xtemp = x * x - y * y + x0;
-          y = 2 * x * y + y0;
-          x = xtemp;
-          iteration++;
+  const degree = getFormulaDegree(fractalType, params.exponent);
+  if (formula === 'custom') {
+    const recorder = createOrbitRecorder(params.coloringAlgorithm, degree, getPixelSize(params), Infinity);
+    return countOutcomes(createCustomFormulaSampler(params, recorder, isJulia), stats);
+  }
+  const recorder = createOrbitRecorder(params.coloringAlgorithm, degree, getPixelSize(params));
+  if (params.deepZoom && supportsDeepZoom(fractalType)) {
+    return countOutcomes(createPerturbationSampler(params, recorder), stats);
+  }
+  const isIntegerPower = Number.isInteger(degree);
+  const bailoutSquared = recorder.bailout * recorder.bailout;
+  // Every orbit that stays bounded gets the same colour unless the coloring paints the interior, so the shortcuts
+  // below can give up on a point as soon as it is known to be inside.
+  const skipsInterior = !coloursInterior(params.coloringAlgorithm);
+  const checksBulbs = skipsInterior && formula === 'mandelbrot' && !isJulia;
+  const periodicityTolerance = getPixelSize(params) * PERIODICITY_TOLERANCE;
+  // Checking costs time on every iteration, so as in Fractint it is only done while the previous pixel was inside.
+  let wasInside = false;
+
+  return (px, py, samples, offset) => {
+    const x0 = ((px - width / 2) * 4) / (width * zoom) - panX;
+    const y0 = ((py - height / 2) * 4) / (width * zoom) - panY;
+
+    // Mandelbrot-style sets start at z = 0 with c = pixel; Julia sets start at the pixel with a fixed c.
+    const cx = isJulia ? cReal : x0;
+    const cy = isJulia ? cImag : y0;
+    let x = isJulia ? x0 : 0;
+    let y = isJulia ? y0 : 0;
+    // dz/dc (or dz/dz0 for Julia sets), used by distance estimation.
+    let dx = isJulia ? 1 : 0;
+    let dy = 0;
+    recorder.begin(cx, cy, x, y);
+
+    // The main cardioid, q (q + x - 1/4) <= y^2 / 4 with q = (x - 1/4)^2 + y^2, and the period-2 bulb around -1.
+    if (checksBulbs) {
+      const q = (cx - 0.25) * (cx - 0.25) + cy * cy;
+      if (q * (q + cx - 0.25) <= 0.25 * cy * cy || (cx + 1) * (cx + 1) + cy * cy <= 0.0625) {
+        stats.bulbs++;
+        wasInside = true;
+        recordInside(samples, offset, maxIterations);
+        return true;
+      }
+    }
+
+    const checksPeriodicity = skipsInterior && wasInside;
+    let checkX = x;
+    let checkY = y;
+    let checkWindow = FIRST_PERIODICITY_WINDOW;
+    let checkStep = 0;
+    let iteration = 0;
+    while (x * x + y * y <= bailoutSquared && iteration < maxIterations) {
+      // degree * z^(degree - 1) * dz, which the folded formulas share with z^degree up to sign changes.
+      let gx = 2 * x;
+      let gy = 2 * y;
+      if (degree !== 2) {
+        const scale = degree * Math.pow(x * x + y * y, (degree - 1) / 2);
+        const angle = (degree - 1) * Math.atan2(y, x);
+        gx = scale * Math.cos(angle);
+        gy = scale * Math.sin(angle);
+      }
+      const dxtemp = gx * dx - gy * dy + (isJulia ? 0 : 1);
+      dy = gx * dy + gy * dx;
+      dx = dxtemp;
+
+      let nextX: number;
+      let nextY: number;
+      switch (formula) {
+        case 'burningShip':
+          nextX = x * x - y * y;
+          nextY = 2 * Math.abs(x * y);
+          break;
+        case 'celtic':
+          nextX = Math.abs(x * x - y * y);
+          nextY = 2 * x * y;
+          break;
+        case 'buffalo':
+          nextX = Math.abs(x * x - y * y);
+          nextY = 2 * Math.abs(x * y);
+          break;
+        case 'perpendicularBurningShip':
+          nextX = x * x - y * y;
+          nextY = -2 * x * Math.abs(y);
+          break;
+        case 'multibrot':
+        case 'multicorn': {
+          const zy = formula === 'multicorn' ? -y : y;
+          if (isIntegerPower) {
+            nextX = x;
+            nextY = zy;
+            for (let k = 1; k < degree; k++) {
+              const product = nextX * x - nextY * zy;
+              nextY = nextX * zy + nextY * x;
+              nextX = product;
+            }
+          } else {
+            const modulus = Math.pow(x * x + zy * zy, degree / 2);
+            const angle = degree * Math.atan2(zy, x);
+            nextX = modulus * Math.cos(angle);
+            nextY = modulus * Math.sin(angle);
+          }
+          break;
+        }
+        case 'mandelbrot':
+        default:
+          nextX = x * x - y * y;
+          nextY = 2 * x * y;
+      }
+      x = nextX + cx;
+      y = nextY + cy;
+      iteration++;
+      recorder.observe(x, y);
+
+      if (checksPeriodicity) {
+        if (Math.abs(x - checkX) + Math.abs(y - checkY) < periodicityTolerance) {
+          stats.periodic++;
+          recordInside(samples, offset, maxIterations);
+          return true;
         }
-      } else if (fractalType === FractalType.BurningShip) {
-        let x = 0, y = 0;
-        let xtemp;
-        while (x * x + y * y <= 4 && iteration < maxIterations) {
-          xtemp = x * x - y * y + x0;
-          y = 2 * Math.abs(x * y) + y0;
-          x = xtemp;
-          iteration++;
+        if (++checkStep === checkWindow) {
+          checkX = x;
+          checkY = y;
+          checkStep = 0;
+          checkWindow *= 2;
         }
-      } else { // Julia Set
-        let x = x0, y = y0;
-        while (x * x + y * y <= 4 && iteration < maxIterations) {
-          const xtemp = x * x - y * y + cReal;
-          y = 2 * x * y + cImag;
-          x = xtemp;
-          iteration++;
+      }
+    }
+
+    wasInside = iteration >= maxIterations;
+    if (wasInside) stats.unresolved++;
+    else stats.escaped++;
+    recorder.record(iteration, x, y, Math.hypot(dx, dy), samples, offset);
+    return wasInside;
+  };
+};
+
+// Mariani–Silver subdivision relies on the set having no holes, so that a rectangle whose border lies inside lies
+// inside as a whole. Filled Julia and Mandelbrot sets of polynomials have none; the folded formulas are not known to.
+const canSubdivide = (params: EscapeTimeParams) => {
+  const variant = getEscapeTimeVariant(params.fractalType);
+  if (!variant || coloursInterior(params.coloringAlgorithm)) return false;
+  return variant.formula === 'mandelbrot'
+    || (variant.formula === 'multibrot' && Number.isInteger(getFormulaDegree(params.fractalType, params.exponent)));
+};
+
+// Samples the border of a rectangle and fills it if the border is all inside, or else splits it into quarters.
+const subdivideTile = (
+  sample: PixelSampler,
+  tile: TileRect,
+  maxIterations: number,
+  samples: Float32Array,
+  stats: RenderStats,
+) => {
+  // 1 for sampled points that escaped, 2 for those inside.
+  const outcomes = new Uint8Array(tile.width * tile.height);
+  const isInsideAt = (tx: number, ty: number) => {
+    const index = ty * tile.width + tx;
+    if (!outcomes[index]) {
+      outcomes[index] = sample(tile.x + tx, tile.y + ty, samples, index * ORBIT_RECORD_SIZE) ? 2 : 1;
+    }
+    return outcomes[index] === 2;
+  };
+
+  // Bounds are inclusive, and neighbouring quarters share their common edge.
+  const subdivide = (left: number, top: number, right: number, bottom: number) => {
+    let isInside = true;
+    for (let tx = left; tx <= right; tx++) {
+      if (!isInsideAt(tx, top)) isInside = false;
+      if (!isInsideAt(tx, bottom)) isInside = false;
+    }
+    for (let ty = top + 1; ty < bottom; ty++) {
+      if (!isInsideAt(left, ty)) isInside = false;
+      if (!isInsideAt(right, ty)) isInside = false;
+    }
+
+    if (isInside || right - left < MIN_SUBDIVISION_SIZE || bottom - top < MIN_SUBDIVISION_SIZE) {
+      for (let ty = top + 1; ty < bottom; ty++) {
+        for (let tx = left + 1; tx < right; tx++) {
+          const index = ty * tile.width + tx;
+          if (outcomes[index]) continue;
+          if (isInside) {
+            recordInside(samples, index * ORBIT_RECORD_SIZE, maxIterations);
+            outcomes[index] = 2;
+            stats.filled++;
+          } else {
+            isInsideAt(tx, ty);
+          }
         }
       }
+      return;
+    }
+    const middleX = (left + right) >> 1;
+    const middleY = (top + bottom) >> 1;
+    subdivide(left, top, middleX, middleY);
+    subdivide(middleX, top, right, middleY);
+    subdivide(left, middleY, middleX, bottom);
+    subdivide(middleX, middleY, right, bottom);
+  };
+
+  subdivide(0, 0, tile.width - 1, tile.height - 1);
+};
+
+// Computes the orbit records (see coloringService) of one rectangular region of the frame, ORBIT_RECORD_SIZE values
+// per pixel. This is pure so it can run inside a worker. stats, if given, accumulates how its pixels were settled.
+export const computeEscapeTimeSamples = (params: EscapeTimeParams, tile: TileRect, stats: RenderStats = createRenderStats()): Float32Array => {
+  const sample = createPixelSampler(params, stats);
+  const samples = new Float32Array(tile.width * tile.height * ORBIT_RECORD_SIZE);
+  stats.pixels += tile.width * tile.height;
 
-      const [r, g, b] = getColor(iteration, maxIterations, colorPalette);
-      
-      const pixelIndex = (py * width + px) * 4;
-      imageData.data[pixelIndex] = r;
-      imageData.data[pixelIndex + 1] = g;
-      imageData.data[pixelIndex + 2] = b;
-      imageData.data[pixelIndex + 3] = 255; // Alpha
+  if (canSubdivide(params)) {
+    subdivideTile(sample, tile, params.iterations, samples, stats);
+    return samples;
+  }
+  for (let ty = 0; ty < tile.height; ty++) {
+    for (let tx = 0; tx < tile.width; tx++) {
+      sample(tile.x + tx, tile.y + ty, samples, (ty * tile.width + tx) * ORBIT_RECORD_SIZE);
     }
   }
 
-  ctx.putImageData(imageData, 0, 0);
+  return samples;
+};
+
+// Turns orbit records into palette positions with the params' coloring.
+export const colorSamples = (samples: Float32Array, params: EscapeTimeParams): Float32Array => {
+  const field = new Float32Array(samples.length / ORBIT_RECORD_SIZE);
+  const variant = getEscapeTimeVariant(params.fractalType);
+  if (variant && isConvergentFormula(variant.formula)) {
+    const isSmooth = params.coloringAlgorithm !== ColoringAlgorithm.IterationCount && params.coloringAlgorithm !== ColoringAlgorithm.Histogram;
+    for (let i = 0; i < field.length; i++) field[i] = samples[i * ORBIT_RECORD_SIZE + (isSmooth ? 1 : 0)];
+    return field;
+  }
+
+  const coloring = createOrbitColoring({ ...params, degree: getFormulaDegree(params.fractalType, params.exponent) });
+  const isCustom = variant?.formula === 'custom';
+  for (let i = 0; i < field.length; i++) {
+    const offset = i * ORBIT_RECORD_SIZE;
+    const value = coloring.color(samples, offset);
+    // The colorings assume a circular escape radius, which a custom bailout need not have.
+    field[i] = isCustom && Number.isNaN(value) ? samples[offset + ORBIT_RECORD.escape] / params.iterations : value;
+  }
+  return field;
+};
+
+// Computes the palette positions of one rectangular region of the frame.
+export const computeEscapeTimeTile = (params: EscapeTimeParams, tile: TileRect, stats?: RenderStats): Float32Array =>
+  colorSamples(computeEscapeTimeSamples(params, tile, stats), params);
+
+// Copies a tile's values into the matching region of a full-frame buffer, stride values per pixel.
+export const writeTileToFrame = (tileField: Float32Array, tile: TileRect, frameField: Float32Array, frameWidth: number, stride = 1) => {
+  for (let ty = 0; ty < tile.height; ty++) {
+    frameField.set(
+      tileField.subarray(ty * tile.width * stride, (ty + 1) * tile.width * stride),
+      ((tile.y + ty) * frameWidth + tile.x) * stride,
+    );
+  }
+};
+
+// Converts palette positions into RGBA pixels; negative values mark points within the set.
+export const colorizeField = (field: Float32Array, lookup: PaletteLookup): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(field.length * 4);
+  for (let i = 0; i < field.length; i++) {
+    const [r, g, b] = field[i] < 0 ? [0, 0, 0] : lookupPaletteColor(lookup, field[i]);
+    const pixelIndex = i * 4;
+    data[pixelIndex] = r;
+    data[pixelIndex + 1] = g;
+    data[pixelIndex + 2] = b;
+    data[pixelIndex + 3] = 255; // Alpha
+  }
+  return data;
+};
+
+// Applies the colorings that need the complete frame (e.g. histogram equalization) to a full-frame field.
+export const finalizeFrameField = (field: Float32Array, params: EscapeTimeParams): Float32Array =>
+  needsFrameColoring(params.coloringAlgorithm) ? equalizeHistogram(field, params.iterations) : field;
+
+// Synchronous full-frame render. The interactive canvas uses the worker pool in renderPool.ts instead.
+export const drawFractal = (params: DrawParams) => {
+  if (isIFSFractal(params.fractalType)) {
+    drawIFS(params);
+    return;
+  }
+  if (params.fractalType === FractalType.LSystem) {
+    drawLSystem(params.ctx, params);
+    return;
+  }
+  if (params.fractalType === FractalType.Flame) {
+    const { ctx, width, height } = params;
+    ctx.putImageData(new ImageData(renderFlameRegion(params, { x: 0, y: 0, width, height }), width, height), 0, 0);
+    return;
+  }
+
+  const { ctx, ...escapeTimeParams } = params;
+  const { width, height } = escapeTimeParams;
+  const field = finalizeFrameField(computeEscapeTimeTile(escapeTimeParams, { x: 0, y: 0, width, height }), escapeTimeParams);
+  ctx.putImageData(new ImageData(colorizeField(field, createPaletteLookup(escapeTimeParams)), width, height), 0, 0);
 };
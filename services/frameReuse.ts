@@ -0,0 +1,95 @@
+// Lets the canvas build a new frame out of the last one: the orbit records of a finished escape-time frame are kept
+// apart from its colours, so a palette or coloring change only recolours them, a pan only computes the pixels it
+// brings into view, and a zoom shows the old frame stretched over the new view until the new one comes in.
+import { canRecolor, ORBIT_RECORD_SIZE, recordInside } from './coloringService';
+import { precisePanDifference, supportsDeepZoom } from './deepZoom';
+import { EscapeTimeParams, getPixelSize, TileRect } from './fractalService';
+
+// A pan counts as whole pixels when it is within this fraction of a pixel of them. Drags move by whole mouse pixels,
+// but summing them into the pan rounds off more of a pixel the deeper the view is.
+const PIXEL_TOLERANCE = 1e-2;
+
+export interface RetainedFrame {
+  params: EscapeTimeParams;
+  // ORBIT_RECORD_SIZE values per pixel.
+  samples: Float32Array;
+}
+
+// Everything apart from the view, the palette and the coloring that the orbit records depend on.
+const getSamplesKey = (params: EscapeTimeParams) => [
+  params.fractalType, params.width, params.height, params.iterations, params.cReal, params.cImag, params.exponent,
+  params.customFormula, params.customBailout, params.newtonPolynomial, params.relaxation, params.deepZoom,
+].join('|');
+
+export const canReuseFrame = (frame: RetainedFrame, params: EscapeTimeParams) =>
+  getSamplesKey(frame.params) === getSamplesKey(params) && canRecolor(frame.params.coloringAlgorithm, params.coloringAlgorithm);
+
+// How far the new view's centre lies from the old one's, in the plane's units. Deep-zoom views go by their precise
+// pan, which is what their pixels are computed from.
+const getPanOffset = (previous: EscapeTimeParams, next: EscapeTimeParams) =>
+  next.deepZoom && supportsDeepZoom(next.fractalType)
+    ? precisePanDifference(previous.precisePan, next.precisePan)
+    : { x: previous.panX - next.panX, y: previous.panY - next.panY };
+
+// The pixels the frame has moved by: pixel (x, y) of the new view is pixel (x + shift.x, y + shift.y) of the old
+// one. Null unless the old frame can be reused as it is, at the same zoom and moved by whole pixels.
+export const getFrameShift = (frame: RetainedFrame, params: EscapeTimeParams): { x: number; y: number } | null => {
+  if (!canReuseFrame(frame, params) || frame.params.zoom !== params.zoom) return null;
+  const pixelSize = getPixelSize(params);
+  const offset = getPanOffset(frame.params, params);
+  const x = offset.x / pixelSize;
+  const y = offset.y / pixelSize;
+  if (Math.abs(x - Math.round(x)) > PIXEL_TOLERANCE || Math.abs(y - Math.round(y)) > PIXEL_TOLERANCE) return null;
+  return { x: Math.round(x), y: Math.round(y) };
+};
+
+// Copies the part of the old frame still in view into samples, and returns the regions left to compute.
+export const reuseFrame = (frame: RetainedFrame, shift: { x: number; y: number }, samples: Float32Array): TileRect[] => {
+  const { width, height } = frame.params;
+  const left = Math.max(0, -shift.x);
+  const right = Math.min(width, width - shift.x);
+  const top = Math.max(0, -shift.y);
+  const bottom = Math.min(height, height - shift.y);
+  if (left >= right || top >= bottom) return [{ x: 0, y: 0, width, height }];
+
+  for (let y = top; y < bottom; y++) {
+    const start = (y + shift.y) * width + shift.x;
+    samples.set(
+      frame.samples.subarray((start + left) * ORBIT_RECORD_SIZE, (start + right) * ORBIT_RECORD_SIZE),
+      (y * width + left) * ORBIT_RECORD_SIZE,
+    );
+  }
+
+  // The columns brought into view run the full height; the rows brought into view fill in between them.
+  const regions: TileRect[] = [];
+  if (left > 0) regions.push({ x: 0, y: 0, width: left, height });
+  if (right < width) regions.push({ x: right, y: 0, width: width - right, height });
+  if (top > 0) regions.push({ x: left, y: 0, width: right - left, height: top });
+  if (bottom < height) regions.push({ x: left, y: bottom, width: right - left, height: height - bottom });
+  return regions;
+};
+
+// The old frame scaled and moved onto the new view, taking the nearest pixel, and inside wherever it does not reach.
+export const resampleFrame = (frame: RetainedFrame, params: EscapeTimeParams): Float32Array => {
+  const { width, height } = params;
+  const previous = frame.params;
+  const scale = getPixelSize(params) / getPixelSize(previous);
+  const offset = getPanOffset(previous, params);
+  const offsetX = offset.x / getPixelSize(previous) + previous.width / 2;
+  const offsetY = offset.y / getPixelSize(previous) + previous.height / 2;
+  const samples = new Float32Array(width * height * ORBIT_RECORD_SIZE);
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.round((y - height / 2) * scale + offsetY);
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.round((x - width / 2) * scale + offsetX);
+      const target = (y * width + x) * ORBIT_RECORD_SIZE;
+      if (sourceY >= 0 && sourceY < previous.height && sourceX >= 0 && sourceX < previous.width) {
+        const source = (sourceY * previous.width + sourceX) * ORBIT_RECORD_SIZE;
+        samples.set(frame.samples.subarray(source, source + ORBIT_RECORD_SIZE), target);
+      } else {
+        recordInside(samples, target, params.iterations);
+      }
+    }
+  }
+  return samples;
+};
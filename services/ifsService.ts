@@ -0,0 +1,317 @@
+import { FractalType, IFSTransform } from '../types';
+import type { TileRect } from './fractalService';
+import { lookupPaletteColor, PaletteLookup } from './paletteService';
+
+export interface IFSView {
+  width: number;
+  height: number;
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export interface IFSParams extends IFSView {
+  fractalType: FractalType;
+  ifsTransforms: IFSTransform[];
+}
+
+// Hit counts of each pixel, and the sum of the colour index of the points that landed there.
+export interface IFSDensity {
+  counts: Float32Array;
+  colorSums: Float32Array;
+}
+
+// The chaos game keeps going until this many points per pixel have landed in view, or it runs out of points; zoomed-in
+// views see only a small part of the attractor and need many more points for the same density.
+const TARGET_HITS_PER_PIXEL = 6;
+const MAX_POINTS_PER_PIXEL = 60;
+const MAX_POINTS = 50_000_000;
+// The first points are still on their way onto the attractor.
+const SETTLE_POINTS = 20;
+export const MAX_IFS_TRANSFORMS = 32;
+// Distance in pixels within which a click picks up a transform handle.
+const HANDLE_RADIUS = 8;
+
+// The attractors are fitted into this much of the 4 x 3 view at zoom 1.
+const PRESET_WIDTH = 3.6;
+const PRESET_HEIGHT = 2.7;
+
+// Small seeded generator, so every export band replays exactly the same points.
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const affine = (a: number, b: number, c: number, d: number, e: number, f: number, probability: number): IFSTransform =>
+  ({ a, b, c, d, e, f, probability });
+
+const similarity = (scale: number, degrees: number, e: number, f: number, probability: number) => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = scale * Math.cos(angle);
+  const sin = scale * Math.sin(angle);
+  return affine(cos, -sin, sin, cos, e, f, probability);
+};
+
+// Returns a function mapping a uniform random number to a transform index, weighted by probability. Transforms
+// with no weight are never picked, unless none has any weight, in which case all are equally likely.
+export const createTransformPicker = (transforms: IFSTransform[]) => {
+  const weights = transforms.map((t) => Math.max(0, t.probability) || 0);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const cumulative = new Float64Array(transforms.length);
+  let running = 0;
+  weights.forEach((weight, i) => {
+    running += total > 0 ? weight / total : 1 / transforms.length;
+    cumulative[i] = running;
+  });
+  return (r: number) => {
+    for (let i = 0; i < cumulative.length - 1; i++) {
+      if (r < cumulative[i]) return i;
+    }
+    return cumulative.length - 1;
+  };
+};
+
+// Runs a short chaos game and returns the bounding box of the attractor as [minX, minY, maxX, maxY].
+const measureAttractor = (transforms: IFSTransform[]): [number, number, number, number] => {
+  const random = createRandom(1);
+  const pick = createTransformPicker(transforms);
+  let x = 0;
+  let y = 0;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < 20000; i++) {
+    const t = transforms[pick(random())];
+    const nextX = t.a * x + t.b * y + t.e;
+    y = t.c * x + t.d * y + t.f;
+    x = nextX;
+    if (i < SETTLE_POINTS) continue;
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  return [minX, minY, maxX, maxY];
+};
+
+const round = (value: number) => Number(value.toPrecision(6));
+
+// Presets are written in their textbook coordinates (y up). This conjugates them with the map that centres the
+// attractor in the view and flips y, so they open centred at zoom 1.
+const fitToView = (transforms: IFSTransform[]): IFSTransform[] => {
+  const [minX, minY, maxX, maxY] = measureAttractor(transforms);
+  const scale = Math.min(PRESET_WIDTH / (maxX - minX || 1), PRESET_HEIGHT / (maxY - minY || 1));
+  const qx = (minX + maxX) / 2;
+  const qy = (minY + maxY) / 2;
+  return transforms.map(({ a, b, c, d, e, f, probability }) => ({
+    a: round(a),
+    b: round(-b),
+    c: round(-c),
+    d: round(d),
+    e: round(scale * (a * qx + b * qy + e - qx)),
+    f: round(-scale * (c * qx + d * qy + f - qy)),
+    probability,
+  }));
+};
+
+const SQRT3 = Math.sqrt(3);
+
+export const IFS_PRESETS: { name: string; transforms: IFSTransform[] }[] = [
+  {
+    name: 'Sierpinski triangle',
+    transforms: [
+      affine(0.5, 0, 0, 0.5, 0, 0, 1 / 3),
+      affine(0.5, 0, 0, 0.5, 0.5, 0, 1 / 3),
+      affine(0.5, 0, 0, 0.5, 0.25, SQRT3 / 4, 1 / 3),
+    ],
+  },
+  {
+    name: 'Sierpinski carpet',
+    transforms: [0, 1, 2].flatMap((i) => [0, 1, 2]
+      .filter((j) => i !== 1 || j !== 1)
+      .map((j) => affine(1 / 3, 0, 0, 1 / 3, i / 3, j / 3, 1 / 8))),
+  },
+  {
+    name: 'Barnsley fern',
+    transforms: [
+      affine(0, 0, 0, 0.16, 0, 0, 0.01),
+      affine(0.85, 0.04, -0.04, 0.85, 0, 1.6, 0.85),
+      affine(0.2, -0.26, 0.23, 0.22, 0, 1.6, 0.07),
+      affine(-0.15, 0.28, 0.26, 0.24, 0, 0.44, 0.07),
+    ],
+  },
+  {
+    name: 'Heighway dragon',
+    transforms: [
+      affine(0.5, -0.5, 0.5, 0.5, 0, 0, 0.5),
+      affine(-0.5, -0.5, 0.5, -0.5, 1, 0, 0.5),
+    ],
+  },
+  {
+    name: 'Koch curve',
+    transforms: [
+      similarity(1 / 3, 0, 0, 0, 0.25),
+      similarity(1 / 3, 60, 1 / 3, 0, 0.25),
+      similarity(1 / 3, -60, 0.5, SQRT3 / 6, 0.25),
+      similarity(1 / 3, 0, 2 / 3, 0, 0.25),
+    ],
+  },
+  {
+    name: 'Lévy C curve',
+    transforms: [
+      affine(0.5, 0.5, -0.5, 0.5, 0, 0, 0.5),
+      affine(0.5, -0.5, 0.5, 0.5, 0.5, -0.5, 0.5),
+    ],
+  },
+].map(({ name, transforms }) => ({ name, transforms: fitToView(transforms) }));
+
+export const DEFAULT_IFS_TRANSFORMS = IFS_PRESETS[0].transforms;
+
+export const isIFSFractal = (type: FractalType) => type === FractalType.IFS || type === FractalType.Sierpinski;
+
+// The Sierpinski type predates the editor and always draws the classic triangle.
+export const getIFSTransforms = (params: Pick<IFSParams, 'fractalType' | 'ifsTransforms'>) =>
+  params.fractalType === FractalType.Sierpinski ? DEFAULT_IFS_TRANSFORMS : params.ifsTransforms;
+
+// Plays the chaos game for the whole view and records the points that land in the region. The colour index of a
+// point moves halfway towards the index of each transform applied, so areas are tinted by the maps that reach them.
+export const accumulateIFS = (params: IFSParams, region: TileRect): IFSDensity => {
+  const { width, height, zoom, panX, panY } = params;
+  const transforms = getIFSTransforms(params);
+  const counts = new Float32Array(region.width * region.height);
+  const colorSums = new Float32Array(region.width * region.height);
+  if (transforms.length === 0) return { counts, colorSums };
+
+  const random = createRandom(1);
+  const pick = createTransformPicker(transforms);
+  const scale = (width * zoom) / 4;
+  const targetHits = TARGET_HITS_PER_PIXEL * width * height;
+  const maxPoints = Math.min(MAX_POINTS, MAX_POINTS_PER_PIXEL * width * height);
+  const lastIndex = Math.max(1, transforms.length - 1);
+
+  let x = 0;
+  let y = 0;
+  let color = 0;
+  let hits = 0;
+  for (let i = 0; i < maxPoints && hits < targetHits; i++) {
+    const index = pick(random());
+    const t = transforms[index];
+    const nextX = t.a * x + t.b * y + t.e;
+    y = t.c * x + t.d * y + t.f;
+    x = nextX;
+    color = (color + index / lastIndex) / 2;
+    // Expanding maps send the orbit off to infinity; start it again from the origin.
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      x = 0;
+      y = 0;
+      continue;
+    }
+    if (i < SETTLE_POINTS) continue;
+
+    const px = Math.floor((x + panX) * scale + width / 2);
+    const py = Math.floor((y + panY) * scale + height / 2);
+    if (px < 0 || py < 0 || px >= width || py >= height) continue;
+    hits++;
+    const rx = px - region.x;
+    const ry = py - region.y;
+    if (rx < 0 || ry < 0 || rx >= region.width || ry >= region.height) continue;
+    counts[ry * region.width + rx]++;
+    colorSums[ry * region.width + rx] += color;
+  }
+  return { counts, colorSums };
+};
+
+export const getMaxCount = (density: IFSDensity) => density.counts.reduce((max, count) => Math.max(max, count), 0);
+
+// Log-scaled density: a pixel's brightness is log(1 + hits) relative to the busiest pixel, and its hue the average
+// colour index of its points.
+export const colorizeIFS = (density: IFSDensity, lookup: PaletteLookup, maxCount: number): Uint8ClampedArray => {
+  const { counts, colorSums } = density;
+  const data = new Uint8ClampedArray(counts.length * 4);
+  const logMax = Math.log1p(Math.max(1, maxCount));
+  for (let i = 0; i < counts.length; i++) {
+    const pixelIndex = i * 4;
+    data[pixelIndex + 3] = 255;
+    if (counts[i] === 0) continue;
+    const brightness = Math.min(1, Math.log1p(counts[i]) / logMax);
+    const [r, g, b] = lookupPaletteColor(lookup, colorSums[i] / counts[i]);
+    data[pixelIndex] = r * brightness;
+    data[pixelIndex + 1] = g * brightness;
+    data[pixelIndex + 2] = b * brightness;
+  }
+  return data;
+};
+
+export type TransformHandle = 'origin' | 'xAxis' | 'yAxis';
+
+// Each transform is edited through the image of the unit square's corners (0, 0), (1, 0) and (0, 1).
+export const getHandlePositions = (t: IFSTransform): Record<TransformHandle, [number, number]> => ({
+  origin: [t.e, t.f],
+  xAxis: [t.a + t.e, t.c + t.f],
+  yAxis: [t.b + t.e, t.d + t.f],
+});
+
+// Moving the origin translates the transform; moving an axis corner changes its linear part.
+export const moveHandle = (t: IFSTransform, handle: TransformHandle, x: number, y: number): IFSTransform => {
+  switch (handle) {
+    case 'xAxis':
+      return { ...t, a: x - t.e, c: y - t.f };
+    case 'yAxis':
+      return { ...t, b: x - t.e, d: y - t.f };
+    case 'origin':
+    default:
+      return { ...t, e: x, f: y };
+  }
+};
+
+const toCanvas = (view: IFSView, [x, y]: [number, number]): [number, number] => {
+  const scale = (view.width * view.zoom) / 4;
+  return [(x + view.panX) * scale + view.width / 2, (y + view.panY) * scale + view.height / 2];
+};
+
+// Finds the handle under a canvas position, preferring later transforms, which are drawn on top.
+export const findHandle = (
+  view: IFSView,
+  transforms: IFSTransform[],
+  canvasX: number,
+  canvasY: number,
+): { index: number; handle: TransformHandle } | null => {
+  for (let index = transforms.length - 1; index >= 0; index--) {
+    const positions = getHandlePositions(transforms[index]);
+    for (const handle of ['origin', 'xAxis', 'yAxis'] as TransformHandle[]) {
+      const [hx, hy] = toCanvas(view, positions[handle]);
+      if (Math.hypot(hx - canvasX, hy - canvasY) <= HANDLE_RADIUS) return { index, handle };
+    }
+  }
+  return null;
+};
+
+// Outlines each transform's image of the unit square, with its three handles.
+export const drawTransformHandles = (ctx: CanvasRenderingContext2D, view: IFSView, transforms: IFSTransform[]) => {
+  ctx.save();
+  ctx.lineWidth = 1.5;
+  transforms.forEach((t, index) => {
+    const { origin, xAxis, yAxis } = getHandlePositions(t);
+    const corner: [number, number] = [xAxis[0] + yAxis[0] - origin[0], xAxis[1] + yAxis[1] - origin[1]];
+    const points = [origin, xAxis, corner, yAxis].map((point) => toCanvas(view, point));
+    ctx.strokeStyle = `hsl(${(index * 360) / transforms.length}, 90%, 65%)`;
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.beginPath();
+    points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+    ctx.closePath();
+    ctx.stroke();
+    [origin, xAxis, yAxis].forEach((point, i) => {
+      const [x, y] = toCanvas(view, point);
+      ctx.beginPath();
+      ctx.arc(x, y, i === 0 ? 6 : 4, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+    const [labelX, labelY] = points[0];
+    ctx.fillText(String(index + 1), labelX + 8, labelY - 8);
+  });
+  ctx.restore();
+};
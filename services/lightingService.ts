@@ -0,0 +1,31 @@
+import { Light3D, Lighting3DSettings } from '../types';
+
+// The shader has a uniform array of this size.
+export const MAX_LIGHTS = 4;
+
+export const DEFAULT_LIGHTING_3D: Lighting3DSettings = {
+  lights: [
+    { azimuth: 30, elevation: 40, color: [255, 235, 210], intensity: 1 },
+    { azimuth: -120, elevation: 10, color: [120, 150, 255], intensity: 0.3 },
+  ],
+  ambient: 0.2,
+  diffuse: 0.9,
+  specular: 0.5,
+  shininess: 32,
+  shadowSharpness: 8,
+  ambientOcclusion: 0.5,
+  fog: 0.01,
+  glow: 0,
+  glowColor: [255, 190, 110],
+  backgroundTop: [22, 26, 44],
+  backgroundBottom: [0, 0, 0],
+};
+
+export const createLight = (): Light3D => ({ azimuth: 0, elevation: 60, color: [255, 255, 255], intensity: 0.5 });
+
+// The direction towards the light in camera space: x to the right, y up and z along the view direction.
+export const getLightDirection = ({ azimuth, elevation }: Light3D): [number, number, number] => {
+  const a = (azimuth * Math.PI) / 180;
+  const e = (elevation * Math.PI) / 180;
+  return [Math.cos(e) * Math.sin(a), Math.sin(e), -Math.cos(e) * Math.cos(a)];
+};
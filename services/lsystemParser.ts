@@ -0,0 +1,207 @@
+// Parser for L-system axioms and rules. Strings are sequences of one-character symbols, each optionally followed by
+// parameters in parentheses, as in "F(1)[+(30)A(l * 0.7, w)]". Parameters are real-valued expressions; in a
+// successor or condition they can use the formal parameters of the rule's predecessor.
+import { LSystemRule, LSystemSettings } from '../types';
+
+export interface Module {
+  symbol: string;
+  params: number[];
+}
+
+// Evaluates an expression given the values of the rule's formal parameters.
+type Expression = (args: number[]) => number;
+
+export interface ModuleTemplate {
+  symbol: string;
+  params: Expression[];
+}
+
+export interface ParsedRule {
+  symbol: string;
+  arity: number;
+  condition: Expression | null;
+  successor: ModuleTemplate[];
+  weight: number;
+}
+
+export const LSYSTEM_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  log: Math.log,
+  floor: Math.floor,
+};
+
+const has = (record: object, key: string | undefined) => key !== undefined && Object.prototype.hasOwnProperty.call(record, key);
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '<', '>', '+', '-', '*', '/', '^', '(', ')'];
+
+// Compiles an expression to a closure. Comparisons and logical operators give 1 for true and 0 for false.
+const parseExpression = (source: string, formals: string[]): Expression => {
+  const tokens: string[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const match = /^\s+/.exec(rest) ?? /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(rest) ?? /^[a-z_][a-z0-9_]*/i.exec(rest);
+    const operator = match ? null : OPERATORS.find((candidate) => rest.startsWith(candidate));
+    if (!match && !operator) throw new Error(`Unexpected character "${rest[0]}" in "${source}".`);
+    const text = match ? match[0] : operator!;
+    if (text.trim()) tokens.push(text);
+    position += text.length;
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const expect = (token: string) => {
+    if (tokens[index] !== token) throw new Error(`Expected "${token}" in "${source}".`);
+    index++;
+  };
+
+  const binary = (next: () => Expression, operators: Record<string, (a: number, b: number) => number>) => (): Expression => {
+    let left = next();
+    while (has(operators, peek())) {
+      const apply = operators[tokens[index++]];
+      const l = left;
+      const right = next();
+      left = (args) => apply(l(args), right(args));
+    }
+    return left;
+  };
+
+  const atom = (): Expression => {
+    const token = tokens[index++];
+    if (token === undefined) throw new Error(`"${source}" ends unexpectedly.`);
+    if (token === '(') {
+      const inner = or();
+      expect(')');
+      return inner;
+    }
+    if (/^[\d.]/.test(token)) {
+      const value = Number(token);
+      return () => value;
+    }
+    if (has(LSYSTEM_FUNCTIONS, token) && peek() === '(') {
+      const fn = LSYSTEM_FUNCTIONS[token];
+      index++;
+      const argument = or();
+      expect(')');
+      return (args) => fn(argument(args));
+    }
+    if (token === 'pi') return () => Math.PI;
+    const formal = formals.indexOf(token);
+    if (formal >= 0) return (args) => args[formal];
+    throw new Error(formals.length > 0
+      ? `Unknown name "${token}" in "${source}"; the parameters are ${formals.join(', ')}.`
+      : `Unknown name "${token}" in "${source}".`);
+  };
+
+  const unary = (): Expression => {
+    if (peek() === '-') {
+      index++;
+      const operand = unary();
+      return (args) => -operand(args);
+    }
+    const base = atom();
+    if (peek() !== '^') return base;
+    index++;
+    const exponent = unary();
+    return (args) => Math.pow(base(args), exponent(args));
+  };
+
+  const product = binary(unary, { '*': (a, b) => a * b, '/': (a, b) => a / b });
+  const sum = binary(product, { '+': (a, b) => a + b, '-': (a, b) => a - b });
+  const comparison = binary(sum, {
+    '<': (a, b) => Number(a < b),
+    '<=': (a, b) => Number(a <= b),
+    '>': (a, b) => Number(a > b),
+    '>=': (a, b) => Number(a >= b),
+    '==': (a, b) => Number(a === b),
+    '!=': (a, b) => Number(a !== b),
+  });
+  const and = binary(comparison, { '&&': (a, b) => Number(a !== 0 && b !== 0) });
+  const or = binary(and, { '||': (a, b) => Number(a !== 0 || b !== 0) });
+
+  if (tokens.length === 0) throw new Error('An expression is empty.');
+  const expression = or();
+  if (index < tokens.length) throw new Error(`Unexpected "${tokens[index]}" in "${source}".`);
+  return expression;
+};
+
+// Splits a module string into symbols and the text of their parameter lists.
+const splitModules = (source: string): { symbol: string; params: string[] }[] => {
+  const modules: { symbol: string; params: string[] }[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const symbol = source[position++];
+    if (/\s/.test(symbol)) continue;
+    if (symbol === '(' || symbol === ')' || symbol === ',') {
+      throw new Error(`Unexpected "${symbol}" at character ${position}.`);
+    }
+    const params: string[] = [];
+    if (source[position] === '(') {
+      let depth = 0;
+      let start = position + 1;
+      for (position++; ; position++) {
+        if (position >= source.length) throw new Error(`Unclosed "(" after ${symbol}.`);
+        const ch = source[position];
+        if (ch === '(') depth++;
+        else if (ch === ')' && depth-- === 0) break;
+        else if (ch === ',' && depth === 0) {
+          params.push(source.slice(start, position));
+          start = position + 1;
+        }
+      }
+      params.push(source.slice(start, position));
+      position++;
+    }
+    modules.push({ symbol, params });
+  }
+  return modules;
+};
+
+export const parseAxiom = (source: string): Module[] =>
+  splitModules(source).map(({ symbol, params }) => ({
+    symbol,
+    params: params.map((param) => parseExpression(param, [])([])),
+  }));
+
+export const parseRule = (rule: LSystemRule): ParsedRule => {
+  const predecessor = splitModules(rule.predecessor);
+  if (predecessor.length !== 1) {
+    throw new Error(`The predecessor "${rule.predecessor}" must be a single symbol, such as F or A(l, w).`);
+  }
+  const { symbol, params: formals } = predecessor[0];
+  const names = formals.map((formal) => formal.trim());
+  if (!names.every((name) => /^[a-z_][a-z0-9_]*$/i.test(name))) {
+    throw new Error(`The parameters of "${rule.predecessor}" must be names.`);
+  }
+  return {
+    symbol,
+    arity: names.length,
+    condition: rule.condition.trim() ? parseExpression(rule.condition, names) : null,
+    successor: splitModules(rule.successor).map((module) => ({
+      symbol: module.symbol,
+      params: module.params.map((param) => parseExpression(param, names)),
+    })),
+    weight: Math.max(0, rule.weight),
+  };
+};
+
+export const validateLSystem = (settings: LSystemSettings): string | null => {
+  try {
+    parseAxiom(settings.axiom);
+  } catch (error) {
+    return `Axiom: ${(error as Error).message}`;
+  }
+  for (let i = 0; i < settings.rules.length; i++) {
+    try {
+      parseRule(settings.rules[i]);
+    } catch (error) {
+      return `Rule ${i + 1}: ${(error as Error).message}`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,252 @@
+import { LSystemRule, LSystemSettings } from '../types';
+import { createRandom, IFSView } from './ifsService';
+import { Module, parseAxiom, parseRule, ParsedRule } from './lsystemParser';
+import { createPaletteLookup, lookupPaletteColor, PaletteSettings } from './paletteService';
+
+export interface LSystemParams extends IFSView, PaletteSettings {
+  lSystem: LSystemSettings;
+}
+
+// Turtle segments in view coordinates, with the branch depth and line width each was drawn at.
+interface LSystemGeometry {
+  // x1, y1, x2, y2 per segment.
+  segments: Float64Array;
+  depths: Uint16Array;
+  widths: Float32Array;
+  count: number;
+  maxDepth: number;
+}
+
+export const MAX_LSYSTEM_ITERATIONS = 16;
+// Rewriting stops before the string grows past this many symbols.
+export const MAX_LSYSTEM_MODULES = 500_000;
+// Line widths are in pixels; ! without a parameter narrows the line by this factor.
+const LINE_WIDTH = 1.5;
+// Exports scale the lines by their width relative to the canvas's, so they look the same.
+const CANVAS_WIDTH = 800;
+const WIDTH_DECAY = 0.7;
+// Segments are stroked in batches of equal colour, with the palette quantized to this many colours.
+const COLOR_LEVELS = 64;
+// The drawing is fitted into this much of the 4 x 3 view at zoom 1.
+const FIT_WIDTH = 3.6;
+const FIT_HEIGHT = 2.7;
+
+const rule = (predecessor: string, successor: string, condition = '', weight = 1): LSystemRule =>
+  ({ predecessor, condition, successor, weight });
+
+const preset = (name: string, settings: Omit<LSystemSettings, 'seed'>) => ({ name, settings: { ...settings, seed: 1 } });
+
+export const LSYSTEM_PRESETS: { name: string; settings: LSystemSettings }[] = [
+  preset('Koch snowflake', {
+    axiom: 'F--F--F',
+    rules: [rule('F', 'F+F--F+F')],
+    iterations: 4,
+    angle: 60,
+    heading: 0,
+  }),
+  preset('Hilbert curve', {
+    axiom: 'A',
+    rules: [rule('A', '+BF-AFA-FB+'), rule('B', '-AF+BFB+FA-')],
+    iterations: 6,
+    angle: 90,
+    heading: 0,
+  }),
+  preset('Dragon curve', {
+    axiom: 'FX',
+    rules: [rule('X', 'X+YF+'), rule('Y', '-FX-Y')],
+    iterations: 12,
+    angle: 90,
+    heading: 0,
+  }),
+  preset('Sierpinski arrowhead', {
+    axiom: 'F',
+    rules: [rule('F', 'G-F-G'), rule('G', 'F+G+F')],
+    iterations: 7,
+    angle: 60,
+    heading: 0,
+  }),
+  preset('Fractal plant', {
+    axiom: 'X',
+    rules: [rule('X', 'F+[[X]-X]-F[-FX]+X'), rule('F', 'FF')],
+    iterations: 6,
+    angle: 25,
+    heading: 65,
+  }),
+  preset('Stochastic weed', {
+    axiom: 'F',
+    rules: [rule('F', 'F[+F]F[-F]F', '', 1), rule('F', 'F[+F]F', '', 1), rule('F', 'F[-F]F', '', 1)],
+    iterations: 5,
+    angle: 25.7,
+    heading: 90,
+  }),
+  preset('Parametric tree', {
+    axiom: '!(6)A(1)',
+    rules: [rule('A(s)', 'F(s)[+(30)!(s * 6)A(s * 0.72)][-(20)!(s * 6)A(s * 0.64)]', 's > 0.05')],
+    iterations: 10,
+    angle: 30,
+    heading: 90,
+  }),
+];
+
+export const DEFAULT_LSYSTEM = LSYSTEM_PRESETS[0].settings;
+
+// Rewrites the axiom once per iteration, stopping early if the string would grow too long. Symbols without a
+// matching rule are copied unchanged.
+export const expandLSystem = (settings: LSystemSettings): Module[] => {
+  const rules = new Map<string, ParsedRule[]>();
+  settings.rules.map(parseRule).forEach((parsed) => {
+    const key = `${parsed.symbol}/${parsed.arity}`;
+    rules.set(key, [...(rules.get(key) ?? []), parsed]);
+  });
+  const random = createRandom(settings.seed);
+
+  let modules = parseAxiom(settings.axiom);
+  for (let iteration = 0; iteration < settings.iterations; iteration++) {
+    const next: Module[] = [];
+    for (const module of modules) {
+      const candidates = (rules.get(`${module.symbol}/${module.params.length}`) ?? [])
+        .filter((candidate) => !candidate.condition || candidate.condition(module.params) !== 0);
+      if (candidates.length === 0) {
+        next.push(module);
+        continue;
+      }
+      let chosen = candidates[candidates.length - 1];
+      if (candidates.length > 1) {
+        const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+        let r = random() * total;
+        chosen = candidates.find((candidate) => (r -= candidate.weight) < 0) ?? chosen;
+      }
+      for (const template of chosen.successor) {
+        next.push({ symbol: template.symbol, params: template.params.map((param) => param(module.params)) });
+      }
+      if (next.length > MAX_LSYSTEM_MODULES) {
+        return modules;
+      }
+    }
+    modules = next;
+  }
+  return modules;
+};
+
+// Interprets the modules with turtle graphics: F and G draw a step, f moves without drawing, + and - turn left and
+// right, | turns around, [ and ] save and restore the turtle, and ! sets the line width. Parameters override the step
+// length, angle or width.
+const interpret = (modules: Module[], settings: LSystemSettings): LSystemGeometry => {
+  const defaultAngle = (settings.angle * Math.PI) / 180;
+  const coordinates: number[] = [];
+  const depths: number[] = [];
+  const widths: number[] = [];
+  const stack: [number, number, number, number][] = [];
+  let x = 0;
+  let y = 0;
+  let heading = (settings.heading * Math.PI) / 180;
+  let width = 1;
+  let maxDepth = 0;
+
+  for (const { symbol, params } of modules) {
+    const [value] = params;
+    switch (symbol) {
+      case 'F':
+      case 'G':
+      case 'f': {
+        const length = value ?? 1;
+        const nextX = x + length * Math.cos(heading);
+        const nextY = y + length * Math.sin(heading);
+        if (symbol !== 'f') {
+          coordinates.push(x, y, nextX, nextY);
+          depths.push(stack.length);
+          widths.push(width);
+        }
+        x = nextX;
+        y = nextY;
+        break;
+      }
+      case '+':
+        heading += value !== undefined ? (value * Math.PI) / 180 : defaultAngle;
+        break;
+      case '-':
+        heading -= value !== undefined ? (value * Math.PI) / 180 : defaultAngle;
+        break;
+      case '|':
+        heading += Math.PI;
+        break;
+      case '[':
+        stack.push([x, y, heading, width]);
+        maxDepth = Math.max(maxDepth, stack.length);
+        break;
+      case ']':
+        [x, y, heading, width] = stack.pop() ?? [x, y, heading, width];
+        break;
+      case '!':
+        width = value !== undefined ? Math.max(0, value) : width * WIDTH_DECAY;
+        break;
+      default:
+        break;
+    }
+  }
+
+  // Centre the drawing and flip it so y points up on screen, as the turtle's angles assume.
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < coordinates.length; i += 2) {
+    minX = Math.min(minX, coordinates[i]);
+    maxX = Math.max(maxX, coordinates[i]);
+    minY = Math.min(minY, coordinates[i + 1]);
+    maxY = Math.max(maxY, coordinates[i + 1]);
+  }
+  const scale = Math.min(FIT_WIDTH / (maxX - minX || 1), FIT_HEIGHT / (maxY - minY || 1));
+  const segments = Float64Array.from(coordinates, (value, i) =>
+    i % 2 === 0 ? (value - (minX + maxX) / 2) * scale : -(value - (minY + maxY) / 2) * scale);
+
+  return {
+    segments,
+    depths: Uint16Array.from(depths),
+    widths: Float32Array.from(widths),
+    count: depths.length,
+    maxDepth,
+  };
+};
+
+let cachedGeometry: { key: string; geometry: LSystemGeometry } | null = null;
+
+// Expanding and interpreting a large system takes a while, so the last result is kept for panning and zooming.
+const getGeometry = (settings: LSystemSettings): LSystemGeometry => {
+  const key = JSON.stringify(settings);
+  if (!cachedGeometry || cachedGeometry.key !== key) {
+    cachedGeometry = { key, geometry: interpret(expandLSystem(settings), settings) };
+  }
+  return cachedGeometry.geometry;
+};
+
+// Draws the L-system with the canvas's current transform, so export bands can offset it. Segments are coloured by
+// how deeply they are nested in branches, or along the path for systems without branches.
+export const drawLSystem = (ctx: CanvasRenderingContext2D, params: LSystemParams) => {
+  const { width, height, zoom, panX, panY } = params;
+  const { segments, depths, widths, count, maxDepth } = getGeometry(params.lSystem);
+  const lookup = createPaletteLookup(params);
+  const scale = (width * zoom) / 4;
+  const pixelScale = width / CANVAS_WIDTH;
+
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  ctx.lineCap = 'round';
+
+  let style = '';
+  let lineWidth = -1;
+  ctx.beginPath();
+  for (let i = 0; i < count; i++) {
+    const position = maxDepth > 0 ? depths[i] / maxDepth : i / Math.max(1, count - 1);
+    const [r, g, b] = lookupPaletteColor(lookup, Math.round(position * (COLOR_LEVELS - 1)) / (COLOR_LEVELS - 1));
+    const nextStyle = `rgb(${r}, ${g}, ${b})`;
+    const nextWidth = Math.max(0.5, LINE_WIDTH * widths[i] * pixelScale);
+    if (nextStyle !== style || nextWidth !== lineWidth) {
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.strokeStyle = style = nextStyle;
+      ctx.lineWidth = lineWidth = nextWidth;
+    }
+    const j = i * 4;
+    ctx.moveTo((segments[j] + panX) * scale + width / 2, (segments[j + 1] + panY) * scale + height / 2);
+    ctx.lineTo((segments[j + 2] + panX) * scale + width / 2, (segments[j + 3] + panY) * scale + height / 2);
+  }
+  ctx.stroke();
+};
@@ -0,0 +1,307 @@
+import { Camera3D, Fractal3DSettings, Fractal3DType, Lighting3DSettings, Render3DSettings, Vec3 } from '../types';
+import { getCameraMatrix, getFocalLength, getTargetDistance } from './cameraService';
+import { DISTANCE_ESTIMATORS, resolveParameters } from './distanceEstimators';
+import { getLightDirection, MAX_LIGHTS } from './lightingService';
+import { createPaletteTable, PaletteSettings, resolvePalette } from './paletteService';
+import {
+  vertexShaderSource,
+  createFragmentShaderSource,
+  createProbeShaderSource,
+  decodeProbeDistance,
+  presentFragmentShaderSource,
+} from './mandelbulbShaders';
+import { createShader, createProgram } from './webglUtils';
+
+const PALETTE_SIZE = 256;
+
+export const MAX_3D_SAMPLES = 256;
+
+export const DEFAULT_RENDER_3D: Render3DSettings = { samples: 32, aperture: 0, focus: 1 };
+
+const LIGHTING_UNIFORM_NAMES = [
+  'u_palette', 'u_paletteSize', 'u_paletteMapping', 'u_lightDirections', 'u_lightColors', 'u_lightCount',
+  'u_ambient', 'u_diffuse', 'u_specular', 'u_shininess', 'u_shadowSharpness', 'u_ambientOcclusion',
+  'u_fog', 'u_glow', 'u_glowColor', 'u_backgroundTop', 'u_backgroundBottom',
+];
+
+export interface MandelbulbView extends PaletteSettings {
+  camera: Camera3D;
+  mandelbulbIterations: number;
+  fractal3D: Fractal3DSettings;
+  lighting3D: Lighting3DSettings;
+  render3D: Render3DSettings;
+}
+
+// The part of the full image covered by the current viewport. fragOffset is measured from the bottom-left, as in GL.
+export interface MandelbulbFrame {
+  width: number;
+  height: number;
+  fragOffset: { x: number; y: number };
+  time: number;
+}
+
+export interface MandelbulbRenderer {
+  // Starts a new image, drawn at the given fraction of the canvas's resolution.
+  reset: (scale?: number) => void;
+  // Adds a sample to the image and returns how many it now averages.
+  addSample: (view: MandelbulbView, frame: MandelbulbFrame) => number;
+  // Draws the image to the canvas.
+  present: () => void;
+  // The distance from a point to the fractal's surface, as the estimator bounds it.
+  estimateDistance: (view: MandelbulbView, point: Vec3) => number;
+  dispose: () => void;
+}
+
+const halton = (index: number, base: number) => {
+  let result = 0;
+  let fraction = 1 / base;
+  for (let i = index; i > 0; i = Math.floor(i / base)) {
+    result += fraction * (i % base);
+    fraction /= base;
+  }
+  return result;
+};
+
+// The first sample goes through the pixel centre and the middle of the lens; later ones spread over both along
+// Halton sequences, which cover them more evenly than random points.
+const getSampleOffsets = (index: number) => {
+  if (index === 0) return { jitter: [0, 0], lens: [0, 0] };
+  const radius = Math.sqrt(halton(index, 5));
+  const angle = 2 * Math.PI * halton(index, 7);
+  return {
+    jitter: [halton(index, 2) - 0.5, halton(index, 3) - 0.5],
+    lens: [radius * Math.cos(angle), radius * Math.sin(angle)],
+  };
+};
+
+// Picks the most precise format the GPU can render and blend into: the running average loses the later samples
+// to rounding in 8-bit channels.
+const allocateAccumulationBuffer = (gl: WebGLRenderingContext, texture: WebGLTexture | null, framebuffer: WebGLFramebuffer | null, width: number, height: number) => {
+  const types: number[] = [];
+  if (gl.getExtension('OES_texture_float') && gl.getExtension('WEBGL_color_buffer_float') && gl.getExtension('EXT_float_blend')) {
+    types.push(gl.FLOAT);
+  }
+  const halfFloat = gl.getExtension('OES_texture_half_float');
+  if (halfFloat && gl.getExtension('EXT_color_buffer_half_float')) {
+    types.push(halfFloat.HALF_FLOAT_OES);
+  }
+  types.push(gl.UNSIGNED_BYTE);
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  for (const type of types) {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, type, null);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE) break;
+  }
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+};
+
+// Raymarches any of the 3D fractals; the shader is built around the distance estimator of the given type. Samples
+// are averaged in an offscreen buffer, which is what smooths edges and blurs out of focus parts of the image.
+export const createMandelbulbRenderer = (gl: WebGLRenderingContext, type: Fractal3DType): MandelbulbRenderer | null => {
+  const estimator = DISTANCE_ESTIMATORS[type];
+  const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+  const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, createFragmentShaderSource(estimator));
+  const presentShader = createShader(gl, gl.FRAGMENT_SHADER, presentFragmentShaderSource);
+  const probeShader = createShader(gl, gl.FRAGMENT_SHADER, createProbeShaderSource(estimator));
+  if (!vertexShader || !fragmentShader || !presentShader || !probeShader) return null;
+
+  const program = createProgram(gl, vertexShader, fragmentShader);
+  const presentProgram = createProgram(gl, vertexShader, presentShader);
+  const probeProgram = createProgram(gl, vertexShader, probeShader);
+  if (!program || !presentProgram || !probeProgram) return null;
+
+  const positionAttributeLocation = gl.getAttribLocation(program, "a_position");
+  const resolutionUniformLocation = gl.getUniformLocation(program, "u_resolution");
+  const fragOffsetUniformLocation = gl.getUniformLocation(program, "u_fragOffset");
+  const jitterUniformLocation = gl.getUniformLocation(program, "u_jitter");
+  const lensOffsetUniformLocation = gl.getUniformLocation(program, "u_lensOffset");
+  const apertureUniformLocation = gl.getUniformLocation(program, "u_aperture");
+  const focusDistanceUniformLocation = gl.getUniformLocation(program, "u_focusDistance");
+  const timeUniformLocation = gl.getUniformLocation(program, "u_time");
+  const cameraPositionUniformLocation = gl.getUniformLocation(program, "u_cameraPosition");
+  const cameraMatrixUniformLocation = gl.getUniformLocation(program, "u_cameraMatrix");
+  const focalLengthUniformLocation = gl.getUniformLocation(program, "u_focalLength");
+  const maxStepsUniformLocation = gl.getUniformLocation(program, "u_maxSteps");
+  const getParameterLocations = (target: WebGLProgram) =>
+    estimator.parameters.map(({ name }) => [name, gl.getUniformLocation(target, `u_${name}`)] as const);
+  const parameterUniformLocations = getParameterLocations(program);
+  const uniforms = Object.fromEntries(LIGHTING_UNIFORM_NAMES.map((name) => [name, gl.getUniformLocation(program, name)]));
+  const presentPositionLocation = gl.getAttribLocation(presentProgram, "a_position");
+  const imageUniformLocation = gl.getUniformLocation(presentProgram, "u_image");
+  const sizeUniformLocation = gl.getUniformLocation(presentProgram, "u_size");
+  const scaleUniformLocation = gl.getUniformLocation(presentProgram, "u_scale");
+  const probePositionLocation = gl.getAttribLocation(probeProgram, "a_position");
+  const probePointUniformLocation = gl.getUniformLocation(probeProgram, "u_point");
+  const probeParameterLocations = getParameterLocations(probeProgram);
+  let paletteTexture: WebGLTexture | null = gl.createTexture();
+  let uploadedPaletteKey: string | null = null;
+
+  const accumulationTexture = gl.createTexture();
+  const accumulationFramebuffer = gl.createFramebuffer();
+  let bufferSize = { width: 0, height: 0 };
+  let viewport = { width: gl.canvas.width, height: gl.canvas.height };
+  let sampleCount = 0;
+
+  // The probe draws its single pixel offscreen, leaving the canvas alone.
+  const probeTexture = gl.createTexture();
+  const probeFramebuffer = gl.createFramebuffer();
+  const probePixel = new Uint8Array(4);
+  gl.bindTexture(gl.TEXTURE_2D, probeTexture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, probeFramebuffer);
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, probeTexture, 0);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  const positionBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+  const positions = [-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1];
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(positions), gl.STATIC_DRAW);
+
+  const useProgram = (target: WebGLProgram, location: number) => {
+    gl.useProgram(target);
+    gl.enableVertexAttribArray(location);
+    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+    gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+  };
+
+  const uploadPalette = (view: MandelbulbView) => {
+    const gradient = resolvePalette(view);
+    const key = JSON.stringify(gradient);
+    if (uploadedPaletteKey === key) return;
+    gl.bindTexture(gl.TEXTURE_2D, paletteTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, PALETTE_SIZE, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, createPaletteTable(gradient, PALETTE_SIZE));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    uploadedPaletteKey = key;
+  };
+
+  const setLightingUniforms = (lighting: Lighting3DSettings) => {
+    const lights = lighting.lights.slice(0, MAX_LIGHTS);
+    const directions = new Float32Array(MAX_LIGHTS * 3);
+    const colors = new Float32Array(MAX_LIGHTS * 3);
+    lights.forEach((light, i) => {
+      directions.set(getLightDirection(light), i * 3);
+      colors.set(light.color.map((channel) => (channel / 255) * light.intensity), i * 3);
+    });
+    const rgb = (color: [number, number, number]) => color.map((channel) => channel / 255) as [number, number, number];
+    gl.uniform3fv(uniforms.u_lightDirections, directions);
+    gl.uniform3fv(uniforms.u_lightColors, colors);
+    gl.uniform1i(uniforms.u_lightCount, lights.length);
+    gl.uniform1f(uniforms.u_ambient, lighting.ambient);
+    gl.uniform1f(uniforms.u_diffuse, lighting.diffuse);
+    gl.uniform1f(uniforms.u_specular, lighting.specular);
+    gl.uniform1f(uniforms.u_shininess, lighting.shininess);
+    gl.uniform1f(uniforms.u_shadowSharpness, lighting.shadowSharpness);
+    gl.uniform1f(uniforms.u_ambientOcclusion, lighting.ambientOcclusion);
+    gl.uniform1f(uniforms.u_fog, lighting.fog);
+    gl.uniform1f(uniforms.u_glow, lighting.glow);
+    gl.uniform3f(uniforms.u_glowColor, ...rgb(lighting.glowColor));
+    gl.uniform3f(uniforms.u_backgroundTop, ...rgb(lighting.backgroundTop));
+    gl.uniform3f(uniforms.u_backgroundBottom, ...rgb(lighting.backgroundBottom));
+  };
+
+  const reset = (scale = 1) => {
+    const { width, height } = gl.canvas;
+    if (bufferSize.width !== width || bufferSize.height !== height) {
+      allocateAccumulationBuffer(gl, accumulationTexture, accumulationFramebuffer, width, height);
+      bufferSize = { width, height };
+    }
+    viewport = { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+    sampleCount = 0;
+  };
+
+  const addSample = (view: MandelbulbView, frame: MandelbulbFrame) => {
+    if (bufferSize.width === 0) reset();
+    const scale = viewport.width / bufferSize.width;
+    const { jitter, lens } = getSampleOffsets(sampleCount);
+    const targetDistance = getTargetDistance(view.camera);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, accumulationFramebuffer);
+    gl.viewport(0, 0, viewport.width, viewport.height);
+    useProgram(program, positionAttributeLocation);
+    gl.uniform2f(resolutionUniformLocation, frame.width * scale, frame.height * scale);
+    gl.uniform2f(fragOffsetUniformLocation, frame.fragOffset.x * scale, frame.fragOffset.y * scale);
+    gl.uniform2f(jitterUniformLocation, jitter[0], jitter[1]);
+    gl.uniform2f(lensOffsetUniformLocation, lens[0], lens[1]);
+    gl.uniform1f(apertureUniformLocation, view.render3D.aperture * targetDistance);
+    gl.uniform1f(focusDistanceUniformLocation, view.render3D.focus * targetDistance);
+    gl.uniform1f(timeUniformLocation, frame.time);
+    gl.uniform3f(cameraPositionUniformLocation, ...view.camera.position);
+    gl.uniformMatrix3fv(cameraMatrixUniformLocation, false, getCameraMatrix(view.camera));
+    gl.uniform1f(focalLengthUniformLocation, getFocalLength(view.camera.fov));
+    gl.uniform1i(maxStepsUniformLocation, view.mandelbulbIterations);
+    const parameters = resolveParameters(view.fractal3D, type);
+    parameterUniformLocations.forEach(([name, location]) => gl.uniform1f(location, parameters[name]));
+    gl.activeTexture(gl.TEXTURE0);
+    uploadPalette(view);
+    gl.bindTexture(gl.TEXTURE_2D, paletteTexture);
+    gl.uniform1i(uniforms.u_palette, 0);
+    gl.uniform1f(uniforms.u_paletteSize, PALETTE_SIZE);
+    gl.uniform3f(uniforms.u_paletteMapping, view.paletteOffset, view.paletteRepeat, view.paletteDensity);
+    setLightingUniforms(view.lighting3D);
+
+    // Blending by the constant 1/n keeps the buffer the mean of the n samples so far; the first replaces it.
+    gl.enable(gl.BLEND);
+    gl.blendColor(0, 0, 0, 1 / (sampleCount + 1));
+    gl.blendFunc(gl.CONSTANT_ALPHA, gl.ONE_MINUS_CONSTANT_ALPHA);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    gl.disable(gl.BLEND);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return ++sampleCount;
+  };
+
+  const present = () => {
+    gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
+    useProgram(presentProgram, presentPositionLocation);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, accumulationTexture);
+    gl.uniform1i(imageUniformLocation, 1);
+    gl.uniform2f(sizeUniformLocation, gl.canvas.width, gl.canvas.height);
+    gl.uniform2f(scaleUniformLocation, viewport.width / bufferSize.width, viewport.height / bufferSize.height);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  };
+
+  const estimateDistance = (view: MandelbulbView, point: Vec3) => {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, probeFramebuffer);
+    gl.viewport(0, 0, 1, 1);
+    useProgram(probeProgram, probePositionLocation);
+    gl.uniform3f(probePointUniformLocation, ...point);
+    const parameters = resolveParameters(view.fractal3D, type);
+    probeParameterLocations.forEach(([name, location]) => gl.uniform1f(location, parameters[name]));
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, probePixel);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return decodeProbeDistance(probePixel);
+  };
+
+  const dispose = () => {
+    gl.deleteProgram(program);
+    gl.deleteProgram(presentProgram);
+    gl.deleteProgram(probeProgram);
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+    gl.deleteShader(presentShader);
+    gl.deleteShader(probeShader);
+    gl.deleteBuffer(positionBuffer);
+    gl.deleteTexture(paletteTexture);
+    gl.deleteTexture(accumulationTexture);
+    gl.deleteFramebuffer(accumulationFramebuffer);
+    gl.deleteTexture(probeTexture);
+    gl.deleteFramebuffer(probeFramebuffer);
+    paletteTexture = null;
+  };
+
+  return { reset, addSample, present, estimateDistance, dispose };
+};
@@ -1,3 +1,6 @@
+import { DistanceEstimator, MAX_ESTIMATOR_ITERATIONS } from './distanceEstimators';
+import { MAX_LIGHTS } from './lightingService';
+
 export const vertexShaderSource = `
   attribute vec4 a_position;
   void main() {
@@ -5,114 +8,186 @@ export const vertexShaderSource = `
   }
 `;
 
-export const fragmentShaderSource = `
+// Copies the accumulated samples to the canvas. u_scale is the part of the buffer the image covers, which is less
+// than all of it for the low-resolution previews.
+export const presentFragmentShaderSource = `
+  precision mediump float;
+  uniform sampler2D u_image;
+  uniform vec2 u_size;
+  uniform vec2 u_scale;
+  void main() {
+    gl_FragColor = vec4(texture2D(u_image, gl_FragCoord.xy / u_size * u_scale).rgb, 1.0);
+  }
+`;
+
+// Evaluates the distance estimator at a single point, for the fly mode's speed. The result is written as log2 of the
+// distance, mapped from [-24, 8] onto [0, 1] and spread over the four bytes of an RGBA8 pixel.
+export const createProbeShaderSource = (estimator: DistanceEstimator) => `
+  precision highp float;
+
+  uniform vec3 u_point;
+${estimator.parameters.map(({ name }) => `  uniform float u_${name};`).join('\n')}
+
+  const int MAX_ITERATIONS = ${MAX_ESTIMATOR_ITERATIONS};
+${estimator.source}
+  void main() {
+      float d = estimateDistance(u_point).x;
+      float v = clamp((log2(max(d, 1e-7)) + 24.0) / 32.0, 0.0, 0.999999);
+      vec4 bytes = fract(v * vec4(1.0, 255.0, 65025.0, 16581375.0));
+      gl_FragColor = bytes - bytes.yzww * vec4(1.0 / 255.0, 1.0 / 255.0, 1.0 / 255.0, 0.0);
+  }
+`;
+
+export const decodeProbeDistance = ([r, g, b, a]: Uint8Array) =>
+  Math.pow(2, (r / 255 + g / 65025 + b / 16581375 + a / 4228250625) * 32 - 24);
+
+// Like the estimators' iterations, the step count breaks out of a loop with a constant bound, as WebGL 1 requires.
+export const MAX_RAYMARCH_STEPS = 1000;
+
+// The raymarcher, around the fractal's distance estimator and a float uniform for each of its parameters. Surfaces
+// take their colour from the palette by orbit trap and are lit by the camera-relative lights.
+export const createFragmentShaderSource = (estimator: DistanceEstimator) => `
   precision highp float;
 
   uniform vec2 u_resolution;
+  // Position of this viewport within the full image, so large exports can be rendered tile by tile.
+  uniform vec2 u_fragOffset;
+  // Subpixel offset of this sample, in pixels, and its position on the lens in the unit disc.
+  uniform vec2 u_jitter;
+  uniform vec2 u_lensOffset;
+  uniform float u_aperture;
+  uniform float u_focusDistance;
   uniform float u_time;
-  uniform vec2 u_cameraRotation;
-  uniform float u_cameraDistance;
-  uniform vec2 u_cameraTarget;
+  uniform vec3 u_cameraPosition;
+  // Columns right, up and forward.
+  uniform mat3 u_cameraMatrix;
+  uniform float u_focalLength;
   uniform int u_maxSteps;
+${estimator.parameters.map(({ name }) => `  uniform float u_${name};`).join('\n')}
 
   const float MIN_DIST = 0.0001;
   const float MAX_DIST = 100.0;
-  const float POWER = 8.0;
-
-  vec2 mandelbulbDE(vec3 pos) {
-      vec3 z = pos;
-      float dr = 1.0;
-      float r = 0.0;
-      for (int i = 0; i < 10; i++) {
-          r = length(z);
-          if (r > 2.0) break;
-          
-          float theta = acos(z.z / r);
-          float phi = atan(z.y, z.x);
-          
-          dr = pow(r, POWER - 1.0) * POWER * dr + 1.0;
-          
-          float zr = pow(r, POWER);
-          theta = theta * POWER;
-          phi = phi * POWER;
-          
-          z = zr * vec3(sin(theta) * cos(phi), sin(theta) * sin(phi), cos(theta));
-          z += pos;
-      }
-      return vec2(0.5 * r * log(r) / dr, r);
-  }
-
+  const int MAX_ITERATIONS = ${MAX_ESTIMATOR_ITERATIONS};
+  const int MAX_STEPS = ${MAX_RAYMARCH_STEPS};
+  const int MAX_LIGHTS = ${MAX_LIGHTS};
+  const int SHADOW_STEPS = 48;
+  const float SHADOW_DISTANCE = 3.0;
+  // Steps a ray takes past the fractal for the glow to reach full strength.
+  const float GLOW_STEPS = 80.0;
+
+  uniform sampler2D u_palette;
+  uniform float u_paletteSize;
+  uniform vec3 u_paletteMapping; // (offset, repeat, density), as in mapPalettePosition
+  // Directions towards the lights in camera space, and their colours scaled by intensity.
+  uniform vec3 u_lightDirections[MAX_LIGHTS];
+  uniform vec3 u_lightColors[MAX_LIGHTS];
+  uniform int u_lightCount;
+  uniform float u_ambient;
+  uniform float u_diffuse;
+  uniform float u_specular;
+  uniform float u_shininess;
+  uniform float u_shadowSharpness;
+  uniform float u_ambientOcclusion;
+  uniform float u_fog;
+  uniform float u_glow;
+  uniform vec3 u_glowColor;
+  uniform vec3 u_backgroundTop;
+  uniform vec3 u_backgroundBottom;
+${estimator.source}
   vec3 calcNormal(vec3 pos) {
       vec2 e = vec2(MIN_DIST, 0.0);
       vec3 n = vec3(
-          mandelbulbDE(pos + e.xyy).x - mandelbulbDE(pos - e.xyy).x,
-          mandelbulbDE(pos + e.yxy).x - mandelbulbDE(pos - e.yxy).x,
-          mandelbulbDE(pos + e.yyx).x - mandelbulbDE(pos - e.yyx).x
+          estimateDistance(pos + e.xyy).x - estimateDistance(pos - e.xyy).x,
+          estimateDistance(pos + e.yxy).x - estimateDistance(pos - e.yxy).x,
+          estimateDistance(pos + e.yyx).x - estimateDistance(pos - e.yyx).x
       );
       return normalize(n);
   }
 
-  mat3 getCamera(vec3 ro, vec3 ta) {
-      vec3 f = normalize(ta - ro);
-      vec3 r = normalize(cross(vec3(0.0, 1.0, 0.0), f));
-      vec3 u = cross(f, r);
-      return mat3(r, u, f);
+  vec3 paletteColor(float trap) {
+      float t = pow(max(trap, 0.0), 1.0 / u_paletteMapping.z) * u_paletteMapping.y + u_paletteMapping.x;
+      t = (u_paletteMapping.y == 1.0 && u_paletteMapping.x == 0.0) ? clamp(t, 0.0, 1.0) : fract(t);
+      float u = (t * (u_paletteSize - 1.0) + 0.5) / u_paletteSize;
+      return texture2D(u_palette, vec2(u, 0.5)).rgb;
   }
 
-  void main() {
-      vec2 uv = (gl_FragCoord.xy * 2.0 - u_resolution.xy) / u_resolution.y;
+  // Marches towards the light; how closely the ray grazes the fractal on the way sets the penumbra (after Inigo Quilez).
+  float softShadow(vec3 ro, vec3 rd) {
+      float result = 1.0;
+      float t = 10.0 * MIN_DIST;
+      for (int i = 0; i < SHADOW_STEPS; i++) {
+          float h = estimateDistance(ro + rd * t).x;
+          result = min(result, u_shadowSharpness * h / t);
+          t += clamp(h, MIN_DIST, 0.2);
+          if (result < 0.001 || t > SHADOW_DISTANCE) break;
+      }
+      return clamp(result, 0.0, 1.0);
+  }
 
-      vec3 ta = vec3(u_cameraTarget.x, u_cameraTarget.y, 0.0);
-      vec3 ro = vec3(u_cameraTarget.x, u_cameraTarget.y, u_cameraDistance);
-      
-      float rotX = u_cameraRotation.x;
-      float rotY = u_cameraRotation.y;
+  // Away from other surfaces the distance estimate grows as fast as the distance along the normal; where it lags,
+  // nearby folds of the fractal hide the point from the sky.
+  float ambientOcclusion(vec3 pos, vec3 normal) {
+      float occlusion = 0.0;
+      float weight = 1.0;
+      for (int i = 0; i < 5; i++) {
+          float h = 0.01 + 0.03 * float(i);
+          occlusion += (h - estimateDistance(pos + normal * h).x) * weight;
+          weight *= 0.75;
+      }
+      return clamp(1.0 - 3.0 * u_ambientOcclusion * occlusion, 0.0, 1.0);
+  }
 
-      vec3 ro_offset = ro - ta;
-      ro_offset.xz *= mat2(cos(rotX), -sin(rotX), sin(rotX), cos(rotX));
-      ro_offset.yz *= mat2(cos(rotY), -sin(rotY), sin(rotY), cos(rotY));
-      ro = ro_offset + ta;
+  void main() {
+      vec2 uv = ((gl_FragCoord.xy + u_fragOffset + u_jitter) * 2.0 - u_resolution.xy) / u_resolution.y;
 
-      mat3 cam = getCamera(ro, ta);
-      vec3 rd = cam * normalize(vec3(uv, -1.5));
+      mat3 cam = u_cameraMatrix;
+      // A thin lens: rays from across the aperture meet again on the plane of focus.
+      vec3 dir = normalize(vec3(uv, u_focalLength));
+      vec3 lens = vec3(u_lensOffset * u_aperture, 0.0);
+      vec3 rd = cam * normalize(dir * (u_focusDistance / dir.z) - lens);
+      vec3 ro = u_cameraPosition + cam * lens;
 
       float total_dist = 0.0;
       vec3 p = ro;
       vec2 res;
+      float steps = 0.0;
 
-      for (int i = 0; i < u_maxSteps; i++) {
-          res = mandelbulbDE(p);
+      for (int i = 0; i < MAX_STEPS; i++) {
+          if (i >= u_maxSteps) break;
+          res = estimateDistance(p);
           float d = res.x;
           if (d < MIN_DIST || total_dist > MAX_DIST) break;
           p += rd * d;
           total_dist += d;
+          steps += 1.0;
       }
 
-      vec3 col = vec3(0.0);
+      float height = clamp((gl_FragCoord.y + u_fragOffset.y) / u_resolution.y, 0.0, 1.0);
+      vec3 background = mix(u_backgroundBottom, u_backgroundTop, height);
+      vec3 col = background;
 
       if (total_dist < MAX_DIST) {
           vec3 normal = calcNormal(p);
-          vec3 lightPos = ro + vec3(1.0, 2.0, 3.0);
-          vec3 lightDir = normalize(lightPos - p);
-          
-          float ambientStrength = 0.2;
-          vec3 ambient = ambientStrength * vec3(1.0);
-          
-          float diff = max(dot(normal, lightDir), 0.0);
-          vec3 diffuse = diff * vec3(0.8, 0.7, 0.6);
-          
-          float specularStrength = 0.5;
           vec3 viewDir = normalize(ro - p);
-          vec3 reflectDir = reflect(-lightDir, normal);
-          float spec = pow(max(dot(viewDir, reflectDir), 0.0), 32.0);
-          vec3 specular = specularStrength * spec * vec3(1.0);
-          
-          vec3 objectColor = 0.5 + 0.5 * cos(3.0 + res.y * 0.4 + vec3(0.0, 0.5, 1.0));
-          
-          col = (ambient + diffuse + specular) * objectColor;
+          vec3 albedo = paletteColor(res.y);
+          vec3 light = vec3(u_ambient * ambientOcclusion(p, normal));
+          vec3 specular = vec3(0.0);
+
+          for (int i = 0; i < MAX_LIGHTS; i++) {
+              if (i >= u_lightCount) break;
+              vec3 lightDir = normalize(cam * u_lightDirections[i]);
+              float diff = max(dot(normal, lightDir), 0.0);
+              if (diff == 0.0) continue;
+              float shadow = u_shadowSharpness > 0.0 ? softShadow(p + normal * 2.0 * MIN_DIST, lightDir) : 1.0;
+              light += u_lightColors[i] * u_diffuse * diff * shadow;
+              vec3 reflectDir = reflect(-lightDir, normal);
+              specular += u_lightColors[i] * u_specular * pow(max(dot(viewDir, reflectDir), 0.0), u_shininess) * shadow;
+          }
+
+          col = mix(background, albedo * light + specular, exp(-u_fog * total_dist * total_dist));
       }
 
-      col *= exp(-0.01 * total_dist * total_dist);
+      col += u_glowColor * u_glow * min(steps / GLOW_STEPS, 1.0);
 
       gl_FragColor = vec4(col, 1.0);
   }
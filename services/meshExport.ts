@@ -0,0 +1,57 @@
+// Exports the 3D fractals as meshes. The mesher itself (meshService) runs in a worker; this is the protocol it speaks
+// and the entry point the export dialog calls.
+import { Fractal3DType, RenderParams } from '../types';
+import { is3DFractal, resolveParameters } from './distanceEstimators';
+import { createPaletteLookup, PaletteLookup } from './paletteService';
+import { createJob, ExportJob } from './exportService';
+import type { MeshOptions } from './meshService';
+
+export interface MeshWorkerRequest {
+  fractalType: Fractal3DType;
+  parameters: Record<string, number>;
+  palette: PaletteLookup;
+  options: MeshOptions;
+}
+
+export type MeshWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+// Builds a mesh of the 3D fractal's surface in a worker of its own, which cancelling simply terminates.
+export const exportMesh = (
+  params: RenderParams,
+  options: MeshOptions,
+  onProgress: (progress: number) => void,
+): ExportJob<Blob> => createJob((cancellation) => new Promise((resolve, reject) => {
+  const { fractalType } = params;
+  if (!is3DFractal(fractalType)) {
+    reject(new Error('Only the 3D fractals can be exported as meshes.'));
+    return;
+  }
+  const worker = new Worker(new URL('./meshWorker.ts', import.meta.url), { type: 'module' });
+  const settle = (finish: () => void) => {
+    worker.terminate();
+    cancellation.onCancel = null;
+    finish();
+  };
+  cancellation.onCancel = () => settle(() => resolve(null));
+  worker.onmessage = (e: MessageEvent<MeshWorkerResponse>) => {
+    const response = e.data;
+    if (response.type === 'progress') {
+      onProgress(response.progress);
+    } else if (response.type === 'done') {
+      settle(() => resolve(response.blob));
+    } else {
+      settle(() => reject(new Error(response.message)));
+    }
+  };
+  worker.onerror = (e) => settle(() => reject(new Error(e.message)));
+  const request: MeshWorkerRequest = {
+    fractalType,
+    parameters: resolveParameters(params.fractal3D, fractalType),
+    palette: createPaletteLookup(params),
+    options,
+  };
+  worker.postMessage(request);
+}));
@@ -0,0 +1,460 @@
+// Turns a 3D fractal's distance estimator into a triangle mesh for 3D printing: the estimate is sampled on a grid,
+// the surface extracted by marching tetrahedra and optionally simplified, and the result written as STL, OBJ or PLY.
+// Everything here is pure so it can run in a worker.
+import { Fractal3DType, MeshFormat, Vec3 } from '../types';
+import { DISTANCE_ESTIMATORS } from './distanceEstimators';
+import { lookupPaletteColor, PaletteLookup } from './paletteService';
+
+export const MIN_MESH_RESOLUTION = 16;
+export const MAX_MESH_RESOLUTION = 512;
+
+export interface MeshOptions {
+  format: MeshFormat;
+  // Grid cells along each side of the bounding cube.
+  resolution: number;
+  // Half the side of the bounding cube, which is centred on the origin.
+  bounds: number;
+  // Side of the bounding cube in the file's units, which most slicers take to be millimetres.
+  size: number;
+  // Fraction of the triangles to keep; 1 skips the decimation.
+  detail: number;
+  colors: boolean;
+}
+
+// Three vertex indices per triangle, counter-clockwise seen from outside, and an RGB colour per vertex.
+export interface Mesh {
+  positions: Float32Array;
+  colors: Uint8Array | null;
+  indices: Uint32Array;
+}
+
+interface Surface {
+  positions: number[];
+  indices: number[];
+}
+
+interface Collapse {
+  cost: number;
+  u: number;
+  v: number;
+  position: Vec3;
+  versions: [number, number];
+}
+
+// Kuhn's split of a cube into six tetrahedra, as the paths from corner 0 to corner 7 one axis at a time; corner bits
+// are x, y and z. Neighbouring cubes cut their shared faces along the same diagonals, so the surface has no cracks, and
+// unlike marching cubes no case is ambiguous.
+const TETRAHEDRA = [[0, 1, 3, 7], [0, 1, 5, 7], [0, 2, 3, 7], [0, 2, 6, 7], [0, 4, 5, 7], [0, 4, 6, 7]];
+
+const cornerOffset = (corner: number): Vec3 => [corner & 1, (corner >> 1) & 1, corner >> 2];
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const readVertex = (positions: ArrayLike<number>, index: number): Vec3 =>
+  [positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]];
+
+const triangleNormal = (a: Vec3, b: Vec3, c: Vec3): Vec3 =>
+  cross([b[0] - a[0], b[1] - a[1], b[2] - a[2]], [c[0] - a[0], c[1] - a[1], c[2] - a[2]]);
+
+// Samples the distance two layers of the grid at a time, so memory grows with the square of the resolution rather
+// than its cube.
+const extractSurface = (
+  distance: (x: number, y: number, z: number) => number,
+  resolution: number,
+  bounds: number,
+  onProgress: (progress: number) => void,
+): Surface => {
+  const side = resolution + 1;
+  const cell = (2 * bounds) / resolution;
+  // The estimates only reach zero on the set itself, so the surface is taken half a cell out from it; otherwise
+  // filaments thinner than the grid would fall between its points.
+  const iso = cell / 2;
+  const coordinate = (i: number) => -bounds + i * cell;
+
+  const sampleLayer = (k: number) => {
+    const layer = new Float32Array(side * side);
+    for (let j = 0; j < side; j++) {
+      for (let i = 0; i < side; i++) {
+        const d = distance(coordinate(i), coordinate(j), coordinate(k));
+        // Points on the faces of the box count as outside, which closes the surface where the box cuts the fractal.
+        const isBoundary = i === 0 || j === 0 || k === 0 || i === resolution || j === resolution || k === resolution;
+        layer[j * side + i] = Number.isNaN(d) ? Infinity : isBoundary ? Math.max(d, iso + cell) : d;
+      }
+    }
+    return layer;
+  };
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const values = new Float32Array(8);
+  let below = sampleLayer(0);
+  // Vertices by grid edge. Edges in the layer between two slabs are shared by both, so they are kept for the next.
+  let bottomEdges = new Map<number, number>();
+
+  for (let k = 0; k < resolution; k++) {
+    const above = sampleLayer(k + 1);
+    const slabEdges = new Map<number, number>();
+    const topEdges = new Map<number, number>();
+
+    for (let j = 0; j < resolution; j++) {
+      for (let i = 0; i < resolution; i++) {
+        let insideCount = 0;
+        for (let corner = 0; corner < 8; corner++) {
+          const layer = corner & 4 ? above : below;
+          values[corner] = layer[(j + ((corner >> 1) & 1)) * side + i + (corner & 1)];
+          if (values[corner] < iso) insideCount++;
+        }
+        if (insideCount === 0 || insideCount === 8) continue;
+
+        // Along every edge of a Kuhn tetrahedron one end's corner bits include the other's.
+        const edgeVertex = (a: number, b: number) => {
+          const [low, high] = (a & b) === a ? [a, b] : [b, a];
+          const [x, y, z] = cornerOffset(low);
+          const key = (((k + z) * side + j + y) * side + i + x) * 7 + (low ^ high) - 1;
+          const edges = !(high & 4) ? bottomEdges : low & 4 ? topEdges : slabEdges;
+          const existing = edges.get(key);
+          if (existing !== undefined) return existing;
+          // Kept off the grid points themselves, where neighbouring edges' vertices would coincide.
+          const t = Math.max(0.001, Math.min(0.999, (iso - values[low]) / (values[high] - values[low])));
+          const from = cornerOffset(low);
+          const to = cornerOffset(high);
+          const index = positions.length / 3;
+          positions.push(
+            coordinate(i + from[0] + (to[0] - from[0]) * t),
+            coordinate(j + from[1] + (to[1] - from[1]) * t),
+            coordinate(k + from[2] + (to[2] - from[2]) * t),
+          );
+          edges.set(key, index);
+          return index;
+        };
+
+        // Winds the triangle so that it faces from the inside corners towards the outside ones.
+        const addTriangle = (a: number, b: number, c: number, outward: Vec3) => {
+          const normal = triangleNormal(readVertex(positions, a), readVertex(positions, b), readVertex(positions, c));
+          if (dot(normal, outward) < 0) indices.push(a, c, b);
+          else indices.push(a, b, c);
+        };
+
+        for (const tetrahedron of TETRAHEDRA) {
+          const inside = tetrahedron.filter((corner) => values[corner] < iso);
+          if (inside.length === 0 || inside.length === 4) continue;
+          const outside = tetrahedron.filter((corner) => values[corner] >= iso);
+          const outward: Vec3 = [0, 0, 0];
+          for (const corner of tetrahedron) {
+            const offset = cornerOffset(corner);
+            const sign = values[corner] < iso ? -1 / inside.length : 1 / outside.length;
+            for (let axis = 0; axis < 3; axis++) outward[axis] += offset[axis] * sign;
+          }
+          if (inside.length === 2) {
+            const [a, b] = inside;
+            const [c, d] = outside;
+            const quad = [edgeVertex(a, c), edgeVertex(a, d), edgeVertex(b, d), edgeVertex(b, c)];
+            addTriangle(quad[0], quad[1], quad[2], outward);
+            addTriangle(quad[0], quad[2], quad[3], outward);
+          } else {
+            const [apex, others] = inside.length === 1 ? [inside[0], outside] : [outside[0], inside];
+            addTriangle(edgeVertex(apex, others[0]), edgeVertex(apex, others[1]), edgeVertex(apex, others[2]), outward);
+          }
+        }
+      }
+    }
+
+    below = above;
+    bottomEdges = topEdges;
+    onProgress((k + 1) / resolution);
+  }
+
+  return { positions, indices };
+};
+
+const heapPush = (heap: Collapse[], item: Collapse) => {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].cost <= item.cost) break;
+    heap[i] = heap[parent];
+    i = parent;
+  }
+  heap[i] = item;
+};
+
+const heapPop = (heap: Collapse[]): Collapse | undefined => {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || !last) return top;
+  let i = 0;
+  for (;;) {
+    const left = 2 * i + 1;
+    if (left >= heap.length) break;
+    const child = left + 1 < heap.length && heap[left + 1].cost < heap[left].cost ? left + 1 : left;
+    if (heap[child].cost >= last.cost) break;
+    heap[i] = heap[child];
+    i = child;
+  }
+  heap[i] = last;
+  return top;
+};
+
+// Garland and Heckbert's quadric error edge collapses. A collapse is skipped if it would pinch the surface (the edge's
+// ends share more neighbours than the two opposite it) or fold a triangle over, so a closed manifold stays one.
+const decimateSurface = (surface: Surface, targetTriangles: number, onProgress: (progress: number) => void): Surface => {
+  const positions = Float64Array.from(surface.positions);
+  const triangles = Int32Array.from(surface.indices);
+  const vertexCount = positions.length / 3;
+  const initialTriangles = triangles.length / 3;
+  const removed = new Uint8Array(initialTriangles);
+  const alive = new Uint8Array(vertexCount).fill(1);
+  const versions = new Uint32Array(vertexCount);
+  const vertexTriangles: number[][] = Array.from({ length: vertexCount }, () => []);
+  // The ten distinct entries of each vertex's symmetric 4x4 quadric.
+  const quadrics = new Float64Array(vertexCount * 10);
+
+  for (let t = 0; t < initialTriangles; t++) {
+    const corners = [triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]];
+    const [p0, p1, p2] = corners.map((v) => readVertex(positions, v));
+    const normal = triangleNormal(p0, p1, p2);
+    const doubleArea = Math.hypot(...normal);
+    if (doubleArea > 0) {
+      const [a, b, c] = normal.map((n) => n / doubleArea);
+      const d = -(a * p0[0] + b * p0[1] + c * p0[2]);
+      // Weighted by area, so large triangles hold their planes more firmly than slivers.
+      const plane = [a * a, a * b, a * c, a * d, b * b, b * c, b * d, c * c, c * d, d * d].map((q) => (q * doubleArea) / 2);
+      corners.forEach((v) => plane.forEach((q, i) => { quadrics[v * 10 + i] += q; }));
+    }
+    corners.forEach((v) => vertexTriangles[v].push(t));
+  }
+
+  const quadricError = (u: number, v: number, [x, y, z]: Vec3) => {
+    const q = (i: number) => quadrics[u * 10 + i] + quadrics[v * 10 + i];
+    return q(0) * x * x + 2 * q(1) * x * y + 2 * q(2) * x * z + 2 * q(3) * x
+      + q(4) * y * y + 2 * q(5) * y * z + 2 * q(6) * y
+      + q(7) * z * z + 2 * q(8) * z + q(9);
+  };
+
+  const neighbours = (v: number) => {
+    const result = new Set<number>();
+    for (const t of vertexTriangles[v]) {
+      for (let i = 0; i < 3; i++) {
+        if (triangles[t * 3 + i] !== v) result.add(triangles[t * 3 + i]);
+      }
+    }
+    return result;
+  };
+
+  // Rather than solve for the optimal point, the collapse tries both ends and the midpoint.
+  const heap: Collapse[] = [];
+  const pushCollapse = (u: number, v: number) => {
+    const pu = readVertex(positions, u);
+    const pv = readVertex(positions, v);
+    const candidates: Vec3[] = [pu, pv, [(pu[0] + pv[0]) / 2, (pu[1] + pv[1]) / 2, (pu[2] + pv[2]) / 2]];
+    let best = candidates[0];
+    let cost = quadricError(u, v, best);
+    for (const candidate of candidates.slice(1)) {
+      const error = quadricError(u, v, candidate);
+      if (error < cost) {
+        cost = error;
+        best = candidate;
+      }
+    }
+    heapPush(heap, { cost, u, v, position: best, versions: [versions[u], versions[v]] });
+  };
+
+  // In a closed, consistently wound mesh every edge runs one way in one triangle and back in the other.
+  for (let t = 0; t < initialTriangles; t++) {
+    for (let i = 0; i < 3; i++) {
+      const u = triangles[t * 3 + i];
+      const v = triangles[t * 3 + ((i + 1) % 3)];
+      if (u < v) pushCollapse(u, v);
+    }
+  }
+
+  const canCollapse = (u: number, v: number, position: Vec3) => {
+    const around = neighbours(u);
+    const aroundV = neighbours(v);
+    let shared = 0;
+    aroundV.forEach((w) => { if (around.has(w)) shared++; });
+    if (shared !== 2 || around.size + aroundV.size - shared - 2 < 4) return false;
+    for (const moved of [u, v]) {
+      for (const t of vertexTriangles[moved]) {
+        const corners = [triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]];
+        if (corners.includes(u) && corners.includes(v)) continue;
+        const before = corners.map((w) => readVertex(positions, w));
+        const after = corners.map((w, i) => (w === moved ? position : before[i]));
+        if (dot(triangleNormal(before[0], before[1], before[2]), triangleNormal(after[0], after[1], after[2])) <= 0) return false;
+      }
+    }
+    return true;
+  };
+
+  const removeFrom = (list: number[], t: number) => list.splice(list.indexOf(t), 1);
+
+  let remaining = initialTriangles;
+  const toRemove = initialTriangles - targetTriangles;
+  let collapses = 0;
+  while (remaining > targetTriangles && heap.length > 0) {
+    const { u, v, position, versions: [versionU, versionV] } = heapPop(heap) as Collapse;
+    if (!alive[u] || !alive[v] || versions[u] !== versionU || versions[v] !== versionV) continue;
+    if (!canCollapse(u, v, position)) continue;
+
+    positions.set(position, u * 3);
+    for (let i = 0; i < 10; i++) quadrics[u * 10 + i] += quadrics[v * 10 + i];
+    for (const t of vertexTriangles[v]) {
+      const corners = triangles.subarray(t * 3, t * 3 + 3);
+      if (corners.includes(u)) {
+        removed[t] = 1;
+        remaining--;
+        corners.forEach((w) => { if (w !== v) removeFrom(vertexTriangles[w], t); });
+      } else {
+        corners[corners.indexOf(v)] = u;
+        vertexTriangles[u].push(t);
+      }
+    }
+    vertexTriangles[v] = [];
+    alive[v] = 0;
+    versions[u]++;
+    neighbours(u).forEach((w) => pushCollapse(u, w));
+
+    if (++collapses % 4096 === 0) onProgress((initialTriangles - remaining) / toRemove);
+  }
+
+  const remap = new Int32Array(vertexCount).fill(-1);
+  const result: Surface = { positions: [], indices: [] };
+  for (let t = 0; t < initialTriangles; t++) {
+    if (removed[t]) continue;
+    for (let i = 0; i < 3; i++) {
+      const v = triangles[t * 3 + i];
+      if (remap[v] < 0) {
+        remap[v] = result.positions.length / 3;
+        result.positions.push(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]);
+      }
+      result.indices.push(remap[v]);
+    }
+  }
+  return result;
+};
+
+export const createMesh = (
+  type: Fractal3DType,
+  parameters: Record<string, number>,
+  palette: PaletteLookup,
+  options: MeshOptions,
+  onProgress: (progress: number) => void,
+): Mesh => {
+  const { estimate } = DISTANCE_ESTIMATORS[type];
+  const isDecimated = options.detail < 1;
+  const extractionShare = isDecimated ? 0.6 : 1;
+  let surface = extractSurface(
+    (x, y, z) => estimate(x, y, z, parameters)[0],
+    options.resolution,
+    options.bounds,
+    (progress) => onProgress(progress * extractionShare),
+  );
+  if (isDecimated) {
+    const targetTriangles = Math.max(4, Math.round((surface.indices.length / 3) * options.detail));
+    surface = decimateSurface(surface, targetTriangles, (progress) => onProgress(extractionShare + progress * (1 - extractionShare)));
+  }
+
+  const vertexCount = surface.positions.length / 3;
+  let colors: Uint8Array | null = null;
+  if (options.colors && options.format !== MeshFormat.STL) {
+    colors = new Uint8Array(vertexCount * 3);
+    for (let v = 0; v < vertexCount; v++) {
+      const [x, y, z] = readVertex(surface.positions, v);
+      colors.set(lookupPaletteColor(palette, Math.max(0, estimate(x, y, z, parameters)[1])), v * 3);
+    }
+  }
+  const scale = options.size / (2 * options.bounds);
+  return {
+    positions: Float32Array.from(surface.positions, (c) => c * scale),
+    colors,
+    indices: Uint32Array.from(surface.indices),
+  };
+};
+
+const FILE_COMMENT = 'Fractal Explorer';
+
+// Binary STL, which has no standard place for colours.
+const writeStl = ({ positions, indices }: Mesh): Blob => {
+  const triangleCount = indices.length / 3;
+  const view = new DataView(new ArrayBuffer(84 + 50 * triangleCount));
+  Array.from(FILE_COMMENT).forEach((character, i) => view.setUint8(i, character.charCodeAt(0)));
+  view.setUint32(80, triangleCount, true);
+  for (let t = 0; t < triangleCount; t++) {
+    const corners = [indices[t * 3], indices[t * 3 + 1], indices[t * 3 + 2]].map((v) => readVertex(positions, v));
+    const normal = triangleNormal(corners[0], corners[1], corners[2]);
+    const length = Math.hypot(...normal) || 1;
+    const offset = 84 + t * 50;
+    [...normal.map((n) => n / length), ...corners.flat()].forEach((value, i) => view.setFloat32(offset + i * 4, value, true));
+    view.setUint16(offset + 48, 0, true);
+  }
+  return new Blob([view.buffer], { type: 'model/stl' });
+};
+
+// Vertex colours follow the coordinates as 0-1 values, the extension MeshLab and most other tools read.
+const writeObj = ({ positions, colors, indices }: Mesh): Blob => {
+  const chunks: string[] = [];
+  let lines: string[] = [`# ${FILE_COMMENT}`];
+  const pushLine = (line: string) => {
+    lines.push(line);
+    // A single string for the whole file could exceed the engine's length limit.
+    if (lines.length === 65536) {
+      chunks.push(lines.join('\n') + '\n');
+      lines = [];
+    }
+  };
+  for (let v = 0; v < positions.length / 3; v++) {
+    const coordinates = readVertex(positions, v).map((c) => c.toFixed(5)).join(' ');
+    const color = colors ? ' ' + Array.from(colors.subarray(v * 3, v * 3 + 3), (c) => (c / 255).toFixed(3)).join(' ') : '';
+    pushLine(`v ${coordinates}${color}`);
+  }
+  for (let t = 0; t < indices.length; t += 3) {
+    pushLine(`f ${indices[t] + 1} ${indices[t + 1] + 1} ${indices[t + 2] + 1}`);
+  }
+  chunks.push(lines.join('\n') + '\n');
+  return new Blob(chunks, { type: 'model/obj' });
+};
+
+const writePly = ({ positions, colors, indices }: Mesh): Blob => {
+  const vertexCount = positions.length / 3;
+  const triangleCount = indices.length / 3;
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    `comment ${FILE_COMMENT}`,
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    ...(colors ? ['property uchar red', 'property uchar green', 'property uchar blue'] : []),
+    `element face ${triangleCount}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+    '',
+  ].join('\n');
+  const vertexSize = colors ? 15 : 12;
+  const view = new DataView(new ArrayBuffer(vertexCount * vertexSize + triangleCount * 13));
+  for (let v = 0; v < vertexCount; v++) {
+    const offset = v * vertexSize;
+    for (let i = 0; i < 3; i++) view.setFloat32(offset + i * 4, positions[v * 3 + i], true);
+    if (colors) for (let i = 0; i < 3; i++) view.setUint8(offset + 12 + i, colors[v * 3 + i]);
+  }
+  for (let t = 0; t < triangleCount; t++) {
+    const offset = vertexCount * vertexSize + t * 13;
+    view.setUint8(offset, 3);
+    for (let i = 0; i < 3; i++) view.setInt32(offset + 1 + i * 4, indices[t * 3 + i], true);
+  }
+  return new Blob([header, view.buffer], { type: 'application/octet-stream' });
+};
+
+export const encodeMesh = (mesh: Mesh, format: MeshFormat): Blob => {
+  switch (format) {
+    case MeshFormat.STL:
+      return writeStl(mesh);
+    case MeshFormat.OBJ:
+      return writeObj(mesh);
+    case MeshFormat.PLY:
+      return writePly(mesh);
+  }
+};
@@ -0,0 +1,14 @@
+import { createMesh, encodeMesh } from './meshService';
+import type { MeshWorkerRequest, MeshWorkerResponse } from './meshExport';
+
+const post = (response: MeshWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (e: MessageEvent<MeshWorkerRequest>) => {
+  const { fractalType, parameters, palette, options } = e.data;
+  try {
+    const mesh = createMesh(fractalType, parameters, palette, options, (progress) => post({ type: 'progress', progress }));
+    post({ type: 'done', blob: encodeMesh(mesh, options.format) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,272 @@
+// Traces the orbit of a single point of an escape-time fractal for the inspector, and draws it with the optional
+// guides (axes, grid and the Mandelbrot set's main cardioid and period-2 bulb) and markers over the view.
+import { FractalType } from '../types';
+import { EscapeTimeFormula, getEscapeTimeVariant, getFormulaDegree, isConvergentFormula } from './escapeTimeFormulas';
+import { compileFormula } from './formulaCompiler';
+import { createOrbitColoring } from './coloringService';
+import { EscapeTimeParams } from './fractalService';
+
+// Orbits keep going past the escape until |z| reaches this, where the distance estimate becomes accurate.
+const ESTIMATE_RADIUS = 1e6;
+const MAX_ESTIMATE_ITERATIONS = 64;
+const MAX_PERIOD = 1024;
+// Relative gap under which a point of the orbit counts as coming back to an earlier one.
+const PERIOD_TOLERANCE = 1e-9;
+// Points of the orbit drawn at most; long bounded orbits only retrace their cycle.
+const MAX_DRAWN_POINTS = 4096;
+
+export interface OrbitOverlays {
+  axes: boolean;
+  grid: boolean;
+  // The main cardioid and period-2 bulb of the Mandelbrot set.
+  bulbs: boolean;
+}
+
+export interface OrbitTrace {
+  // z0, z1, ... as x, y pairs, up to the escape or the iteration limit.
+  points: Float64Array;
+  // The iteration at which |z| first passed the escape radius (or the custom bailout), or null if it never did.
+  escapeIteration: number | null;
+  // The length of the cycle a bounded orbit settles into, and the cycle's multiplier (the derivative of the
+  // period-th iterate around it), which makes the cycle attracting when its modulus is below 1.
+  period: number | null;
+  multiplier: { x: number; y: number } | null;
+  // Estimated distance from the point to the set, for escaping points.
+  distance: number | null;
+}
+
+// The built-in formulas whose step is holomorphic, so that the multiplier is defined.
+const HOLOMORPHIC_FORMULAS: EscapeTimeFormula[] = ['mandelbrot', 'multibrot', 'custom'];
+
+export const canTraceOrbit = (type: FractalType) => {
+  const variant = getEscapeTimeVariant(type);
+  return variant !== null && !isConvergentFormula(variant.formula);
+};
+
+// The same z -> f(z) + c as fractalService's sampler, which keeps its own copy inline for speed. Writes z into
+// out[0..1] and f'(z) into out[2..3].
+const createStep = (params: EscapeTimeParams, formula: EscapeTimeFormula, degree: number) => {
+  if (formula === 'custom') {
+    const { step } = compileFormula(params.customFormula, params.customBailout, true);
+    // With dz = 1 and dc = 0 the compiled derivative is f'(z). The formula's n is the exponent, as in the renderer.
+    return (x: number, y: number, cx: number, cy: number, out: Float64Array) =>
+      step(x, y, cx, cy, params.exponent, 1, 0, 0, out);
+  }
+  return (x: number, y: number, cx: number, cy: number, out: Float64Array) => {
+    const zy = formula === 'multicorn' ? -y : y;
+    const modulus = Math.hypot(x, zy);
+    const angle = Math.atan2(zy, x);
+    let nextX = x * x - y * y;
+    let nextY = 2 * x * y;
+    switch (formula) {
+      case 'burningShip':
+        nextY = Math.abs(nextY);
+        break;
+      case 'celtic':
+        nextX = Math.abs(nextX);
+        break;
+      case 'buffalo':
+        nextX = Math.abs(nextX);
+        nextY = Math.abs(nextY);
+        break;
+      case 'perpendicularBurningShip':
+        nextY = -2 * x * Math.abs(y);
+        break;
+      case 'multibrot':
+      case 'multicorn':
+        nextX = Math.pow(modulus, degree) * Math.cos(degree * angle);
+        nextY = Math.pow(modulus, degree) * Math.sin(degree * angle);
+        break;
+    }
+    out[0] = nextX + cx;
+    out[1] = nextY + cy;
+    // degree z^(degree - 1), which the folded formulas share with z^degree up to sign changes.
+    const scale = degree * Math.pow(x * x + y * y, (degree - 1) / 2);
+    out[2] = scale * Math.cos((degree - 1) * Math.atan2(y, x));
+    out[3] = scale * Math.sin((degree - 1) * Math.atan2(y, x));
+  };
+};
+
+// Iterates the point (x0, y0): as c from z = 0 for the parameter planes, as z0 with the fixed c for Julia sets.
+export const traceOrbit = (params: EscapeTimeParams, x0: number, y0: number): OrbitTrace | null => {
+  const variant = getEscapeTimeVariant(params.fractalType);
+  if (!variant || isConvergentFormula(variant.formula)) return null;
+  const { formula, isJulia } = variant;
+  const degree = getFormulaDegree(params.fractalType, params.exponent);
+  const step = createStep(params, formula, degree);
+  // The escape radius the renderer uses, which depends on the coloring, so that the orbit ends where the pixel's did.
+  const { bailout } = createOrbitColoring({ ...params, degree });
+  const escaped = formula === 'custom'
+    ? compileFormula(params.customFormula, params.customBailout, true).escaped
+    : (x: number, y: number) => x * x + y * y > bailout * bailout;
+  const maxIterations = params.iterations;
+  const cx = isJulia ? params.cReal : x0;
+  const cy = isJulia ? params.cImag : y0;
+
+  const points = new Float64Array(2 * (maxIterations + 1));
+  const next = new Float64Array(4);
+  let x = isJulia ? x0 : 0;
+  let y = isJulia ? y0 : 0;
+  // dz/dc, or dz/dz0 for Julia sets.
+  let dx = isJulia ? 1 : 0;
+  let dy = 0;
+  let count = 0;
+  let escapeIteration: number | null = null;
+  const advance = () => {
+    step(x, y, cx, cy, next);
+    const [, , gx, gy] = next;
+    const dxNext = gx * dx - gy * dy + (isJulia ? 0 : 1);
+    dy = gx * dy + gy * dx;
+    dx = dxNext;
+    x = next[0];
+    y = next[1];
+  };
+
+  points[0] = x;
+  points[1] = y;
+  count = 1;
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (escaped(x, y, cx, cy, params.exponent)) {
+      escapeIteration = iteration;
+      break;
+    }
+    advance();
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      escapeIteration = iteration + 1;
+      break;
+    }
+    points[2 * count] = x;
+    points[2 * count + 1] = y;
+    count++;
+  }
+
+  let distance: number | null = null;
+  if (escapeIteration !== null) {
+    for (let i = 0; i < MAX_ESTIMATE_ITERATIONS && Math.hypot(x, y) < ESTIMATE_RADIUS; i++) advance();
+    const modulus = Math.hypot(x, y);
+    const derivative = Math.hypot(dx, dy);
+    if (Number.isFinite(modulus) && modulus > 1 && derivative > 0) {
+      distance = (0.5 * modulus * Math.log(modulus)) / derivative;
+    }
+  }
+
+  let period: number | null = null;
+  let multiplier: { x: number; y: number } | null = null;
+  if (escapeIteration === null) {
+    const last = count - 1;
+    const tolerance = PERIOD_TOLERANCE * Math.max(1, Math.hypot(x, y));
+    for (let p = 1; p <= Math.min(MAX_PERIOD, last); p++) {
+      if (Math.hypot(points[2 * (last - p)] - x, points[2 * (last - p) + 1] - y) < tolerance) {
+        period = p;
+        break;
+      }
+    }
+    if (period !== null && HOLOMORPHIC_FORMULAS.includes(formula)) {
+      let mx = 1;
+      let my = 0;
+      for (let k = last - period; k < last; k++) {
+        step(points[2 * k], points[2 * k + 1], cx, cy, next);
+        const product = mx * next[2] - my * next[3];
+        my = mx * next[3] + my * next[2];
+        mx = product;
+      }
+      multiplier = { x: mx, y: my };
+    }
+  }
+
+  return { points: points.subarray(0, 2 * count), escapeIteration, period, multiplier, distance };
+};
+
+// The grid spacing, a power of ten, that puts lines a comfortable distance apart at this zoom.
+const gridSpacing = (pixelSize: number) => Math.pow(10, Math.ceil(Math.log10(pixelSize * 60)));
+
+export const drawOrbitOverlay = (
+  ctx: CanvasRenderingContext2D,
+  params: EscapeTimeParams,
+  trace: OrbitTrace | null,
+  overlays: OrbitOverlays,
+  // Numbered rings, such as the suggestions of the interesting-point finder.
+  markers: { x: number; y: number }[] = [],
+) => {
+  const { width, height, zoom, panX, panY } = params;
+  const scale = (width * zoom) / 4;
+  const toScreenX = (x: number) => (x + panX) * scale + width / 2;
+  const toScreenY = (y: number) => (y + panY) * scale + height / 2;
+  ctx.clearRect(0, 0, width, height);
+  ctx.lineWidth = 1;
+
+  if (overlays.grid) {
+    const spacing = gridSpacing(1 / scale);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.beginPath();
+    for (let x = Math.ceil((-width / 2 / scale - panX) / spacing) * spacing; toScreenX(x) <= width; x += spacing) {
+      ctx.moveTo(toScreenX(x), 0);
+      ctx.lineTo(toScreenX(x), height);
+    }
+    for (let y = Math.ceil((-height / 2 / scale - panY) / spacing) * spacing; toScreenY(y) <= height; y += spacing) {
+      ctx.moveTo(0, toScreenY(y));
+      ctx.lineTo(width, toScreenY(y));
+    }
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.font = '10px sans-serif';
+    ctx.fillText(`grid ${spacing.toPrecision(1)}`, 6, height - 6);
+  }
+
+  if (overlays.axes) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.beginPath();
+    ctx.moveTo(toScreenX(0), 0);
+    ctx.lineTo(toScreenX(0), height);
+    ctx.moveTo(0, toScreenY(0));
+    ctx.lineTo(width, toScreenY(0));
+    ctx.stroke();
+  }
+
+  if (overlays.bulbs) {
+    // The cardioid c = e^(it)/2 - e^(2it)/4 of attracting fixed points, and the disc |c + 1| = 1/4 of 2-cycles.
+    ctx.strokeStyle = 'rgba(255, 200, 0, 0.8)';
+    ctx.beginPath();
+    for (let i = 0; i <= 360; i++) {
+      const t = (i * Math.PI) / 180;
+      const x = Math.cos(t) / 2 - Math.cos(2 * t) / 4;
+      const y = Math.sin(t) / 2 - Math.sin(2 * t) / 4;
+      if (i === 0) ctx.moveTo(toScreenX(x), toScreenY(y));
+      else ctx.lineTo(toScreenX(x), toScreenY(y));
+    }
+    ctx.moveTo(toScreenX(-0.75), toScreenY(0));
+    ctx.arc(toScreenX(-1), toScreenY(0), scale / 4, 0, 2 * Math.PI);
+    ctx.stroke();
+  }
+
+  if (trace) {
+    const count = Math.min(trace.points.length / 2, MAX_DRAWN_POINTS);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.beginPath();
+    for (let i = 0; i < count; i++) {
+      const sx = toScreenX(trace.points[2 * i]);
+      const sy = toScreenY(trace.points[2 * i + 1]);
+      if (i === 0) ctx.moveTo(sx, sy);
+      else ctx.lineTo(sx, sy);
+    }
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(255, 80, 80, 0.9)';
+    for (let i = 1; i < count; i++) {
+      ctx.fillRect(toScreenX(trace.points[2 * i]) - 1.5, toScreenY(trace.points[2 * i + 1]) - 1.5, 3, 3);
+    }
+    ctx.fillStyle = '#4ade80';
+    ctx.beginPath();
+    ctx.arc(toScreenX(trace.points[0]), toScreenY(trace.points[1]), 4, 0, 2 * Math.PI);
+    ctx.fill();
+  }
+
+  ctx.strokeStyle = '#22d3ee';
+  ctx.fillStyle = '#22d3ee';
+  ctx.font = '11px sans-serif';
+  markers.forEach(({ x, y }, index) => {
+    ctx.beginPath();
+    ctx.arc(toScreenX(x), toScreenY(y), 8, 0, 2 * Math.PI);
+    ctx.stroke();
+    ctx.fillText(String(index + 1), toScreenX(x) + 10, toScreenY(y) - 6);
+  });
+};
@@ -0,0 +1,256 @@
+import { ColorPalette, GradientInterpolation, GradientStop, PaletteGradient } from '../types';
+
+type RGB = [number, number, number];
+
+const LOOKUP_SIZE = 1024;
+const FRACTINT_MAP_SIZE = 256;
+const PALETTE_JSON_FORMAT = 'fractal-explorer-palette';
+const PALETTE_JSON_VERSION = 1;
+
+export interface PaletteSettings {
+  colorPalette: ColorPalette;
+  customPalette: PaletteGradient | null;
+  paletteOffset: number;
+  paletteRepeat: number;
+  paletteDensity: number;
+}
+
+// A palette sampled into a table, plus the mapping from palette positions onto it.
+export interface PaletteLookup {
+  table: Uint8Array;
+  offset: number;
+  repeat: number;
+  density: number;
+}
+
+// FIX: Explicitly type the palettes to ensure colors are treated as [R, G, B] tuples.
+const palettes: { [key: string]: RGB[] } = {
+  // Pure hues every 60 degrees; interpolating between them in RGB sweeps the full hue circle.
+  [ColorPalette.Rainbow]: [[255, 0, 0], [255, 255, 0], [0, 255, 0], [0, 255, 255], [0, 0, 255], [255, 0, 255], [255, 0, 0]],
+  [ColorPalette.Viridis]: [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]],
+  [ColorPalette.Plasma]: [[13, 8, 135], [110, 0, 168], [177, 42, 144], [225, 100, 98], [252, 166, 54], [240, 249, 33]],
+  [ColorPalette.Magma]: [[0, 0, 4], [59, 15, 112], [140, 41, 129], [221, 73, 104], [253, 154, 108], [252, 253, 191]],
+  [ColorPalette.Inferno]: [[0, 0, 4], [88, 16, 110], [172, 37, 104], [239, 100, 58], [251, 179, 31], [252, 254, 177]],
+  [ColorPalette.Sunset]: [[35, 7, 77], [106, 2, 93], [188, 59, 73], [248, 146, 56], [249, 248, 113]],
+  [ColorPalette.Ocean]: [[0, 2, 67], [0, 41, 114], [0, 83, 140], [0, 138, 168], [145, 205, 194]],
+  [ColorPalette.Forest]: [[1, 22, 12], [10, 50, 20], [45, 87, 44], [102, 124, 61], [179, 162, 93]],
+};
+
+const evenlySpacedStops = (colors: RGB[]): GradientStop[] =>
+  colors.map((color, i) => ({ position: colors.length > 1 ? i / (colors.length - 1) : 0, color: [...color] as RGB }));
+
+export const builtInPaletteGradient = (palette: ColorPalette): PaletteGradient => ({
+  name: palette,
+  stops: evenlySpacedStops(palettes[palette] || palettes[ColorPalette.Viridis]),
+  interpolation: GradientInterpolation.RGB,
+});
+
+export const resolvePalette = (settings: Pick<PaletteSettings, 'colorPalette' | 'customPalette'>): PaletteGradient =>
+  settings.customPalette ?? builtInPaletteGradient(settings.colorPalette);
+
+export const rgbToHsl = ([r, g, b]: RGB): RGB => {
+  const rn = r / 255, gn = g / 255, bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l * 100];
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h;
+  if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+  return [h * 60, s * 100, l * 100];
+};
+
+export const hslToRgb = ([h, s, l]: RGB): RGB => {
+  const sn = s / 100, ln = l / 100;
+  const c = (1 - Math.abs(2 * ln - 1)) * sn;
+  const hp = (((h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  const m = ln - c / 2;
+  let rgb: RGB;
+  if (hp < 1) rgb = [c, x, 0];
+  else if (hp < 2) rgb = [x, c, 0];
+  else if (hp < 3) rgb = [0, c, x];
+  else if (hp < 4) rgb = [0, x, c];
+  else if (hp < 5) rgb = [x, 0, c];
+  else rgb = [c, 0, x];
+  return rgb.map((v) => Math.round((v + m) * 255)) as RGB;
+};
+
+const interpolateColor = (c1: RGB, c2: RGB, frac: number, interpolation: GradientInterpolation): RGB => {
+  if (interpolation === GradientInterpolation.Step) {
+    return c1;
+  }
+  if (interpolation === GradientInterpolation.HSL) {
+    const [h1, s1, l1] = rgbToHsl(c1);
+    const [h2, s2, l2] = rgbToHsl(c2);
+    // Take the shorter way round the hue circle.
+    let dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    if (dh < -180) dh += 360;
+    return hslToRgb([h1 + dh * frac, s1 + (s2 - s1) * frac, l1 + (l2 - l1) * frac]);
+  }
+  return [
+    Math.round(c1[0] + (c2[0] - c1[0]) * frac),
+    Math.round(c1[1] + (c2[1] - c1[1]) * frac),
+    Math.round(c1[2] + (c2[2] - c1[2]) * frac),
+  ];
+};
+
+// Colours as the "#rrggbb" strings of colour inputs.
+export const rgbToHex = ([r, g, b]: RGB) =>
+  '#' + [r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('');
+
+export const hexToRgb = (hex: string): RGB => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+// Maps a position in [0, 1] onto the gradient
+export const samplePalette = (gradient: PaletteGradient, value: number): RGB => {
+  const stops = [...gradient.stops].sort((a, b) => a.position - b.position);
+  if (stops.length === 0) return [0, 0, 0];
+  if (value <= stops[0].position) return stops[0].color;
+  for (let i = 1; i < stops.length; i++) {
+    if (value <= stops[i].position) {
+      const span = stops[i].position - stops[i - 1].position;
+      const frac = span > 0 ? (value - stops[i - 1].position) / span : 0;
+      return interpolateColor(stops[i - 1].color, stops[i].color, frac, gradient.interpolation);
+    }
+  }
+  return stops[stops.length - 1].color;
+};
+
+// Samples a palette into an RGBA lookup table, e.g. for uploading as a WebGL texture.
+export const createPaletteTable = (gradient: PaletteGradient, size: number): Uint8Array => {
+  const table = new Uint8Array(size * 4);
+  for (let i = 0; i < size; i++) {
+    const [r, g, b] = samplePalette(gradient, i / (size - 1));
+    table.set([r, g, b, 255], i * 4);
+  }
+  return table;
+};
+
+// Applies offset, repeat and density to a palette position. Density above 1 spends more of the palette on low values.
+export const mapPalettePosition = (value: number, offset: number, repeat: number, density: number) => {
+  const t = Math.pow(value, 1 / density) * repeat + offset;
+  // Leave the plain mapping unwrapped so the last colour of the palette stays reachable.
+  if (repeat === 1 && offset === 0) return Math.min(1, t);
+  return t - Math.floor(t);
+};
+
+// cycleShift is added to the offset, which is how palette cycling recolors a frame without recomputing it.
+export const createPaletteLookup = (settings: PaletteSettings, cycleShift = 0): PaletteLookup => ({
+  table: createPaletteTable(resolvePalette(settings), LOOKUP_SIZE),
+  offset: settings.paletteOffset + cycleShift,
+  repeat: settings.paletteRepeat,
+  density: settings.paletteDensity,
+});
+
+export const lookupPaletteColor = (lookup: PaletteLookup, value: number): RGB => {
+  const t = mapPalettePosition(value, lookup.offset, lookup.repeat, lookup.density);
+  const index = Math.round(t * (LOOKUP_SIZE - 1)) * 4;
+  return [lookup.table[index], lookup.table[index + 1], lookup.table[index + 2]];
+};
+
+export const paletteToCssGradient = (gradient: PaletteGradient): string => {
+  const samples = 32;
+  const colors = Array.from({ length: samples }, (_, i) => {
+    const [r, g, b] = samplePalette(gradient, i / (samples - 1));
+    return `rgb(${r},${g},${b}) ${((i / (samples - 1)) * 100).toFixed(1)}%`;
+  });
+  return `linear-gradient(to right, ${colors.join(', ')})`;
+};
+
+const clampChannel = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+const isValidStop = (stop: unknown): stop is GradientStop => {
+  const candidate = stop as GradientStop;
+  return typeof candidate?.position === 'number' &&
+    Array.isArray(candidate.color) &&
+    candidate.color.length === 3 &&
+    candidate.color.every((channel) => typeof channel === 'number');
+};
+
+export const exportPaletteJson = (gradient: PaletteGradient): string =>
+  JSON.stringify({ format: PALETTE_JSON_FORMAT, version: PALETTE_JSON_VERSION, palette: gradient }, null, 2);
+
+export const importPaletteJson = (text: string): PaletteGradient => {
+  const parsed = JSON.parse(text);
+  const palette = parsed?.format === PALETTE_JSON_FORMAT ? parsed.palette : parsed;
+  if (!palette || !Array.isArray(palette.stops) || !palette.stops.every(isValidStop) || palette.stops.length < 2) {
+    throw new Error('The file does not contain a palette with at least two gradient stops.');
+  }
+  return {
+    name: typeof palette.name === 'string' ? palette.name : 'Imported',
+    interpolation: Object.values(GradientInterpolation).includes(palette.interpolation)
+      ? palette.interpolation
+      : GradientInterpolation.RGB,
+    stops: palette.stops.map((stop: GradientStop) => ({
+      position: Math.max(0, Math.min(1, stop.position)),
+      color: stop.color.map(clampChannel) as RGB,
+    })),
+  };
+};
+
+const sampleColors = (gradient: PaletteGradient, count: number): RGB[] =>
+  Array.from({ length: count }, (_, i) => samplePalette(gradient, i / (count - 1)));
+
+// Reads lines of three integers (the body of .map and .gpl files) into a gradient with evenly spaced stops.
+const parseColorLines = (lines: string[], name: string): PaletteGradient => {
+  const colors: RGB[] = [];
+  lines.forEach((line) => {
+    const match = /^\s*(\d+)\s+(\d+)\s+(\d+)/.exec(line);
+    if (match) {
+      colors.push([clampChannel(+match[1]), clampChannel(+match[2]), clampChannel(+match[3])]);
+    }
+  });
+  if (colors.length < 2) {
+    throw new Error('The file contains fewer than two colors.');
+  }
+  return { name, stops: evenlySpacedStops(colors), interpolation: GradientInterpolation.RGB };
+};
+
+// GIMP palette: a header, then one "R G B name" line per color.
+export const exportGpl = (gradient: PaletteGradient, colorCount = 256): string => {
+  const lines = sampleColors(gradient, colorCount).map(([r, g, b], i) =>
+    `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\tIndex ${i}`);
+  return ['GIMP Palette', `Name: ${gradient.name}`, 'Columns: 16', '#', ...lines, ''].join('\n');
+};
+
+export const importGpl = (text: string, fallbackName: string): PaletteGradient => {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.startsWith('GIMP Palette')) {
+    throw new Error('Not a GIMP palette: the file must start with "GIMP Palette".');
+  }
+  const nameLine = lines.find((line) => line.startsWith('Name:'));
+  const body = lines.slice(1).filter((line) => !/^(Name|Columns):/.test(line) && !line.startsWith('#'));
+  return parseColorLines(body, nameLine ? nameLine.slice(5).trim() : fallbackName);
+};
+
+// Fractint .map: exactly 256 "R G B" lines.
+export const exportMap = (gradient: PaletteGradient): string =>
+  sampleColors(gradient, FRACTINT_MAP_SIZE).map(([r, g, b]) => `${r} ${g} ${b}`).join('\n') + '\n';
+
+export const importMap = (text: string, fallbackName: string): PaletteGradient =>
+  parseColorLines(text.split(/\r?\n/), fallbackName);
+
+// Picks the parser from the file extension.
+export const importPaletteFile = (fileName: string, text: string): PaletteGradient => {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'gpl':
+      return importGpl(text, baseName);
+    case 'map':
+      return importMap(text, baseName);
+    case 'json':
+      return importPaletteJson(text);
+    default:
+      throw new Error(`Unsupported palette file type ".${extension}". Use .json, .gpl or .map.`);
+  }
+};
@@ -0,0 +1,118 @@
+import { crc32 } from './crc32';
+
+// Minimal streaming PNG encoder/decoder. Rows are compressed as they arrive, so images far larger than the
+// browser's canvas limits can be written band by band.
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+const COLOR_TYPE_RGB = 2;
+const FILTER_SUB = 1;
+
+export interface PngEncoder {
+  // Appends rows of RGBA pixels (alpha is dropped); rows.length must be a multiple of width * 4.
+  writeRows: (rows: Uint8ClampedArray) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// tEXt is Latin-1 only; callers should escape anything outside it (JSON's \u escapes do).
+const encodeLatin1 = (text: string) => Uint8Array.from(text, (ch) => ch.charCodeAt(0) & 0xff);
+
+const createTextChunk = (keyword: string, text: string) =>
+  createChunk('tEXt', encodeLatin1(`${keyword}\0${text}`));
+
+export const createPngEncoder = (width: number, height: number, textChunks: Record<string, string> = {}): PngEncoder => {
+  const parts: BlobPart[] = [PNG_SIGNATURE];
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = COLOR_TYPE_RGB;
+  parts.push(createChunk('IHDR', header));
+  Object.entries(textChunks).forEach(([keyword, text]) => parts.push(createTextChunk(keyword, text)));
+
+  // PNG's IDAT payload is a zlib stream, which is what CompressionStream('deflate') produces.
+  const compression = new CompressionStream('deflate');
+  const writer = compression.writable.getWriter();
+  const idatChunks: Uint8Array[] = [];
+  const collected = (async () => {
+    const reader = compression.readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      idatChunks.push(createChunk('IDAT', value));
+    }
+  })();
+
+  let rowsWritten = 0;
+  const rowBytes = width * 3;
+
+  const writeRows = async (rows: Uint8ClampedArray) => {
+    const rowCount = rows.length / (width * 4);
+    const filtered = new Uint8Array(rowCount * (rowBytes + 1));
+    for (let y = 0; y < rowCount; y++) {
+      const out = y * (rowBytes + 1);
+      filtered[out] = FILTER_SUB;
+      for (let x = 0; x < width; x++) {
+        const src = (y * width + x) * 4;
+        const dst = out + 1 + x * 3;
+        for (let c = 0; c < 3; c++) {
+          const left = x > 0 ? rows[src - 4 + c] : 0;
+          filtered[dst + c] = (rows[src + c] - left) & 0xff;
+        }
+      }
+    }
+    rowsWritten += rowCount;
+    await writer.write(filtered);
+  };
+
+  const finish = async () => {
+    if (rowsWritten !== height) {
+      throw new Error(`PNG expects ${height} rows but ${rowsWritten} were written.`);
+    }
+    await writer.close();
+    await collected;
+    parts.push(...idatChunks, createChunk('IEND', new Uint8Array(0)));
+    return new Blob(parts, { type: 'image/png' });
+  };
+
+  return { writeRows, finish };
+};
+
+// Returns the tEXt chunks of a PNG file keyed by keyword.
+export const readPngTextChunks = (buffer: ArrayBuffer): Record<string, string> => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) {
+    throw new Error('Not a PNG file.');
+  }
+  const view = new DataView(buffer);
+  const texts: Record<string, string> = {};
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'tEXt') {
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      const separator = data.indexOf(0);
+      if (separator > 0) {
+        const keyword = String.fromCharCode(...data.subarray(0, separator));
+        let text = '';
+        for (let i = separator + 1; i < data.length; i++) text += String.fromCharCode(data[i]);
+        texts[keyword] = text;
+      }
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return texts;
+};
@@ -0,0 +1,162 @@
+import { FormulaNode, parseFormula } from './formulaParser';
+
+export const DEFAULT_NEWTON_POLYNOMIAL = 'z^3 - 1';
+const MAX_DEGREE = 16;
+
+// Coefficients from the constant term upwards, interleaved as [re0, im0, re1, im1, ...].
+export type Polynomial = Float64Array;
+
+export const getDegree = (polynomial: Polynomial) => polynomial.length / 2 - 1;
+
+const trim = (coefficients: number[]): number[] => {
+  let length = coefficients.length;
+  while (length > 2 && coefficients[length - 2] === 0 && coefficients[length - 1] === 0) length -= 2;
+  return coefficients.slice(0, length);
+};
+
+const add = (a: number[], b: number[], sign = 1): number[] => {
+  const result = new Array(Math.max(a.length, b.length)).fill(0);
+  a.forEach((value, i) => { result[i] += value; });
+  b.forEach((value, i) => { result[i] += sign * value; });
+  return trim(result);
+};
+
+const multiply = (a: number[], b: number[]): number[] => {
+  const result = new Array(a.length + b.length - 2).fill(0);
+  for (let i = 0; i < a.length; i += 2) {
+    for (let j = 0; j < b.length; j += 2) {
+      result[i + j] += a[i] * b[j] - a[i + 1] * b[j + 1];
+      result[i + j + 1] += a[i] * b[j + 1] + a[i + 1] * b[j];
+    }
+  }
+  return trim(result);
+};
+
+const degreeOf = (coefficients: number[]) => coefficients.length / 2 - 1;
+
+// Expands a parsed formula into coefficients, rejecting anything that is not a polynomial in z.
+const expand = (node: FormulaNode): number[] => {
+  switch (node.kind) {
+    case 'number':
+      return [node.value, 0];
+    case 'constant':
+      return node.name === 'i' ? [0, 1] : [node.name === 'pi' ? Math.PI : Math.E, 0];
+    case 'variable':
+      if (node.name !== 'z') {
+        throw new Error(`The polynomial can only use z, not ${node.name}.`);
+      }
+      return [0, 0, 1, 0];
+    case 'negate':
+      return expand(node.operand).map((value) => -value);
+    case 'binary': {
+      const left = expand(node.left);
+      const right = expand(node.right);
+      switch (node.operator) {
+        case '+':
+          return add(left, right);
+        case '-':
+          return add(left, right, -1);
+        case '*':
+          return multiply(left, right);
+        case '/': {
+          const [re, im] = right;
+          if (degreeOf(right) > 0 || (re === 0 && im === 0)) {
+            throw new Error('A polynomial can only be divided by a non-zero constant.');
+          }
+          return multiply(left, [re / (re * re + im * im), -im / (re * re + im * im)]);
+        }
+        case '^':
+        default: {
+          const [power, imaginary] = right;
+          if (degreeOf(right) > 0 || imaginary !== 0 || !Number.isInteger(power) || power < 0 || power > MAX_DEGREE) {
+            throw new Error(`Powers in a polynomial must be whole numbers from 0 to ${MAX_DEGREE}.`);
+          }
+          let result = [1, 0];
+          for (let i = 0; i < power; i++) result = multiply(result, left);
+          return result;
+        }
+      }
+    }
+    case 'call':
+    default:
+      throw new Error(`${node.name}() is not allowed in a polynomial.`);
+  }
+};
+
+export const parsePolynomial = (source: string): Polynomial => {
+  const coefficients = expand(parseFormula(source));
+  const degree = degreeOf(coefficients);
+  if (degree < 2) {
+    throw new Error('The polynomial needs a degree of at least 2, e.g. z^3 - 1.');
+  }
+  if (degree > MAX_DEGREE) {
+    throw new Error(`The polynomial can have a degree of at most ${MAX_DEGREE}.`);
+  }
+  return Float64Array.from(coefficients);
+};
+
+export const validatePolynomial = (source: string): string | null => {
+  try {
+    parsePolynomial(source);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+export const differentiate = (polynomial: Polynomial): Polynomial => {
+  const derivative = new Float64Array(polynomial.length - 2);
+  for (let k = 1; k <= getDegree(polynomial); k++) {
+    derivative[2 * (k - 1)] = k * polynomial[2 * k];
+    derivative[2 * (k - 1) + 1] = k * polynomial[2 * k + 1];
+  }
+  return derivative;
+};
+
+// All roots at once by Durand-Kerner iteration, which converges from the usual spread of starting points for
+// the low-degree polynomials people draw Newton fractals of.
+export const findRoots = (polynomial: Polynomial): [number, number][] => {
+  const degree = getDegree(polynomial);
+  const leadRe = polynomial[2 * degree];
+  const leadIm = polynomial[2 * degree + 1];
+  const scale = leadRe * leadRe + leadIm * leadIm;
+
+  // p(z) / lead, by Horner's method.
+  const evaluateMonic = (re: number, im: number): [number, number] => {
+    let pr = 0;
+    let pi = 0;
+    for (let k = degree; k >= 0; k--) {
+      const next = pr * re - pi * im + polynomial[2 * k];
+      pi = pr * im + pi * re + polynomial[2 * k + 1];
+      pr = next;
+    }
+    return [(pr * leadRe + pi * leadIm) / scale, (pi * leadRe - pr * leadIm) / scale];
+  };
+
+  const roots: [number, number][] = Array.from({ length: degree }, (_, k) => {
+    const angle = k * 0.9 + 0.4;
+    const radius = Math.pow(1.05, k);
+    return [radius * Math.cos(angle), radius * Math.sin(angle)];
+  });
+
+  for (let iteration = 0; iteration < 500; iteration++) {
+    let largestStep = 0;
+    for (let i = 0; i < degree; i++) {
+      const [re, im] = roots[i];
+      let [numRe, numIm] = evaluateMonic(re, im);
+      for (let j = 0; j < degree; j++) {
+        if (j === i) continue;
+        const dRe = re - roots[j][0];
+        const dIm = im - roots[j][1];
+        const d = dRe * dRe + dIm * dIm || Number.MIN_VALUE;
+        const nextRe = (numRe * dRe + numIm * dIm) / d;
+        numIm = (numIm * dRe - numRe * dIm) / d;
+        numRe = nextRe;
+      }
+      roots[i] = [re - numRe, im - numIm];
+      largestStep = Math.max(largestStep, Math.hypot(numRe, numIm));
+    }
+    if (largestStep < 1e-14) break;
+  }
+  return roots;
+};
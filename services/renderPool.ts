@@ -0,0 +1,202 @@
+import { addRenderStats, createRenderStats, EscapeTimeParams, RenderStats, TileRect } from './fractalService';
+import { computeReferenceOrbit, ReferenceOrbit, supportsDeepZoom } from './deepZoom';
+
+const TILE_SIZE = 64;
+
+export type RenderWorkerRequest =
+  | { type: 'job'; jobId: number; params: EscapeTimeParams; referenceOrbit: ReferenceOrbit | null }
+  | { type: 'tile'; jobId: number; tile: TileRect };
+
+export type RenderWorkerResponse =
+  | { type: 'tile'; jobId: number; tile: TileRect; samples: Float32Array; stats: RenderStats }
+  | { type: 'error'; jobId: number; message: string };
+
+// A tile of orbit records (see coloringService), left for the caller to color.
+export interface RenderedTile extends TileRect {
+  samples: Float32Array;
+}
+
+export interface RenderJobHandlers {
+  onTile: (tile: RenderedTile) => void;
+  onProgress: (progress: number) => void;
+  // stats covers every tile of the job.
+  onComplete: (stats: RenderStats) => void;
+  // The job stops at the first tile that fails; none of its other tiles are delivered after this.
+  onError: (message: string) => void;
+}
+
+export interface RenderJob {
+  cancel: () => void;
+}
+
+export interface RenderPool {
+  // regions limit the job to parts of the frame (e.g. one band of a large export, or the strips a pan brings into
+  // view); they default to the whole frame.
+  render: (params: EscapeTimeParams, handlers: RenderJobHandlers, regions?: TileRect[]) => RenderJob;
+  terminate: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  busy: boolean;
+  jobId: number | null;
+}
+
+interface ActiveJob {
+  id: number;
+  params: EscapeTimeParams;
+  handlers: RenderJobHandlers;
+  queue: TileRect[];
+  totalTiles: number;
+  completedTiles: number;
+  stats: RenderStats;
+  // The deep-zoom reference orbit, computed once here rather than by every worker.
+  referenceOrbit: ReferenceOrbit | null;
+}
+
+const defaultPoolSize = () => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 4 : 4;
+  return Math.max(1, Math.min(8, cores - 1));
+};
+
+// Splits regions into tiles, ordered so the centre of the area they span fills in first.
+const createTiles = (regions: TileRect[]): TileRect[] => {
+  const tiles: TileRect[] = [];
+  regions.forEach((region) => {
+    const right = region.x + region.width;
+    const bottom = region.y + region.height;
+    for (let y = region.y; y < bottom; y += TILE_SIZE) {
+      for (let x = region.x; x < right; x += TILE_SIZE) {
+        tiles.push({ x, y, width: Math.min(TILE_SIZE, right - x), height: Math.min(TILE_SIZE, bottom - y) });
+      }
+    }
+  });
+  const left = Math.min(...regions.map((region) => region.x));
+  const top = Math.min(...regions.map((region) => region.y));
+  const centerX = (left + Math.max(...regions.map((region) => region.x + region.width))) / 2;
+  const centerY = (top + Math.max(...regions.map((region) => region.y + region.height))) / 2;
+  const distanceToCenter = (tile: TileRect) =>
+    Math.hypot(tile.x + tile.width / 2 - centerX, tile.y + tile.height / 2 - centerY);
+  return tiles.sort((a, b) => distanceToCenter(a) - distanceToCenter(b));
+};
+
+export const createRenderPool = (size: number = defaultPoolSize()): RenderPool => {
+  let nextJobId = 1;
+  let activeJob: ActiveJob | null = null;
+
+  const post = (poolWorker: PoolWorker, message: RenderWorkerRequest, transfer: Transferable[] = []) =>
+    poolWorker.worker.postMessage(message, { transfer });
+
+  const dispatch = (poolWorker: PoolWorker) => {
+    const job = activeJob;
+    if (!job || poolWorker.busy) return;
+    const tile = job.queue.shift();
+    if (!tile) return;
+    if (poolWorker.jobId !== job.id) {
+      // Each worker gets a copy of its own, which can then be transferred rather than cloned.
+      const referenceOrbit = job.referenceOrbit && { ...job.referenceOrbit, orbit: job.referenceOrbit.orbit.slice() };
+      post(poolWorker, { type: 'job', jobId: job.id, params: job.params, referenceOrbit },
+        referenceOrbit ? [referenceOrbit.orbit.buffer] : []);
+      poolWorker.jobId = job.id;
+    }
+    poolWorker.busy = true;
+    post(poolWorker, { type: 'tile', jobId: job.id, tile });
+  };
+
+  const failJob = (jobId: number, message: string) => {
+    const job = activeJob;
+    if (job && job.id === jobId) {
+      activeJob = null;
+      job.handlers.onError(message);
+    }
+  };
+
+  const handleResponse = (poolWorker: PoolWorker, response: RenderWorkerResponse) => {
+    poolWorker.busy = false;
+    const job = activeJob;
+    if (response.type === 'error') {
+      failJob(response.jobId, response.message);
+    } else if (job && response.jobId === job.id) {
+      // Results for a cancelled or superseded job are dropped; the worker simply picks up the next tile.
+      job.completedTiles++;
+      addRenderStats(job.stats, response.stats);
+      job.handlers.onTile({ ...response.tile, samples: response.samples });
+      if (job.completedTiles === job.totalTiles) {
+        activeJob = null;
+        job.handlers.onComplete(job.stats);
+      } else {
+        job.handlers.onProgress(job.completedTiles / job.totalTiles);
+      }
+    }
+    dispatch(poolWorker);
+  };
+
+  const spawnWorker = () => new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+
+  const attachWorker = (poolWorker: PoolWorker) => {
+    const { worker } = poolWorker;
+    worker.onmessage = (e: MessageEvent<RenderWorkerResponse>) => handleResponse(poolWorker, e.data);
+    // An error the worker did not catch may have left it in any state, so it is replaced, and the tile it was
+    // working on takes its job down with it.
+    worker.onerror = (e) => {
+      console.error('Render worker error:', e.message);
+      const failedJobId = poolWorker.busy ? poolWorker.jobId : null;
+      worker.terminate();
+      poolWorker.worker = spawnWorker();
+      attachWorker(poolWorker);
+      poolWorker.busy = false;
+      poolWorker.jobId = null;
+      if (failedJobId !== null) failJob(failedJobId, e.message || 'A render worker failed.');
+      dispatch(poolWorker);
+    };
+  };
+
+  const workers: PoolWorker[] = Array.from({ length: size }, () => {
+    const poolWorker: PoolWorker = { worker: spawnWorker(), busy: false, jobId: null };
+    attachWorker(poolWorker);
+    return poolWorker;
+  });
+
+  const render = (
+    params: EscapeTimeParams,
+    handlers: RenderJobHandlers,
+    regions: TileRect[] = [{ x: 0, y: 0, width: params.width, height: params.height }],
+  ): RenderJob => {
+    let referenceOrbit: ReferenceOrbit | null;
+    try {
+      referenceOrbit = params.deepZoom && supportsDeepZoom(params.fractalType) ? computeReferenceOrbit(params) : null;
+    } catch (error) {
+      handlers.onError(error instanceof Error ? error.message : String(error));
+      return { cancel: () => {} };
+    }
+    const queue = createTiles(regions);
+    const job: ActiveJob = {
+      id: nextJobId++,
+      params,
+      handlers,
+      queue,
+      totalTiles: queue.length,
+      completedTiles: 0,
+      stats: createRenderStats(),
+      referenceOrbit,
+    };
+    activeJob = job;
+    handlers.onProgress(0);
+    workers.forEach(dispatch);
+
+    return {
+      cancel: () => {
+        if (activeJob === job) {
+          activeJob = null;
+        }
+      },
+    };
+  };
+
+  const terminate = () => {
+    activeJob = null;
+    workers.forEach(({ worker }) => worker.terminate());
+  };
+
+  return { render, terminate };
+};
@@ -0,0 +1,26 @@
+import { computeEscapeTimeSamples, createRenderStats, EscapeTimeParams } from './fractalService';
+import { primeReferenceOrbit } from './deepZoom';
+import type { RenderWorkerRequest, RenderWorkerResponse } from './renderPool';
+
+let currentJob: { jobId: number; params: EscapeTimeParams } | null = null;
+
+self.onmessage = (e: MessageEvent<RenderWorkerRequest>) => {
+  const message = e.data;
+  if (message.type === 'job') {
+    currentJob = { jobId: message.jobId, params: message.params };
+    if (message.referenceOrbit) primeReferenceOrbit(message.referenceOrbit);
+    return;
+  }
+
+  if (!currentJob || currentJob.jobId !== message.jobId) return;
+  let response: RenderWorkerResponse;
+  try {
+    const stats = createRenderStats();
+    const samples = computeEscapeTimeSamples(currentJob.params, message.tile, stats);
+    response = { type: 'tile', jobId: message.jobId, tile: message.tile, samples, stats };
+  } catch (error) {
+    // A formula or polynomial that does not compile fails every tile alike, so the pool gives up on the job.
+    response = { type: 'error', jobId: message.jobId, message: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response, { transfer: response.type === 'tile' ? [response.samples.buffer] : [] });
+};
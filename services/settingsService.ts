@@ -0,0 +1,139 @@
+import {
+  Camera3D,
+  ColoringAlgorithm,
+  ControlParams,
+  OrbitTrapShape,
+  PrecisePan,
+  RenderParams,
+  RendererPreference,
+} from '../types';
+import { precisePanFromNumbers } from './deepZoom';
+import { createOrbitCamera, readCamera } from './cameraService';
+import { DEFAULT_CUSTOM_BAILOUT, DEFAULT_CUSTOM_FORMULA, validateCustomFormula } from './formulaParser';
+import { DEFAULT_NEWTON_POLYNOMIAL, validatePolynomial } from './polynomial';
+import { DEFAULT_IFS_TRANSFORMS } from './ifsService';
+import { DEFAULT_FLAME } from './flameService';
+import { DEFAULT_LSYSTEM } from './lsystemService';
+import { validateLSystem } from './lsystemParser';
+import { DEFAULT_FRACTAL_3D } from './distanceEstimators';
+import { DEFAULT_LIGHTING_3D } from './lightingService';
+import { DEFAULT_RENDER_3D } from './mandelbulbRenderer';
+
+// zoom is stored in the slider's units (x100), as the Controls panel uses.
+export interface SavedSettings extends Omit<ControlParams, 'zoom'> {
+  zoom: number;
+  panX: number;
+  panY: number;
+  precisePan?: PrecisePan;
+}
+
+// Values for fields that older saves predate, chosen so those saves still look the way they did.
+const LEGACY_DEFAULTS = {
+  exponent: 2,
+  customFormula: DEFAULT_CUSTOM_FORMULA,
+  customBailout: DEFAULT_CUSTOM_BAILOUT,
+  newtonPolynomial: DEFAULT_NEWTON_POLYNOMIAL,
+  relaxation: 1,
+  ifsTransforms: DEFAULT_IFS_TRANSFORMS,
+  flame: DEFAULT_FLAME,
+  lSystem: DEFAULT_LSYSTEM,
+  fractal3D: DEFAULT_FRACTAL_3D,
+  lighting3D: DEFAULT_LIGHTING_3D,
+  render3D: DEFAULT_RENDER_3D,
+  autoIterations: false,
+  deepZoom: false,
+  renderer: RendererPreference.Auto,
+  coloringAlgorithm: ColoringAlgorithm.IterationCount,
+  orbitTrapShape: OrbitTrapShape.Point,
+  customPalette: null,
+  paletteOffset: 0,
+  paletteRepeat: 1,
+  paletteDensity: 1,
+  paletteCycleSpeed: 0,
+};
+
+export const DEFAULT_CAMERA: Camera3D = createOrbitCamera([0, 0, 0], 3);
+
+export const toSavedSettings = (params: RenderParams): SavedSettings => ({
+  fractalType: params.fractalType,
+  zoom: params.zoom * 100,
+  iterations: params.iterations,
+  cReal: params.cReal,
+  cImag: params.cImag,
+  exponent: params.exponent,
+  customFormula: params.customFormula,
+  customBailout: params.customBailout,
+  newtonPolynomial: params.newtonPolynomial,
+  relaxation: params.relaxation,
+  ifsTransforms: params.ifsTransforms,
+  flame: params.flame,
+  lSystem: params.lSystem,
+  fractal3D: params.fractal3D,
+  lighting3D: params.lighting3D,
+  render3D: params.render3D,
+  colorPalette: params.colorPalette,
+  panX: params.panX,
+  panY: params.panY,
+  precisePan: params.precisePan,
+  mandelbulbIterations: params.mandelbulbIterations,
+  autoIterations: params.autoIterations,
+  deepZoom: params.deepZoom,
+  renderer: params.renderer,
+  coloringAlgorithm: params.coloringAlgorithm,
+  orbitTrapShape: params.orbitTrapShape,
+  customPalette: params.customPalette,
+  paletteOffset: params.paletteOffset,
+  paletteRepeat: params.paletteRepeat,
+  paletteDensity: params.paletteDensity,
+  paletteCycleSpeed: params.paletteCycleSpeed,
+});
+
+// Converts saved settings back into render parameters (everything except the canvas size). As with view links,
+// a formula, polynomial or L-system that does not parse, which would fail every render, falls back to the default.
+export const fromSavedSettings = (saved: SavedSettings): Omit<RenderParams, 'width' | 'height'> => {
+  const settings = { ...LEGACY_DEFAULTS, ...saved };
+  const isFormulaValid = validateCustomFormula(settings.customFormula, settings.customBailout) === null;
+  return {
+    ...settings,
+    zoom: saved.zoom / 100,
+    precisePan: saved.precisePan ?? precisePanFromNumbers(saved.panX, saved.panY),
+    customFormula: isFormulaValid ? settings.customFormula : DEFAULT_CUSTOM_FORMULA,
+    customBailout: isFormulaValid ? settings.customBailout : DEFAULT_CUSTOM_BAILOUT,
+    newtonPolynomial: validatePolynomial(settings.newtonPolynomial) === null ? settings.newtonPolynomial : DEFAULT_NEWTON_POLYNOMIAL,
+    lSystem: validateLSystem(settings.lSystem) === null ? settings.lSystem : DEFAULT_LSYSTEM,
+  };
+};
+
+const VIEW_FORMAT = 'fractal-explorer-view';
+// Version 2 replaced the orbit angles of the camera with its position and orientation; older cameras are converted.
+const VIEW_VERSION = 2;
+
+// Everything needed to reproduce an image, as embedded in exported PNGs.
+export interface SavedView {
+  settings: SavedSettings;
+  camera: Camera3D;
+}
+
+// PNG tEXt chunks are Latin-1, so anything beyond ASCII (e.g. in a palette name) is written as a JSON \u escape.
+export const serializeView = (view: SavedView): string =>
+  JSON.stringify({ format: VIEW_FORMAT, version: VIEW_VERSION, ...view })
+    .replace(/[\u007f-\uffff]/g, (ch) => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+const toSavedView = (parsed: { settings: SavedSettings; camera?: unknown }): SavedView => ({
+  settings: parsed.settings,
+  camera: readCamera(parsed.camera, DEFAULT_CAMERA),
+});
+
+export const parseView = (text: string): SavedView => {
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== VIEW_FORMAT || typeof parsed.settings !== 'object') {
+    throw new Error('The file does not contain Fractal Explorer view settings.');
+  }
+  return toSavedView(parsed);
+};
+
+// Reads the contents of the old localStorage save slot, which held bare settings (without a camera) before views were versioned.
+export const readStoredView = (parsed: Record<string, unknown>): SavedView =>
+  parsed?.format === VIEW_FORMAT
+    ? toSavedView(parsed as unknown as { settings: SavedSettings })
+    : { settings: parsed as unknown as SavedSettings, camera: DEFAULT_CAMERA };
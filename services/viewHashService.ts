@@ -0,0 +1,456 @@
+import {
+  ColoringAlgorithm,
+  ColorPalette,
+  ControlParams,
+  Fractal3DSettings,
+  Light3D,
+  Lighting3DSettings,
+  Render3DSettings,
+  FractalType,
+  GradientInterpolation,
+  FlameSettings,
+  FlameTransform,
+  FlameVariation,
+  GradientStop,
+  IFSTransform,
+  LSystemRule,
+  LSystemSettings,
+  OrbitTrapShape,
+  PaletteGradient,
+  RendererPreference,
+} from '../types';
+import { fromLegacyCamera, readCamera } from './cameraService';
+import { roundPrecisePan } from './deepZoom';
+import {
+  isCustomFormula,
+  MAX_EXPONENT,
+  MAX_RELAXATION,
+  MIN_EXPONENT,
+  MIN_RELAXATION,
+  usesExponent,
+  usesPolynomial,
+} from './escapeTimeFormulas';
+import { validateCustomFormula } from './formulaParser';
+import { validatePolynomial } from './polynomial';
+import { MAX_IFS_TRANSFORMS } from './ifsService';
+import { MAX_LSYSTEM_ITERATIONS } from './lsystemService';
+import { validateLSystem } from './lsystemParser';
+import { DISTANCE_ESTIMATORS, is3DFractal, resolveParameters } from './distanceEstimators';
+import { MAX_LIGHTS } from './lightingService';
+import { MAX_3D_SAMPLES } from './mandelbulbRenderer';
+import { FLAME_VARIATIONS, MAX_FLAME_QUALITY, MAX_FLAME_SUPERSAMPLE, MIN_FLAME_QUALITY } from './flameService';
+import { DEFAULT_CAMERA, SavedView } from './settingsService';
+
+// Bump when the meaning of an existing key changes; adding keys does not need a new version.
+const HASH_VERSION = '1';
+
+// Short keys keep shared links readable and well under URL length limits.
+const KEYS = {
+  version: 'v',
+  fractalType: 'f',
+  panX: 'x',
+  panY: 'y',
+  zoom: 'z',
+  iterations: 'i',
+  juliaConstant: 'c',
+  exponent: 'n',
+  customFormula: 'fx',
+  customBailout: 'fb',
+  newtonPolynomial: 'np',
+  relaxation: 'nr',
+  ifsTransforms: 'ifs',
+  flame: 'fl',
+  flameTransforms: 'flx',
+  flameFinalTransform: 'flf',
+  lSystemAxiom: 'la',
+  lSystemRules: 'lr',
+  lSystemTurtle: 'ls',
+  fractal3D: 'de',
+  lighting3D: 'lt',
+  lights3D: 'll',
+  render3D: 'ac',
+  colorPalette: 'p',
+  customPalette: 'g',
+  customPaletteName: 'gn',
+  customPaletteInterpolation: 'gi',
+  paletteMapping: 'pm',
+  coloringAlgorithm: 'col',
+  orbitTrapShape: 'trap',
+  autoIterations: 'ai',
+  deepZoom: 'dz',
+  renderer: 'r',
+  mandelbulbIterations: 'mi',
+  // The orbit angles, distance and target of the camera before it could move freely. Still read from older links.
+  legacyCamera: 'cam',
+  camera: 'cv',
+};
+
+// Pans are arbitrary-precision decimals, so they are checked as text rather than parsed as doubles.
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+// Lists use '_', which URLSearchParams leaves unescaped (unlike ',').
+const LIST_SEPARATOR = '_';
+
+const isEnumValue = <T extends string>(values: Record<string, T>, value: string | null): value is T =>
+  value !== null && (Object.values(values) as string[]).includes(value);
+
+const parseNumbers = (value: string | null, count: number): number[] | null => {
+  const numbers = value?.split(LIST_SEPARATOR).map(Number);
+  return numbers && numbers.length === count && numbers.every(Number.isFinite) ? numbers : null;
+};
+
+const parseNumber = (value: string | null, fallback: number) => {
+  const number = value === null ? NaN : Number(value);
+  return Number.isFinite(number) ? number : fallback;
+};
+
+const toHex = (channel: number) => channel.toString(16).padStart(2, '0');
+
+// The exponent sign of large zooms would otherwise be percent-encoded.
+const formatNumber = (value: number) => String(value).replace('e+', 'e');
+
+const formatList = (values: number[]) => values.map(formatNumber).join(LIST_SEPARATOR);
+
+// Seven numbers per transform: a, b, c, d, e, f and the probability.
+const encodeTransforms = (transforms: IFSTransform[]) =>
+  formatList(transforms.flatMap(({ a, b, c, d, e, f, probability }) =>
+    [a, b, c, d, e, f, probability].map((value) => Number(value.toPrecision(6)))));
+
+const decodeTransforms = (value: string | null): IFSTransform[] | null => {
+  const numbers = value?.split(LIST_SEPARATOR).map(Number);
+  if (!numbers || numbers.length % 7 !== 0 || numbers.length / 7 > MAX_IFS_TRANSFORMS || !numbers.every(Number.isFinite)) {
+    return null;
+  }
+  return Array.from({ length: numbers.length / 7 }, (_, i) => {
+    const [a, b, c, d, e, f, probability] = numbers.slice(i * 7, i * 7 + 7);
+    return { a, b, c, d, e, f, probability };
+  });
+};
+
+// Each flame transform is a, b, c, d, e, f, weight, colour, colour speed, the number of variations followed by an
+// (index into FlameVariation, weight) pair for each, and 0 or 1 for whether six post-transform coefficients follow.
+// New variations must therefore be added to the end of the enum.
+const encodeFlameTransforms = (transforms: FlameTransform[]) =>
+  formatList(transforms.flatMap((t) => {
+    const variations = Object.entries(t.variations) as [FlameVariation, number][];
+    return [
+      t.a, t.b, t.c, t.d, t.e, t.f, t.probability, t.color, t.colorSpeed,
+      variations.length,
+      ...variations.flatMap(([name, weight]) => [FLAME_VARIATIONS.indexOf(name), weight]),
+      ...(t.post ? [1, t.post.a, t.post.b, t.post.c, t.post.d, t.post.e, t.post.f] : [0]),
+    ].map((value) => Number(value.toPrecision(6)));
+  }));
+
+const decodeFlameTransforms = (value: string | null): FlameTransform[] | null => {
+  const numbers = value?.split(LIST_SEPARATOR).map(Number);
+  if (!numbers || !numbers.every(Number.isFinite)) return null;
+  const transforms: FlameTransform[] = [];
+  let i = 0;
+  while (i < numbers.length && transforms.length < MAX_IFS_TRANSFORMS) {
+    const [a, b, c, d, e, f, probability, color, colorSpeed, variationCount] = numbers.slice(i, i + 10);
+    i += 10;
+    if (variationCount === undefined || !Number.isInteger(variationCount) || variationCount < 0) return null;
+    const variations: FlameTransform['variations'] = {};
+    for (let v = 0; v < variationCount; v++, i += 2) {
+      const name = FLAME_VARIATIONS[numbers[i]];
+      if (!name || i + 1 >= numbers.length) return null;
+      variations[name] = numbers[i + 1];
+    }
+    const hasPost = numbers[i++] === 1;
+    const post = hasPost ? numbers.slice(i, i + 6) : null;
+    if (post && post.length < 6) return null;
+    if (post) i += 6;
+    transforms.push({
+      a, b, c, d, e, f, probability, variations,
+      color: Math.max(0, Math.min(1, color)),
+      colorSpeed: Math.max(0, Math.min(1, colorSpeed)),
+      post: post && { a: post[0], b: post[1], c: post[2], d: post[3], e: post[4], f: post[5] },
+    });
+  }
+  return i === numbers.length && transforms.length > 0 ? transforms : null;
+};
+
+// Gamma, brightness, vibrancy, supersampling and quality, then the transforms under their own keys.
+const decodeFlame = (query: URLSearchParams, defaults: FlameSettings): FlameSettings => {
+  const tone = parseNumbers(query.get(KEYS.flame), 5);
+  const transforms = decodeFlameTransforms(query.get(KEYS.flameTransforms));
+  const finalTransform = decodeFlameTransforms(query.get(KEYS.flameFinalTransform));
+  if (!tone || !transforms) return defaults;
+  const [gamma, brightness, vibrancy, supersample, quality] = tone;
+  return {
+    transforms,
+    finalTransform: finalTransform?.[0] ?? null,
+    gamma: Math.max(0.1, gamma),
+    brightness: Math.max(0, brightness),
+    vibrancy: Math.max(0, Math.min(1, vibrancy)),
+    supersample: Math.max(1, Math.min(MAX_FLAME_SUPERSAMPLE, Math.round(supersample))),
+    quality: Math.max(MIN_FLAME_QUALITY, Math.min(MAX_FLAME_QUALITY, quality)),
+  };
+};
+
+// Rules are a JSON list of [predecessor, condition, successor, weight]; the numbers are iterations, angle, heading and seed.
+const decodeLSystem = (query: URLSearchParams, defaults: LSystemSettings): LSystemSettings => {
+  const turtle = parseNumbers(query.get(KEYS.lSystemTurtle), 4);
+  let rules: LSystemRule[] | null = null;
+  try {
+    const parsed = JSON.parse(query.get(KEYS.lSystemRules) ?? 'null');
+    if (Array.isArray(parsed) && parsed.every((entry) => Array.isArray(entry) && entry.length === 4)) {
+      rules = parsed.map(([predecessor, condition, successor, weight]) =>
+        ({ predecessor: String(predecessor), condition: String(condition), successor: String(successor), weight: Number(weight) || 0 }));
+    }
+  } catch {
+    rules = null;
+  }
+  const axiom = query.get(KEYS.lSystemAxiom);
+  if (!turtle || !rules || axiom === null) return defaults;
+  const settings: LSystemSettings = {
+    axiom,
+    rules,
+    iterations: Math.max(0, Math.min(MAX_LSYSTEM_ITERATIONS, Math.round(turtle[0]))),
+    angle: turtle[1],
+    heading: turtle[2],
+    seed: Math.round(turtle[3]),
+  };
+  // Like custom formulas, a system that does not parse falls back to the default.
+  return validateLSystem(settings) === null ? settings : defaults;
+};
+
+// The parameters of the linked fractal's distance estimator, in the order distanceEstimators lists them.
+const decodeFractal3D = (query: URLSearchParams, type: FractalType, defaults: Fractal3DSettings): Fractal3DSettings => {
+  if (!is3DFractal(type)) return defaults;
+  const { parameters } = DISTANCE_ESTIMATORS[type];
+  const values = parseNumbers(query.get(KEYS.fractal3D), parameters.length);
+  if (!values) return defaults;
+  const settings = { ...defaults, [type]: Object.fromEntries(parameters.map(({ name }, i) => [name, values[i]])) };
+  return { ...settings, [type]: resolveParameters(settings, type) };
+};
+
+// The material, shadow, atmosphere and background values, colours as three channels each.
+const encodeLighting = (lighting: Lighting3DSettings) =>
+  formatList([
+    lighting.ambient, lighting.diffuse, lighting.specular, lighting.shininess, lighting.shadowSharpness,
+    lighting.ambientOcclusion, lighting.fog, lighting.glow,
+    ...lighting.glowColor, ...lighting.backgroundTop, ...lighting.backgroundBottom,
+  ]);
+
+// Six numbers per light: azimuth, elevation, the three colour channels and the intensity.
+const encodeLights = (lights: Light3D[]) =>
+  formatList(lights.flatMap(({ azimuth, elevation, color, intensity }) => [azimuth, elevation, ...color, intensity]));
+
+const toColor = (values: number[]) =>
+  values.map((channel) => Math.max(0, Math.min(255, Math.round(channel)))) as [number, number, number];
+
+const decodeLights = (value: string | null): Light3D[] | null => {
+  const numbers = value?.split(LIST_SEPARATOR).map(Number);
+  if (!numbers || numbers.length % 6 !== 0 || numbers.length / 6 > MAX_LIGHTS || !numbers.every(Number.isFinite)) {
+    return null;
+  }
+  return Array.from({ length: numbers.length / 6 }, (_, i) => {
+    const [azimuth, elevation, r, g, b, intensity] = numbers.slice(i * 6, i * 6 + 6);
+    return { azimuth, elevation, color: toColor([r, g, b]), intensity: Math.max(0, intensity) };
+  });
+};
+
+const decodeLighting = (query: URLSearchParams, defaults: Lighting3DSettings): Lighting3DSettings => {
+  const values = parseNumbers(query.get(KEYS.lighting3D), 17);
+  // An empty list is a link with every light removed.
+  const lights = query.get(KEYS.lights3D) === '' ? [] : decodeLights(query.get(KEYS.lights3D)) ?? defaults.lights;
+  if (!values) return { ...defaults, lights };
+  const [ambient, diffuse, specular, shininess, shadowSharpness, ambientOcclusion, fog, glow] = values.map((v) => Math.max(0, v));
+  return {
+    lights,
+    ambient,
+    diffuse,
+    specular,
+    shininess: Math.max(1, shininess),
+    shadowSharpness,
+    ambientOcclusion,
+    fog,
+    glow,
+    glowColor: toColor(values.slice(8, 11)),
+    backgroundTop: toColor(values.slice(11, 14)),
+    backgroundBottom: toColor(values.slice(14, 17)),
+  };
+};
+
+// Samples, aperture and focus.
+const decodeRender3D = (value: string | null, defaults: Render3DSettings): Render3DSettings => {
+  const values = parseNumbers(value, 3);
+  if (!values) return defaults;
+  return {
+    samples: Math.max(1, Math.min(MAX_3D_SAMPLES, Math.round(values[0]))),
+    aperture: Math.max(0, values[1]),
+    focus: values[2] > 0 ? values[2] : defaults.focus,
+  };
+};
+
+// Stops as "position-rrggbb", with positions rounded so they never need exponent notation.
+const encodeStops = (stops: GradientStop[]) =>
+  stops.map(({ position, color }) => `${Number(position.toFixed(4))}-${color.map(toHex).join('')}`).join(LIST_SEPARATOR);
+
+const decodeStops = (value: string): GradientStop[] | null => {
+  const stops = value.split(LIST_SEPARATOR).map((stop) => {
+    const match = /^([\d.]+)-([0-9a-f]{6})$/i.exec(stop);
+    if (!match) return null;
+    const hex = match[2];
+    return {
+      position: Math.max(0, Math.min(1, Number(match[1]))),
+      color: [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number],
+    };
+  });
+  return stops.length >= 2 && stops.every((stop) => stop !== null) ? (stops as GradientStop[]) : null;
+};
+
+export const encodeViewHash = ({ settings, camera }: SavedView): string => {
+  const zoom = settings.zoom / 100;
+  const pan = roundPrecisePan(settings.precisePan ?? { x: String(settings.panX), y: String(settings.panY) }, zoom);
+  const query = new URLSearchParams();
+  query.set(KEYS.version, HASH_VERSION);
+  query.set(KEYS.fractalType, settings.fractalType);
+  query.set(KEYS.panX, pan.x);
+  query.set(KEYS.panY, pan.y);
+  // Saved settings store the zoom scaled by 100; rounding keeps the link stable when it is decoded and re-encoded.
+  query.set(KEYS.zoom, formatNumber(Number(zoom.toPrecision(12))));
+  query.set(KEYS.iterations, String(settings.iterations));
+  query.set(KEYS.juliaConstant, formatList([settings.cReal, settings.cImag]));
+  if (usesExponent(settings.fractalType)) {
+    query.set(KEYS.exponent, formatNumber(settings.exponent));
+  }
+  if (isCustomFormula(settings.fractalType)) {
+    query.set(KEYS.customFormula, settings.customFormula);
+    query.set(KEYS.customBailout, settings.customBailout);
+  }
+  if (usesPolynomial(settings.fractalType)) {
+    query.set(KEYS.newtonPolynomial, settings.newtonPolynomial);
+    query.set(KEYS.relaxation, formatNumber(settings.relaxation));
+  }
+  if (settings.fractalType === FractalType.IFS) {
+    query.set(KEYS.ifsTransforms, encodeTransforms(settings.ifsTransforms));
+  }
+  if (settings.fractalType === FractalType.Flame) {
+    const { flame } = settings;
+    query.set(KEYS.flame, formatList([flame.gamma, flame.brightness, flame.vibrancy, flame.supersample, flame.quality]));
+    query.set(KEYS.flameTransforms, encodeFlameTransforms(flame.transforms));
+    if (flame.finalTransform) {
+      query.set(KEYS.flameFinalTransform, encodeFlameTransforms([flame.finalTransform]));
+    }
+  }
+  if (settings.fractalType === FractalType.LSystem) {
+    const { lSystem } = settings;
+    query.set(KEYS.lSystemAxiom, lSystem.axiom);
+    query.set(KEYS.lSystemRules, JSON.stringify(lSystem.rules.map((rule) => [rule.predecessor, rule.condition, rule.successor, rule.weight])));
+    query.set(KEYS.lSystemTurtle, formatList([lSystem.iterations, lSystem.angle, lSystem.heading, lSystem.seed]));
+  }
+  if (is3DFractal(settings.fractalType)) {
+    const values = resolveParameters(settings.fractal3D, settings.fractalType);
+    query.set(KEYS.fractal3D, formatList(DISTANCE_ESTIMATORS[settings.fractalType].parameters.map(({ name }) => values[name])));
+    query.set(KEYS.lighting3D, encodeLighting(settings.lighting3D));
+    query.set(KEYS.lights3D, encodeLights(settings.lighting3D.lights));
+    query.set(KEYS.render3D, formatList([settings.render3D.samples, settings.render3D.aperture, settings.render3D.focus]));
+  }
+  query.set(KEYS.colorPalette, settings.colorPalette);
+  if (settings.customPalette) {
+    query.set(KEYS.customPalette, encodeStops(settings.customPalette.stops));
+    query.set(KEYS.customPaletteName, settings.customPalette.name);
+    query.set(KEYS.customPaletteInterpolation, settings.customPalette.interpolation);
+  }
+  query.set(KEYS.paletteMapping,
+    formatList([settings.paletteOffset, settings.paletteRepeat, settings.paletteDensity, settings.paletteCycleSpeed]));
+  query.set(KEYS.coloringAlgorithm, settings.coloringAlgorithm);
+  query.set(KEYS.orbitTrapShape, settings.orbitTrapShape);
+  query.set(KEYS.autoIterations, settings.autoIterations ? '1' : '0');
+  query.set(KEYS.deepZoom, settings.deepZoom ? '1' : '0');
+  query.set(KEYS.renderer, settings.renderer);
+  query.set(KEYS.mandelbulbIterations, String(settings.mandelbulbIterations));
+  // The camera only affects the 3D fractals, so other links leave it out.
+  if (is3DFractal(settings.fractalType)) {
+    query.set(KEYS.camera, formatList([...camera.position, ...camera.orientation, ...camera.target, camera.fov]));
+  }
+  return `#${query.toString()}`;
+};
+
+// Returns null for hashes that are not view links. Missing or malformed values fall back to the defaults.
+export const decodeViewHash = (hash: string, defaults: ControlParams): SavedView | null => {
+  const query = new URLSearchParams(hash.replace(/^#/, ''));
+  const fractalType = query.get(KEYS.fractalType);
+  if (query.get(KEYS.version) !== HASH_VERSION || !isEnumValue(FractalType, fractalType)) {
+    return null;
+  }
+
+  const x = query.get(KEYS.panX) ?? '0';
+  const y = query.get(KEYS.panY) ?? '0';
+  if (!DECIMAL_PATTERN.test(x) || !DECIMAL_PATTERN.test(y)) return null;
+  const panX = Number(x);
+  const panY = Number(y);
+
+  const juliaConstant = parseNumbers(query.get(KEYS.juliaConstant), 2);
+  const mapping = parseNumbers(query.get(KEYS.paletteMapping), 4);
+  const colorPalette = query.get(KEYS.colorPalette);
+  const coloringAlgorithm = query.get(KEYS.coloringAlgorithm);
+  const orbitTrapShape = query.get(KEYS.orbitTrapShape);
+  const renderer = query.get(KEYS.renderer);
+  const stops = decodeStops(query.get(KEYS.customPalette) ?? '');
+  const interpolation = query.get(KEYS.customPaletteInterpolation);
+  const customPalette: PaletteGradient | null = stops && {
+    name: query.get(KEYS.customPaletteName) ?? 'Shared',
+    stops,
+    interpolation: isEnumValue(GradientInterpolation, interpolation) ? interpolation : GradientInterpolation.RGB,
+  };
+  const cameraValues = parseNumbers(query.get(KEYS.camera), 11);
+  const legacyCameraValues = parseNumbers(query.get(KEYS.legacyCamera), 5);
+  const customFormula = query.get(KEYS.customFormula) ?? defaults.customFormula;
+  const customBailout = query.get(KEYS.customBailout) ?? defaults.customBailout;
+  // A formula that does not parse would fail every render, so the link falls back to the default one.
+  const isFormulaValid = validateCustomFormula(customFormula, customBailout) === null;
+  const newtonPolynomial = query.get(KEYS.newtonPolynomial) ?? defaults.newtonPolynomial;
+
+  return {
+    settings: {
+      fractalType,
+      panX,
+      panY,
+      precisePan: { x, y },
+      zoom: parseNumber(query.get(KEYS.zoom), defaults.zoom / 100) * 100,
+      iterations: Math.max(1, Math.round(parseNumber(query.get(KEYS.iterations), defaults.iterations))),
+      cReal: juliaConstant ? juliaConstant[0] : defaults.cReal,
+      cImag: juliaConstant ? juliaConstant[1] : defaults.cImag,
+      customFormula: isFormulaValid ? customFormula : defaults.customFormula,
+      customBailout: isFormulaValid ? customBailout : defaults.customBailout,
+      exponent: Math.max(MIN_EXPONENT, Math.min(MAX_EXPONENT, parseNumber(query.get(KEYS.exponent), defaults.exponent))),
+      newtonPolynomial: validatePolynomial(newtonPolynomial) === null ? newtonPolynomial : defaults.newtonPolynomial,
+      ifsTransforms: decodeTransforms(query.get(KEYS.ifsTransforms)) ?? defaults.ifsTransforms,
+      flame: decodeFlame(query, defaults.flame),
+      lSystem: decodeLSystem(query, defaults.lSystem),
+      fractal3D: decodeFractal3D(query, fractalType, defaults.fractal3D),
+      lighting3D: decodeLighting(query, defaults.lighting3D),
+      render3D: decodeRender3D(query.get(KEYS.render3D), defaults.render3D),
+      relaxation: Math.max(MIN_RELAXATION, Math.min(MAX_RELAXATION, parseNumber(query.get(KEYS.relaxation), defaults.relaxation))),
+      colorPalette: isEnumValue(ColorPalette, colorPalette) ? colorPalette : defaults.colorPalette,
+      customPalette,
+      paletteOffset: mapping ? mapping[0] : defaults.paletteOffset,
+      paletteRepeat: mapping ? mapping[1] : defaults.paletteRepeat,
+      paletteDensity: mapping ? mapping[2] : defaults.paletteDensity,
+      paletteCycleSpeed: mapping ? mapping[3] : defaults.paletteCycleSpeed,
+      coloringAlgorithm: isEnumValue(ColoringAlgorithm, coloringAlgorithm) ? coloringAlgorithm : defaults.coloringAlgorithm,
+      orbitTrapShape: isEnumValue(OrbitTrapShape, orbitTrapShape) ? orbitTrapShape : defaults.orbitTrapShape,
+      autoIterations: query.get(KEYS.autoIterations) === '1',
+      deepZoom: query.get(KEYS.deepZoom) === '1',
+      renderer: isEnumValue(RendererPreference, renderer) ? renderer : defaults.renderer,
+      mandelbulbIterations: Math.max(1, Math.round(parseNumber(query.get(KEYS.mandelbulbIterations), defaults.mandelbulbIterations))),
+    },
+    camera: cameraValues
+      ? readCamera({
+        position: cameraValues.slice(0, 3),
+        orientation: cameraValues.slice(3, 7),
+        target: cameraValues.slice(7, 10),
+        fov: cameraValues[10],
+      }, DEFAULT_CAMERA)
+      : legacyCameraValues
+        ? fromLegacyCamera({
+          rotation: { x: legacyCameraValues[0], y: legacyCameraValues[1] },
+          distance: legacyCameraValues[2],
+          target: { x: legacyCameraValues[3], y: legacyCameraValues[4] },
+        })
+        : DEFAULT_CAMERA,
+  };
+};
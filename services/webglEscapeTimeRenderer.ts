@@ -0,0 +1,214 @@
+import { ColoringAlgorithm, RendererPreference } from '../types';
+import { EscapeTimeParams } from './fractalService';
+import { EscapeTimeFormula, getEscapeTimeVariant, getFormulaDegree, isCustomFormula } from './escapeTimeFormulas';
+import { createPaletteTable, resolvePalette } from './paletteService';
+import { supportsDeepZoom } from './deepZoom';
+import { createOrbitColoring } from './coloringService';
+import { vertexShaderSource } from './mandelbulbShaders';
+import { createCustomFormulaFragmentShader, createEscapeTimeFragmentShader, GPU_MAX_ITERATIONS } from './escapeTimeShaders';
+import { createShader, createProgram } from './webglUtils';
+
+const PALETTE_SIZE = 256;
+// Beyond these magnifications neighbouring pixels collapse onto the same float / double-float coordinate.
+const SINGLE_FLOAT_MAX_ZOOM = 2e3;
+const DOUBLE_FLOAT_MAX_ZOOM = 1e10;
+
+export type RenderBackend = 'gpu' | 'gpu-double' | 'cpu';
+
+export interface EscapeTimeGLRenderer {
+  render: (params: EscapeTimeParams, emulateDouble: boolean) => HTMLCanvasElement;
+  dispose: () => void;
+}
+
+interface CompiledProgram {
+  program: WebGLProgram;
+  shaders: WebGLShader[];
+  uniforms: Record<string, WebGLUniformLocation | null>;
+  positionLocation: number;
+}
+
+const UNIFORM_NAMES = [
+  'u_resolution', 'u_formula', 'u_julia', 'u_maxIterations', 'u_center',
+  'u_pixelSize', 'u_juliaC', 'u_palette', 'u_paletteSize', 'u_coloring', 'u_bailout',
+  'u_paletteMapping', 'u_exponent',
+];
+
+// Colorings that need per-orbit statistics or the whole frame stay on the CPU.
+const GPU_COLORINGS = [ColoringAlgorithm.IterationCount, ColoringAlgorithm.Smooth];
+
+// Shader indices of the quadratic formulas; higher powers of z stay on the CPU.
+const GPU_FORMULAS: Partial<Record<EscapeTimeFormula, number>> = {
+  mandelbrot: 0,
+  burningShip: 1,
+  multicorn: 2,
+  celtic: 3,
+  buffalo: 4,
+  perpendicularBurningShip: 5,
+};
+
+const getGPUFormulaIndex = (params: EscapeTimeParams): number | null => {
+  const variant = getEscapeTimeVariant(params.fractalType);
+  if (!variant || getFormulaDegree(params.fractalType, params.exponent) !== 2) return null;
+  const formula = variant.formula === 'multibrot' ? 'mandelbrot' : variant.formula;
+  return GPU_FORMULAS[formula] ?? null;
+};
+
+// Splits a double into the hi + lo float pair used by the double-float shader.
+const splitDouble = (value: number): [number, number] => {
+  const hi = Math.fround(value);
+  return [hi, value - hi];
+};
+
+// Picks the backend for a frame: the GPU when it is available and precise enough, otherwise the CPU worker pool.
+export const selectRenderBackend = (
+  params: EscapeTimeParams & { paletteCycleSpeed: number; autoIterations: boolean },
+  preference: RendererPreference,
+  gpuAvailable: boolean,
+): RenderBackend => {
+  const isCustom = isCustomFormula(params.fractalType);
+  if (preference === RendererPreference.CPU || !gpuAvailable || (!isCustom && getGPUFormulaIndex(params) === null)) {
+    return 'cpu';
+  }
+  // Perturbation needs arbitrary-precision reference orbits, which only the CPU path computes.
+  if ((params.deepZoom && supportsDeepZoom(params.fractalType)) || params.iterations > GPU_MAX_ITERATIONS) {
+    return 'cpu';
+  }
+  // Palette cycling recolors the retained frame, which only the CPU path produces.
+  if (!GPU_COLORINGS.includes(params.coloringAlgorithm) || params.paletteCycleSpeed > 0) {
+    return 'cpu';
+  }
+  // Auto iterations are raised from the count of pixels left unresolved, which only the CPU path keeps.
+  if (params.autoIterations) {
+    return 'cpu';
+  }
+  if (params.zoom <= SINGLE_FLOAT_MAX_ZOOM) {
+    return 'gpu';
+  }
+  // Custom formulas are only generated for single-precision floats.
+  if (isCustom) {
+    return 'cpu';
+  }
+  if (preference === RendererPreference.GPU || params.zoom <= DOUBLE_FLOAT_MAX_ZOOM) {
+    return 'gpu-double';
+  }
+  return 'cpu';
+};
+
+export const createEscapeTimeGLRenderer = (): EscapeTimeGLRenderer | null => {
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext('webgl', { preserveDrawingBuffer: true, antialias: false });
+  if (!gl) return null;
+
+  // Keyed by 'single', 'double' or the custom formula; only the latest custom formula is kept.
+  const programs = new Map<string, CompiledProgram | null>();
+  let paletteTexture: WebGLTexture | null = gl.createTexture();
+  let uploadedPaletteKey: string | null = null;
+
+  const positionBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+
+  const releaseProgram = (compiled: CompiledProgram | null | undefined) => {
+    if (!compiled) return;
+    gl.deleteProgram(compiled.program);
+    compiled.shaders.forEach((shader) => gl.deleteShader(shader));
+  };
+
+  const getProgram = (key: string, createFragmentShader: () => string): CompiledProgram | null => {
+    if (programs.has(key)) return programs.get(key) ?? null;
+    if (key.startsWith('custom:')) {
+      Array.from(programs.keys()).filter((other) => other.startsWith('custom:')).forEach((other) => {
+        releaseProgram(programs.get(other));
+        programs.delete(other);
+      });
+    }
+    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, createFragmentShader());
+    const program = vertexShader && fragmentShader ? createProgram(gl, vertexShader, fragmentShader) : null;
+    if (!program) {
+      programs.set(key, null);
+      return null;
+    }
+    const uniforms: CompiledProgram['uniforms'] = {};
+    UNIFORM_NAMES.forEach((name) => {
+      uniforms[name] = gl.getUniformLocation(program, name);
+    });
+    const compiled: CompiledProgram = {
+      program,
+      shaders: [vertexShader!, fragmentShader!],
+      uniforms,
+      positionLocation: gl.getAttribLocation(program, 'a_position'),
+    };
+    programs.set(key, compiled);
+    return compiled;
+  };
+
+  const uploadPalette = (params: EscapeTimeParams) => {
+    const gradient = resolvePalette(params);
+    const key = JSON.stringify(gradient);
+    if (uploadedPaletteKey === key) return;
+    gl.bindTexture(gl.TEXTURE_2D, paletteTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, PALETTE_SIZE, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, createPaletteTable(gradient, PALETTE_SIZE));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    uploadedPaletteKey = key;
+  };
+
+  const render = (params: EscapeTimeParams, emulateDouble: boolean) => {
+    const compiled = isCustomFormula(params.fractalType)
+      ? getProgram(`custom:${params.customFormula}\n${params.customBailout}`,
+        () => createCustomFormulaFragmentShader(params.customFormula, params.customBailout))
+      : getProgram(emulateDouble ? 'double' : 'single', () => createEscapeTimeFragmentShader(emulateDouble));
+    if (!compiled) {
+      throw new Error('Failed to compile the escape-time shader.');
+    }
+    const { program, uniforms, positionLocation } = compiled;
+    const { width, height } = params;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+    gl.enableVertexAttribArray(positionLocation);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+    gl.activeTexture(gl.TEXTURE0);
+    uploadPalette(params);
+    gl.bindTexture(gl.TEXTURE_2D, paletteTexture);
+
+    // The view centre is -pan, matching the pixel mapping in fractalService.
+    const [centerXHi, centerXLo] = splitDouble(-params.panX);
+    const [centerYHi, centerYLo] = splitDouble(-params.panY);
+    gl.uniform2f(uniforms.u_resolution, width, height);
+    gl.uniform1i(uniforms.u_formula, getGPUFormulaIndex(params) ?? 0);
+    gl.uniform1i(uniforms.u_julia, getEscapeTimeVariant(params.fractalType)?.isJulia ? 1 : 0);
+    gl.uniform1i(uniforms.u_maxIterations, params.iterations);
+    gl.uniform4f(uniforms.u_center, centerXHi, centerXLo, centerYHi, centerYLo);
+    gl.uniform1f(uniforms.u_pixelSize, 4 / (width * params.zoom));
+    gl.uniform2f(uniforms.u_juliaC, params.cReal, params.cImag);
+    gl.uniform1i(uniforms.u_palette, 0);
+    gl.uniform1f(uniforms.u_paletteSize, PALETTE_SIZE);
+    gl.uniform1i(uniforms.u_coloring, params.coloringAlgorithm === ColoringAlgorithm.Smooth ? 1 : 0);
+    gl.uniform1f(uniforms.u_bailout, createOrbitColoring({ ...params, degree: 2 }).bailout);
+    gl.uniform3f(uniforms.u_paletteMapping, params.paletteOffset, params.paletteRepeat, params.paletteDensity);
+    gl.uniform1f(uniforms.u_exponent, params.exponent);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+
+    return canvas;
+  };
+
+  const dispose = () => {
+    programs.forEach(releaseProgram);
+    programs.clear();
+    gl.deleteBuffer(positionBuffer);
+    gl.deleteTexture(paletteTexture);
+    paletteTexture = null;
+  };
+
+  return { render, dispose };
+};
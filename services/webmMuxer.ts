@@ -0,0 +1,122 @@
+// Minimal WebM (Matroska) writer for a single video track of already-encoded frames, e.g. from WebCodecs.
+
+export interface EncodedFrame {
+  data: Uint8Array;
+  timestamp: number; // microseconds
+  isKeyFrame: boolean;
+}
+
+type EbmlData = Uint8Array | EbmlData[];
+
+const CODEC_IDS: Record<string, string> = { vp8: 'V_VP8', vp09: 'V_VP9', av01: 'V_AV1' };
+// Block timestamps are 16-bit offsets from their cluster's timestamp, in milliseconds.
+const MAX_CLUSTER_SPAN_MS = 30000;
+
+const byteLength = (data: EbmlData): number =>
+  data instanceof Uint8Array ? data.length : data.reduce((sum, part) => sum + byteLength(part), 0);
+
+const flatten = (data: EbmlData, out: Uint8Array[] = []): Uint8Array[] => {
+  if (data instanceof Uint8Array) out.push(data);
+  else data.forEach((part) => flatten(part, out));
+  return out;
+};
+
+const encodeId = (id: number) => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return new Uint8Array(bytes);
+};
+
+// EBML variable-length size: the number of leading zero bits gives the length.
+const encodeSize = (size: number) => {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const element = (id: number, data: EbmlData): EbmlData => [encodeId(id), encodeSize(byteLength(data)), data];
+
+const uint = (id: number, value: number) => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return element(id, new Uint8Array(bytes));
+};
+
+const float = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const string = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+const simpleBlock = (frame: EncodedFrame, relativeTimestamp: number) => {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // track number 1
+  new DataView(header.buffer).setInt16(1, relativeTimestamp);
+  header[3] = frame.isKeyFrame ? 0x80 : 0;
+  return element(0xa3, [header, frame.data]);
+};
+
+export const createWebm = (
+  frames: EncodedFrame[],
+  options: { codec: string; width: number; height: number; duration: number },
+): Blob => {
+  const codecId = CODEC_IDS[options.codec.split('.')[0]];
+  if (!codecId) {
+    throw new Error(`WebM cannot hold ${options.codec} video.`);
+  }
+
+  const header = element(0x1a45dfa3, [
+    uint(0x4286, 1), // EBMLVersion
+    uint(0x42f7, 1), // EBMLReadVersion
+    uint(0x42f2, 4), // EBMLMaxIDLength
+    uint(0x42f3, 8), // EBMLMaxSizeLength
+    string(0x4282, 'webm'), // DocType
+    uint(0x4287, 2), // DocTypeVersion
+    uint(0x4285, 2), // DocTypeReadVersion
+  ]);
+
+  const info = element(0x1549a966, [
+    uint(0x2ad7b1, 1000000), // TimestampScale: milliseconds
+    string(0x4d80, 'Fractal Explorer'), // MuxingApp
+    string(0x5741, 'Fractal Explorer'), // WritingApp
+    float(0x4489, options.duration * 1000), // Duration
+  ]);
+
+  const tracks = element(0x1654ae6b, element(0xae, [
+    uint(0xd7, 1), // TrackNumber
+    uint(0x73c5, 1), // TrackUID
+    uint(0x83, 1), // TrackType: video
+    string(0x86, codecId),
+    element(0xe0, [uint(0xb0, options.width), uint(0xba, options.height)]),
+  ]));
+
+  // Clusters start at key frames so players can seek to them.
+  const clusters: EbmlData[] = [];
+  let clusterStart = 0;
+  let blocks: EbmlData[] = [];
+  const flush = () => {
+    if (blocks.length) clusters.push(element(0x1f43b675, [uint(0xe7, clusterStart), ...blocks]));
+    blocks = [];
+  };
+  frames.forEach((frame) => {
+    const timestamp = Math.round(frame.timestamp / 1000);
+    if (blocks.length === 0 || frame.isKeyFrame || timestamp - clusterStart > MAX_CLUSTER_SPAN_MS) {
+      flush();
+      clusterStart = timestamp;
+    }
+    blocks.push(simpleBlock(frame, timestamp - clusterStart));
+  });
+  flush();
+
+  const segment = element(0x18538067, [info, tracks, ...clusters]);
+  return new Blob(flatten([header, segment]), { type: 'video/webm' });
+};
@@ -2,10 +2,47 @@ export enum FractalType {
   Mandelbrot = 'Mandelbrot',
   Julia = 'Julia',
   BurningShip = 'BurningShip',
+  BurningShipJulia = 'BurningShipJulia',
+  Multibrot = 'Multibrot',
+  MultibrotJulia = 'MultibrotJulia',
+  Tricorn = 'Tricorn',
+  TricornJulia = 'TricornJulia',
+  Celtic = 'Celtic',
+  CelticJulia = 'CelticJulia',
+  Buffalo = 'Buffalo',
+  BuffaloJulia = 'BuffaloJulia',
+  PerpendicularBurningShip = 'PerpendicularBurningShip',
+  PerpendicularBurningShipJulia = 'PerpendicularBurningShipJulia',
+  CustomFormula = 'CustomFormula',
+  CustomFormulaJulia = 'CustomFormulaJulia',
+  Newton = 'Newton',
+  Nova = 'Nova',
+  NovaJulia = 'NovaJulia',
+  MagnetI = 'MagnetI',
+  MagnetIJulia = 'MagnetIJulia',
+  MagnetII = 'MagnetII',
+  MagnetIIJulia = 'MagnetIIJulia',
   Sierpinski = 'Sierpinski',
+  IFS = 'IFS',
+  Flame = 'Flame',
+  LSystem = 'LSystem',
   Mandelbulb = 'Mandelbulb',
+  Mandelbox = 'Mandelbox',
+  MengerSponge = 'MengerSponge',
+  SierpinskiTetrahedron = 'SierpinskiTetrahedron',
+  KaleidoscopicIFS = 'KaleidoscopicIFS',
+  QuaternionJulia = 'QuaternionJulia',
 }
 
+// The 3D fractals, each raymarched with its own distance estimator.
+export type Fractal3DType =
+  | FractalType.Mandelbulb
+  | FractalType.Mandelbox
+  | FractalType.MengerSponge
+  | FractalType.SierpinskiTetrahedron
+  | FractalType.KaleidoscopicIFS
+  | FractalType.QuaternionJulia;
+
 export enum ColorPalette {
   Rainbow = 'Rainbow',
   Viridis = 'Viridis',
@@ -17,14 +54,255 @@ export enum ColorPalette {
   Forest = 'Forest',
 }
 
+export enum GradientInterpolation {
+  RGB = 'RGB',
+  HSL = 'HSL',
+  Step = 'Step',
+}
+
+export interface GradientStop {
+  position: number; // 0..1
+  color: [number, number, number];
+}
+
+export interface PaletteGradient {
+  name: string;
+  stops: GradientStop[];
+  interpolation: GradientInterpolation;
+}
+
+export enum ColoringAlgorithm {
+  IterationCount = 'IterationCount',
+  Smooth = 'Smooth',
+  Histogram = 'Histogram',
+  OrbitTrap = 'OrbitTrap',
+  DistanceEstimation = 'DistanceEstimation',
+  TriangleInequality = 'TriangleInequality',
+}
+
+export enum OrbitTrapShape {
+  Point = 'Point',
+  Line = 'Line',
+  Circle = 'Circle',
+}
+
+export enum RendererPreference {
+  Auto = 'Auto',
+  GPU = 'GPU',
+  CPU = 'CPU',
+}
+
+export enum KeyframeInterpolation {
+  Linear = 'Linear',
+  EaseInOut = 'EaseInOut',
+  Exponential = 'Exponential',
+}
+
+// The affine map (x, y) -> (a x + b y + e, c x + d y + f), in view coordinates.
+export interface AffineCoefficients {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+// A map of an iterated function system, picked by the chaos game with the given relative probability.
+export interface IFSTransform extends AffineCoefficients {
+  probability: number;
+}
+
+// Nonlinear functions of fractal flames. The values are the names used in .flame files.
+export enum FlameVariation {
+  Linear = 'linear',
+  Sinusoidal = 'sinusoidal',
+  Spherical = 'spherical',
+  Swirl = 'swirl',
+  Horseshoe = 'horseshoe',
+  Polar = 'polar',
+  Handkerchief = 'handkerchief',
+  Heart = 'heart',
+  Disc = 'disc',
+  Spiral = 'spiral',
+  Hyperbolic = 'hyperbolic',
+  Diamond = 'diamond',
+  Ex = 'ex',
+  Julia = 'julia',
+  Bent = 'bent',
+  Fisheye = 'fisheye',
+  Exponential = 'exponential',
+  Power = 'power',
+  Cosine = 'cosine',
+  Bubble = 'bubble',
+  Cylinder = 'cylinder',
+  Eyefish = 'eyefish',
+  Tangent = 'tangent',
+  Cross = 'cross',
+}
+
+// A flame transform applies its affine map, then the weighted sum of its variations, then the optional post map.
+// Points take on its palette colour at the rate colorSpeed (0 keeps their colour, 1 replaces it).
+export interface FlameTransform extends IFSTransform {
+  color: number;
+  colorSpeed: number;
+  variations: Partial<Record<FlameVariation, number>>;
+  post: AffineCoefficients | null;
+}
+
+export interface FlameSettings {
+  transforms: FlameTransform[];
+  // Applied to every plotted point but not fed back into the iteration.
+  finalTransform: FlameTransform | null;
+  gamma: number;
+  brightness: number;
+  // How much the gamma correction preserves colour saturation, from 0 (per channel) to 1 (on density only).
+  vibrancy: number;
+  // Histogram cells per pixel along each axis, and chaos-game samples per pixel.
+  supersample: number;
+  quality: number;
+}
+
+// A production of an L-system. The predecessor is one symbol, optionally with formal parameters as in "A(l, w)",
+// which the condition and the parameter expressions of the successor can use. When several rules match a symbol,
+// one is picked at random in proportion to its weight.
+export interface LSystemRule {
+  predecessor: string;
+  condition: string;
+  successor: string;
+  weight: number;
+}
+
+export interface LSystemSettings {
+  axiom: string;
+  rules: LSystemRule[];
+  iterations: number;
+  // Degrees turned by + and -, and the turtle's starting direction (0 is to the right, 90 up).
+  angle: number;
+  heading: number;
+  // Seed for picking among stochastic rules, so a drawing looks the same every time it is rendered.
+  seed: number;
+}
+
+// Distance estimator parameters by name for each 3D fractal. distanceEstimators lists the parameters each one takes,
+// with their ranges and defaults.
+export type Fractal3DSettings = Record<Fractal3DType, Record<string, number>>;
+
+// A directional light that moves with the camera, so the side of the fractal in view stays lit as the camera orbits.
+export interface Light3D {
+  // Where the light comes from, in degrees: to the right of the camera and above it. 0, 0 is straight from the camera.
+  azimuth: number;
+  elevation: number;
+  color: [number, number, number];
+  intensity: number;
+}
+
+export interface Lighting3DSettings {
+  lights: Light3D[];
+  // Material: the share of ambient, diffuse and specular light the surface reflects, and the highlights' sharpness.
+  ambient: number;
+  diffuse: number;
+  specular: number;
+  shininess: number;
+  // Penumbra sharpness of the soft shadows; 0 turns them off.
+  shadowSharpness: number;
+  ambientOcclusion: number;
+  // Density of the fog that fades distant surfaces into the background, and the glow around the fractal's edges.
+  fog: number;
+  glow: number;
+  glowColor: [number, number, number];
+  // Background gradient from the top of the image to the bottom.
+  backgroundTop: [number, number, number];
+  backgroundBottom: [number, number, number];
+}
+
+// How the 3D view refines once the camera stops: the samples averaged per pixel, and the thin lens's aperture (0 for
+// a pinhole) and focus, both relative to the camera's distance from its target.
+export interface Render3DSettings {
+  samples: number;
+  aperture: number;
+  focus: number;
+}
+
+export type Vec3 = [number, number, number];
+
+// A unit quaternion [x, y, z, w].
+export type Quaternion = [number, number, number, number];
+
+export enum CameraMode {
+  Orbit = 'Orbit',
+  Fly = 'Fly',
+}
+
+// The 3D camera. In its own frame it looks down -z with +y up; the orientation turns that frame into world space.
+export interface Camera3D {
+  position: Vec3;
+  orientation: Quaternion;
+  // The point orbiting turns around, which stays straight ahead of the camera.
+  target: Vec3;
+  // Vertical field of view, in degrees.
+  fov: number;
+}
+
+// Whether a parameter-plane fractal shows the Julia set of the point under the cursor, and where.
+export enum DualViewMode {
+  Off = 'Off',
+  Split = 'Split',
+  PictureInPicture = 'PictureInPicture',
+}
+
+export enum MeshFormat {
+  STL = 'STL',
+  OBJ = 'OBJ',
+  PLY = 'PLY',
+}
+
 export interface ControlParams {
   zoom: number;
   iterations: number;
   cReal: number;
   cImag: number;
+  // Power n of z in the Multibrot and Multicorn (Tricorn) formulas; need not be an integer.
+  exponent: number;
+  // Iteration and escape condition of the custom formula types, in the syntax of formulaParser.
+  customFormula: string;
+  customBailout: string;
+  // Polynomial p(z) whose roots the Newton and Nova fractals solve for, and the step size a in z - a p(z)/p'(z).
+  newtonPolynomial: string;
+  relaxation: number;
+  ifsTransforms: IFSTransform[];
+  flame: FlameSettings;
+  lSystem: LSystemSettings;
+  fractal3D: Fractal3DSettings;
+  lighting3D: Lighting3DSettings;
+  render3D: Render3DSettings;
   fractalType: FractalType;
   colorPalette: ColorPalette;
   mandelbulbIterations: number;
+  // Whether iterations follows the zoom depth and the share of unresolved pixels instead of the slider.
+  autoIterations: boolean;
+  deepZoom: boolean;
+  renderer: RendererPreference;
+  coloringAlgorithm: ColoringAlgorithm;
+  orbitTrapShape: OrbitTrapShape;
+  customPalette: PaletteGradient | null;
+  paletteOffset: number;
+  paletteRepeat: number;
+  paletteDensity: number;
+  paletteCycleSpeed: number;
+}
+
+// Pan offsets as decimal strings, so deep-zoom views keep more precision than a double can hold.
+export interface PrecisePan {
+  x: string;
+  y: string;
+}
+
+export interface ViewState {
+  panX: number;
+  panY: number;
+  zoom: number;
+  precisePan: PrecisePan;
 }
 
 export interface RenderParams extends ControlParams {
@@ -32,6 +310,5 @@ export interface RenderParams extends ControlParams {
   height: number;
   panX: number;
   panY: number;
-  cameraDistance: number;
-  cameraTarget: { x: number; y: number };
+  precisePan: PrecisePan;
 }